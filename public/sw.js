@@ -0,0 +1,69 @@
+// App shell cache so the POS still opens when the café Wi-Fi drops.
+// Orders made offline are queued in IndexedDB by the app itself, not here.
+const CACHE_NAME = "pos-shell-v1";
+const APP_SHELL = ["/", "/index.html", "/favicon.ico", "/placeholder.svg"];
+
+// Read-only data the menu needs to render offline. Nothing with customer details goes
+// in here: the cache outlives sign-out and is shared by whoever uses the device next.
+const CACHED_TABLES = ["menu_items", "categories", "modifier_groups", "store_settings"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(caches.open(CACHE_NAME).then((cache) => cache.addAll(APP_SHELL)));
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const networkFirst = async (request, fallbackUrl) => {
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(fallbackUrl || request);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+// Built assets have hashed names, so a cached copy never goes stale
+const cacheFirst = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(CACHE_NAME);
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+const isCachedTable = (url) =>
+  CACHED_TABLES.some((table) => url.pathname === `/rest/v1/${table}`);
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+
+  if (url.origin === self.location.origin) {
+    if (request.mode === "navigate") {
+      event.respondWith(networkFirst(request, "/index.html"));
+    } else if (url.pathname.startsWith("/assets/") || url.pathname.startsWith("/lovable-uploads/")) {
+      event.respondWith(cacheFirst(request));
+    } else {
+      event.respondWith(networkFirst(request));
+    }
+  } else if (isCachedTable(url)) {
+    event.respondWith(networkFirst(request));
+  }
+});
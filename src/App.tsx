@@ -4,17 +4,27 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/hooks/useAuth";
+import { StoreSettingsProvider } from "@/hooks/useStoreSettings";
+import { OfflineSyncProvider } from "@/hooks/useOfflineSync";
+import { BluetoothPrinterProvider } from "@/hooks/useBluetoothPrinter";
+import { ManagerApprovalProvider } from "@/hooks/useManagerApproval";
 import ProtectedRoute from "./components/ProtectedRoute";
 import AuthRedirect from "./components/AuthRedirect";
+import { ROUTE_PERMISSIONS } from "@/lib/permissions";
 import CustomerMenu from "./pages/CustomerMenu";
+import OrderTracking from "./pages/OrderTracking";
 import StaffDashboard from "./pages/StaffDashboard";
 import Auth from "./pages/Auth";
 import MenuManagement from "./pages/MenuManagement";
 import InventoryManagement from "./pages/InventoryManagement";
 import SalesHistory from "./pages/SalesHistory";
+import ShiftManagement from "./pages/ShiftManagement";
 import Reports from "./pages/Reports";
 import StaffManagement from "./pages/StaffManagement";
+import Settings from "./pages/Settings";
+import AuditLog from "./pages/AuditLog";
 import OrderManagement from "./pages/OrderManagement";
+import KitchenDisplay from "./pages/KitchenDisplay";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient({
@@ -29,30 +39,43 @@ const queryClient = new QueryClient({
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <AuthProvider>
-      <TooltipProvider>
-        <Toaster />
-        <Sonner />
-        <BrowserRouter>
-          <AuthRedirect />
-          <Routes>
-            {/* Public customer menu - no auth required */}
-            <Route path="/" element={<CustomerMenu />} />
-            <Route path="/auth" element={<Auth />} />
-            
-            {/* Protected staff routes */}
-            <Route path="/dashboard" element={<ProtectedRoute><StaffDashboard /></ProtectedRoute>} />
-            <Route path="/order-management" element={<ProtectedRoute><OrderManagement /></ProtectedRoute>} />
-            <Route path="/menu" element={<ProtectedRoute><MenuManagement /></ProtectedRoute>} />
-            <Route path="/inventory" element={<ProtectedRoute><InventoryManagement /></ProtectedRoute>} />
-            <Route path="/sales" element={<ProtectedRoute><SalesHistory /></ProtectedRoute>} />
-            <Route path="/reports" element={<ProtectedRoute><Reports /></ProtectedRoute>} />
-            <Route path="/staff" element={<ProtectedRoute><StaffManagement /></ProtectedRoute>} />
-            
-            {/* Catch-all route */}
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
-      </TooltipProvider>
+      <StoreSettingsProvider>
+        <OfflineSyncProvider>
+          <BluetoothPrinterProvider>
+            <ManagerApprovalProvider>
+              <TooltipProvider>
+                <Toaster />
+                <Sonner />
+                <BrowserRouter>
+                  <AuthRedirect />
+                  <Routes>
+                    {/* Public customer menu - no auth required */}
+                    <Route path="/" element={<CustomerMenu />} />
+                    <Route path="/order/:orderNumber" element={<OrderTracking />} />
+                    <Route path="/auth" element={<Auth />} />
+                  
+                    {/* Protected staff routes */}
+                    <Route path="/dashboard" element={<ProtectedRoute allowedRoles={ROUTE_PERMISSIONS["/dashboard"]}><StaffDashboard /></ProtectedRoute>} />
+                    <Route path="/order-management" element={<ProtectedRoute allowedRoles={ROUTE_PERMISSIONS["/order-management"]}><OrderManagement /></ProtectedRoute>} />
+                    <Route path="/kitchen" element={<ProtectedRoute allowedRoles={ROUTE_PERMISSIONS["/kitchen"]}><KitchenDisplay /></ProtectedRoute>} />
+                    <Route path="/menu" element={<ProtectedRoute allowedRoles={ROUTE_PERMISSIONS["/menu"]}><MenuManagement /></ProtectedRoute>} />
+                    <Route path="/inventory" element={<ProtectedRoute allowedRoles={ROUTE_PERMISSIONS["/inventory"]}><InventoryManagement /></ProtectedRoute>} />
+                    <Route path="/sales" element={<ProtectedRoute allowedRoles={ROUTE_PERMISSIONS["/sales"]}><SalesHistory /></ProtectedRoute>} />
+                    <Route path="/shifts" element={<ProtectedRoute allowedRoles={ROUTE_PERMISSIONS["/shifts"]}><ShiftManagement /></ProtectedRoute>} />
+                    <Route path="/reports" element={<ProtectedRoute allowedRoles={ROUTE_PERMISSIONS["/reports"]}><Reports /></ProtectedRoute>} />
+                    <Route path="/staff" element={<ProtectedRoute allowedRoles={ROUTE_PERMISSIONS["/staff"]}><StaffManagement /></ProtectedRoute>} />
+                    <Route path="/audit" element={<ProtectedRoute allowedRoles={ROUTE_PERMISSIONS["/audit"]}><AuditLog /></ProtectedRoute>} />
+                    <Route path="/settings" element={<ProtectedRoute allowedRoles={ROUTE_PERMISSIONS["/settings"]}><Settings /></ProtectedRoute>} />
+                  
+                    {/* Catch-all route */}
+                    <Route path="*" element={<NotFound />} />
+                  </Routes>
+                </BrowserRouter>
+              </TooltipProvider>
+            </ManagerApprovalProvider>
+          </BluetoothPrinterProvider>
+        </OfflineSyncProvider>
+      </StoreSettingsProvider>
     </AuthProvider>
   </QueryClientProvider>
 );
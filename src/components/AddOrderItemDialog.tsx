@@ -0,0 +1,151 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { toast } from "sonner";
+import { Plus, Search } from "lucide-react";
+import { formatPHP } from "@/lib/utils";
+import { ModifierGroup, SelectedModifier, getModifierGroupsForItem } from "@/lib/modifiers";
+import ModifierSelectionDialog from "@/components/ModifierSelectionDialog";
+
+interface MenuItem {
+  id: string;
+  name: string;
+  price: number;
+  category_id: string | null;
+}
+
+interface AddOrderItemDialogProps {
+  order: { id: string; order_number: string } | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onAdded: () => void;
+}
+
+const AddOrderItemDialog = ({ order, isOpen, onClose, onAdded }: AddOrderItemDialogProps) => {
+  const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
+  const [modifierGroups, setModifierGroups] = useState<ModifierGroup[]>([]);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [customizingItem, setCustomizingItem] = useState<MenuItem | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setSearchQuery("");
+      loadMenu();
+    }
+  }, [isOpen]);
+
+  const loadMenu = async () => {
+    const [itemsResult, groupsResult] = await Promise.all([
+      supabase
+        .from("menu_items")
+        .select("id, name, price, category_id")
+        .eq("is_available", true)
+        .order("name"),
+      supabase
+        .from("modifier_groups")
+        .select(`
+          *,
+          modifier_options (*)
+        `)
+        .order("sort_order"),
+    ]);
+
+    if (itemsResult.error || groupsResult.error) {
+      toast.error("Failed to load menu");
+      return;
+    }
+    setMenuItems(itemsResult.data || []);
+    setModifierGroups(groupsResult.data || []);
+  };
+
+  const selectItem = (item: MenuItem) => {
+    if (getModifierGroupsForItem(modifierGroups, item).length > 0) {
+      setCustomizingItem(item);
+      return;
+    }
+    addItem(item, [], "");
+  };
+
+  const addItem = async (item: MenuItem, modifiers: SelectedModifier[], notes: string) => {
+    if (!order) return;
+
+    setIsAdding(true);
+    const { error } = await supabase.rpc("add_order_item", {
+      p_order_id: order.id,
+      p_menu_item_id: item.id,
+      p_modifier_option_ids: modifiers.map(modifier => modifier.modifier_option_id),
+      p_notes: notes || null,
+    });
+    setIsAdding(false);
+
+    if (error) {
+      toast.error(error.message || "Failed to add item");
+      return;
+    }
+    toast.success(`Added ${item.name} to ${order.order_number}`);
+    setCustomizingItem(null);
+    onAdded();
+  };
+
+  const filteredItems = menuItems.filter(item =>
+    item.name.toLowerCase().includes(searchQuery.toLowerCase())
+  );
+
+  return (
+    <>
+      <Dialog open={isOpen} onOpenChange={onClose}>
+        <DialogContent className="max-w-md max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Add Item</DialogTitle>
+            <DialogDescription>{order && `Order: ${order.order_number}`}</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search menu..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+
+            <div className="space-y-2">
+              {filteredItems.map(item => (
+                <div key={item.id} className="flex items-center justify-between p-3 border rounded">
+                  <div>
+                    <p className="font-medium">{item.name}</p>
+                    <p className="text-sm text-muted-foreground">{formatPHP(item.price)}</p>
+                  </div>
+                  <Button size="sm" variant="outline" onClick={() => selectItem(item)} disabled={isAdding}>
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              {filteredItems.length === 0 && (
+                <p className="text-center py-4 text-sm text-muted-foreground">No menu items found</p>
+              )}
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <ModifierSelectionDialog
+        item={customizingItem}
+        groups={customizingItem ? getModifierGroupsForItem(modifierGroups, customizingItem) : []}
+        isOpen={!!customizingItem}
+        onClose={() => setCustomizingItem(null)}
+        onConfirm={(modifiers, notes) => {
+          if (customizingItem) addItem(customizingItem, modifiers, notes);
+        }}
+        confirmLabel="Add to Order"
+      />
+    </>
+  );
+};
+
+export default AddOrderItemDialog;
@@ -7,17 +7,20 @@ const AuthRedirect = () => {
   const navigate = useNavigate();
   const location = useLocation();
 
+  // Customer pages that must stay reachable without signing in
+  const isPublicPath = location.pathname === '/' || location.pathname === '/auth' || location.pathname.startsWith('/order/');
+
   useEffect(() => {
     if (!loading) {
       if (user && location.pathname === '/auth') {
         // If user is logged in and on auth page, redirect to dashboard
         navigate('/dashboard', { replace: true });
-      } else if (!user && location.pathname !== '/' && location.pathname !== '/auth') {
+      } else if (!user && !isPublicPath) {
         // If user is not logged in and trying to access protected route, redirect to auth
         navigate('/auth', { replace: true });
       }
     }
-  }, [user, loading, location.pathname, navigate]);
+  }, [user, loading, location.pathname, isPublicPath, navigate]);
 
   return null;
 };
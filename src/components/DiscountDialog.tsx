@@ -0,0 +1,280 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useManagerApproval } from "@/hooks/useManagerApproval";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { toast } from "@/hooks/use-toast";
+import { Trash2 } from "lucide-react";
+import { formatPHP } from "@/lib/utils";
+import { DiscountType, OrderDiscount, describeDiscountType } from "@/lib/discounts";
+
+interface DiscountDialogProps {
+  order: {
+    id: string;
+    order_number: string;
+    total_amount: number;
+    order_items: {
+      id: string;
+      quantity: number;
+      total_price: number;
+      menu_items: { name: string };
+    }[];
+  } | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+const DiscountDialog = ({ order, isOpen, onClose, onChanged }: DiscountDialogProps) => {
+  const [discountTypes, setDiscountTypes] = useState<DiscountType[]>([]);
+  const [appliedDiscounts, setAppliedDiscounts] = useState<OrderDiscount[]>([]);
+  const [selectedTypeId, setSelectedTypeId] = useState("");
+  const [selectedItemIds, setSelectedItemIds] = useState<string[]>([]);
+  const [idNumber, setIdNumber] = useState("");
+  const [idHolderName, setIdHolderName] = useState("");
+  const [promoCode, setPromoCode] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { withApproval } = useManagerApproval();
+
+  useEffect(() => {
+    if (isOpen && order) {
+      loadDiscountTypes();
+      loadAppliedDiscounts();
+      setSelectedTypeId("");
+      setSelectedItemIds([]);
+      setIdNumber("");
+      setIdHolderName("");
+      setPromoCode("");
+    }
+  }, [isOpen, order?.id]);
+
+  const loadDiscountTypes = async () => {
+    // Promo-code discounts are applied by typing the code, not picked from the list
+    const { data } = await supabase
+      .from("discount_types")
+      .select("*")
+      .eq("is_active", true)
+      .is("code", null)
+      .order("name");
+
+    setDiscountTypes(data || []);
+  };
+
+  const loadAppliedDiscounts = async () => {
+    if (!order) return;
+
+    const { data } = await supabase
+      .from("order_discounts")
+      .select("id, discount_type, discount_amount, order_item_id, id_number, id_holder_name")
+      .eq("order_id", order.id)
+      .order("created_at");
+
+    setAppliedDiscounts(data || []);
+  };
+
+  if (!order) return null;
+
+  const selectedType = discountTypes.find(type => type.id === selectedTypeId);
+  const getItemName = (itemId: string | null) =>
+    order.order_items.find(item => item.id === itemId)?.menu_items?.name;
+
+  const showError = (message: string) => {
+    toast({
+      title: "Discount Failed",
+      description: message,
+      variant: "destructive",
+    });
+  };
+
+  const afterChange = () => {
+    loadAppliedDiscounts();
+    onChanged();
+  };
+
+  const handleApply = async () => {
+    if (!selectedType) return;
+
+    if (selectedType.scope === "item" && selectedItemIds.length === 0) {
+      showError("Select the items to discount.");
+      return;
+    }
+
+    setIsSubmitting(true);
+    // Per-item discounts are recorded once per line
+    const targets = selectedType.scope === "item" ? selectedItemIds : [null];
+    // An approval covers one discount, so a manager approves each line that needs it
+    for (const itemId of targets) {
+      const result = await withApproval(approval => supabase.rpc('apply_discount', {
+        p_order_id: order.id,
+        p_discount_type_id: selectedType.id,
+        p_order_item_id: itemId,
+        p_id_number: idNumber || null,
+        p_id_holder_name: idHolderName || null,
+        ...approval,
+      }));
+
+      if (!result) break;
+      if (result.error) {
+        showError(result.error.message);
+        break;
+      }
+    }
+    setIsSubmitting(false);
+
+    setSelectedTypeId("");
+    setSelectedItemIds([]);
+    afterChange();
+  };
+
+  const handleApplyPromo = async () => {
+    if (!promoCode.trim()) return;
+
+    setIsSubmitting(true);
+    const result = await withApproval(approval => supabase.rpc('apply_discount', {
+      p_order_id: order.id,
+      p_promo_code: promoCode.trim(),
+      ...approval,
+    }));
+    setIsSubmitting(false);
+
+    if (!result) return;
+    if (result.error) {
+      showError(result.error.message);
+    } else {
+      setPromoCode("");
+      afterChange();
+    }
+  };
+
+  const handleRemove = async (discount: OrderDiscount) => {
+    setIsSubmitting(true);
+    const result = await withApproval(approval => supabase.rpc('remove_discount', { p_discount_id: discount.id, ...approval }));
+    setIsSubmitting(false);
+
+    if (!result) return;
+    if (result.error) {
+      showError(result.error.message);
+    } else {
+      afterChange();
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Apply Discount</DialogTitle>
+          <DialogDescription>Order {order.order_number}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {appliedDiscounts.length > 0 && (
+            <div className="space-y-2">
+              {appliedDiscounts.map(discount => (
+                <div key={discount.id} className="flex justify-between items-center border rounded p-2 text-sm">
+                  <div>
+                    <p className="font-medium">
+                      {discount.discount_type}
+                      {discount.order_item_id && ` – ${getItemName(discount.order_item_id) || "item"}`}
+                    </p>
+                    {discount.id_number && (
+                      <p className="text-xs text-muted-foreground">
+                        {discount.id_holder_name} · ID {discount.id_number}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span>-{formatPHP(discount.discount_amount || 0)}</span>
+                    <Button variant="ghost" size="icon" onClick={() => handleRemove(discount)} disabled={isSubmitting}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              <Separator />
+            </div>
+          )}
+
+          <div>
+            <Label>Discount</Label>
+            <Select value={selectedTypeId} onValueChange={(value) => { setSelectedTypeId(value); setSelectedItemIds([]); }}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a discount" />
+              </SelectTrigger>
+              <SelectContent>
+                {discountTypes.map(type => (
+                  <SelectItem key={type.id} value={type.id}>
+                    {type.name} ({describeDiscountType(type)})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {selectedType?.scope === "item" && (
+            <div className="space-y-2">
+              <Label>Items</Label>
+              {order.order_items.map(item => (
+                <div key={item.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    id={`discount_item_${item.id}`}
+                    checked={selectedItemIds.includes(item.id)}
+                    onCheckedChange={(checked) => setSelectedItemIds(checked
+                      ? [...selectedItemIds, item.id]
+                      : selectedItemIds.filter(id => id !== item.id))}
+                  />
+                  <Label htmlFor={`discount_item_${item.id}`} className="flex-1 flex justify-between font-normal">
+                    <span>{item.quantity}x {item.menu_items?.name}</span>
+                    <span>{formatPHP(item.total_price)}</span>
+                  </Label>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {selectedType?.requires_id && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="id_holder_name">Name on ID</Label>
+                <Input id="id_holder_name" value={idHolderName} onChange={(e) => setIdHolderName(e.target.value)} />
+              </div>
+              <div>
+                <Label htmlFor="id_number">ID Number</Label>
+                <Input id="id_number" value={idNumber} onChange={(e) => setIdNumber(e.target.value)} />
+              </div>
+            </div>
+          )}
+
+          <Button className="w-full" onClick={handleApply} disabled={!selectedType || isSubmitting}>
+            Apply Discount
+          </Button>
+
+          <Separator />
+
+          <div className="flex gap-2">
+            <Input
+              placeholder="Promo code"
+              value={promoCode}
+              onChange={(e) => setPromoCode(e.target.value.toUpperCase())}
+            />
+            <Button variant="outline" onClick={handleApplyPromo} disabled={!promoCode.trim() || isSubmitting}>
+              Redeem
+            </Button>
+          </div>
+
+          <div className="flex justify-between text-lg font-bold">
+            <span>Total</span>
+            <span>{formatPHP(order.total_amount)}</span>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DiscountDialog;
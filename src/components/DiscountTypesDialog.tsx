@@ -0,0 +1,267 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Plus, Trash2 } from "lucide-react";
+import { DiscountType, describeDiscountType } from "@/lib/discounts";
+
+interface DiscountTypesDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const emptyForm = {
+  name: "",
+  code: "",
+  value_type: "percentage",
+  value: "",
+  scope: "order",
+  max_amount: "",
+  vat_exempt: false,
+  requires_id: false,
+  stackable: false,
+  requires_approval: false,
+};
+
+const DiscountTypesDialog = ({ isOpen, onClose }: DiscountTypesDialogProps) => {
+  const [discountTypes, setDiscountTypes] = useState<DiscountType[]>([]);
+  const [form, setForm] = useState(emptyForm);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadDiscountTypes();
+    }
+  }, [isOpen]);
+
+  const loadDiscountTypes = async () => {
+    const { data, error } = await supabase
+      .from("discount_types")
+      .select("*")
+      .order("name");
+
+    if (error) {
+      toast.error("Failed to load discounts");
+    } else {
+      setDiscountTypes(data || []);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const value = parseFloat(form.value);
+    if (!value || value <= 0 || (form.value_type === "percentage" && value > 100)) {
+      toast.error("Enter a valid discount value");
+      return;
+    }
+
+    const { error } = await supabase
+      .from("discount_types")
+      .insert({
+        name: form.name,
+        code: form.code.trim() || null,
+        value_type: form.value_type,
+        value,
+        scope: form.scope,
+        max_amount: parseFloat(form.max_amount) || null,
+        vat_exempt: form.vat_exempt,
+        requires_id: form.requires_id,
+        stackable: form.stackable,
+        requires_approval: form.requires_approval,
+      });
+
+    if (error) {
+      toast.error(error.code === "23505" ? "That promo code is already in use" : "Failed to create discount");
+    } else {
+      toast.success("Discount created successfully");
+      await supabase.rpc('log_activity', {
+        action_type: 'CREATE',
+        description_text: `Created discount: ${form.name}`,
+        metadata_json: { action: 'create_discount_type' }
+      });
+      setForm(emptyForm);
+      loadDiscountTypes();
+    }
+  };
+
+  const handleToggleActive = async (discountType: DiscountType, isActive: boolean) => {
+    const { error } = await supabase
+      .from("discount_types")
+      .update({ is_active: isActive })
+      .eq("id", discountType.id);
+
+    if (error) {
+      toast.error("Failed to update discount");
+    } else {
+      loadDiscountTypes();
+    }
+  };
+
+  const handleDelete = async (discountType: DiscountType) => {
+    const { error } = await supabase
+      .from("discount_types")
+      .delete()
+      .eq("id", discountType.id);
+
+    if (error) {
+      // Discounts already applied to orders keep their type
+      toast.error("This discount has been used on orders. Turn it off instead.");
+    } else {
+      await supabase.rpc('log_activity', {
+        action_type: 'DELETE',
+        description_text: `Deleted discount: ${discountType.name}`,
+        metadata_json: { discount_type_id: discountType.id, action: 'delete_discount_type' }
+      });
+      loadDiscountTypes();
+    }
+  };
+
+  const switches = [
+    { key: "vat_exempt", label: "VAT exempt (SC/PWD)" },
+    { key: "requires_id", label: "Requires ID" },
+    { key: "stackable", label: "Stackable" },
+    { key: "requires_approval", label: "Manager only" },
+  ] as const;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Discounts</DialogTitle>
+          <DialogDescription>
+            Discounts cashiers can apply to orders, and promo codes customers can redeem
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {discountTypes.map(discountType => (
+            <div key={discountType.id} className="border rounded p-4 flex justify-between items-start">
+              <div>
+                <h4 className={`font-medium ${discountType.is_active ? "" : "text-muted-foreground line-through"}`}>
+                  {discountType.name}
+                </h4>
+                <p className="text-sm text-muted-foreground">{describeDiscountType(discountType)}</p>
+                <div className="flex gap-2 mt-1">
+                  {discountType.code && <Badge variant="secondary">Code: {discountType.code}</Badge>}
+                  {discountType.requires_id && <Badge variant="outline">ID required</Badge>}
+                  {discountType.requires_approval && <Badge variant="outline">Manager only</Badge>}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={discountType.is_active}
+                  onCheckedChange={(checked) => handleToggleActive(discountType, checked)}
+                />
+                <Button size="sm" variant="destructive" onClick={() => handleDelete(discountType)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          <form onSubmit={handleCreate} className="border-t pt-4 space-y-4">
+            <h4 className="font-medium">New Discount</h4>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="discount_name">Name</Label>
+                <Input
+                  id="discount_name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="e.g. Employee Discount"
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="discount_code">Promo Code (optional)</Label>
+                <Input
+                  id="discount_code"
+                  value={form.code}
+                  onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                  placeholder="e.g. COFFEE10"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-4 gap-4">
+              <div>
+                <Label>Type</Label>
+                <Select value={form.value_type} onValueChange={(value) => setForm({ ...form, value_type: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="percentage">Percentage</SelectItem>
+                    <SelectItem value="fixed">Fixed amount</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="discount_value">{form.value_type === "percentage" ? "Percent" : "Amount"}</Label>
+                <Input
+                  id="discount_value"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={form.value}
+                  onChange={(e) => setForm({ ...form, value: e.target.value })}
+                  required
+                />
+              </div>
+              <div>
+                <Label>Applies To</Label>
+                <Select value={form.scope} onValueChange={(value) => setForm({ ...form, scope: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="order">Whole order</SelectItem>
+                    <SelectItem value="item">Single item</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="discount_max">Max Discount</Label>
+                <Input
+                  id="discount_max"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={form.max_amount}
+                  onChange={(e) => setForm({ ...form, max_amount: e.target.value })}
+                  placeholder="No cap"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              {switches.map(({ key, label }) => (
+                <div key={key} className="flex items-center gap-2">
+                  <Switch
+                    id={`discount_${key}`}
+                    checked={form[key]}
+                    onCheckedChange={(checked) => setForm({ ...form, [key]: checked })}
+                  />
+                  <Label htmlFor={`discount_${key}`}>{label}</Label>
+                </div>
+              ))}
+            </div>
+
+            <Button type="submit">
+              <Plus className="h-4 w-4 mr-2" />
+              Create Discount
+            </Button>
+          </form>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DiscountTypesDialog;
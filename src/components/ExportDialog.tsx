@@ -0,0 +1,187 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Download } from "lucide-react";
+import { EXPORT_FORMATS, ExportFormat, exportRows } from "@/lib/export";
+import { EXPORT_DATASETS, ExportDatasetId } from "@/lib/exportDatasets";
+import { getBusinessDayRange } from "@/lib/businessDay";
+
+interface ExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  defaultRange: { startDate: string; endDate: string };
+  defaultDataset?: ExportDatasetId;
+}
+
+const ExportDialog = ({ isOpen, onClose, defaultRange, defaultDataset = "orders" }: ExportDialogProps) => {
+  const { settings } = useStoreSettings();
+  const [datasetId, setDatasetId] = useState<ExportDatasetId>(defaultDataset);
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [range, setRange] = useState(defaultRange);
+  const [selectedColumns, setSelectedColumns] = useState<string[]>(() =>
+    EXPORT_DATASETS.find(d => d.id === defaultDataset).columns.map(column => column.key)
+  );
+  const [isExporting, setIsExporting] = useState(false);
+
+  const dataset = EXPORT_DATASETS.find(d => d.id === datasetId);
+
+  useEffect(() => {
+    if (isOpen) {
+      setRange(defaultRange);
+    }
+  }, [isOpen]);
+
+  const changeDataset = (id: ExportDatasetId) => {
+    setDatasetId(id);
+    setSelectedColumns(EXPORT_DATASETS.find(d => d.id === id).columns.map(column => column.key));
+  };
+
+  const toggleColumn = (key: string, checked: boolean) => {
+    setSelectedColumns(checked
+      ? dataset.columns.filter(column => column.key === key || selectedColumns.includes(column.key)).map(column => column.key)
+      : selectedColumns.filter(selected => selected !== key));
+  };
+
+  const handleExport = async () => {
+    if (!range.startDate || !range.endDate || range.endDate < range.startDate) {
+      toast.error("Choose a valid date range");
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      const rows = await dataset.fetch(getBusinessDayRange(settings, range.startDate, range.endDate));
+      if (rows.length === 0) {
+        toast.info(`No ${dataset.label.toLowerCase()} in that date range`);
+        return;
+      }
+
+      await exportRows(format, {
+        fileName: `${dataset.id}-${range.startDate}-to-${range.endDate}`,
+        title: dataset.label,
+        subtitle: `Business days ${range.startDate} to ${range.endDate} (${settings.timezone})`,
+        timeZone: settings.timezone,
+        columns: dataset.columns.filter(column => selectedColumns.includes(column.key)),
+        rows,
+      });
+
+      await supabase.rpc('log_activity', {
+        action_type: 'EXPORT',
+        description_text: `Exported ${dataset.label.toLowerCase()} for ${range.startDate} to ${range.endDate}`,
+        metadata_json: { dataset: dataset.id, format, rows: rows.length, action: 'export_report' }
+      });
+      toast.success(`Exported ${rows.length} row(s)`);
+      onClose();
+    } catch (error) {
+      console.error("Error exporting:", error);
+      toast.error("Failed to export");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Export</DialogTitle>
+          <DialogDescription>
+            Download records for the accountant. Dates are business days in {settings.timezone} time.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>Records</Label>
+              <Select value={datasetId} onValueChange={(value) => changeDataset(value as ExportDatasetId)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPORT_DATASETS.map(d => (
+                    <SelectItem key={d.id} value={d.id}>{d.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Format</Label>
+              <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPORT_FORMATS.map(f => (
+                    <SelectItem key={f.value} value={f.value}>{f.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="export_start">Start Date</Label>
+              <Input
+                id="export_start"
+                type="date"
+                value={range.startDate}
+                onChange={(e) => setRange({ ...range, startDate: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="export_end">End Date</Label>
+              <Input
+                id="export_end"
+                type="date"
+                value={range.endDate}
+                onChange={(e) => setRange({ ...range, endDate: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <Label>Columns</Label>
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                onClick={() => setSelectedColumns(dataset.columns.map(column => column.key))}
+              >
+                Select all
+              </Button>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+              {dataset.columns.map(column => (
+                <div key={column.key} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`export_${column.key}`}
+                    checked={selectedColumns.includes(column.key)}
+                    onCheckedChange={(checked) => toggleColumn(column.key, checked === true)}
+                  />
+                  <Label htmlFor={`export_${column.key}`} className="font-normal">{column.label}</Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <Button onClick={handleExport} disabled={isExporting || selectedColumns.length === 0} className="w-full">
+            <Download className="h-4 w-4 mr-2" />
+            {isExporting ? "Exporting..." : "Export"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExportDialog;
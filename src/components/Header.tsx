@@ -1,4 +1,5 @@
 import React from 'react';
+import { useStoreSettings } from '@/hooks/useStoreSettings';
 
 interface HeaderProps {
   title: string;
@@ -6,19 +7,20 @@ interface HeaderProps {
 }
 
 const Header = ({ title, children }: HeaderProps) => {
+  const { settings } = useStoreSettings();
   return (
     <header className="bg-primary text-primary-foreground shadow-lg">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="flex items-center justify-between h-16">
           <div className="flex items-center space-x-3">
             <img 
-              src="/lovable-uploads/de766a0c-8555-4067-98ad-1830ddc6138a.png" 
-              alt="Orijins Coffee House" 
+              src={settings.logo_url || undefined} 
+              alt={settings.business_name} 
               className="h-8 w-8"
             />
             <div>
               <h1 className="text-xl font-semibold">{title}</h1>
-              <p className="text-xs text-primary-foreground/80">Orijins Coffee House</p>
+              <p className="text-xs text-primary-foreground/80">{settings.business_name}</p>
             </div>
           </div>
           {children && (
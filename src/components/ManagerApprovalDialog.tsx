@@ -0,0 +1,126 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ShieldCheck } from "lucide-react";
+import { MANAGERS } from "@/lib/permissions";
+import { ApprovalAction, ManagerApproval } from "@/lib/approvals";
+
+interface ManagerApprovalDialogProps {
+  isOpen: boolean;
+  action: ApprovalAction | null;
+  // Why approval is needed
+  message: string;
+  onApprove: (approval: ManagerApproval) => void;
+  onCancel: () => void;
+}
+
+// The PIN is checked here, by itself, so wrong tries are counted and can lock a manager out
+const ManagerApprovalDialog = ({ isOpen, action, message, onApprove, onCancel }: ManagerApprovalDialogProps) => {
+  const [managers, setManagers] = useState<{ user_id: string; full_name: string | null }[]>([]);
+  const [approverId, setApproverId] = useState("");
+  const [approverPin, setApproverPin] = useState("");
+  const [pinError, setPinError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadManagers();
+      setApproverPin("");
+      setPinError(null);
+    }
+  }, [isOpen]);
+
+  const loadManagers = async () => {
+    const { data } = await supabase
+      .from("profiles")
+      .select("user_id, full_name")
+      .in("role", MANAGERS)
+      .order("full_name");
+
+    setManagers(data || []);
+  };
+
+  const isValid = !!approverId && approverPin.length >= 4 && !!action;
+
+  const handleApprove = async () => {
+    if (!isValid || isChecking) return;
+
+    setIsChecking(true);
+    const { data, error } = await supabase.rpc("approve_with_pin", {
+      p_action: action,
+      p_manager_id: approverId,
+      p_pin: approverPin,
+    });
+    setIsChecking(false);
+
+    const result = data as { approved: boolean; approval_id?: string; message?: string } | null;
+    if (error || !result?.approved) {
+      setPinError(error?.message || result?.message || "Approval failed.");
+      setApproverPin("");
+      return;
+    }
+
+    onApprove({ p_approval_id: result.approval_id });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Manager Approval
+          </DialogTitle>
+          <DialogDescription>{message}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label>Manager</Label>
+            <Select value={approverId} onValueChange={setApproverId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a manager" />
+              </SelectTrigger>
+              <SelectContent>
+                {managers.map(manager => (
+                  <SelectItem key={manager.user_id} value={manager.user_id}>
+                    {manager.full_name || "Unnamed"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="approver_pin">PIN</Label>
+            <Input
+              id="approver_pin"
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              maxLength={6}
+              value={approverPin}
+              onChange={(e) => setApproverPin(e.target.value.replace(/\D/g, ""))}
+              onKeyDown={(e) => e.key === "Enter" && handleApprove()}
+            />
+            {pinError && <p className="text-xs text-destructive mt-1">{pinError}</p>}
+          </div>
+
+          <div className="flex gap-2">
+            <Button variant="outline" className="flex-1" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button className="flex-1" onClick={handleApprove} disabled={!isValid || isChecking}>
+              {isChecking ? "Checking..." : "Approve"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ManagerApprovalDialog;
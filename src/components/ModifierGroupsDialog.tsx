@@ -0,0 +1,348 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Plus, Trash2 } from "lucide-react";
+import { formatPHP } from "@/lib/utils";
+import { ModifierGroup } from "@/lib/modifiers";
+
+interface ModifierGroupsDialogProps {
+  menuItems: { id: string; name: string; size?: string }[];
+  categories: { id: string; name: string }[];
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const emptyGroupForm = {
+  name: "",
+  target: "category" as "category" | "menu_item",
+  target_id: "",
+  is_required: false,
+  min_selections: "0",
+  max_selections: "1",
+};
+
+const ModifierGroupsDialog = ({ menuItems, categories, isOpen, onClose }: ModifierGroupsDialogProps) => {
+  const [groups, setGroups] = useState<ModifierGroup[]>([]);
+  const [groupForm, setGroupForm] = useState(emptyGroupForm);
+  const [optionForms, setOptionForms] = useState<Record<string, { name: string; price_delta: string }>>({});
+
+  useEffect(() => {
+    if (isOpen) {
+      loadGroups();
+    }
+  }, [isOpen]);
+
+  const loadGroups = async () => {
+    const { data, error } = await supabase
+      .from("modifier_groups")
+      .select(`
+        *,
+        modifier_options (*)
+      `)
+      .order("sort_order");
+
+    if (error) {
+      toast.error("Failed to load modifier groups");
+    } else {
+      setGroups(data || []);
+    }
+  };
+
+  const getTargetName = (group: ModifierGroup) => {
+    if (group.menu_item_id) {
+      const item = menuItems.find(i => i.id === group.menu_item_id);
+      return item ? `${item.name}${item.size ? ` (${item.size})` : ""}` : "Menu item";
+    }
+    return `All ${categories.find(c => c.id === group.category_id)?.name || "category"} items`;
+  };
+
+  const handleCreateGroup = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const min = parseInt(groupForm.min_selections) || 0;
+    const max = parseInt(groupForm.max_selections) || 1;
+    if (!groupForm.target_id) {
+      toast.error("Select the menu item or category for this group");
+      return;
+    }
+    if ((groupForm.is_required && min < 1) || min > max) {
+      toast.error("Check the minimum and maximum selections");
+      return;
+    }
+
+    const { error } = await supabase
+      .from("modifier_groups")
+      .insert({
+        name: groupForm.name,
+        menu_item_id: groupForm.target === "menu_item" ? groupForm.target_id : null,
+        category_id: groupForm.target === "category" ? groupForm.target_id : null,
+        is_required: groupForm.is_required,
+        min_selections: min,
+        max_selections: max,
+        sort_order: groups.length,
+      });
+
+    if (error) {
+      toast.error("Failed to create modifier group");
+    } else {
+      toast.success("Modifier group created successfully");
+      await supabase.rpc('log_activity', {
+        action_type: 'CREATE',
+        description_text: `Created modifier group: ${groupForm.name}`,
+        metadata_json: { action: 'create_modifier_group' }
+      });
+      setGroupForm(emptyGroupForm);
+      loadGroups();
+    }
+  };
+
+  const handleDeleteGroup = async (group: ModifierGroup) => {
+    const { error } = await supabase
+      .from("modifier_groups")
+      .delete()
+      .eq("id", group.id);
+
+    if (error) {
+      toast.error("Failed to delete modifier group");
+    } else {
+      await supabase.rpc('log_activity', {
+        action_type: 'DELETE',
+        description_text: `Deleted modifier group: ${group.name}`,
+        metadata_json: { modifier_group_id: group.id, action: 'delete_modifier_group' }
+      });
+      loadGroups();
+    }
+  };
+
+  const handleAddOption = async (group: ModifierGroup) => {
+    const form = optionForms[group.id];
+    if (!form?.name) {
+      toast.error("Enter an option name");
+      return;
+    }
+
+    const { error } = await supabase
+      .from("modifier_options")
+      .insert({
+        group_id: group.id,
+        name: form.name,
+        price_delta: parseFloat(form.price_delta) || 0,
+        sort_order: group.modifier_options.length,
+      });
+
+    if (error) {
+      toast.error("Failed to add option");
+    } else {
+      setOptionForms({ ...optionForms, [group.id]: { name: "", price_delta: "" } });
+      loadGroups();
+    }
+  };
+
+  const handleToggleOption = async (optionId: string, isAvailable: boolean) => {
+    const { error } = await supabase
+      .from("modifier_options")
+      .update({ is_available: isAvailable })
+      .eq("id", optionId);
+
+    if (error) {
+      toast.error("Failed to update option");
+    } else {
+      loadGroups();
+    }
+  };
+
+  const handleDeleteOption = async (optionId: string) => {
+    const { error } = await supabase
+      .from("modifier_options")
+      .delete()
+      .eq("id", optionId);
+
+    if (error) {
+      toast.error("Failed to delete option");
+    } else {
+      loadGroups();
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Modifiers & Add-ons</DialogTitle>
+          <DialogDescription>
+            Options customers can pick for a menu item or every item in a category
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {groups.map(group => (
+            <div key={group.id} className="border rounded p-4 space-y-3">
+              <div className="flex justify-between items-start">
+                <div>
+                  <h4 className="font-medium">{group.name}</h4>
+                  <p className="text-sm text-muted-foreground">{getTargetName(group)}</p>
+                  <div className="flex gap-2 mt-1">
+                    <Badge variant={group.is_required ? "default" : "outline"}>
+                      {group.is_required ? "Required" : "Optional"}
+                    </Badge>
+                    <Badge variant="secondary">
+                      Choose {group.min_selections}-{group.max_selections}
+                    </Badge>
+                  </div>
+                </div>
+                <Button size="sm" variant="destructive" onClick={() => handleDeleteGroup(group)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+
+              <div className="space-y-2">
+                {group.modifier_options
+                  .sort((a, b) => a.sort_order - b.sort_order)
+                  .map(option => (
+                    <div key={option.id} className="flex justify-between items-center text-sm">
+                      <span className={option.is_available ? "" : "text-muted-foreground line-through"}>
+                        {option.name} ({formatPHP(option.price_delta)})
+                      </span>
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          checked={option.is_available}
+                          onCheckedChange={(checked) => handleToggleOption(option.id, checked)}
+                        />
+                        <Button size="sm" variant="ghost" onClick={() => handleDeleteOption(option.id)}>
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+              </div>
+
+              <div className="flex gap-2">
+                <Input
+                  placeholder="Option name (e.g. Oat milk)"
+                  value={optionForms[group.id]?.name || ""}
+                  onChange={(e) => setOptionForms({
+                    ...optionForms,
+                    [group.id]: { price_delta: "", ...optionForms[group.id], name: e.target.value }
+                  })}
+                />
+                <Input
+                  type="number"
+                  step="0.01"
+                  placeholder="+₱"
+                  className="w-28"
+                  value={optionForms[group.id]?.price_delta || ""}
+                  onChange={(e) => setOptionForms({
+                    ...optionForms,
+                    [group.id]: { name: "", ...optionForms[group.id], price_delta: e.target.value }
+                  })}
+                />
+                <Button size="sm" variant="outline" onClick={() => handleAddOption(group)}>
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          <form onSubmit={handleCreateGroup} className="border-t pt-4 space-y-4">
+            <h4 className="font-medium">New Modifier Group</h4>
+            <div>
+              <Label htmlFor="group_name">Name</Label>
+              <Input
+                id="group_name"
+                value={groupForm.name}
+                onChange={(e) => setGroupForm({ ...groupForm, name: e.target.value })}
+                placeholder="e.g. Milk Type"
+                required
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Applies To</Label>
+                <Select
+                  value={groupForm.target}
+                  onValueChange={(value: "category" | "menu_item") => setGroupForm({ ...groupForm, target: value, target_id: "" })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="category">Category</SelectItem>
+                    <SelectItem value="menu_item">Menu Item</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>{groupForm.target === "category" ? "Category" : "Menu Item"}</Label>
+                <Select
+                  value={groupForm.target_id || undefined}
+                  onValueChange={(value) => setGroupForm({ ...groupForm, target_id: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(groupForm.target === "category" ? categories : menuItems).map(target => (
+                      <SelectItem key={target.id} value={target.id}>
+                        {target.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4 items-end">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="group_required"
+                  checked={groupForm.is_required}
+                  onCheckedChange={(checked) => setGroupForm({
+                    ...groupForm,
+                    is_required: checked,
+                    min_selections: checked && groupForm.min_selections === "0" ? "1" : groupForm.min_selections
+                  })}
+                />
+                <Label htmlFor="group_required">Required</Label>
+              </div>
+              <div>
+                <Label htmlFor="min_selections">Min</Label>
+                <Input
+                  id="min_selections"
+                  type="number"
+                  min="0"
+                  value={groupForm.min_selections}
+                  onChange={(e) => setGroupForm({ ...groupForm, min_selections: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="max_selections">Max</Label>
+                <Input
+                  id="max_selections"
+                  type="number"
+                  min="1"
+                  value={groupForm.max_selections}
+                  onChange={(e) => setGroupForm({ ...groupForm, max_selections: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <Button type="submit">
+              <Plus className="h-4 w-4 mr-2" />
+              Create Group
+            </Button>
+          </form>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ModifierGroupsDialog;
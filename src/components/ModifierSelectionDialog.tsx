@@ -0,0 +1,137 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "@/hooks/use-toast";
+import { formatPHP } from "@/lib/utils";
+import {
+  ModifierGroup,
+  SelectedModifier,
+  getMinSelections,
+  getModifiersTotal,
+  toSelectedModifiers,
+  validateModifierSelection,
+} from "@/lib/modifiers";
+
+interface ModifierSelectionDialogProps {
+  item: {
+    name: string;
+    price: number;
+  } | null;
+  groups: ModifierGroup[];
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (modifiers: SelectedModifier[], notes: string) => void;
+  confirmLabel?: string;
+}
+
+const ModifierSelectionDialog = ({ item, groups, isOpen, onClose, onConfirm, confirmLabel = "Add to Cart" }: ModifierSelectionDialogProps) => {
+  const [selectedOptionIds, setSelectedOptionIds] = useState<string[]>([]);
+  const [notes, setNotes] = useState("");
+
+  useEffect(() => {
+    if (isOpen) {
+      setSelectedOptionIds([]);
+      setNotes("");
+    }
+  }, [isOpen, item]);
+
+  const toggleOption = (group: ModifierGroup, optionId: string) => {
+    const groupOptionIds = group.modifier_options.map(option => option.id);
+
+    if (selectedOptionIds.includes(optionId)) {
+      setSelectedOptionIds(selectedOptionIds.filter(id => id !== optionId));
+    } else if (group.max_selections === 1) {
+      // Single choice groups behave like radio buttons
+      setSelectedOptionIds([...selectedOptionIds.filter(id => !groupOptionIds.includes(id)), optionId]);
+    } else if (selectedOptionIds.filter(id => groupOptionIds.includes(id)).length < group.max_selections) {
+      setSelectedOptionIds([...selectedOptionIds, optionId]);
+    }
+  };
+
+  const handleConfirm = () => {
+    const error = validateModifierSelection(groups, selectedOptionIds);
+    if (error) {
+      toast({
+        title: "Choose your options",
+        description: error,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    onConfirm(toSelectedModifiers(groups, selectedOptionIds), notes.trim());
+  };
+
+  if (!item) return null;
+
+  const linePrice = Number(item.price) + getModifiersTotal(toSelectedModifiers(groups, selectedOptionIds));
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-md max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{item.name}</DialogTitle>
+          <DialogDescription>Customize your order</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {groups.map(group => {
+            const min = getMinSelections(group);
+            return (
+              <div key={group.id} className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <h4 className="font-medium">{group.name}</h4>
+                  <Badge variant={min > 0 ? "default" : "outline"}>
+                    {min > 0 ? "Required" : "Optional"}
+                    {group.max_selections > 1 && ` · up to ${group.max_selections}`}
+                  </Badge>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {group.modifier_options
+                    .filter(option => option.is_available)
+                    .sort((a, b) => a.sort_order - b.sort_order)
+                    .map(option => (
+                      <Button
+                        key={option.id}
+                        size="sm"
+                        variant={selectedOptionIds.includes(option.id) ? "default" : "outline"}
+                        onClick={() => toggleOption(group, option.id)}
+                      >
+                        {option.name}
+                        {Number(option.price_delta) !== 0 && (
+                          <span className="ml-1 text-xs opacity-80">
+                            {Number(option.price_delta) > 0 ? "+" : ""}{formatPHP(option.price_delta)}
+                          </span>
+                        )}
+                      </Button>
+                    ))}
+                </div>
+              </div>
+            );
+          })}
+
+          <div>
+            <Label htmlFor="item_notes">Item Notes (Optional)</Label>
+            <Textarea
+              id="item_notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value.slice(0, 200))}
+              placeholder="e.g. less ice"
+              rows={2}
+              className="bg-background"
+            />
+          </div>
+
+          <Button onClick={handleConfirm} className="w-full bg-primary hover:bg-primary/90" size="lg">
+            {confirmLabel} - {formatPHP(linePrice)}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ModifierSelectionDialog;
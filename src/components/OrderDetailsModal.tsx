@@ -6,12 +6,34 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { toast } from "sonner";
-import { Edit, Trash2, Printer, Save, X, Bluetooth } from "lucide-react";
+import { Textarea } from "@/components/ui/textarea";
+import { Edit, Ban, Printer, Save, X, Bluetooth, Plus, Minus, Tag } from "lucide-react";
 import { formatPHP } from "@/lib/utils";
+import { formatModifiers } from "@/lib/modifiers";
+import { getTrackingUrl } from "@/lib/orderTracking";
+import { OrderPayment, getPaymentMethodLabel } from "@/lib/payments";
+import { OrderDiscount } from "@/lib/discounts";
+import {
+  buildOrderReceipt,
+  getPaperColumns,
+  getReceiptDeductions,
+  getReceiptPayments,
+  getVatBreakdown,
+  renderHtml,
+  toReceiptItems,
+} from "@/lib/receipt";
 import { useBluetoothPrinter } from "@/hooks/useBluetoothPrinter";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { useAuth } from "@/hooks/useAuth";
+import { useManagerApproval } from "@/hooks/useManagerApproval";
+import { MANAGERS, hasRole } from "@/lib/permissions";
+import AddOrderItemDialog from "@/components/AddOrderItemDialog";
+import OrderStatusBadge from "@/components/OrderStatusBadge";
+import OrderTimeline from "@/components/OrderTimeline";
+import { logOrderPrint } from "@/lib/orderTimeline";
+import { ORDER_TRANSITIONS, getStatusLabel, isOrderStatus } from "@/lib/orderStatus";
 
 interface OrderItem {
   id: string;
@@ -20,10 +42,17 @@ interface OrderItem {
   total_price: number;
   special_instructions?: string;
   menu_item_id: string;
+  tax_type: string;
+  voided_at: string | null;
+  void_reason: string | null;
   menu_items?: {
     name: string;
     description: string;
   };
+  order_item_modifiers?: {
+    option_name: string;
+    price_delta: number;
+  }[];
 }
 
 interface Order {
@@ -33,11 +62,17 @@ interface Order {
   total_amount: number;
   tax_amount: number;
   discount_amount: number;
+  vat_exempt_amount: number;
+  vatable_sales: number;
+  vat_exempt_sales: number;
+  zero_rated_sales: number;
+  or_number: string | null;
   payment_method: string;
   status: string;
   created_at: string;
   updated_at: string;
   cashier_id?: string;
+  tracking_token: string;
 }
 
 interface OrderDetailsModalProps {
@@ -50,10 +85,24 @@ interface OrderDetailsModalProps {
 const OrderDetailsModal = ({ orderId, isOpen, onClose, onOrderUpdated }: OrderDetailsModalProps) => {
   const [order, setOrder] = useState<Order | null>(null);
   const [orderItems, setOrderItems] = useState<OrderItem[]>([]);
+  const [payments, setPayments] = useState<OrderPayment[]>([]);
+  const [discounts, setDiscounts] = useState<OrderDiscount[]>([]);
   const [isEditing, setIsEditing] = useState(false);
   const [editedOrder, setEditedOrder] = useState<Partial<Order>>({});
   const [loading, setLoading] = useState(false);
+  const [isAddItemOpen, setIsAddItemOpen] = useState(false);
+  // A line, or the whole order, waiting for a void reason
+  const [voidTarget, setVoidTarget] = useState<OrderItem | "order" | null>(null);
+  const [voidReason, setVoidReason] = useState("");
+  const [priceTarget, setPriceTarget] = useState<OrderItem | null>(null);
+  const [newPrice, setNewPrice] = useState("");
+  const [priceReason, setPriceReason] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [historyVersion, setHistoryVersion] = useState(0);
   const bluetoothPrinter = useBluetoothPrinter();
+  const { settings } = useStoreSettings();
+  const { role } = useAuth();
+  const { withApproval } = useManagerApproval();
 
   useEffect(() => {
     if (orderId && isOpen) {
@@ -61,10 +110,11 @@ const OrderDetailsModal = ({ orderId, isOpen, onClose, onOrderUpdated }: OrderDe
     }
   }, [orderId, isOpen]);
 
-  const loadOrderDetails = async () => {
+  // Edits reload quietly so the dialog doesn't flash back to the spinner
+  const loadOrderDetails = async (showSpinner = true) => {
     if (!orderId) return;
     
-    setLoading(true);
+    if (showSpinner) setLoading(true);
     
     // Load order details
     const { data: orderData, error: orderError } = await supabase
@@ -90,160 +140,202 @@ const OrderDetailsModal = ({ orderId, isOpen, onClose, onOrderUpdated }: OrderDe
         menu_items (
           name,
           description
+        ),
+        order_item_modifiers (
+          option_name,
+          price_delta
         )
       `)
-      .eq("order_id", orderId);
+      .eq("order_id", orderId)
+      .order("created_at");
 
     if (itemsError) {
       toast.error("Failed to load order items");
     } else {
       setOrderItems(itemsData || []);
     }
+
+    const { data: paymentsData, error: paymentsError } = await supabase
+      .from("order_payments")
+      .select("id, method, amount, amount_tendered, change_given, reference_number")
+      .eq("order_id", orderId)
+      .order("created_at");
+
+    if (paymentsError) {
+      toast.error("Failed to load payments");
+    } else {
+      setPayments(paymentsData || []);
+    }
+
+    const { data: discountsData } = await supabase
+      .from("order_discounts")
+      .select("id, discount_type, discount_amount, order_item_id, id_number, id_holder_name")
+      .eq("order_id", orderId)
+      .order("created_at");
+
+    setDiscounts(discountsData || []);
     
     setLoading(false);
   };
 
+  const refreshOrder = () => {
+    onOrderUpdated();
+    loadOrderDetails(false);
+    setHistoryVersion(version => version + 1);
+  };
+
+  // Both changes go through the database so they land in the order's audit trail
   const handleSaveChanges = async () => {
     if (!order || !orderId) return;
 
-    const { error } = await supabase
-      .from("orders")
-      .update({
-        customer_name: editedOrder.customer_name,
-        status: editedOrder.status,
-        payment_method: editedOrder.payment_method,
-        total_amount: editedOrder.total_amount,
-        tax_amount: editedOrder.tax_amount,
-        discount_amount: editedOrder.discount_amount,
-      })
-      .eq("id", orderId);
+    const { error } = await supabase.rpc("update_order_details", {
+      p_order_id: orderId,
+      p_customer_name: editedOrder.customer_name || "",
+    });
 
     if (error) {
-      toast.error("Failed to update order");
-    } else {
-      toast.success("Order updated successfully");
-      // Log activity
-      await supabase.rpc('log_activity', {
-        action_type: 'UPDATE',
-        description_text: `Updated order: ${order.order_number}`,
-        metadata_json: { order_id: orderId, action: 'update_order' }
-      });
-      setIsEditing(false);
-      onOrderUpdated();
-      loadOrderDetails();
+      toast.error(error.message || "Failed to update order");
+      return;
     }
+
+    if (editedOrder.status !== order.status) {
+      const response = await withApproval(approval => supabase.rpc("apply_order_action", {
+        p_order_id: orderId,
+        p_action_type: "update_status",
+        p_new_status: editedOrder.status,
+        p_expected_status: order.status,
+        ...approval,
+      }));
+      if (!response) return;
+
+      const { data, error: statusError } = response;
+      const result = data as { applied: boolean; current_status?: string } | null;
+
+      if (statusError || !result?.applied) {
+        toast.error(result?.current_status
+          ? `Order ${order.order_number} is now ${result.current_status}. Reopen it and try again.`
+          : statusError?.message || "Failed to update status");
+        refreshOrder();
+        return;
+      }
+    }
+
+    toast.success("Order updated successfully");
+    setIsEditing(false);
+    refreshOrder();
   };
 
-  const handleDeleteOrder = async () => {
-    if (!order || !orderId) return;
-    
-    if (!confirm("Are you sure you want to delete this order? This action cannot be undone.")) {
+  const handleQuantityChange = async (item: OrderItem, quantity: number) => {
+    setIsSubmitting(true);
+    const { error } = await supabase.rpc("update_order_item_quantity", {
+      p_order_item_id: item.id,
+      p_quantity: quantity,
+    });
+    setIsSubmitting(false);
+
+    if (error) {
+      toast.error(error.message || "Failed to change quantity");
       return;
     }
+    refreshOrder();
+  };
 
-    // Delete order items first
-    await supabase.from("order_items").delete().eq("order_id", orderId);
-    
-    // Delete the order
-    const { error } = await supabase
-      .from("orders")
-      .delete()
-      .eq("id", orderId);
+  const handleVoid = async () => {
+    if (!order || !voidTarget) return;
 
-    if (error) {
-      toast.error("Failed to delete order");
-    } else {
-      toast.success("Order deleted successfully");
-      // Log activity
-      await supabase.rpc('log_activity', {
-        action_type: 'DELETE',
-        description_text: `Deleted order: ${order.order_number}`,
-        metadata_json: { order_id: orderId, action: 'delete_order' }
-      });
-      onOrderUpdated();
-      onClose();
+    if (!voidReason.trim()) {
+      toast.error("Enter a reason for the void");
+      return;
     }
+
+    setIsSubmitting(true);
+    const result = voidTarget === "order"
+      ? await withApproval(approval => supabase.rpc("void_order", { p_order_id: order.id, p_reason: voidReason, ...approval }))
+      : await withApproval(approval => supabase.rpc("void_order_item", { p_order_item_id: voidTarget.id, p_reason: voidReason, ...approval }));
+    setIsSubmitting(false);
+
+    if (!result) return;
+    if (result.error) {
+      toast.error(result.error.message || "Failed to void");
+      return;
+    }
+
+    toast.success(voidTarget === "order" ? `Order ${order.order_number} voided` : "Item voided");
+    setVoidTarget(null);
+    setVoidReason("");
+    refreshOrder();
+  };
+
+  const handlePriceOverride = async () => {
+    if (!priceTarget) return;
+
+    const unitPrice = parseFloat(newPrice);
+    if (isNaN(unitPrice) || unitPrice < 0) {
+      toast.error("Enter a valid price");
+      return;
+    }
+    if (!priceReason.trim()) {
+      toast.error("Enter a reason for the price change");
+      return;
+    }
+
+    setIsSubmitting(true);
+    const result = await withApproval(approval => supabase.rpc("override_order_item_price", {
+      p_order_item_id: priceTarget.id,
+      p_unit_price: unitPrice,
+      p_reason: priceReason,
+      ...approval,
+    }));
+    setIsSubmitting(false);
+
+    if (!result) return;
+    if (result.error) {
+      toast.error(result.error.message || "Failed to change the price");
+      return;
+    }
+
+    toast.success("Price changed");
+    setPriceTarget(null);
+    refreshOrder();
   };
 
-  const handlePrintOrder = () => {
+  const handleItemAdded = () => {
+    setIsAddItemOpen(false);
+    refreshOrder();
+  };
+
+  const activeItems = orderItems.filter(item => !item.voided_at);
+
+  const getReceiptDocument = () => buildOrderReceipt({
+    settings,
+    order,
+    items: toReceiptItems(activeItems),
+    deductions: getReceiptDeductions(order, discounts),
+    vatBreakdown: getVatBreakdown(order),
+    payments: getReceiptPayments(order, payments),
+    trackingUrl: getTrackingUrl(order.order_number, order.tracking_token),
+  });
+
+  const handlePrintOrder = async () => {
     if (!order) return;
-    
-    const printContent = `
-      <div style="font-family: Arial, sans-serif; max-width: 300px; margin: 0 auto;">
-        <h2 style="text-align: center;">Orijins Coffee House</h2>
-        <p style="text-align: center;">418 General Luna Street</p>
-        <p style="text-align: center;">09610537663</p>
-        <hr>
-        <p><strong>INV#:</strong> ${order.order_number}</p>
-        <p><strong>DATE:</strong> ${new Date(order.created_at).toLocaleDateString('en-GB')} <strong>TIME:</strong> ${new Date(order.created_at).toLocaleTimeString('en-GB', { hour12: false })}</p>
-        <hr>
-        ${orderItems.map(item => `
-          <div>
-            <p><strong>${item.menu_items?.name}${item.special_instructions ? ` (${item.special_instructions})` : ''}</strong></p>
-            <p>${item.quantity}.0 x ${formatPHP(item.unit_price).replace('₱', '')} ${formatPHP(item.total_price)}</p>
-          </div>
-        `).join('')}
-        <hr>
-        <p>${orderItems.reduce((total, item) => total + item.quantity, 0)}.0 Item(s)</p>
-        <p><strong>SUBTOTAL ${formatPHP(order.total_amount)}</strong></p>
-        <p style="font-size: 18px;"><strong>TOTAL ${formatPHP(order.total_amount)}</strong></p>
-        <hr>
-        <p><strong>PAYMENT RECEIVED:</strong></p>
-        <p>${order.payment_method} ${formatPHP(order.total_amount)}</p>
-        <p><strong>CHANGE AMOUNT:</strong> 0.00</p>
-        <br>
-        <p>Acknowledgement Receipt</p>
-        <p style="text-align: center;">Thank you!</p>
-      </div>
-    `;
+
+    const printContent = await renderHtml(getReceiptDocument(), getPaperColumns(settings.paper_width));
 
     const printWindow = window.open('', '_blank');
     if (printWindow) {
       printWindow.document.write(printContent);
       printWindow.document.close();
       printWindow.print();
+      await logOrderPrint(order, "receipt");
+      setHistoryVersion(version => version + 1);
     }
   };
 
   const handleBluetoothPrint = async () => {
     if (!order) return;
-    
-    // Format for 58mm thermal printer
-    const receiptText = `
-        Orijins Coffee House
-        418 General Luna Street
-        09610537663
---------------------------------
-INV#: ${order.order_number}
-DATE: ${new Date(order.created_at).toLocaleDateString('en-GB')} TIME: ${new Date(order.created_at).toLocaleTimeString('en-GB', { hour12: false })}
---------------------------------
-${orderItems.map(item => 
-  `${item.menu_items?.name}${item.special_instructions ? ` (${item.special_instructions})` : ''}\n${item.quantity}.0 x ${formatPHP(item.unit_price).replace('₱', '')} ${formatPHP(item.total_price)}`
-).join('\n')}
---------------------------------
-${orderItems.reduce((total, item) => total + item.quantity, 0)}.0 Item(s)
-SUBTOTAL ${formatPHP(order.total_amount)}
-
-TOTAL ${formatPHP(order.total_amount)}
---------------------------------
-PAYMENT RECEIVED:
-${order.payment_method} ${formatPHP(order.total_amount)}
-CHANGE AMOUNT: 0.00
-
-Acknowledgement Receipt
-Thank you!
-    `;
-
-    await bluetoothPrinter.print(receiptText);
-  };
-
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case "completed": return "default";
-      case "pending": return "secondary";
-      case "cancelled": return "destructive";
-      default: return "outline";
-    }
+    await bluetoothPrinter.print(getReceiptDocument(), { label: `Receipt ${order.order_number}` });
+    await logOrderPrint(order, "receipt");
+    setHistoryVersion(version => version + 1);
   };
 
   if (loading) {
@@ -266,184 +358,353 @@ Thank you!
     );
   }
 
+  // Lines can change until the order is paid; after that it's a refund
+  const canEditLines = ["pending", "preparing", "ready"].includes(order.status) && payments.length === 0;
+  // Cashiers can void too when a manager approves it with their PIN
+  const canVoid = hasRole(role, MANAGERS) || settings.approval_rules.void;
+  const canVoidOrder = canVoid && !["cancelled", "refunded"].includes(order.status) && payments.length === 0;
+
   return (
-    <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
-        <DialogHeader>
-          <DialogTitle className="flex items-center justify-between">
-            <span>Order Details - {order.order_number}</span>
-            <div className="flex gap-2">
-              {!isEditing ? (
-                <>
-                  <Button size="sm" variant="outline" onClick={() => setIsEditing(true)}>
-                    <Edit className="h-4 w-4" />
-                  </Button>
-                  <Button size="sm" variant="outline" onClick={handlePrintOrder}>
-                    <Printer className="h-4 w-4" />
-                  </Button>
-                  <Button 
-                    size="sm" 
-                    variant={bluetoothPrinter.isConnected ? "default" : "outline"} 
-                    onClick={bluetoothPrinter.isConnected ? handleBluetoothPrint : bluetoothPrinter.connect}
-                    disabled={bluetoothPrinter.isConnecting}
-                  >
-                    <Bluetooth className="h-4 w-4" />
-                  </Button>
-                  <Button size="sm" variant="destructive" onClick={handleDeleteOrder}>
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
-                </>
-              ) : (
-                <>
-                  <Button size="sm" onClick={handleSaveChanges}>
-                    <Save className="h-4 w-4" />
-                  </Button>
-                  <Button size="sm" variant="outline" onClick={() => setIsEditing(false)}>
-                    <X className="h-4 w-4" />
-                  </Button>
-                </>
-              )}
-            </div>
-          </DialogTitle>
-          <DialogDescription>
-            View and manage order information
-          </DialogDescription>
-        </DialogHeader>
-
-        <div className="space-y-6">
-          {/* Order Information */}
-          <Card>
-            <CardHeader>
-              <CardTitle>Order Information</CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <Label htmlFor="customer_name">Customer Name</Label>
-                  {isEditing ? (
-                    <Input
-                      id="customer_name"
-                      value={editedOrder.customer_name || ""}
-                      onChange={(e) => setEditedOrder({ ...editedOrder, customer_name: e.target.value })}
-                    />
-                  ) : (
-                    <p className="text-sm">{order.customer_name || "Walk-in customer"}</p>
-                  )}
-                </div>
-                
-                <div>
-                  <Label htmlFor="status">Status</Label>
-                  {isEditing ? (
-                    <Select 
-                      value={editedOrder.status} 
-                      onValueChange={(value) => setEditedOrder({ ...editedOrder, status: value })}
+    <>
+      <Dialog open={isOpen} onOpenChange={onClose}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center justify-between">
+              <span>Order Details - {order.order_number}</span>
+              <div className="flex gap-2">
+                {!isEditing ? (
+                  <>
+                    <Button size="sm" variant="outline" onClick={() => setIsEditing(true)}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={handlePrintOrder}>
+                      <Printer className="h-4 w-4" />
+                    </Button>
+                    <Button 
+                      size="sm" 
+                      variant={bluetoothPrinter.isConnected ? "default" : "outline"} 
+                      onClick={bluetoothPrinter.isConnected ? handleBluetoothPrint : bluetoothPrinter.connect}
+                      disabled={bluetoothPrinter.isConnecting}
                     >
-                      <SelectTrigger>
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="pending">Pending</SelectItem>
-                        <SelectItem value="completed">Completed</SelectItem>
-                        <SelectItem value="cancelled">Cancelled</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  ) : (
-                    <Badge variant={getStatusColor(order.status) as any}>
-                      {order.status}
-                    </Badge>
-                  )}
-                </div>
+                      <Bluetooth className="h-4 w-4" />
+                    </Button>
+                    {canVoidOrder && (
+                      <Button size="sm" variant="destructive" onClick={() => setVoidTarget("order")}>
+                        <Ban className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </>
+                ) : (
+                  <>
+                    <Button size="sm" onClick={handleSaveChanges}>
+                      <Save className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setIsEditing(false)}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
               </div>
+            </DialogTitle>
+            <DialogDescription>
+              View and manage order information
+            </DialogDescription>
+          </DialogHeader>
 
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <Label>Created Date</Label>
-                  <p className="text-sm">{new Date(order.created_at).toLocaleString()}</p>
+          <div className="space-y-6">
+            {/* Order Information */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Order Information</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="customer_name">Customer Name</Label>
+                    {isEditing ? (
+                      <Input
+                        id="customer_name"
+                        value={editedOrder.customer_name || ""}
+                        onChange={(e) => setEditedOrder({ ...editedOrder, customer_name: e.target.value })}
+                      />
+                    ) : (
+                      <p className="text-sm">{order.customer_name || "Walk-in customer"}</p>
+                    )}
+                  </div>
+                  
+                  <div>
+                    <Label htmlFor="status">Status</Label>
+                    {isEditing ? (
+                      <Select 
+                        value={editedOrder.status} 
+                        onValueChange={(value) => setEditedOrder({ ...editedOrder, status: value })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {/* Only the moves the order can actually make from where it is; paid orders are refunded, not cancelled */}
+                          {[order.status, ...(isOrderStatus(order.status) ? ORDER_TRANSITIONS[order.status] : [])]
+                            .filter(status => status !== "cancelled" || payments.length === 0)
+                            .map(status => (
+                              <SelectItem key={status} value={status}>{getStatusLabel(status)}</SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <OrderStatusBadge status={order.status} />
+                    )}
+                  </div>
                 </div>
-                
-                <div>
-                  <Label htmlFor="payment_method">Payment Method</Label>
-                  {isEditing ? (
-                    <Select 
-                      value={editedOrder.payment_method} 
-                      onValueChange={(value) => setEditedOrder({ ...editedOrder, payment_method: value })}
-                    >
-                      <SelectTrigger>
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="cash">Cash</SelectItem>
-                        <SelectItem value="card">Card</SelectItem>
-                        <SelectItem value="digital">Digital</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  ) : (
-                    <p className="text-sm capitalize">{order.payment_method}</p>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label>Created Date</Label>
+                    <p className="text-sm">{new Date(order.created_at).toLocaleString()}</p>
+                  </div>
+                  
+                  <div>
+                    <Label htmlFor="payment_method">Payment Method</Label>
+                    {payments.length > 0 ? (
+                      <div className="text-sm space-y-1">
+                        {payments.map(payment => (
+                          <p key={payment.id}>
+                            {getPaymentMethodLabel(payment.method)} {formatPHP(payment.amount_tendered)}
+                            {payment.reference_number && <span className="text-muted-foreground"> #{payment.reference_number}</span>}
+                          </p>
+                        ))}
+                        {payments.some(payment => Number(payment.change_given) > 0) && (
+                          <p className="text-muted-foreground">
+                            Change {formatPHP(payments.reduce((sum, payment) => sum + Number(payment.change_given), 0))}
+                          </p>
+                        )}
+                      </div>
+                    ) : (
+                      <p className="text-sm capitalize">{order.payment_method}</p>
+                    )}
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Order Items */}
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <div className="space-y-1.5">
+                  <CardTitle>Order Items</CardTitle>
+                  {isEditing && !canEditLines && (
+                    <CardDescription>Items can't be changed once an order is paid or closed.</CardDescription>
                   )}
                 </div>
-              </div>
-            </CardContent>
-          </Card>
-
-          {/* Order Items */}
-          <Card>
-            <CardHeader>
-              <CardTitle>Order Items</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-3">
-                {orderItems.map((item) => (
-                  <div key={item.id} className="flex justify-between items-center p-3 border rounded">
-                    <div className="flex-1">
-                      <h4 className="font-medium">{item.menu_items?.name}</h4>
-                      <p className="text-sm text-muted-foreground">
-                      Qty: {item.quantity} × {formatPHP(item.unit_price)}
-                      </p>
-                      {item.special_instructions && (
-                        <p className="text-xs text-muted-foreground italic">
-                          Note: {item.special_instructions}
+                {isEditing && canEditLines && (
+                  <Button size="sm" variant="outline" onClick={() => setIsAddItemOpen(true)}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Item
+                  </Button>
+                )}
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-3">
+                  {orderItems.map((item) => (
+                    <div key={item.id} className={`flex justify-between items-center p-3 border rounded ${item.voided_at ? "opacity-60" : ""}`}>
+                      <div className="flex-1">
+                        <h4 className={`font-medium ${item.voided_at ? "line-through" : ""}`}>{item.menu_items?.name}</h4>
+                        {item.order_item_modifiers?.length > 0 && (
+                          <p className="text-xs text-muted-foreground">
+                            {formatModifiers(item.order_item_modifiers)}
+                          </p>
+                        )}
+                        <p className="text-sm text-muted-foreground">
+                        Qty: {item.quantity} × {formatPHP(item.unit_price)}
                         </p>
+                        {item.special_instructions && (
+                          <p className="text-xs text-muted-foreground italic">
+                            Note: {item.special_instructions}
+                          </p>
+                        )}
+                        {item.voided_at && (
+                          <p className="text-xs text-destructive">
+                            Voided{item.void_reason && `: ${item.void_reason}`}
+                          </p>
+                        )}
+                      </div>
+                      {isEditing && canEditLines && !item.voided_at && (
+                        <div className="flex items-center gap-2 mr-4">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleQuantityChange(item, item.quantity - 1)}
+                            disabled={isSubmitting || item.quantity <= 1}
+                          >
+                            <Minus className="h-3 w-3" />
+                          </Button>
+                          <span className="w-6 text-center">{item.quantity}</span>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleQuantityChange(item, item.quantity + 1)}
+                            disabled={isSubmitting || item.quantity >= 99}
+                          >
+                            <Plus className="h-3 w-3" />
+                          </Button>
+                          {/* The last line can't be voided on its own; void the order instead */}
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => {
+                              setPriceTarget(item);
+                              setNewPrice(String(item.unit_price));
+                              setPriceReason("");
+                            }}
+                            disabled={isSubmitting}
+                          >
+                            <Tag className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => setVoidTarget(item)}
+                            disabled={isSubmitting || activeItems.length <= 1 || !canVoid}
+                          >
+                            <Ban className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </div>
                       )}
+                      <div className="text-right">
+                        <p className={`font-medium ${item.voided_at ? "line-through" : ""}`}>{formatPHP(item.total_price)}</p>
+                      </div>
                     </div>
-                    <div className="text-right">
-                      <p className="font-medium">{formatPHP(item.total_price)}</p>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Order Summary */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Order Summary</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-2">
+                  <div className="flex justify-between">
+                    <span>Subtotal:</span>
+                    <span>{formatPHP(getReceiptDeductions(order, discounts).subtotal)}</span>
+                  </div>
+                  {getReceiptDeductions(order, discounts).lines.map((line, index) => (
+                    <div key={index} className="flex justify-between">
+                      <span>{line.label.replace("LESS ", "Less ")}:</span>
+                      <span>-{formatPHP(line.amount)}</span>
                     </div>
+                  ))}
+                  <Separator />
+                  <div className="flex justify-between text-lg font-bold">
+                    <span>Total:</span>
+                    <span>{formatPHP(order.total_amount)}</span>
                   </div>
-                ))}
-              </div>
-            </CardContent>
-          </Card>
-
-          {/* Order Summary */}
-          <Card>
-            <CardHeader>
-              <CardTitle>Order Summary</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-2">
-                <div className="flex justify-between">
-                  <span>Subtotal:</span>
-                  <span>{formatPHP(order.total_amount - order.tax_amount)}</span>
-                </div>
-                <div className="flex justify-between">
-                  <span>Tax:</span>
-                  <span>{formatPHP(order.tax_amount)}</span>
-                </div>
-                <div className="flex justify-between">
-                  <span>Discount:</span>
-                  <span>-{formatPHP(order.discount_amount)}</span>
-                </div>
-                <Separator />
-                <div className="flex justify-between text-lg font-bold">
-                  <span>Total:</span>
-                  <span>{formatPHP(order.total_amount)}</span>
+                  {getVatBreakdown(order).map(line => (
+                    <div key={line.label} className="flex justify-between text-sm text-muted-foreground">
+                      <span>{line.label}:</span>
+                      <span>{formatPHP(line.amount)}</span>
+                    </div>
+                  ))}
+                  {order.or_number && (
+                    <div className="flex justify-between text-sm text-muted-foreground">
+                      <span>OR Number:</span>
+                      <span>{order.or_number}</span>
+                    </div>
+                  )}
                 </div>
-              </div>
-            </CardContent>
-          </Card>
-        </div>
-      </DialogContent>
-    </Dialog>
+              </CardContent>
+            </Card>
+
+            {/* Order History */}
+            {hasRole(role, MANAGERS) && (
+              <OrderTimeline orderId={order.id} refreshKey={historyVersion} />
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AddOrderItemDialog
+        order={order}
+        isOpen={isAddItemOpen}
+        onClose={() => setIsAddItemOpen(false)}
+        onAdded={handleItemAdded}
+      />
+
+      <Dialog
+        open={!!voidTarget}
+        onOpenChange={(open) => {
+          if (!open) {
+            setVoidTarget(null);
+            setVoidReason("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{voidTarget === "order" ? "Void Order" : "Void Item"}</DialogTitle>
+            <DialogDescription>
+              {voidTarget === "order"
+                ? `Order ${order.order_number} will be cancelled and kept on record.`
+                : voidTarget && `${voidTarget.quantity} × ${voidTarget.menu_items?.name} will be removed from the total.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="void_reason">Reason</Label>
+              <Textarea
+                id="void_reason"
+                value={voidReason}
+                onChange={(e) => setVoidReason(e.target.value)}
+                placeholder="e.g. Wrong item punched in"
+                rows={2}
+              />
+            </div>
+            <Button variant="destructive" onClick={handleVoid} disabled={isSubmitting} className="w-full">
+              {isSubmitting ? "Voiding..." : "Confirm Void"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!priceTarget} onOpenChange={(open) => !open && setPriceTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Change Price</DialogTitle>
+            <DialogDescription>
+              {priceTarget && `${priceTarget.quantity} × ${priceTarget.menu_items?.name}, now ${formatPHP(priceTarget.unit_price)} each.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="override_price">New Unit Price</Label>
+              <Input
+                id="override_price"
+                type="number"
+                min="0"
+                step="0.01"
+                value={newPrice}
+                onChange={(e) => setNewPrice(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="override_reason">Reason</Label>
+              <Textarea
+                id="override_reason"
+                value={priceReason}
+                onChange={(e) => setPriceReason(e.target.value)}
+                placeholder="e.g. Price matched the menu board"
+                rows={2}
+              />
+            </div>
+            <Button onClick={handlePriceOverride} disabled={isSubmitting} className="w-full">
+              {isSubmitting ? "Saving..." : "Change Price"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
   );
 };
 
@@ -0,0 +1,16 @@
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { getStatusClassName, getStatusLabel } from "@/lib/orderStatus";
+
+interface OrderStatusBadgeProps {
+  status: string;
+  className?: string;
+}
+
+const OrderStatusBadge = ({ status, className }: OrderStatusBadgeProps) => (
+  <Badge variant="outline" className={cn("border-transparent", getStatusClassName(status), className)}>
+    {getStatusLabel(status)}
+  </Badge>
+);
+
+export default OrderStatusBadge;
@@ -0,0 +1,93 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "sonner";
+import { formatPHP } from "@/lib/utils";
+import {
+  OrderTimelineEntry,
+  getEntryAmount,
+  getEntryChanges,
+  getEntryDetail,
+  getEntryTitle,
+} from "@/lib/orderTimeline";
+
+interface OrderTimelineProps {
+  orderId: string;
+  // Changes whenever the order might have new history, e.g. after an edit or a print
+  refreshKey?: string | number;
+}
+
+const OrderTimeline = ({ orderId, refreshKey }: OrderTimelineProps) => {
+  const [entries, setEntries] = useState<OrderTimelineEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadTimeline();
+  }, [orderId, refreshKey]);
+
+  const loadTimeline = async () => {
+    const { data, error } = await supabase.rpc("get_order_timeline", { p_order_id: orderId });
+
+    if (error) {
+      toast.error(error.message || "Failed to load order history");
+    } else {
+      setEntries((data as unknown as OrderTimelineEntry[]) || []);
+    }
+    setLoading(false);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>History</CardTitle>
+        <CardDescription>Everything done to this order and who did it</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading history...</p>
+        ) : (
+          <ol className="relative border-l ml-2 space-y-4">
+            {entries.map((entry, index) => {
+              const amount = getEntryAmount(entry);
+              const detail = getEntryDetail(entry);
+              return (
+                <li key={index} className="ml-4">
+                  <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-primary" />
+                  <div className="flex justify-between gap-4">
+                    <div>
+                      <h4 className="font-medium">
+                        {getEntryTitle(entry)}
+                        {entry.item && <span className="font-normal"> · {entry.item}</span>}
+                      </h4>
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(entry.at).toLocaleString()}
+                        {" · "}
+                        {entry.actor_name || (entry.type === "created" ? "Customer" : "Unknown staff")}
+                        {entry.approver_id && entry.approver_id !== entry.actor_id && (
+                          <> · Approved by {entry.approver_name || "a manager"}</>
+                        )}
+                      </p>
+                    </div>
+                    {amount !== null && (
+                      <p className={`font-medium whitespace-nowrap ${amount < 0 ? "text-destructive" : ""}`}>
+                        {amount < 0 ? "-" : ""}{formatPHP(Math.abs(amount))}
+                      </p>
+                    )}
+                  </div>
+                  {getEntryChanges(entry).map(change => (
+                    <p key={change} className="text-sm">{change}</p>
+                  ))}
+                  {detail && <p className="text-sm text-muted-foreground">{detail}</p>}
+                  {entry.reason && <p className="text-sm">Reason: {entry.reason}</p>}
+                  {entry.notes && <p className="text-sm text-muted-foreground italic">Note: {entry.notes}</p>}
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OrderTimeline;
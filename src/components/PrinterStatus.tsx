@@ -0,0 +1,195 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Printer, RefreshCw, RotateCcw, Trash2 } from "lucide-react";
+import { useBluetoothPrinter } from "@/hooks/useBluetoothPrinter";
+import { PrintJobStatus } from "@/lib/printQueue";
+import { Printer as StationPrinter } from "@/lib/printers";
+import { cn } from "@/lib/utils";
+
+interface PrinterStatusProps {
+  className?: string;
+}
+
+const statusVariant: Record<PrintJobStatus, "default" | "secondary" | "destructive"> = {
+  queued: "secondary",
+  printing: "default",
+  failed: "destructive",
+};
+
+const PrinterStatus = ({ className }: PrinterStatusProps) => {
+  const {
+    isConnected,
+    isConnecting,
+    isPaired,
+    deviceName,
+    jobs,
+    autoPrint,
+    stationId,
+    connect,
+    disconnect,
+    retryJob,
+    removeJob,
+    setAutoPrint,
+    setStationId,
+  } = useBluetoothPrinter();
+  const [open, setOpen] = useState(false);
+  const [stations, setStations] = useState<StationPrinter[]>([]);
+
+  useEffect(() => {
+    if (open) {
+      loadStations();
+    }
+  }, [open]);
+
+  const loadStations = async () => {
+    const { data, error } = await supabase
+      .from("printers")
+      .select("*")
+      .eq("connection", "bluetooth")
+      .eq("is_active", true)
+      .order("name");
+
+    if (error) {
+      console.error("Error loading station printers:", error);
+    } else {
+      setStations(data || []);
+    }
+  };
+
+  const queued = jobs.length > 0 ? ` · ${jobs.length} queued` : "";
+  const label = isConnected ? deviceName : isPaired ? "Reconnecting" : "No printer";
+
+  return (
+    <>
+      <Badge
+        variant={isPaired && !isConnected ? "destructive" : "outline"}
+        className={cn("gap-2 cursor-pointer", className)}
+        onClick={() => setOpen(true)}
+        title="Printer and print queue"
+      >
+        {isPaired && !isConnected ? <RefreshCw className="h-3 w-3 animate-spin" /> : <Printer className="h-3 w-3" />}
+        {label}{queued}
+      </Badge>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Printer</DialogTitle>
+            <DialogDescription>
+              {isConnected
+                ? `Connected to ${deviceName}`
+                : isPaired
+                  ? `${deviceName} is out of reach. Jobs print once it reconnects.`
+                  : "Pair a Bluetooth receipt printer to print tickets and receipts."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="flex gap-2">
+              <Button onClick={connect} disabled={isConnecting} className="flex-1">
+                <Printer className="h-4 w-4 mr-2" />
+                {isConnecting ? "Connecting..." : isPaired ? "Pair a different printer" : "Pair printer"}
+              </Button>
+              {isPaired && (
+                <Button variant="outline" onClick={disconnect}>
+                  Forget
+                </Button>
+              )}
+            </div>
+
+            {isPaired && stations.length > 0 && (
+              <div className="flex items-center justify-between gap-4">
+                <Label>Station</Label>
+                <Select
+                  value={stationId || "till"}
+                  onValueChange={value => setStationId(value === "till" ? null : value)}
+                >
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="till">This till only</SelectItem>
+                    {stations.map(station => (
+                      <SelectItem key={station.id} value={station.id}>
+                        {station.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="kitchen-on-approve">Print kitchen ticket when an order is approved</Label>
+                <Switch
+                  id="kitchen-on-approve"
+                  checked={autoPrint.kitchenOnApprove}
+                  onCheckedChange={checked => setAutoPrint({ ...autoPrint, kitchenOnApprove: checked })}
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="receipt-on-complete">Print receipt when an order is completed</Label>
+                <Switch
+                  id="receipt-on-complete"
+                  checked={autoPrint.receiptOnComplete}
+                  onCheckedChange={checked => setAutoPrint({ ...autoPrint, receiptOnComplete: checked })}
+                />
+              </div>
+            </div>
+
+            <div>
+              <h4 className="text-sm font-medium mb-2">Print queue</h4>
+              {jobs.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nothing waiting to print</p>
+              ) : (
+                <div className="space-y-2 max-h-64 overflow-y-auto">
+                  {jobs.map(job => (
+                    <div key={job.id} className="flex items-center justify-between gap-2 rounded-md border p-2">
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm font-medium truncate">{job.label}</span>
+                          <Badge variant={statusVariant[job.status]}>{job.status}</Badge>
+                        </div>
+                        {job.printer && (
+                          <p className="text-xs text-muted-foreground truncate">To {job.printer.name}</p>
+                        )}
+                        {job.last_error && (
+                          <p className="text-xs text-muted-foreground truncate">{job.last_error}</p>
+                        )}
+                      </div>
+                      <div className="flex gap-1 shrink-0">
+                        {job.status === "failed" && (
+                          <Button size="icon" variant="ghost" onClick={() => retryJob(job.id)} title="Retry">
+                            <RotateCcw className="h-4 w-4" />
+                          </Button>
+                        )}
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => removeJob(job.id)}
+                          disabled={job.status === "printing"}
+                          title="Remove"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default PrinterStatus;
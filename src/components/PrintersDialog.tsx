@@ -0,0 +1,262 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Plus, Trash2 } from "lucide-react";
+import { PRINTER_CONNECTIONS, Printer } from "@/lib/printers";
+
+interface PrintersDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface CategoryRoute {
+  id: string;
+  name: string;
+  printer_id: string | null;
+}
+
+const TILL_PRINTER = "till";
+
+const emptyForm = {
+  name: "",
+  connection: "bluetooth",
+  address: "",
+};
+
+const PrintersDialog = ({ isOpen, onClose }: PrintersDialogProps) => {
+  const [printers, setPrinters] = useState<Printer[]>([]);
+  const [categories, setCategories] = useState<CategoryRoute[]>([]);
+  const [form, setForm] = useState(emptyForm);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadPrinters();
+      loadCategories();
+    }
+  }, [isOpen]);
+
+  const loadPrinters = async () => {
+    const { data, error } = await supabase
+      .from("printers")
+      .select("*")
+      .order("name");
+
+    if (error) {
+      toast.error("Failed to load printers");
+    } else {
+      setPrinters(data || []);
+    }
+  };
+
+  const loadCategories = async () => {
+    const { data, error } = await supabase
+      .from("categories")
+      .select("id, name, printer_id")
+      .order("name");
+
+    if (error) {
+      toast.error("Failed to load categories");
+    } else {
+      setCategories(data || []);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const address = form.address.trim();
+    if (form.connection === "network" && !/^https?:\/\//.test(address)) {
+      toast.error("Enter the print bridge URL, e.g. http://192.168.1.50:8080/print");
+      return;
+    }
+
+    const { error } = await supabase
+      .from("printers")
+      .insert({
+        name: form.name,
+        connection: form.connection,
+        address: form.connection === "network" ? address : null,
+      });
+
+    if (error) {
+      toast.error("Failed to add printer");
+    } else {
+      toast.success("Printer added successfully");
+      await supabase.rpc('log_activity', {
+        action_type: 'CREATE',
+        description_text: `Added printer: ${form.name}`,
+        metadata_json: { action: 'create_printer' }
+      });
+      setForm(emptyForm);
+      loadPrinters();
+    }
+  };
+
+  const handleToggleActive = async (printer: Printer, isActive: boolean) => {
+    const { error } = await supabase
+      .from("printers")
+      .update({ is_active: isActive })
+      .eq("id", printer.id);
+
+    if (error) {
+      toast.error("Failed to update printer");
+    } else {
+      loadPrinters();
+    }
+  };
+
+  const handleDelete = async (printer: Printer) => {
+    const { error } = await supabase
+      .from("printers")
+      .delete()
+      .eq("id", printer.id);
+
+    if (error) {
+      toast.error("Failed to delete printer");
+    } else {
+      await supabase.rpc('log_activity', {
+        action_type: 'DELETE',
+        description_text: `Deleted printer: ${printer.name}`,
+        metadata_json: { printer_id: printer.id, action: 'delete_printer' }
+      });
+      // Its categories fall back to the till's printer
+      loadPrinters();
+      loadCategories();
+    }
+  };
+
+  const handleRoute = async (category: CategoryRoute, value: string) => {
+    const printerId = value === TILL_PRINTER ? null : value;
+    const { error } = await supabase
+      .from("categories")
+      .update({ printer_id: printerId })
+      .eq("id", category.id);
+
+    if (error) {
+      toast.error("Failed to update category");
+    } else {
+      setCategories(categories.map(c => c.id === category.id ? { ...c, printer_id: printerId } : c));
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Printers</DialogTitle>
+          <DialogDescription>
+            Station printers and which categories go to each when an order is approved
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {printers.map(printer => (
+            <div key={printer.id} className="border rounded p-4 flex justify-between items-start">
+              <div>
+                <h4 className={`font-medium ${printer.is_active ? "" : "text-muted-foreground line-through"}`}>
+                  {printer.name}
+                </h4>
+                <div className="flex gap-2 mt-1">
+                  <Badge variant="outline">{printer.connection === "network" ? "Network" : "Bluetooth"}</Badge>
+                  {printer.address && <Badge variant="secondary">{printer.address}</Badge>}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={printer.is_active}
+                  onCheckedChange={(checked) => handleToggleActive(printer, checked)}
+                />
+                <Button size="sm" variant="destructive" onClick={() => handleDelete(printer)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          <form onSubmit={handleCreate} className="border-t pt-4 space-y-4">
+            <h4 className="font-medium">New Printer</h4>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="printer_name">Name</Label>
+                <Input
+                  id="printer_name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="e.g. Bar"
+                  required
+                />
+              </div>
+              <div>
+                <Label>Connection</Label>
+                <Select value={form.connection} onValueChange={(value) => setForm({ ...form, connection: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PRINTER_CONNECTIONS.map(connection => (
+                      <SelectItem key={connection.value} value={connection.value}>
+                        {connection.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {form.connection === "network" && (
+              <div>
+                <Label htmlFor="printer_address">Print Bridge URL</Label>
+                <Input
+                  id="printer_address"
+                  value={form.address}
+                  onChange={(e) => setForm({ ...form, address: e.target.value })}
+                  placeholder="http://192.168.1.50:8080/print"
+                  required
+                />
+              </div>
+            )}
+
+            <Button type="submit">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Printer
+            </Button>
+          </form>
+
+          <div className="border-t pt-4 space-y-3">
+            <h4 className="font-medium">Category Routing</h4>
+            {categories.map(category => (
+              <div key={category.id} className="flex items-center justify-between gap-4">
+                <span className="text-sm">{category.name}</span>
+                <Select
+                  value={category.printer_id || TILL_PRINTER}
+                  onValueChange={(value) => handleRoute(category, value)}
+                >
+                  <SelectTrigger className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={TILL_PRINTER}>Till printer</SelectItem>
+                    {printers.map(printer => (
+                      <SelectItem key={printer.id} value={printer.id}>
+                        {printer.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PrintersDialog;
@@ -1,12 +1,14 @@
-import { Navigate } from "react-router-dom";
+import { Link, Navigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
+import { Role, hasRole } from "@/lib/permissions";
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  allowedRoles?: Role[];
 }
 
-const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
-  const { user, loading } = useAuth();
+const ProtectedRoute = ({ children, allowedRoles }: ProtectedRouteProps) => {
+  const { user, role, loading, signOut } = useAuth();
 
   if (loading) {
     return (
@@ -23,7 +25,30 @@ const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
     return <Navigate to="/auth" replace />;
   }
 
+  if (allowedRoles && !hasRole(role, allowedRoles)) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <h1 className="text-4xl font-bold mb-4">Access Denied</h1>
+          <p className="text-xl text-muted-foreground mb-4">
+            {role ? "Your role does not have access to this page." : "Your account has not been assigned a role yet."}
+          </p>
+          {/* The dashboard is off limits too until an owner or admin assigns a role */}
+          {role ? (
+            <Link to="/dashboard" className="text-primary hover:underline">
+              Return to Dashboard
+            </Link>
+          ) : (
+            <button onClick={signOut} className="text-primary hover:underline">
+              Sign Out
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
   return <>{children}</>;
 };
 
-export default ProtectedRoute;
\ No newline at end of file
+export default ProtectedRoute;
@@ -0,0 +1,224 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Plus, Trash2 } from "lucide-react";
+
+interface RecipeMenuItem {
+  id: string;
+  name: string;
+  size?: string | null;
+}
+
+interface Ingredient {
+  id: string;
+  inventory_id: string;
+  quantity: number;
+  inventory?: {
+    item_name: string;
+    unit: string;
+  };
+}
+
+interface InventoryOption {
+  id: string;
+  item_name: string;
+  unit: string;
+}
+
+interface RecipeDialogProps {
+  menuItem: RecipeMenuItem | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const RecipeDialog = ({ menuItem, isOpen, onClose }: RecipeDialogProps) => {
+  const [ingredients, setIngredients] = useState<Ingredient[]>([]);
+  const [inventory, setInventory] = useState<InventoryOption[]>([]);
+  const [inventoryId, setInventoryId] = useState("");
+  const [quantity, setQuantity] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (menuItem && isOpen) {
+      loadIngredients();
+      loadInventory();
+    }
+  }, [menuItem, isOpen]);
+
+  const loadIngredients = async () => {
+    if (!menuItem) return;
+
+    setLoading(true);
+    const { data, error } = await supabase
+      .from("menu_item_ingredients")
+      .select(`
+        *,
+        inventory (
+          item_name,
+          unit
+        )
+      `)
+      .eq("menu_item_id", menuItem.id);
+
+    if (error) {
+      toast.error("Failed to load recipe");
+    } else {
+      setIngredients(data || []);
+    }
+    setLoading(false);
+  };
+
+  const loadInventory = async () => {
+    const { data, error } = await supabase
+      .from("inventory")
+      .select("id, item_name, unit")
+      .order("item_name");
+
+    if (error) {
+      toast.error("Failed to load inventory");
+    } else {
+      setInventory(data || []);
+    }
+  };
+
+  const handleAddIngredient = async () => {
+    if (!menuItem) return;
+
+    const amount = parseFloat(quantity);
+    if (!inventoryId || isNaN(amount) || amount <= 0) {
+      toast.error("Select an ingredient and enter a quantity greater than zero");
+      return;
+    }
+
+    // Adding an ingredient that is already in the recipe updates its quantity
+    const { error } = await supabase
+      .from("menu_item_ingredients")
+      .upsert(
+        { menu_item_id: menuItem.id, inventory_id: inventoryId, quantity: amount },
+        { onConflict: "menu_item_id,inventory_id" }
+      );
+
+    if (error) {
+      toast.error("Failed to save ingredient");
+    } else {
+      const ingredientName = inventory.find(i => i.id === inventoryId)?.item_name;
+      await supabase.rpc('log_activity', {
+        action_type: 'UPDATE',
+        description_text: `Updated recipe for ${menuItem.name}: ${ingredientName} x ${amount}`,
+        metadata_json: { item_id: menuItem.id, inventory_id: inventoryId, action: 'update_recipe' }
+      });
+      setInventoryId("");
+      setQuantity("");
+      loadIngredients();
+    }
+  };
+
+  const handleRemoveIngredient = async (ingredient: Ingredient) => {
+    if (!menuItem) return;
+
+    const { error } = await supabase
+      .from("menu_item_ingredients")
+      .delete()
+      .eq("id", ingredient.id);
+
+    if (error) {
+      toast.error("Failed to remove ingredient");
+    } else {
+      await supabase.rpc('log_activity', {
+        action_type: 'UPDATE',
+        description_text: `Removed ${ingredient.inventory?.item_name} from recipe for ${menuItem.name}`,
+        metadata_json: { item_id: menuItem.id, inventory_id: ingredient.inventory_id, action: 'update_recipe' }
+      });
+      loadIngredients();
+    }
+  };
+
+  const selectedUnit = inventory.find(i => i.id === inventoryId)?.unit;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            Recipe - {menuItem?.name} {menuItem?.size && `(${menuItem.size})`}
+          </DialogTitle>
+          <DialogDescription>
+            Ingredients deducted from inventory for each unit sold when an order is completed
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {loading ? (
+            <div className="text-center py-4">Loading recipe...</div>
+          ) : ingredients.length === 0 ? (
+            <p className="text-center text-muted-foreground py-4">No ingredients linked yet</p>
+          ) : (
+            <div className="space-y-2">
+              {ingredients.map(ingredient => (
+                <div key={ingredient.id} className="flex justify-between items-center p-3 border rounded">
+                  <div>
+                    <h4 className="font-medium">{ingredient.inventory?.item_name}</h4>
+                    <p className="text-sm text-muted-foreground">
+                      {ingredient.quantity} {ingredient.inventory?.unit} per item
+                    </p>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    onClick={() => handleRemoveIngredient(ingredient)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="border-t pt-4 space-y-4">
+            <div>
+              <Label htmlFor="ingredient">Ingredient</Label>
+              <Select value={inventoryId || undefined} onValueChange={setInventoryId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select inventory item" />
+                </SelectTrigger>
+                <SelectContent>
+                  {inventory.map(item => (
+                    <SelectItem key={item.id} value={item.id}>
+                      {item.item_name} ({item.unit})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="ingredient_quantity">
+                Quantity per item {selectedUnit && `(${selectedUnit})`}
+              </Label>
+              <Input
+                id="ingredient_quantity"
+                type="number"
+                step="0.01"
+                min="0"
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+              />
+            </div>
+
+            <Button onClick={handleAddIngredient} className="w-full">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Ingredient
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RecipeDialog;
@@ -0,0 +1,224 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useManagerApproval } from "@/hooks/useManagerApproval";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { toast } from "@/hooks/use-toast";
+import { Minus, Plus } from "lucide-react";
+import { formatPHP } from "@/lib/utils";
+import { PAYMENT_METHODS, PaymentMethod } from "@/lib/payments";
+import { RefundableItem, estimateRefund, fetchOrderRefunds } from "@/lib/refunds";
+
+interface RefundDialogProps {
+  order: {
+    id: string;
+    order_number: string;
+    total_amount: number;
+    order_items: (RefundableItem & { menu_items: { name: string } })[];
+  } | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onRefunded: () => void;
+}
+
+const RefundDialog = ({ order, isOpen, onClose, onRefunded }: RefundDialogProps) => {
+  const { withApproval } = useManagerApproval();
+  const [refundedQuantities, setRefundedQuantities] = useState<Record<string, number>>({});
+  const [refunded, setRefunded] = useState(0);
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [method, setMethod] = useState<PaymentMethod>("cash");
+  const [restock, setRestock] = useState(false);
+  const [reason, setReason] = useState("");
+  const [notes, setNotes] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (isOpen && order) {
+      loadRefunds();
+      setQuantities({});
+      setMethod("cash");
+      setRestock(false);
+      setReason("");
+      setNotes("");
+    }
+  }, [isOpen, order?.id]);
+
+  const loadRefunds = async () => {
+    if (!order) return;
+
+    try {
+      const result = await fetchOrderRefunds(order.id);
+      setRefundedQuantities(result.quantities);
+      setRefunded(result.refunded);
+    } catch (error) {
+      console.error("Error loading refunds:", error);
+    }
+  };
+
+  if (!order) return null;
+
+  const getRemaining = (item: RefundableItem) => item.quantity - (refundedQuantities[item.id] || 0);
+  const setQuantity = (item: RefundableItem, quantity: number) =>
+    setQuantities({ ...quantities, [item.id]: Math.max(0, Math.min(getRemaining(item), quantity)) });
+
+  const lines = Object.entries(quantities)
+    .filter(([, quantity]) => quantity > 0)
+    .map(([order_item_id, quantity]) => ({ order_item_id, quantity }));
+  const { amount, isFull } = estimateRefund(order, lines, refundedQuantities, refunded);
+
+  const handleRefundAll = () => {
+    setQuantities(Object.fromEntries(order.order_items.map(item => [item.id, getRemaining(item)])));
+  };
+
+  const handleSubmit = async () => {
+    if (lines.length === 0 || !reason.trim()) return;
+
+    setIsSubmitting(true);
+    const result = await withApproval(approval => supabase.rpc('refund_order', {
+      p_order_id: order.id,
+      p_items: lines,
+      p_method: method,
+      p_reason: reason.trim(),
+      p_notes: notes.trim() || null,
+      p_restock: restock,
+      ...approval,
+    }));
+    setIsSubmitting(false);
+
+    if (!result) return;
+    const { data, error } = result;
+    if (error) {
+      toast({
+        title: "Refund Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const refund = data as { amount: number; status: string };
+    toast({
+      title: "Refund Recorded",
+      description: `${formatPHP(refund.amount)} refunded on ${order.order_number}${refund.status === 'refunded' ? ' in full' : ''}.`,
+    });
+    onRefunded();
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Refund Order</DialogTitle>
+          <DialogDescription>
+            Order {order.order_number}
+            {refunded > 0 && ` · ${formatPHP(refunded)} of ${formatPHP(order.total_amount)} already refunded`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <Label>Items</Label>
+              <Button variant="link" size="sm" className="h-auto p-0" onClick={handleRefundAll}>
+                Refund all
+              </Button>
+            </div>
+            {order.order_items.map(item => {
+              const remaining = getRemaining(item);
+              const quantity = quantities[item.id] || 0;
+              return (
+                <div key={item.id} className="flex items-center justify-between gap-2 text-sm border rounded p-2">
+                  <div className="flex-1">
+                    <p className="font-medium">{item.quantity}x {item.menu_items?.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatPHP(item.total_price)}
+                      {remaining < item.quantity && ` · ${item.quantity - remaining} refunded`}
+                    </p>
+                  </div>
+                  {remaining > 0 ? (
+                    <div className="flex items-center gap-2">
+                      <Button variant="outline" size="icon" className="h-7 w-7" onClick={() => setQuantity(item, quantity - 1)} disabled={quantity === 0}>
+                        <Minus className="h-3 w-3" />
+                      </Button>
+                      <span className="w-6 text-center">{quantity}</span>
+                      <Button variant="outline" size="icon" className="h-7 w-7" onClick={() => setQuantity(item, quantity + 1)} disabled={quantity >= remaining}>
+                        <Plus className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <span className="text-xs text-muted-foreground">Refunded</span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>Refund Method</Label>
+              <Select value={method} onValueChange={(value) => setMethod(value as PaymentMethod)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAYMENT_METHODS.map(m => (
+                    <SelectItem key={m.value} value={m.value}>{m.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-end justify-between gap-2 pb-2">
+              <Label htmlFor="refund_restock">Return items to stock</Label>
+              <Switch id="refund_restock" checked={restock} onCheckedChange={setRestock} />
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="refund_reason">Reason</Label>
+            <Input
+              id="refund_reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Why is this being refunded?"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="refund_notes">Additional Notes</Label>
+            <Textarea
+              id="refund_notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <Separator />
+
+          <div className="flex justify-between text-lg font-bold">
+            <span>{isFull ? "Full Refund" : "Refund"}</span>
+            <span>{formatPHP(lines.length ? amount : 0)}</span>
+          </div>
+
+          <Button
+            className="w-full"
+            variant="destructive"
+            onClick={handleSubmit}
+            disabled={isSubmitting || lines.length === 0 || !reason.trim()}
+          >
+            {isSubmitting ? "Processing..." : "Confirm Refund"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RefundDialog;
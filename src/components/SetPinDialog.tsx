@@ -0,0 +1,94 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "@/hooks/use-toast";
+
+interface SetPinDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// A manager enters this PIN on a cashier's screen to approve refunds and other sensitive actions
+const SetPinDialog = ({ isOpen, onClose }: SetPinDialogProps) => {
+  const [pin, setPin] = useState("");
+  const [confirmPin, setConfirmPin] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setPin("");
+      setConfirmPin("");
+    }
+  }, [isOpen]);
+
+  const isValid = /^[0-9]{4,6}$/.test(pin) && pin === confirmPin;
+
+  const handleSave = async () => {
+    if (!isValid) return;
+
+    setIsSubmitting(true);
+    const { error } = await supabase.rpc('set_my_pin', { p_pin: pin });
+    setIsSubmitting(false);
+
+    if (error) {
+      toast({
+        title: "PIN Not Saved",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "PIN Saved",
+      description: "Use it to approve actions on any register.",
+    });
+    onClose();
+  };
+
+  const pinInput = (id: string, value: string, onChange: (value: string) => void) => (
+    <Input
+      id={id}
+      type="password"
+      inputMode="numeric"
+      autoComplete="off"
+      maxLength={6}
+      value={value}
+      onChange={(e) => onChange(e.target.value.replace(/\D/g, ""))}
+    />
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Approval PIN</DialogTitle>
+          <DialogDescription>4 to 6 digits. Setting a new PIN replaces the old one.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="new_pin">New PIN</Label>
+            {pinInput("new_pin", pin, setPin)}
+          </div>
+          <div>
+            <Label htmlFor="confirm_pin">Confirm PIN</Label>
+            {pinInput("confirm_pin", confirmPin, setConfirmPin)}
+            {confirmPin.length >= 4 && pin !== confirmPin && (
+              <p className="text-xs text-destructive mt-1">The PINs don't match.</p>
+            )}
+          </div>
+
+          <Button className="w-full" onClick={handleSave} disabled={!isValid || isSubmitting}>
+            {isSubmitting ? "Saving..." : "Save PIN"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SetPinDialog;
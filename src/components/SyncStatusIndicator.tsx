@@ -0,0 +1,46 @@
+import { Badge } from "@/components/ui/badge";
+import { CloudUpload, RefreshCw, Wifi, WifiOff } from "lucide-react";
+import { useOfflineSync } from "@/hooks/useOfflineSync";
+import { cn } from "@/lib/utils";
+
+interface SyncStatusIndicatorProps {
+  className?: string;
+}
+
+const SyncStatusIndicator = ({ className }: SyncStatusIndicatorProps) => {
+  const { isOnline, isSyncing, pendingCount, syncNow } = useOfflineSync();
+
+  const queued = pendingCount > 0 ? ` · ${pendingCount} queued` : "";
+
+  if (!isOnline) {
+    return (
+      <Badge variant="destructive" className="gap-2">
+        <WifiOff className="h-3 w-3" />
+        Offline{queued}
+      </Badge>
+    );
+  }
+
+  if (isSyncing || pendingCount > 0) {
+    return (
+      <Badge
+        variant="outline"
+        className={cn("gap-2 cursor-pointer", className)}
+        onClick={() => syncNow()}
+        title="Send queued changes now"
+      >
+        {isSyncing ? <RefreshCw className="h-3 w-3 animate-spin" /> : <CloudUpload className="h-3 w-3" />}
+        {isSyncing ? "Syncing" : "Waiting to sync"}{queued}
+      </Badge>
+    );
+  }
+
+  return (
+    <Badge variant="outline" className={cn("gap-2", className)}>
+      <Wifi className="h-3 w-3" />
+      Online
+    </Badge>
+  );
+};
+
+export default SyncStatusIndicator;
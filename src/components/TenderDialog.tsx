@@ -0,0 +1,186 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { toast } from "@/hooks/use-toast";
+import { Plus, Trash2 } from "lucide-react";
+import { formatPHP } from "@/lib/utils";
+import { PAYMENT_METHODS, PaymentMethod, summarizeTenders } from "@/lib/payments";
+
+interface TenderDialogProps {
+  order: {
+    id: string;
+    order_number: string;
+    total_amount: number;
+  } | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onPaid: (change: number) => void;
+}
+
+interface TenderLine {
+  method: PaymentMethod;
+  amount: string;
+  reference_number: string;
+}
+
+const CASH_SHORTCUTS = [100, 200, 500, 1000];
+
+const TenderDialog = ({ order, isOpen, onClose, onPaid }: TenderDialogProps) => {
+  const [lines, setLines] = useState<TenderLine[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setLines([{ method: "cash", amount: "", reference_number: "" }]);
+    }
+  }, [isOpen, order?.id]);
+
+  if (!order) return null;
+
+  const total = Number(order.total_amount);
+  const tenders = lines.map(line => ({
+    method: line.method,
+    amount_tendered: parseFloat(line.amount) || 0,
+    reference_number: line.reference_number,
+  }));
+  const summary = summarizeTenders(total, tenders);
+
+  const updateLine = (index: number, changes: Partial<TenderLine>) => {
+    setLines(lines.map((line, i) => i === index ? { ...line, ...changes } : line));
+  };
+
+  const addLine = () => {
+    setLines([...lines, { method: "gcash", amount: summary.remaining ? summary.remaining.toFixed(2) : "", reference_number: "" }]);
+  };
+
+  const handleSubmit = async () => {
+    if (!summary.isCovered) return;
+
+    setIsSubmitting(true);
+    const { data, error } = await supabase.rpc('record_payments', {
+      p_order_id: order.id,
+      p_tenders: tenders,
+    });
+    setIsSubmitting(false);
+
+    if (error) {
+      console.error("Error recording payments:", error);
+      toast({
+        title: "Payment Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const result = data as unknown as { change: number };
+    onPaid(Number(result?.change) || 0);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Take Payment</DialogTitle>
+          <DialogDescription>Order {order.order_number}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="text-center">
+            <p className="text-sm text-muted-foreground">Amount Due</p>
+            <p className="text-3xl font-bold">{formatPHP(total)}</p>
+          </div>
+
+          {lines.map((line, index) => (
+            <div key={index} className="space-y-2 border rounded p-3">
+              <div className="flex gap-2">
+                <Select value={line.method} onValueChange={(value: PaymentMethod) => updateLine(index, { method: value })}>
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAYMENT_METHODS.map(method => (
+                      <SelectItem key={method.value} value={method.value}>{method.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="Amount"
+                  value={line.amount}
+                  onChange={(e) => updateLine(index, { amount: e.target.value })}
+                />
+                {lines.length > 1 && (
+                  <Button variant="ghost" size="icon" onClick={() => setLines(lines.filter((_, i) => i !== index))}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+
+              {line.method === "cash" ? (
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => updateLine(index, { amount: ((parseFloat(line.amount) || 0) + summary.remaining).toFixed(2) })}
+                  >
+                    Exact
+                  </Button>
+                  {CASH_SHORTCUTS.map(amount => (
+                    <Button key={amount} size="sm" variant="outline" onClick={() => updateLine(index, { amount: amount.toString() })}>
+                      {formatPHP(amount)}
+                    </Button>
+                  ))}
+                </div>
+              ) : (
+                <Input
+                  placeholder="Reference number"
+                  value={line.reference_number}
+                  onChange={(e) => updateLine(index, { reference_number: e.target.value })}
+                />
+              )}
+            </div>
+          ))}
+
+          <Button variant="outline" size="sm" onClick={addLine}>
+            <Plus className="h-4 w-4 mr-2" />
+            Split Payment
+          </Button>
+
+          <Separator />
+
+          <div className="space-y-1">
+            <div className="flex justify-between">
+              <span>Tendered</span>
+              <span>{formatPHP(summary.tendered)}</span>
+            </div>
+            {summary.remaining > 0 ? (
+              <div className="flex justify-between text-destructive font-semibold">
+                <span>Remaining</span>
+                <span>{formatPHP(summary.remaining)}</span>
+              </div>
+            ) : (
+              <div className="flex justify-between text-xl font-bold">
+                <span>Change</span>
+                <span>{formatPHP(summary.change)}</span>
+              </div>
+            )}
+            {summary.error && summary.tendered > 0 && <p className="text-sm text-destructive">{summary.error}</p>}
+          </div>
+
+          <Button className="w-full" size="lg" onClick={handleSubmit} disabled={!summary.isCovered || isSubmitting}>
+            {isSubmitting ? "Recording..." : "Confirm Payment"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TenderDialog;
@@ -1,19 +1,33 @@
 import { useState, useEffect, createContext, useContext, ReactNode } from "react";
 import { User, Session } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
+import { Role, isRole } from "@/lib/permissions";
+
+interface Profile {
+  id: string;
+  user_id: string;
+  full_name: string | null;
+  role: string | null;
+}
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
+  profile: Profile | null;
+  role: Role | null;
   loading: boolean;
   signOut: () => Promise<void>;
+  refreshProfile: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType>({
   user: null,
   session: null,
+  profile: null,
+  role: null,
   loading: true,
   signOut: async () => {},
+  refreshProfile: async () => {},
 });
 
 export const useAuth = () => {
@@ -31,7 +45,10 @@ interface AuthProviderProps {
 export const AuthProvider = ({ children }: AuthProviderProps) => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
+  const [profile, setProfile] = useState<Profile | null>(null);
   const [loading, setLoading] = useState(true);
+  // Which user the current profile belongs to, so a fresh sign in waits for its profile
+  const [profileUserId, setProfileUserId] = useState<string | null>(null);
 
   useEffect(() => {
     // Set up auth state listener
@@ -53,6 +70,36 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     return () => subscription.unsubscribe();
   }, []);
 
+  // Load the profile outside the auth listener, which must not await other Supabase calls
+  useEffect(() => {
+    if (user) {
+      loadProfile(user.id);
+    } else {
+      setProfile(null);
+      setProfileUserId(null);
+    }
+  }, [user?.id]);
+
+  const loadProfile = async (userId: string) => {
+    const { data, error } = await supabase
+      .from("profiles")
+      .select("id, user_id, full_name, role")
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error loading profile:", error);
+    }
+    setProfile(data);
+    setProfileUserId(userId);
+  };
+
+  const refreshProfile = async () => {
+    if (user) {
+      await loadProfile(user.id);
+    }
+  };
+
   const signOut = async () => {
     const { error } = await supabase.auth.signOut();
     if (error) {
@@ -63,9 +110,21 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     }
   };
 
+  const role = isRole(profile?.role) ? profile.role : null;
+
   return (
-    <AuthContext.Provider value={{ user, session, loading, signOut }}>
+    <AuthContext.Provider
+      value={{
+        user,
+        session,
+        profile,
+        role,
+        loading: loading || (!!user && profileUserId !== user.id),
+        signOut,
+        refreshProfile,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
-};
\ No newline at end of file
+};
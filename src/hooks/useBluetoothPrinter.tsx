@@ -0,0 +1,450 @@
+import { useState, useEffect, useRef, createContext, useContext, ReactNode } from 'react';
+import { toast } from 'sonner';
+import { useStoreSettings } from '@/hooks/useStoreSettings';
+import { ReceiptDocument, getPaperColumns, renderEscPos } from '@/lib/receipt';
+import {
+  AutoPrintSettings,
+  MAX_PRINT_ATTEMPTS,
+  PrintJob,
+  PrintJobKind,
+  addPrintJob,
+  getAutoPrintSettings,
+  getPrintJobs,
+  putPrintJob,
+  removePrintJob,
+  saveAutoPrintSettings,
+} from '@/lib/printQueue';
+import { Printer, getLocalStationId, saveLocalStationId, sendToNetworkPrinter } from '@/lib/printers';
+
+// Extend Navigator interface for Bluetooth
+declare global {
+  interface Navigator {
+    bluetooth?: {
+      requestDevice(options: any): Promise<BluetoothDevice>;
+      // Devices this site was already granted; not available in every browser
+      getDevices?(): Promise<BluetoothDevice[]>;
+    };
+  }
+
+  interface BluetoothDevice {
+    id: string;
+    name?: string;
+    gatt?: BluetoothRemoteGATT;
+    addEventListener(type: 'gattserverdisconnected', listener: () => void): void;
+    removeEventListener(type: 'gattserverdisconnected', listener: () => void): void;
+  }
+
+  interface BluetoothRemoteGATT {
+    connected: boolean;
+    connect(): Promise<BluetoothRemoteGATTServer>;
+    disconnect(): void;
+  }
+
+  interface BluetoothRemoteGATTServer {
+    getPrimaryService(service: string): Promise<BluetoothRemoteGATTService>;
+  }
+
+  interface BluetoothRemoteGATTService {
+    getCharacteristics(): Promise<BluetoothRemoteGATTCharacteristic[]>;
+  }
+
+  interface BluetoothRemoteGATTCharacteristic {
+    properties: {
+      write: boolean;
+      writeWithoutResponse: boolean;
+    };
+    writeValue(data: ArrayBuffer): Promise<void>;
+  }
+}
+
+interface PrintOptions {
+  kind?: PrintJobKind;
+  label?: string;
+  printer?: Printer | null;
+}
+
+interface BluetoothPrinterContextType {
+  isConnected: boolean;
+  isConnecting: boolean;
+  // A printer was paired on this device, even if it is out of range right now
+  isPaired: boolean;
+  deviceName: string | null;
+  jobs: PrintJob[];
+  autoPrint: AutoPrintSettings;
+  // Station printer this till's Bluetooth printer serves, if any
+  stationId: string | null;
+  connect: () => Promise<void>;
+  disconnect: () => void;
+  print: (document: ReceiptDocument, options?: PrintOptions) => Promise<void>;
+  retryJob: (id: string) => Promise<void>;
+  removeJob: (id: string) => Promise<void>;
+  setAutoPrint: (settings: AutoPrintSettings) => void;
+  setStationId: (printerId: string | null) => void;
+}
+
+const BluetoothPrinterContext = createContext<BluetoothPrinterContextType>({
+  isConnected: false,
+  isConnecting: false,
+  isPaired: false,
+  deviceName: null,
+  jobs: [],
+  autoPrint: { kitchenOnApprove: true, receiptOnComplete: true },
+  stationId: null,
+  connect: async () => {},
+  disconnect: () => {},
+  print: async () => {},
+  retryJob: async () => {},
+  removeJob: async () => {},
+  setAutoPrint: () => {},
+  setStationId: () => {},
+});
+
+export const useBluetoothPrinter = () => {
+  const context = useContext(BluetoothPrinterContext);
+  if (!context) {
+    throw new Error('useBluetoothPrinter must be used within a BluetoothPrinterProvider');
+  }
+  return context;
+};
+
+const PRINTER_SERVICE = '000018f0-0000-1000-8000-00805f9b34fb'; // Common printer service
+const DEVICE_INFO_SERVICE = '0000180a-0000-1000-8000-00805f9b34fb'; // Device Information Service
+const DEVICE_KEY = 'printerDeviceId';
+const MAX_RECONNECT_ATTEMPTS = 8;
+
+interface BluetoothPrinterProviderProps {
+  children: ReactNode;
+}
+
+export const BluetoothPrinterProvider = ({ children }: BluetoothPrinterProviderProps) => {
+  const { settings } = useStoreSettings();
+  const [isConnected, setIsConnected] = useState(false);
+  const [isConnecting, setIsConnecting] = useState(false);
+  const [deviceName, setDeviceName] = useState<string | null>(null);
+  const [jobs, setJobs] = useState<PrintJob[]>([]);
+  const [autoPrint, setAutoPrintState] = useState<AutoPrintSettings>(getAutoPrintSettings);
+  const [stationId, setStationIdState] = useState<string | null>(getLocalStationId);
+
+  // Bluetooth events fire outside React, so the live connection is kept in refs
+  const deviceRef = useRef<BluetoothDevice | null>(null);
+  const characteristicRef = useRef<BluetoothRemoteGATTCharacteristic | null>(null);
+  const processingRef = useRef(false);
+  const reconnectAttemptsRef = useRef(0);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout>>();
+  const retryTimerRef = useRef<ReturnType<typeof setTimeout>>();
+  const disconnectListenerRef = useRef<() => void>();
+  const paperWidthRef = useRef(settings.paper_width);
+  paperWidthRef.current = settings.paper_width;
+  const stationIdRef = useRef(stationId);
+  stationIdRef.current = stationId;
+
+  useEffect(() => {
+    restoreJobs();
+    restoreDevice();
+    // Network printers are reachable again once the till is back online
+    window.addEventListener('online', processQueue);
+
+    return () => {
+      window.removeEventListener('online', processQueue);
+      clearTimeout(reconnectTimerRef.current);
+      clearTimeout(retryTimerRef.current);
+      deviceRef.current?.removeEventListener('gattserverdisconnected', disconnectListenerRef.current);
+    };
+  }, []);
+
+  const refreshJobs = async () => {
+    setJobs(await getPrintJobs());
+  };
+
+  // A job left "printing" was cut off when the page closed, so it goes back in line
+  const restoreJobs = async () => {
+    try {
+      for (const job of await getPrintJobs()) {
+        if (job.status === 'printing') await putPrintJob({ ...job, status: 'queued' });
+      }
+      await refreshJobs();
+      // Network printers don't wait for a pairing
+      processQueue();
+    } catch (error) {
+      console.error('Error loading print queue:', error);
+    }
+  };
+
+  const restoreDevice = async () => {
+    const savedId = localStorage.getItem(DEVICE_KEY);
+    if (!savedId || !navigator.bluetooth?.getDevices) return;
+
+    try {
+      const device = (await navigator.bluetooth.getDevices()).find(d => d.id === savedId);
+      if (!device) return;
+
+      attachDevice(device);
+      await openConnection(device);
+    } catch (error) {
+      console.warn('Saved printer not reachable yet:', error);
+      scheduleReconnect();
+    }
+  };
+
+  const attachDevice = (device: BluetoothDevice) => {
+    deviceRef.current?.removeEventListener('gattserverdisconnected', disconnectListenerRef.current);
+    deviceRef.current = device;
+    disconnectListenerRef.current = handleDisconnected;
+    device.addEventListener('gattserverdisconnected', handleDisconnected);
+    setDeviceName(device.name || 'Bluetooth printer');
+  };
+
+  const openConnection = async (device: BluetoothDevice) => {
+    const server = await device.gatt?.connect();
+    if (!server) throw new Error('Failed to connect to GATT server');
+
+    // Try to find the printer service
+    let service;
+    try {
+      service = await server.getPrimaryService(PRINTER_SERVICE);
+    } catch {
+      // Fallback to device information service
+      service = await server.getPrimaryService(DEVICE_INFO_SERVICE);
+    }
+
+    const chars = await service.getCharacteristics();
+    const writeChar = chars.find(char => char.properties.write || char.properties.writeWithoutResponse);
+
+    if (!writeChar) throw new Error('No writable characteristic found');
+
+    characteristicRef.current = writeChar;
+    reconnectAttemptsRef.current = 0;
+    localStorage.setItem(DEVICE_KEY, device.id);
+    setIsConnected(true);
+    processQueue();
+  };
+
+  const handleDisconnected = () => {
+    characteristicRef.current = null;
+    setIsConnected(false);
+    scheduleReconnect();
+  };
+
+  // Back off from 2s up to 30s between attempts while the printer is off or out of range
+  const scheduleReconnect = () => {
+    const device = deviceRef.current;
+    if (!device || reconnectAttemptsRef.current >= MAX_RECONNECT_ATTEMPTS) {
+      if (device) toast.error('Printer disconnected. Reconnect it to keep printing.');
+      return;
+    }
+
+    const delay = Math.min(30000, 2000 * 2 ** reconnectAttemptsRef.current);
+    reconnectAttemptsRef.current += 1;
+    clearTimeout(reconnectTimerRef.current);
+    reconnectTimerRef.current = setTimeout(async () => {
+      if (deviceRef.current !== device || device.gatt?.connected) return;
+      try {
+        await openConnection(device);
+        toast.success('Printer reconnected');
+      } catch {
+        scheduleReconnect();
+      }
+    }, delay);
+  };
+
+  const connect = async () => {
+    if (!navigator.bluetooth) {
+      toast.error('Bluetooth is not supported in this browser');
+      return;
+    }
+
+    setIsConnecting(true);
+
+    try {
+      // Request device with printer service UUID
+      const bluetoothDevice = await navigator.bluetooth.requestDevice({
+        filters: [
+          { namePrefix: 'PT-' }, // PT-210 printer
+          { namePrefix: 'MTP' },
+          { namePrefix: 'POS' }
+        ],
+        optionalServices: [PRINTER_SERVICE, DEVICE_INFO_SERVICE]
+      });
+
+      attachDevice(bluetoothDevice);
+      await openConnection(bluetoothDevice);
+      toast.success('Bluetooth printer connected successfully');
+    } catch (error) {
+      console.error('Bluetooth connection error:', error);
+      toast.error('Failed to connect to Bluetooth printer');
+    } finally {
+      setIsConnecting(false);
+    }
+  };
+
+  const disconnect = () => {
+    const device = deviceRef.current;
+    clearTimeout(reconnectTimerRef.current);
+    deviceRef.current = null;
+    characteristicRef.current = null;
+    device?.removeEventListener('gattserverdisconnected', disconnectListenerRef.current);
+    if (device?.gatt?.connected) {
+      device.gatt.disconnect();
+    }
+    localStorage.removeItem(DEVICE_KEY);
+    setDeviceName(null);
+    setIsConnected(false);
+    toast.info('Bluetooth printer disconnected');
+  };
+
+  // A job for a Bluetooth station waits until this till is set as that station again
+  const canPrint = (job: PrintJob) => {
+    if (job.printer?.connection === 'network') return navigator.onLine;
+    return !!characteristicRef.current && (!job.printer || job.printer.id === stationIdRef.current);
+  };
+
+  const writeJob = async (job: PrintJob) => {
+    const data = renderEscPos(job.document, getPaperColumns(paperWidthRef.current));
+
+    if (job.printer?.connection === 'network') {
+      await sendToNetworkPrinter(job.printer.address, data);
+      return;
+    }
+
+    // Split data into chunks for reliable transmission
+    const chunkSize = 20;
+    for (let i = 0; i < data.length; i += chunkSize) {
+      const characteristic = characteristicRef.current;
+      if (!characteristic) throw new Error('Printer disconnected while printing');
+      await characteristic.writeValue(data.slice(i, i + chunkSize));
+      // Small delay between chunks
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+  };
+
+  // A failed job waits 2s, doubling up to 30s, before it is tried again
+  const retryDelay = (attempts: number) => Math.min(30000, 2000 * 2 ** attempts);
+
+  // Wakes the queue when the next failed job is due; jobs waiting on a connection are
+  // picked up by the reconnect or the browser coming back online instead
+  const scheduleRetry = (queue: PrintJob[]) => {
+    clearTimeout(retryTimerRef.current);
+    const now = Date.now();
+    const next = queue
+      .filter(j => j.status === 'queued' && j.retry_at && Date.parse(j.retry_at) > now)
+      .reduce((soonest, j) => Math.min(soonest, Date.parse(j.retry_at!)), Infinity);
+    if (next !== Infinity) {
+      retryTimerRef.current = setTimeout(processQueue, next - now);
+    }
+  };
+
+  // Prints queued jobs oldest first; a failed job is retried until MAX_PRINT_ATTEMPTS.
+  // Each printer's jobs are independent, so one that is down doesn't hold up the rest.
+  const processQueue = async () => {
+    if (processingRef.current) return;
+    processingRef.current = true;
+
+    try {
+      for (;;) {
+        const now = new Date().toISOString();
+        const job = (await getPrintJobs()).find(j =>
+          j.status === 'queued' && canPrint(j) && !(j.retry_at && j.retry_at > now)
+        );
+        if (!job) break;
+
+        await putPrintJob({ ...job, status: 'printing' });
+        await refreshJobs();
+
+        try {
+          await writeJob(job);
+          await removePrintJob(job.id);
+          toast.success(`${job.label} printed`);
+        } catch (error) {
+          console.error('Print error:', error);
+          // A printer or connection that went away mid-job isn't the job's fault, so it doesn't use up a try
+          const transportLost = job.printer?.connection === 'network'
+            ? !navigator.onLine
+            : !deviceRef.current?.gatt?.connected;
+          const attempts = transportLost ? job.attempts : job.attempts + 1;
+          const failed = attempts >= MAX_PRINT_ATTEMPTS;
+          await putPrintJob({
+            ...job,
+            attempts,
+            status: failed ? 'failed' : 'queued',
+            last_error: error instanceof Error ? error.message : String(error),
+            retry_at: new Date(Date.now() + retryDelay(attempts)).toISOString(),
+          });
+          if (failed) toast.error(`Failed to print ${job.label}`);
+        }
+      }
+    } finally {
+      processingRef.current = false;
+      const queue = await getPrintJobs();
+      setJobs(queue);
+      scheduleRetry(queue);
+    }
+  };
+
+  // Jobs only queue on this device, so a Bluetooth station paired to another till can't
+  // be reached from here; its ticket prints on this till's own printer instead
+  const print = async (document: ReceiptDocument, options: PrintOptions = {}) => {
+    const kind = options.kind || 'receipt';
+    const target = options.printer?.connection === 'bluetooth' && options.printer.id !== stationIdRef.current
+      ? null
+      : options.printer || null;
+    const job = await addPrintJob(kind, options.label || 'Receipt', document, target);
+    await refreshJobs();
+
+    if (canPrint(job)) {
+      processQueue();
+    } else {
+      toast.info(deviceRef.current
+        ? 'Printer is reconnecting. The job will print as soon as it is back.'
+        : 'No printer connected. The job is queued until one is connected.');
+    }
+  };
+
+  const retryJob = async (id: string) => {
+    const job = (await getPrintJobs()).find(j => j.id === id);
+    if (!job) return;
+
+    await putPrintJob({ ...job, status: 'queued', attempts: 0, last_error: null, retry_at: null });
+    await refreshJobs();
+    processQueue();
+  };
+
+  const removeJob = async (id: string) => {
+    await removePrintJob(id);
+    await refreshJobs();
+  };
+
+  const setAutoPrint = (next: AutoPrintSettings) => {
+    saveAutoPrintSettings(next);
+    setAutoPrintState(next);
+  };
+
+  const setStationId = (printerId: string | null) => {
+    saveLocalStationId(printerId);
+    stationIdRef.current = printerId;
+    setStationIdState(printerId);
+    processQueue();
+  };
+
+  return (
+    <BluetoothPrinterContext.Provider
+      value={{
+        isConnected,
+        isConnecting,
+        isPaired: !!deviceName,
+        deviceName,
+        jobs,
+        autoPrint,
+        stationId,
+        connect,
+        disconnect,
+        print,
+        retryJob,
+        removeJob,
+        setAutoPrint,
+        setStationId,
+      }}
+    >
+      {children}
+    </BluetoothPrinterContext.Provider>
+  );
+};
@@ -0,0 +1,70 @@
+import { useState, useRef, createContext, useContext, ReactNode } from "react";
+import ManagerApprovalDialog from "@/components/ManagerApprovalDialog";
+import { ApprovalAction, ManagerApproval, isApprovalError } from "@/lib/approvals";
+
+interface RpcResult<T> {
+  data: T | null;
+  error: { code?: string; message: string; hint?: string } | null;
+}
+
+interface ManagerApprovalContextType {
+  // Runs the action and, if the database asks for a manager, prompts for one and
+  // tries again until it goes through or the cashier gives up (null)
+  withApproval: <T>(run: (approval: Partial<ManagerApproval>) => PromiseLike<RpcResult<T>>) => Promise<RpcResult<T> | null>;
+}
+
+const ManagerApprovalContext = createContext<ManagerApprovalContextType | undefined>(undefined);
+
+export const useManagerApproval = () => {
+  const context = useContext(ManagerApprovalContext);
+  if (!context) {
+    throw new Error("useManagerApproval must be used within a ManagerApprovalProvider");
+  }
+  return context;
+};
+
+interface ManagerApprovalProviderProps {
+  children: ReactNode;
+}
+
+export const ManagerApprovalProvider = ({ children }: ManagerApprovalProviderProps) => {
+  const [request, setRequest] = useState<{ action: ApprovalAction; message: string } | null>(null);
+  const resolveRef = useRef<((approval: ManagerApproval | null) => void) | null>(null);
+
+  const requestApproval = (action: ApprovalAction, message: string) =>
+    new Promise<ManagerApproval | null>((resolve) => {
+      resolveRef.current = resolve;
+      setRequest({ action, message });
+    });
+
+  const finish = (approval: ManagerApproval | null) => {
+    resolveRef.current?.(approval);
+    resolveRef.current = null;
+    setRequest(null);
+  };
+
+  const withApproval = async <T,>(run: (approval: Partial<ManagerApproval>) => PromiseLike<RpcResult<T>>) => {
+    let result = await run({});
+
+    while (isApprovalError(result.error)) {
+      const approval = await requestApproval(result.error.hint as ApprovalAction, result.error.message);
+      if (!approval) return null;
+      result = await run(approval);
+    }
+
+    return result;
+  };
+
+  return (
+    <ManagerApprovalContext.Provider value={{ withApproval }}>
+      {children}
+      <ManagerApprovalDialog
+        isOpen={request !== null}
+        action={request?.action || null}
+        message={request?.message || ""}
+        onApprove={finish}
+        onCancel={() => finish(null)}
+      />
+    </ManagerApprovalContext.Provider>
+  );
+};
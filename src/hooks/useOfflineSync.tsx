@@ -0,0 +1,155 @@
+import { useState, useEffect, useRef, createContext, useContext, ReactNode } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { saveLastOrder } from "@/lib/orderTracking";
+import { NewOutboxEntry, OutboxEntry, addToOutbox, getOutbox, isNetworkError, putOutboxEntry, removeOutboxEntry } from "@/lib/outbox";
+
+interface OfflineSyncContextType {
+  isOnline: boolean;
+  isSyncing: boolean;
+  pendingCount: number;
+  queueRequest: (entry: NewOutboxEntry) => Promise<OutboxEntry>;
+  syncNow: () => Promise<void>;
+}
+
+const OfflineSyncContext = createContext<OfflineSyncContextType>({
+  isOnline: true,
+  isSyncing: false,
+  pendingCount: 0,
+  queueRequest: async () => { throw new Error("OfflineSyncProvider is missing"); },
+  syncNow: async () => {},
+});
+
+export const useOfflineSync = () => {
+  const context = useContext(OfflineSyncContext);
+  if (!context) {
+    throw new Error("useOfflineSync must be used within an OfflineSyncProvider");
+  }
+  return context;
+};
+
+const RETRY_INTERVAL_MS = 30 * 1000;
+
+interface OfflineSyncProviderProps {
+  children: ReactNode;
+}
+
+export const OfflineSyncProvider = ({ children }: OfflineSyncProviderProps) => {
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [pendingCount, setPendingCount] = useState(0);
+  const syncingRef = useRef(false);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncNow();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    syncNow();
+
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, []);
+
+  // navigator.onLine can claim a connection the café Wi-Fi doesn't have, so keep retrying
+  useEffect(() => {
+    if (pendingCount === 0) return;
+
+    const interval = setInterval(syncNow, RETRY_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [pendingCount]);
+
+  const refreshPendingCount = async () => {
+    const entries = await getOutbox();
+    setPendingCount(entries.length);
+    return entries;
+  };
+
+  const queueRequest = async (entry: NewOutboxEntry) => {
+    const saved = await addToOutbox(entry);
+    await refreshPendingCount();
+    return saved;
+  };
+
+  const replay = async (entry: OutboxEntry) => {
+    if (entry.kind === "place_order") {
+      const { data, error } = await supabase.rpc("place_order", entry.args);
+      if (error) return { error };
+
+      const order = data as { order_number: string; tracking_token: string };
+      saveLastOrder(order.order_number, order.tracking_token);
+      toast({
+        title: "Order Synced",
+        description: `${entry.label} was sent as order ${order.order_number}.`,
+      });
+      return { error: null };
+    }
+
+    const { data, error } = await supabase.rpc("apply_order_action", entry.args);
+    if (error) return { error };
+
+    // The server keeps whichever status was set first; the queued change is dropped
+    const result = data as { applied: boolean; order_number?: string; current_status?: string };
+    if (!result.applied) {
+      toast({
+        title: "Offline Change Discarded",
+        description: `Order ${result.order_number} is already ${result.current_status}, so "${entry.label}" was not applied.`,
+        variant: "destructive",
+      });
+    }
+    return { error: null };
+  };
+
+  const syncNow = async () => {
+    if (syncingRef.current) return;
+    if (!navigator.onLine) {
+      await refreshPendingCount().catch(() => {});
+      return;
+    }
+    syncingRef.current = true;
+    setIsSyncing(true);
+
+    try {
+      const entries = await refreshPendingCount();
+
+      for (const entry of entries) {
+        const { error } = await replay(entry);
+
+        if (error && isNetworkError(error)) {
+          // Still offline; keep the rest in order for the next attempt
+          await putOutboxEntry({ ...entry, attempts: entry.attempts + 1 });
+          break;
+        }
+
+        if (error) {
+          console.error("Offline request rejected:", error);
+          toast({
+            title: "Offline Change Failed",
+            description: `${entry.label}: ${error.message}`,
+            variant: "destructive",
+          });
+        }
+
+        await removeOutboxEntry(entry.id);
+      }
+    } catch (error) {
+      console.error("Error syncing offline changes:", error);
+    } finally {
+      await refreshPendingCount().catch(() => {});
+      syncingRef.current = false;
+      setIsSyncing(false);
+    }
+  };
+
+  return (
+    <OfflineSyncContext.Provider value={{ isOnline, isSyncing, pendingCount, queueRequest, syncNow }}>
+      {children}
+    </OfflineSyncContext.Provider>
+  );
+};
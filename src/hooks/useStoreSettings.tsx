@@ -0,0 +1,66 @@
+import { useState, useEffect, createContext, useContext, ReactNode } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { setCurrency } from "@/lib/utils";
+import { DEFAULT_STORE_SETTINGS, OpeningHours, StoreSettings } from "@/lib/settings";
+import { ApprovalRules } from "@/lib/approvals";
+
+interface StoreSettingsContextType {
+  settings: StoreSettings;
+  loading: boolean;
+  refreshSettings: () => Promise<void>;
+}
+
+const StoreSettingsContext = createContext<StoreSettingsContextType>({
+  settings: DEFAULT_STORE_SETTINGS,
+  loading: true,
+  refreshSettings: async () => {},
+});
+
+export const useStoreSettings = () => {
+  const context = useContext(StoreSettingsContext);
+  if (!context) {
+    throw new Error("useStoreSettings must be used within a StoreSettingsProvider");
+  }
+  return context;
+};
+
+interface StoreSettingsProviderProps {
+  children: ReactNode;
+}
+
+export const StoreSettingsProvider = ({ children }: StoreSettingsProviderProps) => {
+  const [settings, setSettings] = useState<StoreSettings>(DEFAULT_STORE_SETTINGS);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    const { data, error } = await supabase
+      .from("store_settings")
+      .select("*")
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error loading store settings:", error);
+    } else if (data) {
+      const loaded = {
+        ...DEFAULT_STORE_SETTINGS,
+        ...data,
+        vat_rate: Number(data.vat_rate),
+        opening_hours: data.opening_hours as unknown as OpeningHours,
+        approval_rules: { ...DEFAULT_STORE_SETTINGS.approval_rules, ...(data.approval_rules as unknown as ApprovalRules) },
+      };
+      setCurrency(loaded.currency);
+      setSettings(loaded);
+    }
+    setLoading(false);
+  };
+
+  return (
+    <StoreSettingsContext.Provider value={{ settings, loading, refreshSettings: loadSettings }}>
+      {children}
+    </StoreSettingsContext.Provider>
+  );
+};
@@ -41,12 +41,108 @@ export type Database = {
         }
         Relationships: []
       }
+      cash_movements: {
+        Row: {
+          amount: number
+          created_at: string
+          created_by: string | null
+          id: string
+          movement_type: string
+          reason: string | null
+          shift_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          movement_type: string
+          reason?: string | null
+          shift_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          movement_type?: string
+          reason?: string | null
+          shift_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cash_movements_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "cash_movements_shift_id_fkey"
+            columns: ["shift_id"]
+            isOneToOne: false
+            referencedRelation: "cash_shifts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cash_shifts: {
+        Row: {
+          cashier_id: string
+          closed_at: string | null
+          counted_cash: number | null
+          created_at: string
+          expected_cash: number | null
+          id: string
+          notes: string | null
+          opened_at: string
+          opening_float: number
+          updated_at: string
+          z_report: Json | null
+        }
+        Insert: {
+          cashier_id: string
+          closed_at?: string | null
+          counted_cash?: number | null
+          created_at?: string
+          expected_cash?: number | null
+          id?: string
+          notes?: string | null
+          opened_at?: string
+          opening_float?: number
+          updated_at?: string
+          z_report?: Json | null
+        }
+        Update: {
+          cashier_id?: string
+          closed_at?: string | null
+          counted_cash?: number | null
+          created_at?: string
+          expected_cash?: number | null
+          id?: string
+          notes?: string | null
+          opened_at?: string
+          opening_float?: number
+          updated_at?: string
+          z_report?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cash_shifts_cashier_id_fkey"
+            columns: ["cashier_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
       categories: {
         Row: {
           created_at: string
           description: string | null
           id: string
           name: string
+          printer_id: string | null
           updated_at: string
         }
         Insert: {
@@ -54,6 +150,7 @@ export type Database = {
           description?: string | null
           id?: string
           name: string
+          printer_id?: string | null
           updated_at?: string
         }
         Update: {
@@ -61,7 +158,67 @@ export type Database = {
           description?: string | null
           id?: string
           name?: string
+          printer_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "categories_printer_id_fkey"
+            columns: ["printer_id"]
+            isOneToOne: false
+            referencedRelation: "printers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      discount_types: {
+        Row: {
+          code: string | null
+          created_at: string
+          id: string
+          is_active: boolean
+          max_amount: number | null
+          name: string
+          requires_approval: boolean
+          requires_id: boolean
+          scope: string
+          stackable: boolean
+          updated_at: string
+          value: number
+          value_type: string
+          vat_exempt: boolean
+        }
+        Insert: {
+          code?: string | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          max_amount?: number | null
+          name: string
+          requires_approval?: boolean
+          requires_id?: boolean
+          scope?: string
+          stackable?: boolean
+          updated_at?: string
+          value: number
+          value_type: string
+          vat_exempt?: boolean
+        }
+        Update: {
+          code?: string | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          max_amount?: number | null
+          name?: string
+          requires_approval?: boolean
+          requires_id?: boolean
+          scope?: string
+          stackable?: boolean
           updated_at?: string
+          value?: number
+          value_type?: string
+          vat_exempt?: boolean
         }
         Relationships: []
       }
@@ -107,6 +264,58 @@ export type Database = {
         }
         Relationships: []
       }
+      inventory_movements: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          inventory_id: string
+          order_id: string | null
+          quantity_change: number
+          reason: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          inventory_id: string
+          order_id?: string | null
+          quantity_change: number
+          reason: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          inventory_id?: string
+          order_id?: string | null
+          quantity_change?: number
+          reason?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inventory_movements_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "inventory_movements_inventory_id_fkey"
+            columns: ["inventory_id"]
+            isOneToOne: false
+            referencedRelation: "inventory"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_movements_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       low_stock_alerts: {
         Row: {
           acknowledged_at: string | null
@@ -152,6 +361,93 @@ export type Database = {
           },
         ]
       }
+      manager_approvals: {
+        Row: {
+          action: string
+          approved_by: string
+          created_at: string
+          expires_at: string
+          id: string
+          requested_by: string
+          used_at: string | null
+        }
+        Insert: {
+          action: string
+          approved_by: string
+          created_at?: string
+          expires_at?: string
+          id?: string
+          requested_by: string
+          used_at?: string | null
+        }
+        Update: {
+          action?: string
+          approved_by?: string
+          created_at?: string
+          expires_at?: string
+          id?: string
+          requested_by?: string
+          used_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "manager_approvals_approved_by_fkey"
+            columns: ["approved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "manager_approvals_requested_by_fkey"
+            columns: ["requested_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      menu_item_ingredients: {
+        Row: {
+          created_at: string
+          id: string
+          inventory_id: string
+          menu_item_id: string
+          quantity: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          inventory_id: string
+          menu_item_id: string
+          quantity: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          inventory_id?: string
+          menu_item_id?: string
+          quantity?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "menu_item_ingredients_inventory_id_fkey"
+            columns: ["inventory_id"]
+            isOneToOne: false
+            referencedRelation: "inventory"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "menu_item_ingredients_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       menu_items: {
         Row: {
           category_id: string | null
@@ -164,6 +460,7 @@ export type Database = {
           preparation_time: number | null
           price: number
           size: string | null
+          tax_type: string
           updated_at: string
         }
         Insert: {
@@ -177,6 +474,7 @@ export type Database = {
           preparation_time?: number | null
           price: number
           size?: string | null
+          tax_type?: string
           updated_at?: string
         }
         Update: {
@@ -190,6 +488,7 @@ export type Database = {
           preparation_time?: number | null
           price?: number
           size?: string | null
+          tax_type?: string
           updated_at?: string
         }
         Relationships: [
@@ -202,35 +501,145 @@ export type Database = {
           },
         ]
       }
+      modifier_groups: {
+        Row: {
+          category_id: string | null
+          created_at: string
+          id: string
+          is_required: boolean
+          max_selections: number
+          menu_item_id: string | null
+          min_selections: number
+          name: string
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          category_id?: string | null
+          created_at?: string
+          id?: string
+          is_required?: boolean
+          max_selections?: number
+          menu_item_id?: string | null
+          min_selections?: number
+          name: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          category_id?: string | null
+          created_at?: string
+          id?: string
+          is_required?: boolean
+          max_selections?: number
+          menu_item_id?: string | null
+          min_selections?: number
+          name?: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "modifier_groups_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "modifier_groups_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      modifier_options: {
+        Row: {
+          created_at: string
+          group_id: string
+          id: string
+          is_available: boolean
+          name: string
+          price_delta: number
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          group_id: string
+          id?: string
+          is_available?: boolean
+          name: string
+          price_delta?: number
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          group_id?: string
+          id?: string
+          is_available?: boolean
+          name?: string
+          price_delta?: number
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "modifier_options_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "modifier_groups"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       order_actions: {
         Row: {
           action_by: string | null
           action_type: string
+          after_values: Json | null
           amount: number | null
+          approved_by: string | null
+          before_values: Json | null
+          client_request_id: string | null
           created_at: string | null
           id: string
           notes: string | null
           order_id: string | null
+          order_item_id: string | null
           reason: string | null
         }
         Insert: {
           action_by?: string | null
           action_type: string
+          after_values?: Json | null
           amount?: number | null
+          approved_by?: string | null
+          before_values?: Json | null
+          client_request_id?: string | null
           created_at?: string | null
           id?: string
           notes?: string | null
           order_id?: string | null
+          order_item_id?: string | null
           reason?: string | null
         }
         Update: {
           action_by?: string | null
           action_type?: string
+          after_values?: Json | null
           amount?: number | null
+          approved_by?: string | null
+          before_values?: Json | null
+          client_request_id?: string | null
           created_at?: string | null
           id?: string
           notes?: string | null
           order_id?: string | null
+          order_item_id?: string | null
           reason?: string | null
         }
         Relationships: [
@@ -241,6 +650,13 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["user_id"]
           },
+          {
+            foreignKeyName: "order_actions_approved_by_fkey"
+            columns: ["approved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
           {
             foreignKeyName: "order_actions_order_id_fkey"
             columns: ["order_id"]
@@ -248,35 +664,57 @@ export type Database = {
             referencedRelation: "orders"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "order_actions_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
         ]
       }
       order_discounts: {
         Row: {
           applied_by: string | null
+          approved_by: string | null
           created_at: string | null
           discount_amount: number | null
           discount_type: string
+          discount_type_id: string | null
           discount_value: number | null
           id: string
+          id_holder_name: string | null
+          id_number: string | null
           order_id: string | null
+          order_item_id: string | null
         }
         Insert: {
           applied_by?: string | null
+          approved_by?: string | null
           created_at?: string | null
           discount_amount?: number | null
           discount_type: string
+          discount_type_id?: string | null
           discount_value?: number | null
           id?: string
+          id_holder_name?: string | null
+          id_number?: string | null
           order_id?: string | null
+          order_item_id?: string | null
         }
         Update: {
           applied_by?: string | null
+          approved_by?: string | null
           created_at?: string | null
           discount_amount?: number | null
           discount_type?: string
+          discount_type_id?: string | null
           discount_value?: number | null
           id?: string
+          id_holder_name?: string | null
+          id_number?: string | null
           order_id?: string | null
+          order_item_id?: string | null
         }
         Relationships: [
           {
@@ -287,12 +725,78 @@ export type Database = {
             referencedColumns: ["user_id"]
           },
           {
-            foreignKeyName: "order_discounts_order_id_fkey"
-            columns: ["order_id"]
+            foreignKeyName: "order_discounts_approved_by_fkey"
+            columns: ["approved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "order_discounts_discount_type_id_fkey"
+            columns: ["discount_type_id"]
+            isOneToOne: false
+            referencedRelation: "discount_types"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_discounts_order_id_fkey"
+            columns: ["order_id"]
             isOneToOne: false
             referencedRelation: "orders"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "order_discounts_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_item_modifiers: {
+        Row: {
+          created_at: string
+          group_name: string
+          id: string
+          modifier_option_id: string | null
+          option_name: string
+          order_item_id: string
+          price_delta: number
+        }
+        Insert: {
+          created_at?: string
+          group_name: string
+          id?: string
+          modifier_option_id?: string | null
+          option_name: string
+          order_item_id: string
+          price_delta?: number
+        }
+        Update: {
+          created_at?: string
+          group_name?: string
+          id?: string
+          modifier_option_id?: string | null
+          option_name?: string
+          order_item_id?: string
+          price_delta?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_item_modifiers_modifier_option_id_fkey"
+            columns: ["modifier_option_id"]
+            isOneToOne: false
+            referencedRelation: "modifier_options"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_item_modifiers_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
         ]
       }
       order_items: {
@@ -303,8 +807,13 @@ export type Database = {
           order_id: string
           quantity: number
           special_instructions: string | null
+          tax_type: string
           total_price: number
           unit_price: number
+          vat_amount: number
+          void_reason: string | null
+          voided_at: string | null
+          voided_by: string | null
         }
         Insert: {
           created_at?: string
@@ -313,8 +822,13 @@ export type Database = {
           order_id: string
           quantity?: number
           special_instructions?: string | null
+          tax_type?: string
           total_price: number
           unit_price: number
+          vat_amount?: number
+          void_reason?: string | null
+          voided_at?: string | null
+          voided_by?: string | null
         }
         Update: {
           created_at?: string
@@ -323,8 +837,13 @@ export type Database = {
           order_id?: string
           quantity?: number
           special_instructions?: string | null
+          tax_type?: string
           total_price?: number
           unit_price?: number
+          vat_amount?: number
+          void_reason?: string | null
+          voided_at?: string | null
+          voided_by?: string | null
         }
         Relationships: [
           {
@@ -341,61 +860,307 @@ export type Database = {
             referencedRelation: "orders"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "order_items_voided_by_fkey"
+            columns: ["voided_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      order_payments: {
+        Row: {
+          amount: number
+          amount_tendered: number
+          change_given: number
+          created_at: string
+          id: string
+          method: string
+          order_id: string
+          received_by: string | null
+          reference_number: string | null
+          shift_id: string | null
+        }
+        Insert: {
+          amount: number
+          amount_tendered: number
+          change_given?: number
+          created_at?: string
+          id?: string
+          method: string
+          order_id: string
+          received_by?: string | null
+          reference_number?: string | null
+          shift_id?: string | null
+        }
+        Update: {
+          amount?: number
+          amount_tendered?: number
+          change_given?: number
+          created_at?: string
+          id?: string
+          method?: string
+          order_id?: string
+          received_by?: string | null
+          reference_number?: string | null
+          shift_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_payments_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_payments_received_by_fkey"
+            columns: ["received_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "order_payments_shift_id_fkey"
+            columns: ["shift_id"]
+            isOneToOne: false
+            referencedRelation: "cash_shifts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_refund_items: {
+        Row: {
+          amount: number
+          id: string
+          order_item_id: string
+          quantity: number
+          refund_id: string
+        }
+        Insert: {
+          amount: number
+          id?: string
+          order_item_id: string
+          quantity: number
+          refund_id: string
+        }
+        Update: {
+          amount?: number
+          id?: string
+          order_item_id?: string
+          quantity?: number
+          refund_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_refund_items_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_refund_items_refund_id_fkey"
+            columns: ["refund_id"]
+            isOneToOne: false
+            referencedRelation: "order_refunds"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_refunds: {
+        Row: {
+          amount: number
+          approved_by: string | null
+          created_at: string
+          id: string
+          method: string
+          notes: string | null
+          order_id: string
+          reason: string
+          refunded_by: string | null
+          restock: boolean
+          shift_id: string | null
+          tax_amount: number
+        }
+        Insert: {
+          amount?: number
+          approved_by?: string | null
+          created_at?: string
+          id?: string
+          method: string
+          notes?: string | null
+          order_id: string
+          reason: string
+          refunded_by?: string | null
+          restock?: boolean
+          shift_id?: string | null
+          tax_amount?: number
+        }
+        Update: {
+          amount?: number
+          approved_by?: string | null
+          created_at?: string
+          id?: string
+          method?: string
+          notes?: string | null
+          order_id?: string
+          reason?: string
+          refunded_by?: string | null
+          restock?: boolean
+          shift_id?: string | null
+          tax_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_refunds_approved_by_fkey"
+            columns: ["approved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "order_refunds_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_refunds_refunded_by_fkey"
+            columns: ["refunded_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "order_refunds_shift_id_fkey"
+            columns: ["shift_id"]
+            isOneToOne: false
+            referencedRelation: "cash_shifts"
+            referencedColumns: ["id"]
+          },
         ]
       }
       orders: {
         Row: {
+          approved_at: string | null
+          approved_by: string | null
+          cancelled_at: string | null
+          cancelled_by: string | null
           cashier_id: string | null
+          client_request_id: string | null
+          completed_at: string | null
+          completed_by: string | null
           created_at: string
           customer_name: string | null
           customer_notes: string | null
           customer_phone: string | null
           discount_amount: number
           id: string
+          or_number: string | null
           order_number: string
           order_type: string | null
           payment_method: string
           pickup_time: string | null
+          ready_at: string | null
+          ready_by: string | null
+          refunded_at: string | null
+          refunded_by: string | null
           status: string
           tax_amount: number
           total_amount: number
+          tracking_token: string
           updated_at: string
+          vat_exempt_amount: number
+          vat_exempt_sales: number
+          vatable_sales: number
+          zero_rated_sales: number
         }
         Insert: {
+          approved_at?: string | null
+          approved_by?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
           cashier_id?: string | null
+          client_request_id?: string | null
+          completed_at?: string | null
+          completed_by?: string | null
           created_at?: string
           customer_name?: string | null
           customer_notes?: string | null
           customer_phone?: string | null
           discount_amount?: number
           id?: string
+          or_number?: string | null
           order_number: string
           order_type?: string | null
           payment_method?: string
           pickup_time?: string | null
+          ready_at?: string | null
+          ready_by?: string | null
+          refunded_at?: string | null
+          refunded_by?: string | null
           status?: string
           tax_amount?: number
           total_amount: number
+          tracking_token?: string
           updated_at?: string
+          vat_exempt_amount?: number
+          vat_exempt_sales?: number
+          vatable_sales?: number
+          zero_rated_sales?: number
         }
         Update: {
+          approved_at?: string | null
+          approved_by?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
           cashier_id?: string | null
+          client_request_id?: string | null
+          completed_at?: string | null
+          completed_by?: string | null
           created_at?: string
           customer_name?: string | null
           customer_notes?: string | null
           customer_phone?: string | null
           discount_amount?: number
           id?: string
+          or_number?: string | null
           order_number?: string
           order_type?: string | null
           payment_method?: string
           pickup_time?: string | null
+          ready_at?: string | null
+          ready_by?: string | null
+          refunded_at?: string | null
+          refunded_by?: string | null
           status?: string
           tax_amount?: number
           total_amount?: number
+          tracking_token?: string
           updated_at?: string
+          vat_exempt_amount?: number
+          vat_exempt_sales?: number
+          vatable_sales?: number
+          zero_rated_sales?: number
         }
         Relationships: [
+          {
+            foreignKeyName: "orders_approved_by_fkey"
+            columns: ["approved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "orders_cancelled_by_fkey"
+            columns: ["cancelled_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
           {
             foreignKeyName: "orders_cashier_id_fkey"
             columns: ["cashier_id"]
@@ -403,8 +1168,59 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["user_id"]
           },
+          {
+            foreignKeyName: "orders_completed_by_fkey"
+            columns: ["completed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "orders_ready_by_fkey"
+            columns: ["ready_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "orders_refunded_by_fkey"
+            columns: ["refunded_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
         ]
       }
+      printers: {
+        Row: {
+          address: string | null
+          connection: string
+          created_at: string
+          id: string
+          is_active: boolean
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          address?: string | null
+          connection?: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          address?: string | null
+          connection?: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           created_at: string
@@ -480,15 +1296,235 @@ export type Database = {
           },
         ]
       }
+      staff_pins: {
+        Row: {
+          failed_attempts: number
+          locked_until: string | null
+          pin_hash: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          failed_attempts?: number
+          locked_until?: string | null
+          pin_hash: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          failed_attempts?: number
+          locked_until?: string | null
+          pin_hash?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "staff_pins_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      store_settings: {
+        Row: {
+          address: string | null
+          approval_rules: Json
+          business_day_cutoff: number
+          business_name: string
+          created_at: string
+          currency: string
+          id: boolean
+          logo_url: string | null
+          next_or_number: number
+          opening_hours: Json
+          or_prefix: string
+          order_number_prefix: string
+          paper_width: number
+          phone: string | null
+          receipt_footer: string | null
+          receipt_header: string | null
+          tagline: string | null
+          timezone: string
+          tin: string | null
+          updated_at: string
+          vat_rate: number
+        }
+        Insert: {
+          address?: string | null
+          approval_rules?: Json
+          business_day_cutoff?: number
+          business_name: string
+          created_at?: string
+          currency?: string
+          id?: boolean
+          logo_url?: string | null
+          next_or_number?: number
+          opening_hours?: Json
+          or_prefix?: string
+          order_number_prefix?: string
+          paper_width?: number
+          phone?: string | null
+          receipt_footer?: string | null
+          receipt_header?: string | null
+          tagline?: string | null
+          timezone?: string
+          tin?: string | null
+          updated_at?: string
+          vat_rate?: number
+        }
+        Update: {
+          address?: string | null
+          approval_rules?: Json
+          business_day_cutoff?: number
+          business_name?: string
+          created_at?: string
+          currency?: string
+          id?: boolean
+          logo_url?: string | null
+          next_or_number?: number
+          opening_hours?: Json
+          or_prefix?: string
+          order_number_prefix?: string
+          paper_width?: number
+          phone?: string | null
+          receipt_footer?: string | null
+          receipt_header?: string | null
+          tagline?: string | null
+          timezone?: string
+          tin?: string | null
+          updated_at?: string
+          vat_rate?: number
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      add_order_item: {
+        Args: {
+          p_menu_item_id: string
+          p_modifier_option_ids?: string[]
+          p_notes?: string
+          p_order_id: string
+          p_quantity?: number
+        }
+        Returns: Json
+      }
+      apply_discount: {
+        Args: {
+          p_approval_id?: string
+          p_discount_type_id?: string
+          p_id_holder_name?: string
+          p_id_number?: string
+          p_order_id: string
+          p_order_item_id?: string
+          p_promo_code?: string
+        }
+        Returns: Json
+      }
+      apply_order_action: {
+        Args: {
+          p_action_type: string
+          p_amount?: number
+          p_approval_id?: string
+          p_client_request_id?: string
+          p_expected_status?: string
+          p_new_status: string
+          p_notes?: string
+          p_order_id: string
+          p_reason?: string
+        }
+        Returns: Json
+      }
+      approve_with_pin: {
+        Args: {
+          p_action: string
+          p_manager_id: string
+          p_pin: string
+        }
+        Returns: Json
+      }
+      business_date: {
+        Args: {
+          p_at: string
+        }
+        Returns: string
+      }
+      business_day_start: {
+        Args: {
+          p_date: string
+        }
+        Returns: string
+      }
+      close_shift: {
+        Args: {
+          p_counted_cash: number
+          p_notes?: string
+        }
+        Returns: Json
+      }
       generate_order_number: {
         Args: Record<PropertyKey, never>
         Returns: string
       }
+      get_activity_log_actions: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
+      get_order_status: {
+        Args: {
+          p_order_number: string
+          p_token: string
+        }
+        Returns: Json
+      }
+      get_order_timeline: {
+        Args: {
+          p_order_id: string
+        }
+        Returns: Json
+      }
+      get_order_totals: {
+        Args: {
+          p_cashier_id?: string
+          p_from?: string
+          p_max_amount?: number
+          p_min_amount?: number
+          p_payment_method?: string
+          p_search?: string
+          p_status?: string
+          p_to?: string
+        }
+        Returns: Json
+      }
+      get_sales_report: {
+        Args: {
+          p_from: string
+          p_to: string
+        }
+        Returns: Json
+      }
+      get_user_role: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      get_z_report: {
+        Args: {
+          p_shift_id: string
+        }
+        Returns: Json
+      }
+      has_role: {
+        Args: {
+          allowed_roles: string[]
+        }
+        Returns: boolean
+      }
       log_activity: {
         Args: {
           action_type: string
@@ -497,6 +1533,114 @@ export type Database = {
         }
         Returns: string
       }
+      open_cash_drawer: {
+        Args: {
+          p_approval_id?: string
+          p_reason: string
+        }
+        Returns: Json
+      }
+      open_shift: {
+        Args: {
+          p_opening_float: number
+        }
+        Returns: string
+      }
+      override_order_item_price: {
+        Args: {
+          p_approval_id?: string
+          p_order_item_id: string
+          p_reason: string
+          p_unit_price: number
+        }
+        Returns: Json
+      }
+      place_order: {
+        Args: {
+          p_client_request_id?: string
+          p_customer_name: string
+          p_customer_notes?: string
+          p_items: Json
+          p_order_type?: string
+        }
+        Returns: Json
+      }
+      recalculate_order_totals: {
+        Args: {
+          p_order_id: string
+        }
+        Returns: undefined
+      }
+      record_cash_movement: {
+        Args: {
+          p_amount: number
+          p_movement_type: string
+          p_reason?: string
+        }
+        Returns: string
+      }
+      record_payments: {
+        Args: {
+          p_order_id: string
+          p_tenders: Json
+        }
+        Returns: Json
+      }
+      refund_order: {
+        Args: {
+          p_approval_id?: string
+          p_items: Json
+          p_method: string
+          p_notes?: string
+          p_order_id: string
+          p_reason: string
+          p_restock?: boolean
+        }
+        Returns: Json
+      }
+      remove_discount: {
+        Args: {
+          p_approval_id?: string
+          p_discount_id: string
+        }
+        Returns: Json
+      }
+      set_my_pin: {
+        Args: {
+          p_pin: string
+        }
+        Returns: undefined
+      }
+      update_order_details: {
+        Args: {
+          p_customer_name: string
+          p_order_id: string
+        }
+        Returns: undefined
+      }
+      update_order_item_quantity: {
+        Args: {
+          p_order_item_id: string
+          p_quantity: number
+        }
+        Returns: Json
+      }
+      void_order: {
+        Args: {
+          p_approval_id?: string
+          p_order_id: string
+          p_reason: string
+        }
+        Returns: Json
+      }
+      void_order_item: {
+        Args: {
+          p_approval_id?: string
+          p_order_item_id: string
+          p_reason: string
+        }
+        Returns: Json
+      }
     }
     Enums: {
       [_ in never]: never
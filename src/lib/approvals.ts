@@ -0,0 +1,33 @@
+// Which actions need a manager's PIN when a cashier does them. The limits are
+// checked by the database; null turns a limit off and 0 means every time.
+export type ApprovalRules = {
+  refund_over: number | null;
+  discount_over_percent: number | null;
+  void: boolean;
+  price_override: boolean;
+  drawer_open: boolean;
+};
+
+export const DEFAULT_APPROVAL_RULES: ApprovalRules = {
+  refund_over: 0,
+  discount_over_percent: 20,
+  void: true,
+  price_override: true,
+  drawer_open: true,
+};
+
+export const APPROVAL_TOGGLES: { key: "void" | "price_override" | "drawer_open"; label: string; description: string }[] = [
+  { key: "void", label: "Voids", description: "Cancelling or voiding an order, or voiding a line" },
+  { key: "price_override", label: "Price overrides", description: "Changing what a line is charged" },
+  { key: "drawer_open", label: "Opening the drawer", description: "Opening the cash drawer without a sale" },
+];
+
+// A manager's one-off approval from approve_with_pin, passed along with the action
+export interface ManagerApproval {
+  p_approval_id: string;
+}
+
+// What a manager approves: an action that comes back with AP001 names it in the hint
+export type ApprovalAction = "refund" | "discount" | "void" | "price_override" | "drawer_open";
+
+export const isApprovalError = (error: { code?: string } | null) => error?.code === "AP001";
@@ -0,0 +1,82 @@
+import { Json } from "@/integrations/supabase/types";
+import { ExportColumn } from "@/lib/export";
+
+export interface ActivityLog {
+  id: string;
+  action: string;
+  description: string;
+  user_id: string | null;
+  metadata: Json | null;
+  created_at: string;
+}
+
+// What a log entry is about, going by the ids in its metadata. Older entries
+// and the database triggers don't always use the same key for the same thing.
+export const AUDIT_ENTITIES: { value: string; label: string; keys: string[] }[] = [
+  { value: "order", label: "Orders", keys: ["order_id"] },
+  { value: "menu_item", label: "Menu Items", keys: ["item_id", "menu_item_id"] },
+  { value: "inventory", label: "Inventory", keys: ["inventory_id"] },
+  { value: "modifier_group", label: "Modifiers", keys: ["modifier_group_id"] },
+  { value: "discount_type", label: "Discounts", keys: ["discount_type_id"] },
+  { value: "printer", label: "Printers", keys: ["printer_id"] },
+  { value: "shift", label: "Shifts", keys: ["shift_id"] },
+  { value: "export", label: "Exports", keys: ["dataset"] },
+];
+
+export function getEntityLabel(metadata: Json | null) {
+  if (!metadata || typeof metadata !== "object" || Array.isArray(metadata)) return null;
+  return AUDIT_ENTITIES.find(entity => entity.keys.some(key => metadata[key] != null))?.label || null;
+}
+
+// PostgREST or=() filter matching any of the entity's keys
+export const getEntityFilter = (entity: string) =>
+  AUDIT_ENTITIES.find(e => e.value === entity)?.keys.map(key => `metadata->>${key}.not.is.null`).join(",");
+
+// Filters live in the URL like Sales History's; from and to are business days
+export interface AuditLogFilters {
+  from: string;
+  to: string;
+  userId: string;
+  action: string;
+  entity: string;
+  search: string;
+  page: number;
+}
+
+export const AUDIT_LOG_PAGE_SIZE = 50;
+
+const PARAM_NAMES: Record<Exclude<keyof AuditLogFilters, "page">, string> = {
+  from: "from",
+  to: "to",
+  userId: "user",
+  action: "action",
+  entity: "entity",
+  search: "q",
+};
+
+export function readAuditFilters(params: URLSearchParams): AuditLogFilters {
+  const page = Number(params.get("page"));
+  const filters = { page: Number.isInteger(page) && page > 1 ? page : 1 } as AuditLogFilters;
+  for (const [key, name] of Object.entries(PARAM_NAMES)) {
+    filters[key] = params.get(name) || "";
+  }
+  return filters;
+}
+
+export function writeAuditFilters(filters: AuditLogFilters) {
+  const params = new URLSearchParams();
+  for (const [key, name] of Object.entries(PARAM_NAMES)) {
+    if (filters[key]) params.set(name, filters[key]);
+  }
+  if (filters.page > 1) params.set("page", String(filters.page));
+  return params;
+}
+
+export const AUDIT_EXPORT_COLUMNS: ExportColumn[] = [
+  { key: "created_at", label: "Date", type: "datetime" },
+  { key: "user", label: "User", type: "text" },
+  { key: "action", label: "Action", type: "text" },
+  { key: "entity", label: "Entity", type: "text" },
+  { key: "description", label: "Description", type: "text" },
+  { key: "metadata", label: "Metadata", type: "text" },
+];
@@ -0,0 +1,86 @@
+import { StoreSettings } from "@/lib/settings";
+
+// Business days are yyyy-MM-dd strings in the store's time zone. A day runs from
+// business_day_cutoff o'clock to the same hour the next morning, so with a 4 AM
+// cutoff a 1 AM sale counts towards the night before. Mirrors public.business_date.
+type BusinessDaySettings = Pick<StoreSettings, "timezone" | "business_day_cutoff">;
+
+// Half-open: start <= created_at < end
+export interface BusinessDayRange {
+  start: string;
+  end: string;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getParts(date: Date, timeZone: string) {
+  if (!formatters.has(timeZone)) {
+    formatters.set(timeZone, new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      hourCycle: "h23",
+    }));
+  }
+  const parts = Object.fromEntries(formatters.get(timeZone).formatToParts(date).map(part => [part.type, part.value]));
+  return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute, second: parts.second };
+}
+
+// How far the zone's wall clock is ahead of UTC at that moment
+function getOffsetMs(date: Date, timeZone: string) {
+  const p = getParts(date, timeZone);
+  const wallClock = Date.UTC(+p.year, +p.month - 1, +p.day, +p.hour, +p.minute, +p.second);
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// The moment the zone's clock shows that date and hour; checked twice in case the offset changes in between (DST)
+function zonedTimeToUtc(date: string, hour: number, timeZone: string) {
+  const [year, month, day] = date.split("-").map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour);
+  const firstGuess = wallClock - getOffsetMs(new Date(wallClock), timeZone);
+  return new Date(wallClock - getOffsetMs(new Date(firstGuess), timeZone));
+}
+
+export function addDays(date: string, days: number) {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().slice(0, 10);
+}
+
+// 0 = Monday
+export const getWeekdayIndex = (date: string) => (new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7;
+
+export function getBusinessDate(settings: BusinessDaySettings, at: Date = new Date()) {
+  const shifted = new Date(at.getTime() - settings.business_day_cutoff * 60 * 60 * 1000);
+  const p = getParts(shifted, settings.timezone);
+  return `${p.year}-${p.month}-${p.day}`;
+}
+
+// from and to are business days, inclusive
+export function getBusinessDayRange(settings: BusinessDaySettings, from: string, to: string = from): BusinessDayRange {
+  return {
+    start: zonedTimeToUtc(from, settings.business_day_cutoff, settings.timezone).toISOString(),
+    end: zonedTimeToUtc(addDays(to, 1), settings.business_day_cutoff, settings.timezone).toISOString(),
+  };
+}
+
+// Monday to Sunday of the business week containing date
+export function getBusinessWeek(date: string) {
+  const monday = addDays(date, -getWeekdayIndex(date));
+  return { start: monday, end: addDays(monday, 6) };
+}
+
+// Wall-clock time in the store, e.g. 2025-09-28 14:03, whatever time zone the device is set to
+export function formatStoreDateTime(value: string, timeZone: string) {
+  const p = getParts(new Date(value), timeZone);
+  return `${p.year}-${p.month}-${p.day} ${p.hour}:${p.minute}`;
+}
+
+// Intl.supportedValuesOf isn't in this TypeScript lib yet, and older browsers lack it
+const intl = Intl as typeof Intl & { supportedValuesOf?: (key: "timeZone") => string[] };
+
+export const TIME_ZONES: string[] = intl.supportedValuesOf?.("timeZone") ?? ["Asia/Manila"];
@@ -0,0 +1,39 @@
+import { formatPHP } from "@/lib/utils";
+
+export interface DiscountType {
+  id: string;
+  name: string;
+  code: string | null;
+  value_type: string;
+  value: number;
+  scope: string;
+  max_amount: number | null;
+  vat_exempt: boolean;
+  requires_id: boolean;
+  stackable: boolean;
+  requires_approval: boolean;
+  is_active: boolean;
+}
+
+export interface OrderDiscount {
+  id: string;
+  discount_type: string;
+  discount_amount: number | null;
+  order_item_id: string | null;
+  id_number: string | null;
+  id_holder_name: string | null;
+}
+
+export const formatDiscountValue = (type: Pick<DiscountType, "value_type" | "value">) =>
+  type.value_type === "percentage" ? `${Number(type.value)}%` : formatPHP(type.value);
+
+// Short summary of a discount's rules, e.g. "20% · per item · VAT exempt"
+export function describeDiscountType(type: DiscountType) {
+  return [
+    formatDiscountValue(type),
+    type.scope === "item" ? "per item" : "per order",
+    type.max_amount ? `max ${formatPHP(type.max_amount)}` : null,
+    type.vat_exempt ? "VAT exempt" : null,
+    type.stackable ? "stackable" : null,
+  ].filter(Boolean).join(" · ");
+}
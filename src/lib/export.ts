@@ -0,0 +1,125 @@
+import { formatPHP } from "@/lib/utils";
+import { formatStoreDateTime } from "@/lib/businessDay";
+
+export type ExportFormat = "csv" | "xlsx" | "pdf";
+export type ExportValue = string | number | null;
+export type ExportRow = Record<string, ExportValue>;
+
+export interface ExportColumn {
+  key: string;
+  label: string;
+  type: "text" | "number" | "money" | "datetime";
+}
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: "csv", label: "CSV" },
+  { value: "xlsx", label: "Excel (.xlsx)" },
+  { value: "pdf", label: "PDF" },
+];
+
+interface ExportOptions {
+  fileName: string;
+  title: string;
+  subtitle: string;
+  // Dates are written in store time wherever the export is run from
+  timeZone: string;
+  columns: ExportColumn[];
+  rows: ExportRow[];
+}
+
+function formatCell(column: ExportColumn, value: ExportValue, timeZone: string) {
+  if (value === null || value === undefined || value === "") return "";
+  switch (column.type) {
+    case "money":
+      return formatPHP(value);
+    case "datetime":
+      return formatStoreDateTime(String(value), timeZone);
+    default:
+      return String(value);
+  }
+}
+
+const csvEscape = (value: string) => (/[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// Excel runs a cell starting with one of these as a formula, and customers type their own
+// names and notes, so text gets a leading quote to keep it text
+const csvCell = (column: ExportColumn, value: ExportValue, timeZone: string) => {
+  const text = formatCell(column, value, timeZone);
+  return csvEscape(column.type === "text" && /^[=+\-@\t\r]/.test(text) ? `'${text}` : text);
+};
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function exportCsv({ fileName, timeZone, columns, rows }: ExportOptions) {
+  const lines = [
+    columns.map(column => csvEscape(column.label)).join(","),
+    ...rows.map(row => columns.map(column => csvCell(column, row[column.key], timeZone)).join(",")),
+  ];
+  // The byte order mark makes Excel read the peso sign as UTF-8
+  downloadBlob(new Blob(["\uFEFF" + lines.join("\r\n")], { type: "text/csv;charset=utf-8" }), `${fileName}.csv`);
+}
+
+// Amounts stay numbers in Excel so the accountant can sum them
+async function exportXlsx({ fileName, title, timeZone, columns, rows }: ExportOptions) {
+  const { default: writeXlsxFile } = await import("write-excel-file/browser");
+
+  const data = [
+    columns.map(column => ({ value: column.label, fontWeight: "bold" as const })),
+    ...rows.map(row => columns.map(column => {
+      const value = row[column.key];
+      if (value === null || value === undefined) return null;
+      if (column.type === "money") return { value: Number(value), type: Number, format: '"₱"#,##0.00' };
+      if (column.type === "number") return { value: Number(value), type: Number };
+      return { value: formatCell(column, value, timeZone), type: String };
+    })),
+  ];
+
+  await writeXlsxFile(data, {
+    sheet: title.slice(0, 31),
+    stickyRowsCount: 1,
+    columns: columns.map(column => ({ width: Math.max(12, column.label.length + 2) })),
+  }).toFile(`${fileName}.xlsx`);
+}
+
+async function exportPdf({ fileName, title, subtitle, timeZone, columns, rows }: ExportOptions) {
+  const [{ jsPDF }, { autoTable }] = await Promise.all([import("jspdf"), import("jspdf-autotable")]);
+
+  // The built-in PDF fonts have no peso sign
+  const pdfCell = (column: ExportColumn, value: ExportValue) => formatCell(column, value, timeZone).replace(/₱/g, "PHP ");
+
+  const doc = new jsPDF({ orientation: columns.length > 6 ? "landscape" : "portrait" });
+  doc.setFontSize(14);
+  doc.text(title, 14, 16);
+  doc.setFontSize(9);
+  doc.text(subtitle, 14, 22);
+
+  autoTable(doc, {
+    startY: 27,
+    head: [columns.map(column => column.label)],
+    body: rows.map(row => columns.map(column => pdfCell(column, row[column.key]))),
+    styles: { fontSize: 7 },
+    columnStyles: Object.fromEntries(
+      columns.flatMap((column, index) => (column.type === "money" || column.type === "number" ? [[index, { halign: "right" as const }]] : []))
+    ),
+  });
+
+  doc.save(`${fileName}.pdf`);
+}
+
+export async function exportRows(format: ExportFormat, options: ExportOptions) {
+  switch (format) {
+    case "csv":
+      return exportCsv(options);
+    case "xlsx":
+      return exportXlsx(options);
+    case "pdf":
+      return exportPdf(options);
+  }
+}
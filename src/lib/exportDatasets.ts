@@ -0,0 +1,274 @@
+import { supabase } from "@/integrations/supabase/client";
+import { formatModifiers } from "@/lib/modifiers";
+import { ZReport } from "@/lib/zReport";
+import { ExportColumn, ExportRow } from "@/lib/export";
+import { BusinessDayRange } from "@/lib/businessDay";
+
+export type ExportDatasetId = "orders" | "line_items" | "discounts" | "refunds" | "z_reports";
+
+export interface ExportDataset {
+  id: ExportDatasetId;
+  label: string;
+  columns: ExportColumn[];
+  fetch: (range: BusinessDayRange) => Promise<ExportRow[]>;
+}
+
+// PostgREST caps each response, so exports page through until a short page comes back
+const PAGE_SIZE = 1000;
+
+export async function fetchAllRows<T>(page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>) {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+const fetchOrders = async ({ start, end }: BusinessDayRange) => {
+  const orders = await fetchAllRows((first, last) =>
+    supabase
+      .from("orders")
+      .select("*")
+      .gte("created_at", start)
+      .lt("created_at", end)
+      .order("created_at")
+      .range(first, last)
+  );
+
+  return orders.map(order => ({
+    order_number: order.order_number,
+    or_number: order.or_number,
+    created_at: order.created_at,
+    status: order.status,
+    order_type: order.order_type,
+    customer_name: order.customer_name,
+    payment_method: order.payment_method,
+    vatable_sales: order.vatable_sales,
+    vat_exempt_sales: order.vat_exempt_sales,
+    zero_rated_sales: order.zero_rated_sales,
+    tax_amount: order.tax_amount,
+    discount_amount: order.discount_amount,
+    vat_exempt_amount: order.vat_exempt_amount,
+    total_amount: order.total_amount,
+  }));
+};
+
+const fetchLineItems = async ({ start, end }: BusinessDayRange) => {
+  const items = await fetchAllRows((first, last) =>
+    supabase
+      .from("order_items")
+      .select(`
+        *,
+        menu_items (name),
+        order_item_modifiers (option_name, price_delta),
+        orders!inner (order_number, created_at, status)
+      `)
+      .gte("orders.created_at", start)
+      .lt("orders.created_at", end)
+      .is("voided_at", null)
+      .order("created_at")
+      .range(first, last)
+  );
+
+  return items.map(item => ({
+    order_number: item.orders.order_number,
+    created_at: item.orders.created_at,
+    status: item.orders.status,
+    item: item.menu_items?.name || "Unknown Item",
+    modifiers: item.order_item_modifiers?.length ? formatModifiers(item.order_item_modifiers) : null,
+    special_instructions: item.special_instructions,
+    quantity: item.quantity,
+    unit_price: item.unit_price,
+    tax_type: item.tax_type,
+    vat_amount: item.vat_amount,
+    total_price: item.total_price,
+  }));
+};
+
+const fetchDiscounts = async ({ start, end }: BusinessDayRange) => {
+  const discounts = await fetchAllRows((first, last) =>
+    supabase
+      .from("order_discounts")
+      .select(`
+        *,
+        orders (order_number),
+        profiles!order_discounts_applied_by_fkey (full_name)
+      `)
+      .gte("created_at", start)
+      .lt("created_at", end)
+      .order("created_at")
+      .range(first, last)
+  );
+
+  return discounts.map(discount => ({
+    created_at: discount.created_at,
+    order_number: discount.orders?.order_number || null,
+    discount_type: discount.discount_type,
+    discount_value: discount.discount_value,
+    discount_amount: discount.discount_amount,
+    id_number: discount.id_number,
+    id_holder_name: discount.id_holder_name,
+    applied_by: discount.profiles?.full_name || null,
+  }));
+};
+
+const fetchRefunds = async ({ start, end }: BusinessDayRange) => {
+  const refunds = await fetchAllRows((first, last) =>
+    supabase
+      .from("order_refunds")
+      .select(`
+        *,
+        orders (order_number),
+        refunded_by_profile:profiles!order_refunds_refunded_by_fkey (full_name),
+        approved_by_profile:profiles!order_refunds_approved_by_fkey (full_name)
+      `)
+      .gte("created_at", start)
+      .lt("created_at", end)
+      .order("created_at")
+      .range(first, last)
+  );
+
+  return refunds.map(refund => ({
+    created_at: refund.created_at,
+    order_number: refund.orders?.order_number || null,
+    amount: refund.amount,
+    method: refund.method,
+    restock: refund.restock ? "Yes" : "No",
+    reason: refund.reason,
+    notes: refund.notes,
+    refunded_by: refund.refunded_by_profile?.full_name || null,
+    approved_by: refund.approved_by_profile?.full_name || null,
+  }));
+};
+
+// Closed shifts only; their Z-report was snapshotted when the cashier signed off
+const fetchZReports = async ({ start, end }: BusinessDayRange) => {
+  const shifts = await fetchAllRows((first, last) =>
+    supabase
+      .from("cash_shifts")
+      .select("z_report")
+      .not("z_report", "is", null)
+      .gte("closed_at", start)
+      .lt("closed_at", end)
+      .order("closed_at")
+      .range(first, last)
+  );
+
+  return shifts.map(shift => {
+    const report = shift.z_report as unknown as ZReport;
+    return {
+      cashier_name: report.cashier_name,
+      opened_at: report.opened_at,
+      closed_at: report.closed_at,
+      orders_paid: report.orders_paid,
+      gross_sales: report.gross_sales,
+      opening_float: report.opening_float,
+      cash_sales: report.cash_sales,
+      cash_drops: report.cash_drops,
+      paid_outs: report.paid_outs,
+      refunds: report.refunds.amount,
+      discounts: report.discounts.amount,
+      voids: report.voids.amount,
+      expected_cash: report.expected_cash,
+      counted_cash: report.counted_cash,
+      variance: report.variance,
+    };
+  });
+};
+
+export const EXPORT_DATASETS: ExportDataset[] = [
+  {
+    id: "orders",
+    label: "Orders",
+    fetch: fetchOrders,
+    columns: [
+      { key: "order_number", label: "Order #", type: "text" },
+      { key: "or_number", label: "OR #", type: "text" },
+      { key: "created_at", label: "Date", type: "datetime" },
+      { key: "status", label: "Status", type: "text" },
+      { key: "order_type", label: "Type", type: "text" },
+      { key: "customer_name", label: "Customer", type: "text" },
+      { key: "payment_method", label: "Payment", type: "text" },
+      { key: "vatable_sales", label: "VATable Sales", type: "money" },
+      { key: "vat_exempt_sales", label: "VAT-Exempt Sales", type: "money" },
+      { key: "zero_rated_sales", label: "Zero-Rated Sales", type: "money" },
+      { key: "tax_amount", label: "VAT", type: "money" },
+      { key: "discount_amount", label: "Discount", type: "money" },
+      { key: "vat_exempt_amount", label: "SC/PWD VAT", type: "money" },
+      { key: "total_amount", label: "Total", type: "money" },
+    ],
+  },
+  {
+    id: "line_items",
+    label: "Line Items",
+    fetch: fetchLineItems,
+    columns: [
+      { key: "order_number", label: "Order #", type: "text" },
+      { key: "created_at", label: "Date", type: "datetime" },
+      { key: "status", label: "Status", type: "text" },
+      { key: "item", label: "Item", type: "text" },
+      { key: "modifiers", label: "Modifiers", type: "text" },
+      { key: "special_instructions", label: "Notes", type: "text" },
+      { key: "quantity", label: "Qty", type: "number" },
+      { key: "unit_price", label: "Unit Price", type: "money" },
+      { key: "tax_type", label: "Tax Type", type: "text" },
+      { key: "vat_amount", label: "VAT", type: "money" },
+      { key: "total_price", label: "Total", type: "money" },
+    ],
+  },
+  {
+    id: "discounts",
+    label: "Discounts",
+    fetch: fetchDiscounts,
+    columns: [
+      { key: "created_at", label: "Date", type: "datetime" },
+      { key: "order_number", label: "Order #", type: "text" },
+      { key: "discount_type", label: "Discount", type: "text" },
+      { key: "discount_value", label: "Value", type: "number" },
+      { key: "discount_amount", label: "Amount", type: "money" },
+      { key: "id_number", label: "ID #", type: "text" },
+      { key: "id_holder_name", label: "ID Holder", type: "text" },
+      { key: "applied_by", label: "Applied By", type: "text" },
+    ],
+  },
+  {
+    id: "refunds",
+    label: "Refunds",
+    fetch: fetchRefunds,
+    columns: [
+      { key: "created_at", label: "Date", type: "datetime" },
+      { key: "order_number", label: "Order #", type: "text" },
+      { key: "amount", label: "Amount", type: "money" },
+      { key: "method", label: "Method", type: "text" },
+      { key: "restock", label: "Restocked", type: "text" },
+      { key: "reason", label: "Reason", type: "text" },
+      { key: "notes", label: "Notes", type: "text" },
+      { key: "refunded_by", label: "Refunded By", type: "text" },
+      { key: "approved_by", label: "Approved By", type: "text" },
+    ],
+  },
+  {
+    id: "z_reports",
+    label: "Z-Reports",
+    fetch: fetchZReports,
+    columns: [
+      { key: "cashier_name", label: "Cashier", type: "text" },
+      { key: "opened_at", label: "Opened", type: "datetime" },
+      { key: "closed_at", label: "Closed", type: "datetime" },
+      { key: "orders_paid", label: "Orders", type: "number" },
+      { key: "gross_sales", label: "Gross Sales", type: "money" },
+      { key: "opening_float", label: "Opening Float", type: "money" },
+      { key: "cash_sales", label: "Cash Sales", type: "money" },
+      { key: "cash_drops", label: "Cash Drops", type: "money" },
+      { key: "paid_outs", label: "Paid Outs", type: "money" },
+      { key: "refunds", label: "Refunds", type: "money" },
+      { key: "discounts", label: "Discounts", type: "money" },
+      { key: "voids", label: "Voids", type: "money" },
+      { key: "expected_cash", label: "Expected Cash", type: "money" },
+      { key: "counted_cash", label: "Counted Cash", type: "money" },
+      { key: "variance", label: "Variance", type: "money" },
+    ],
+  },
+];
@@ -0,0 +1,87 @@
+import { formatPHP } from "@/lib/utils";
+
+export interface ModifierOption {
+  id: string;
+  group_id: string;
+  name: string;
+  price_delta: number;
+  is_available: boolean;
+  sort_order: number;
+}
+
+export interface ModifierGroup {
+  id: string;
+  name: string;
+  menu_item_id: string | null;
+  category_id: string | null;
+  is_required: boolean;
+  min_selections: number;
+  max_selections: number;
+  sort_order: number;
+  modifier_options: ModifierOption[];
+}
+
+export interface SelectedModifier {
+  modifier_option_id: string | null;
+  group_name: string;
+  option_name: string;
+  price_delta: number;
+}
+
+// Groups that apply to an item: its own groups plus the groups of its category
+export function getModifierGroupsForItem(
+  groups: ModifierGroup[],
+  item: { id: string; category_id: string | null }
+) {
+  return groups
+    .filter(group => group.menu_item_id === item.id || (item.category_id && group.category_id === item.category_id))
+    .sort((a, b) => a.sort_order - b.sort_order);
+}
+
+export function getMinSelections(group: ModifierGroup) {
+  return group.is_required ? Math.max(1, group.min_selections) : group.min_selections;
+}
+
+// Returns a customer-facing error for the first group whose rules are not met
+export function validateModifierSelection(groups: ModifierGroup[], selectedOptionIds: string[]) {
+  for (const group of groups) {
+    const count = group.modifier_options.filter(option => selectedOptionIds.includes(option.id)).length;
+    const min = getMinSelections(group);
+
+    if (count < min) {
+      return min === 1
+        ? `Please choose an option for ${group.name}.`
+        : `Please choose at least ${min} options for ${group.name}.`;
+    }
+    if (count > group.max_selections) {
+      return `You can choose up to ${group.max_selections} options for ${group.name}.`;
+    }
+  }
+  return null;
+}
+
+export function toSelectedModifiers(groups: ModifierGroup[], selectedOptionIds: string[]): SelectedModifier[] {
+  return groups.flatMap(group =>
+    group.modifier_options
+      .filter(option => selectedOptionIds.includes(option.id))
+      .map(option => ({
+        modifier_option_id: option.id,
+        group_name: group.name,
+        option_name: option.name,
+        price_delta: Number(option.price_delta),
+      }))
+  );
+}
+
+export function getModifiersTotal(modifiers: Pick<SelectedModifier, "price_delta">[] = []) {
+  return modifiers.reduce((sum, modifier) => sum + Number(modifier.price_delta), 0);
+}
+
+// "Oat milk (+₱20.00), Extra shot (+₱30.00)" for cart lines, tickets and receipts
+export function formatModifiers(modifiers: Pick<SelectedModifier, "option_name" | "price_delta">[] = []) {
+  return modifiers
+    .map(modifier => Number(modifier.price_delta) !== 0
+      ? `${modifier.option_name} (${Number(modifier.price_delta) > 0 ? "+" : ""}${formatPHP(modifier.price_delta)})`
+      : modifier.option_name)
+    .join(", ");
+}
@@ -0,0 +1,36 @@
+export type OrderStatus = "pending" | "preparing" | "ready" | "completed" | "cancelled" | "refunded";
+
+export const ORDER_STATUSES: { value: OrderStatus; label: string; className: string }[] = [
+  { value: "pending", label: "Pending", className: "bg-warning text-warning-foreground" },
+  { value: "preparing", label: "Preparing", className: "bg-blue-500 text-white" },
+  { value: "ready", label: "Ready", className: "bg-success text-success-foreground" },
+  { value: "completed", label: "Completed", className: "bg-gray-500 text-white" },
+  { value: "cancelled", label: "Cancelled", className: "bg-destructive text-destructive-foreground" },
+  { value: "refunded", label: "Refunded", className: "bg-purple-500 text-white" },
+];
+
+// Where each status can go next. The orders_status_transition trigger enforces
+// the same table, so keep the two in step. Ready orders can be recalled to the
+// kitchen; cancelled and refunded orders are final.
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["preparing", "cancelled"],
+  preparing: ["ready", "cancelled"],
+  ready: ["preparing", "completed", "cancelled", "refunded"],
+  completed: ["refunded"],
+  cancelled: [],
+  refunded: [],
+};
+
+export function isOrderStatus(value: string | null | undefined): value is OrderStatus {
+  return ORDER_STATUSES.some(status => status.value === value);
+}
+
+export function canTransition(from: string, to: string) {
+  return isOrderStatus(from) && isOrderStatus(to) && ORDER_TRANSITIONS[from].includes(to);
+}
+
+export const getStatusLabel = (status: string) =>
+  ORDER_STATUSES.find(s => s.value === status)?.label || status;
+
+export const getStatusClassName = (status: string) =>
+  ORDER_STATUSES.find(s => s.value === status)?.className || "bg-muted text-muted-foreground";
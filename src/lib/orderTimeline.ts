@@ -0,0 +1,115 @@
+import { supabase } from "@/integrations/supabase/client";
+import { formatPHP } from "@/lib/utils";
+import { getStatusLabel } from "@/lib/orderStatus";
+import { getPaymentMethodLabel } from "@/lib/payments";
+
+// Shape of get_order_timeline
+export interface OrderTimelineEntry {
+  at: string;
+  source: "order" | "action" | "discount" | "payment" | "activity" | "sales_log";
+  type: string;
+  actor_id: string | null;
+  actor_name: string | null;
+  // The manager who entered their PIN for it, if anyone did
+  approver_id: string | null;
+  approver_name: string | null;
+  item: string | null;
+  amount: number | null;
+  reason: string | null;
+  notes: string | null;
+  description: string | null;
+  before_values: Record<string, unknown> | null;
+  after_values: Record<string, unknown> | null;
+}
+
+const ENTRY_TITLES: Record<string, string> = {
+  created: "Order placed",
+  approve: "Approved",
+  ready: "Marked ready",
+  complete: "Completed",
+  cancel: "Cancelled",
+  void: "Order voided",
+  refund: "Refunded",
+  update_status: "Status changed",
+  add_item: "Item added",
+  change_quantity: "Quantity changed",
+  void_item: "Item voided",
+  price_override: "Price changed",
+  edit: "Details edited",
+  discount: "Discount applied",
+  discount_removed: "Discount removed",
+  payment: "Payment received",
+};
+
+// Money taken back off the order, shown in red
+const NEGATIVE_TYPES = ["void", "void_item", "refund", "discount"];
+
+const FIELD_LABELS: Record<string, string> = {
+  status: "Status",
+  customer_name: "Customer",
+  quantity: "Qty",
+  unit_price: "Price",
+  total_amount: "Total",
+  refunded_amount: "Refunded",
+};
+
+export function getEntryTitle(entry: OrderTimelineEntry) {
+  return ENTRY_TITLES[entry.type] || entry.description || entry.type;
+}
+
+// Signed so a quantity cut and a refund both read as money off; null when there is nothing to show
+export function getEntryAmount(entry: OrderTimelineEntry) {
+  const amount = Number(entry.amount);
+  if (!amount) return null;
+  return NEGATIVE_TYPES.includes(entry.type) ? -Math.abs(amount) : amount;
+}
+
+const formatValue = (field: string, value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (field === "status") return getStatusLabel(String(value));
+  if (["total_amount", "refunded_amount", "unit_price"].includes(field)) return formatPHP(Number(value));
+  return String(value);
+};
+
+// "Status: Ready → Completed" for each field that changed; tax and discount
+// totals move with every edit, so only the order total is shown
+export function getEntryChanges(entry: OrderTimelineEntry) {
+  if (!entry.before_values || !entry.after_values) return [];
+
+  return Object.keys(FIELD_LABELS)
+    .filter(field => field in entry.before_values && field in entry.after_values)
+    .filter(field => entry.before_values[field] !== entry.after_values[field])
+    .map(field =>
+      `${FIELD_LABELS[field]}: ${formatValue(field, entry.before_values[field])} → ${formatValue(field, entry.after_values[field])}`
+    );
+}
+
+// Extra context that isn't a before/after pair. Log entries without a title of
+// their own, like prints, use their description as the title instead.
+export function getEntryDetail(entry: OrderTimelineEntry) {
+  const values = entry.after_values || {};
+  if (entry.type === "payment") {
+    const change = Number(values.change_given);
+    return `${getPaymentMethodLabel(String(values.method))}${change > 0 ? `, change ${formatPHP(change)}` : ""}`;
+  }
+  if (entry.type === "created" && values.customer_name) return `For ${values.customer_name}`;
+  // Refunds made before refund methods were recorded have no method
+  if (entry.type === "refund" && values.method) {
+    return `${getPaymentMethodLabel(String(values.method))}${values.restock ? ", returned to stock" : ""}`;
+  }
+  if (entry.source === "activity" || entry.source === "sales_log") {
+    return entry.type in ENTRY_TITLES ? entry.description : null;
+  }
+  return null;
+}
+
+// Prints only happen on the device, so the timeline learns about them from here
+export async function logOrderPrint(order: { id: string; order_number: string }, kind: "receipt" | "kitchen", station?: string) {
+  const copy = kind === "receipt" ? "receipt" : `${station || "kitchen"} ticket`;
+  const { error } = await supabase.rpc('log_activity', {
+    action_type: 'PRINT',
+    description_text: `Printed ${copy} for order ${order.order_number}`,
+    metadata_json: { order_id: order.id, kind, station: station || null, action: 'print_order' }
+  });
+  if (error) console.error("Error logging print:", error);
+}
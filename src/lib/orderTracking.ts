@@ -0,0 +1,43 @@
+export const ORDER_STATUS_STEPS = ["pending", "preparing", "ready", "completed"] as const;
+
+export interface TrackedOrder {
+  order_number: string;
+  customer_name: string | null;
+  order_type: string;
+  status: string;
+  total_amount: number;
+  created_at: string;
+  updated_at: string;
+  estimated_ready_at: string | null;
+  items: {
+    name: string;
+    size: string | null;
+    quantity: number;
+    modifiers: string[];
+  }[];
+}
+
+const LAST_ORDER_KEY = "lastTrackedOrder";
+
+export function getTrackingPath(orderNumber: string, trackingToken: string) {
+  return `/order/${encodeURIComponent(orderNumber)}?t=${trackingToken}`;
+}
+
+// Absolute link for receipts and QR codes
+export function getTrackingUrl(orderNumber: string, trackingToken: string) {
+  return `${window.location.origin}${getTrackingPath(orderNumber, trackingToken)}`;
+}
+
+// The customer's most recent order, so they can get back to its tracking page
+export function saveLastOrder(orderNumber: string, trackingToken: string) {
+  localStorage.setItem(LAST_ORDER_KEY, JSON.stringify({ orderNumber, trackingToken }));
+}
+
+export function getLastOrder(): { orderNumber: string; trackingToken: string } | null {
+  try {
+    const saved = JSON.parse(localStorage.getItem(LAST_ORDER_KEY) || "null");
+    return saved?.orderNumber && saved?.trackingToken ? saved : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,52 @@
+import { Database } from "@/integrations/supabase/types";
+import { runLocal } from "@/lib/localDb";
+
+type Functions = Database["public"]["Functions"];
+
+// Requests made while offline, replayed in order once the connection is back.
+// The entry id doubles as the request's idempotency key on the server.
+export type OutboxEntry = {
+  id: string;
+  label: string;
+  created_at: string;
+  attempts: number;
+} & (
+  | { kind: "place_order"; args: Functions["place_order"]["Args"] }
+  | { kind: "apply_order_action"; args: Functions["apply_order_action"]["Args"] }
+);
+
+export type NewOutboxEntry = Omit<OutboxEntry, "id" | "created_at" | "attempts">;
+
+const run = <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) =>
+  runLocal("outbox", mode, action);
+
+export async function getOutbox() {
+  const entries = await run<OutboxEntry[]>("readonly", store => store.getAll());
+  return entries.sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+export const putOutboxEntry = (entry: OutboxEntry) => run("readwrite", store => store.put(entry));
+
+export const removeOutboxEntry = (id: string) => run("readwrite", store => store.delete(id));
+
+// Stamps the idempotency key onto the request args so a replay is recognised.
+// Reuses a key the caller already sent, in case the first attempt did reach the server.
+export async function addToOutbox(entry: NewOutboxEntry) {
+  const id = entry.args.p_client_request_id || crypto.randomUUID();
+  const saved = {
+    ...entry,
+    id,
+    args: { ...entry.args, p_client_request_id: id },
+    created_at: new Date().toISOString(),
+    attempts: 0,
+  } as OutboxEntry;
+
+  await putOutboxEntry(saved);
+  return saved;
+}
+
+// Supabase reports a dropped connection as a fetch error rather than an HTTP status
+export function isNetworkError(error: { message?: string } | null) {
+  if (!navigator.onLine) return true;
+  return /failed to fetch|networkerror|load failed|network request failed/i.test(error?.message || "");
+}
@@ -0,0 +1,50 @@
+export type PaymentMethod = "cash" | "gcash" | "maya" | "card";
+
+export const PAYMENT_METHODS: { value: PaymentMethod; label: string }[] = [
+  { value: "cash", label: "Cash" },
+  { value: "gcash", label: "GCash" },
+  { value: "maya", label: "Maya" },
+  { value: "card", label: "Card" },
+];
+
+export interface Tender {
+  method: PaymentMethod;
+  amount_tendered: number;
+  reference_number?: string;
+}
+
+export interface OrderPayment {
+  id: string;
+  method: string;
+  amount: number;
+  amount_tendered: number;
+  change_given: number;
+  reference_number: string | null;
+}
+
+export const getPaymentMethodLabel = (method: string) =>
+  PAYMENT_METHODS.find(m => m.value === method)?.label || method;
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+// Same rules as record_payments, so the tender screen can explain problems before submitting
+export function summarizeTenders(total: number, tenders: Tender[]) {
+  const cash = round(tenders.filter(t => t.method === "cash").reduce((sum, t) => sum + (t.amount_tendered || 0), 0));
+  const other = round(tenders.filter(t => t.method !== "cash").reduce((sum, t) => sum + (t.amount_tendered || 0), 0));
+  const tendered = round(cash + other);
+
+  let error: string | null = null;
+  if (tenders.length === 0 || tenders.some(t => !(t.amount_tendered > 0))) {
+    error = "Enter an amount for every tender";
+  } else if (other > total) {
+    error = "GCash, Maya and card cannot exceed the total";
+  }
+
+  return {
+    tendered,
+    remaining: round(Math.max(0, total - tendered)),
+    change: round(Math.max(0, tendered - total)),
+    isCovered: !error && tendered >= total,
+    error,
+  };
+}
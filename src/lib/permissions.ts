@@ -0,0 +1,43 @@
+export type Role = "owner" | "admin" | "manager" | "cashier" | "staff";
+
+// Highest first
+export const ROLES: Role[] = ["owner", "admin", "manager", "cashier", "staff"];
+
+export const MANAGERS: Role[] = ["owner", "admin", "manager"];
+
+// Roles allowed on each staff route. Keep in step with the RLS policies in
+// supabase/migrations: hiding a page here is for convenience, the database
+// is what actually enforces access.
+export const ROUTE_PERMISSIONS: Record<string, Role[]> = {
+  "/dashboard": ROLES,
+  "/order-management": ROLES,
+  "/kitchen": ROLES,
+  "/sales": ["owner", "admin", "manager", "cashier"],
+  "/shifts": ["owner", "admin", "manager", "cashier"],
+  "/menu": MANAGERS,
+  "/inventory": MANAGERS,
+  "/reports": MANAGERS,
+  "/audit": MANAGERS,
+  "/staff": ["owner", "admin"],
+  "/settings": ["owner", "admin"],
+};
+
+export function isRole(value: string | null | undefined): value is Role {
+  return ROLES.includes(value as Role);
+}
+
+export function hasRole(role: string | null | undefined, allowedRoles: Role[]) {
+  return isRole(role) && allowedRoles.includes(role);
+}
+
+export function canAccessRoute(role: string | null | undefined, path: string) {
+  const allowedRoles = ROUTE_PERMISSIONS[path];
+  return allowedRoles ? hasRole(role, allowedRoles) : false;
+}
+
+// Roles a user may hand out. Only owners can grant or revoke the owner role.
+export function getAssignableRoles(role: string | null | undefined): Role[] {
+  if (role === "owner") return ROLES;
+  if (role === "admin") return ROLES.filter(r => r !== "owner");
+  return [];
+}
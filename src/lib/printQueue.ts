@@ -0,0 +1,70 @@
+import { runLocal } from "@/lib/localDb";
+import { ReceiptDocument } from "@/lib/receipt";
+import { Printer } from "@/lib/printers";
+
+export type PrintJobKind = "receipt" | "kitchen" | "report";
+export type PrintJobStatus = "queued" | "printing" | "failed";
+
+// Jobs stay on the device until they print, so a dropped printer doesn't lose a receipt
+export interface PrintJob {
+  id: string;
+  kind: PrintJobKind;
+  label: string;
+  document: ReceiptDocument;
+  // Station printer the job is routed to; null is this till's own printer
+  printer: Printer | null;
+  status: PrintJobStatus;
+  attempts: number;
+  last_error: string | null;
+  // After a failure the job sits out until then while the rest of the queue prints
+  retry_at: string | null;
+  created_at: string;
+}
+
+export const MAX_PRINT_ATTEMPTS = 3;
+
+export async function getPrintJobs() {
+  const jobs = await runLocal<PrintJob[]>("print_jobs", "readonly", store => store.getAll());
+  return jobs.sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+export const putPrintJob = (job: PrintJob) => runLocal("print_jobs", "readwrite", store => store.put(job));
+
+export const removePrintJob = (id: string) => runLocal("print_jobs", "readwrite", store => store.delete(id));
+
+export async function addPrintJob(kind: PrintJobKind, label: string, document: ReceiptDocument, printer: Printer | null = null) {
+  const job: PrintJob = {
+    id: crypto.randomUUID(),
+    kind,
+    label,
+    document,
+    printer,
+    status: "queued",
+    attempts: 0,
+    last_error: null,
+    retry_at: null,
+    created_at: new Date().toISOString(),
+  };
+  await putPrintJob(job);
+  return job;
+}
+
+// Per-device choices, since each till has its own printer
+const AUTO_PRINT_KEY = "printerAutoPrint";
+
+export interface AutoPrintSettings {
+  kitchenOnApprove: boolean;
+  receiptOnComplete: boolean;
+}
+
+export function getAutoPrintSettings(): AutoPrintSettings {
+  try {
+    return { kitchenOnApprove: true, receiptOnComplete: true, ...JSON.parse(localStorage.getItem(AUTO_PRINT_KEY) || "{}") };
+  } catch {
+    return { kitchenOnApprove: true, receiptOnComplete: true };
+  }
+}
+
+export function saveAutoPrintSettings(settings: AutoPrintSettings) {
+  localStorage.setItem(AUTO_PRINT_KEY, JSON.stringify(settings));
+}
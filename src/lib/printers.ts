@@ -0,0 +1,70 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface Printer {
+  id: string;
+  name: string;
+  connection: string;
+  address: string | null;
+  is_active: boolean;
+}
+
+export const PRINTER_CONNECTIONS = [
+  { value: "bluetooth", label: "Bluetooth (paired on a till)" },
+  { value: "network", label: "Network (ESC/POS print bridge)" },
+];
+
+// Which station printer this till's Bluetooth printer stands in for; per device like the pairing itself
+const STATION_KEY = "printerStationId";
+
+export const getLocalStationId = () => localStorage.getItem(STATION_KEY);
+
+export function saveLocalStationId(printerId: string | null) {
+  if (printerId) {
+    localStorage.setItem(STATION_KEY, printerId);
+  } else {
+    localStorage.removeItem(STATION_KEY);
+  }
+}
+
+// Category id -> the active printer its items are sent to. Offline everything falls back to the till's printer.
+export async function getCategoryPrinters() {
+  const { data, error } = await supabase
+    .from("categories")
+    .select("id, printers (id, name, connection, address, is_active)")
+    .not("printer_id", "is", null);
+
+  if (error) {
+    console.error("Error loading category printers:", error);
+    return new Map<string, Printer>();
+  }
+  return new Map<string, Printer>(
+    (data || []).filter(category => category.printers?.is_active).map(category => [category.id, category.printers])
+  );
+}
+
+// One group per station; items whose category has no printer go to the till's own printer (null)
+export function routeToStations<T extends { category_id: string | null }>(items: T[], categoryPrinters: Map<string, Printer>) {
+  const routes = new Map<string | null, { printer: Printer | null; items: T[] }>();
+
+  for (const item of items) {
+    const printer = (item.category_id && categoryPrinters.get(item.category_id)) || null;
+    const key = printer?.id ?? null;
+    if (!routes.has(key)) routes.set(key, { printer, items: [] });
+    routes.get(key).items.push(item);
+  }
+
+  return [...routes.values()];
+}
+
+// Browsers can't open raw sockets, so network printers sit behind a bridge that forwards to port 9100
+export async function sendToNetworkPrinter(address: string, data: Uint8Array) {
+  const response = await fetch(address, {
+    method: "POST",
+    headers: { "Content-Type": "application/octet-stream" },
+    body: data,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Print bridge responded with ${response.status}`);
+  }
+}
@@ -0,0 +1,43 @@
+// A receipt is a list of lines; renderers turn it into ESC/POS bytes, HTML or plain text
+export type Align = "left" | "center" | "right";
+
+interface TextStyle {
+  bold?: boolean;
+  doubleHeight?: boolean;
+}
+
+export type ReceiptLine =
+  | ({ type: "text"; text: string; align?: Align } & TextStyle)
+  | ({ type: "columns"; left: string; right: string } & TextStyle)
+  | { type: "divider" }
+  | { type: "feed"; lines: number }
+  | { type: "qr"; data: string }
+  | { type: "barcode"; data: string }
+  | { type: "drawer" };
+
+export type ReceiptDocument = ReceiptLine[];
+
+// Characters per line: 58mm paper fits 32, 80mm fits 48
+export type PaperColumns = 32 | 48;
+
+export const getPaperColumns = (paperWidth: number): PaperColumns => (paperWidth === 80 ? 48 : 32);
+
+export const text = (value: string, options: { align?: Align } & TextStyle = {}): ReceiptLine =>
+  ({ type: "text", text: value, ...options });
+
+export const centered = (value: string, options: TextStyle = {}) => text(value, { ...options, align: "center" });
+
+// Label on the left, amount flush right
+export const columns = (left: string, right: string, options: TextStyle = {}): ReceiptLine =>
+  ({ type: "columns", left, right, ...options });
+
+export const divider = (): ReceiptLine => ({ type: "divider" });
+
+export const feed = (lines = 1): ReceiptLine => ({ type: "feed", lines });
+
+export const qrCode = (data: string): ReceiptLine => ({ type: "qr", data });
+
+export const barcode = (data: string): ReceiptLine => ({ type: "barcode", data });
+
+// Kicks open the cash drawer wired to the printer; nothing is printed
+export const drawerKick = (): ReceiptLine => ({ type: "drawer" });
@@ -0,0 +1,91 @@
+import { PaperColumns, ReceiptDocument } from "./document";
+import { layoutLine } from "./layout";
+
+const ESC = 0x1B;
+const GS = 0x1D;
+const LF = 0x0A;
+
+const INIT = [ESC, 0x40];
+const CUT = [GS, 0x56, 0x42, 0x00];
+// ESC p: pulse drawer pin 2 for 50 ms on, 500 ms off
+const DRAWER_KICK = [ESC, 0x70, 0x00, 0x19, 0xFA];
+const alignCenter = [ESC, 0x61, 0x01];
+const alignLeft = [ESC, 0x61, 0x00];
+const bold = (on: boolean) => [ESC, 0x45, on ? 1 : 0];
+// GS ! with only the height bit set keeps the normal character width
+const doubleHeight = (on: boolean) => [GS, 0x21, on ? 0x01 : 0x00];
+
+// Thermal printers only know their built-in code page, so keep to plain ASCII
+export function toPrinterText(value: string) {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/\u20B1/g, "P")
+    .replace(/[\u2013\u2014]/g, "-")
+    .replace(/[^\x20-\x7E]/g, "?");
+}
+
+const encode = (value: string) => Array.from(new TextEncoder().encode(toPrinterText(value)));
+
+// GS ( k: select model 2, module size, error correction M, store the data, then print it
+const qrCodeCommands = (data: string) => {
+  const bytes = new TextEncoder().encode(data);
+  const storeLength = bytes.length + 3;
+  return [
+    GS, 0x28, 0x6B, 0x04, 0x00, 0x31, 0x41, 0x32, 0x00,
+    GS, 0x28, 0x6B, 0x03, 0x00, 0x31, 0x43, 0x06,
+    GS, 0x28, 0x6B, 0x03, 0x00, 0x31, 0x45, 0x31,
+    GS, 0x28, 0x6B, storeLength % 256, Math.floor(storeLength / 256), 0x31, 0x50, 0x30,
+    ...bytes,
+    GS, 0x28, 0x6B, 0x03, 0x00, 0x31, 0x51, 0x30,
+  ];
+};
+
+// GS k CODE128 in code set B, with the human-readable text printed below
+const barcodeCommands = (data: string) => {
+  const bytes = [0x7B, 0x42, ...encode(data)];
+  return [
+    GS, 0x68, 80,
+    GS, 0x77, 2,
+    GS, 0x48, 2,
+    GS, 0x6B, 73, bytes.length,
+    ...bytes,
+  ];
+};
+
+export function renderEscPos(document: ReceiptDocument, columns: PaperColumns) {
+  const bytes: number[] = [...INIT];
+
+  for (const line of document) {
+    switch (line.type) {
+      case "text":
+      case "columns":
+        if (line.bold) bytes.push(...bold(true));
+        if (line.doubleHeight) bytes.push(...doubleHeight(true));
+        for (const row of layoutLine(line, columns)) {
+          bytes.push(...encode(row), LF);
+        }
+        if (line.doubleHeight) bytes.push(...doubleHeight(false));
+        if (line.bold) bytes.push(...bold(false));
+        break;
+      case "divider":
+        bytes.push(...encode("-".repeat(columns)), LF);
+        break;
+      case "feed":
+        bytes.push(...Array(line.lines).fill(LF));
+        break;
+      case "qr":
+        bytes.push(...alignCenter, ...qrCodeCommands(line.data), LF, ...alignLeft);
+        break;
+      case "barcode":
+        bytes.push(...alignCenter, ...barcodeCommands(line.data), LF, ...alignLeft);
+        break;
+      case "drawer":
+        bytes.push(...DRAWER_KICK);
+        break;
+    }
+  }
+
+  bytes.push(LF, LF, LF, ...CUT);
+  return new Uint8Array(bytes);
+}
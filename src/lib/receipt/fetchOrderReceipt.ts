@@ -0,0 +1,50 @@
+import { supabase } from "@/integrations/supabase/client";
+import { getTrackingUrl } from "@/lib/orderTracking";
+import { StoreSettings } from "@/lib/settings";
+import { ReceiptDocument } from "./document";
+import { buildOrderReceipt, getReceiptDeductions, getReceiptPayments, getVatBreakdown, toReceiptItems } from "./orderReceipt";
+
+// Loads everything the receipt shows, for printing an order that isn't open on screen
+export async function fetchOrderReceipt(orderId: string, settings: StoreSettings): Promise<ReceiptDocument | null> {
+  const { data: order, error } = await supabase
+    .from("orders")
+    .select(`
+      *,
+      order_items (
+        *,
+        menu_items (
+          name
+        ),
+        order_item_modifiers (
+          option_name,
+          price_delta
+        )
+      ),
+      order_payments (
+        id, method, amount, amount_tendered, change_given, reference_number, created_at
+      ),
+      order_discounts (
+        id, discount_type, discount_amount, order_item_id, id_number, id_holder_name, created_at
+      )
+    `)
+    .eq("id", orderId)
+    .is("order_items.voided_at", null)
+    .single();
+
+  if (error || !order) {
+    console.error("Error loading order receipt:", error);
+    return null;
+  }
+
+  const byCreatedAt = (a: { created_at: string }, b: { created_at: string }) => a.created_at.localeCompare(b.created_at);
+
+  return buildOrderReceipt({
+    settings,
+    order,
+    items: toReceiptItems(order.order_items),
+    deductions: getReceiptDeductions(order, [...order.order_discounts].sort(byCreatedAt)),
+    vatBreakdown: getVatBreakdown(order),
+    payments: getReceiptPayments(order, [...order.order_payments].sort(byCreatedAt)),
+    trackingUrl: getTrackingUrl(order.order_number, order.tracking_token),
+  });
+}
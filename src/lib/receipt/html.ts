@@ -0,0 +1,48 @@
+import QRCode from "qrcode";
+import { PaperColumns, ReceiptDocument } from "./document";
+import { layoutLine } from "./layout";
+import { code128Svg } from "./code128";
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// Same rows as the thermal printout, in a monospace column as wide as the paper
+export async function renderHtml(document: ReceiptDocument, columns: PaperColumns) {
+  const rows: string[] = [];
+
+  for (const line of document) {
+    switch (line.type) {
+      case "text":
+      case "columns": {
+        const style = [
+          line.bold ? "font-weight: bold;" : "",
+          line.doubleHeight ? "transform: scaleY(2); transform-origin: top; margin-bottom: 1.2em;" : "",
+        ].join(" ");
+        rows.push(...layoutLine(line, columns).map(row => `<div style="${style}">${escapeHtml(row) || "&nbsp;"}</div>`));
+        break;
+      }
+      case "divider":
+        rows.push(`<div>${"-".repeat(columns)}</div>`);
+        break;
+      case "feed":
+        rows.push(...Array(line.lines).fill("<div>&nbsp;</div>"));
+        break;
+      case "qr": {
+        const dataUrl = await QRCode.toDataURL(line.data, { width: 140, margin: 1 });
+        rows.push(`<div style="text-align: center;"><img src="${dataUrl}" alt="QR code" style="width: 140px; height: 140px;" /></div>`);
+        break;
+      }
+      case "barcode":
+        rows.push(`<div style="text-align: center;">${code128Svg(line.data)}<div>${escapeHtml(line.data)}</div></div>`);
+        break;
+      case "drawer":
+        break;
+    }
+  }
+
+  return `
+    <div style="font-family: 'Courier New', monospace; font-size: 12px; line-height: 1.2; white-space: pre; width: ${columns}ch; margin: 0 auto;">
+      ${rows.join("\n")}
+    </div>
+  `;
+}
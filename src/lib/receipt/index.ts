@@ -0,0 +1,11 @@
+export * from "./document";
+export { renderEscPos, toPrinterText } from "./escpos";
+export { renderHtml } from "./html";
+export { renderText } from "./text";
+export { buildOrderReceipt, getReceiptDeductions, getReceiptPayments, getVatBreakdown, toReceiptItems } from "./orderReceipt";
+export { buildKitchenTicket } from "./kitchenTicket";
+export type { KitchenTicketData } from "./kitchenTicket";
+export { buildNoSaleSlip } from "./noSaleSlip";
+export type { NoSaleSlipData } from "./noSaleSlip";
+export { fetchOrderReceipt } from "./fetchOrderReceipt";
+export type { OrderReceiptData } from "./orderReceipt";
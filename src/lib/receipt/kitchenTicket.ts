@@ -0,0 +1,36 @@
+import { ReceiptDocument, centered, divider, feed, text } from "./document";
+
+export interface KitchenTicketData {
+  station?: string;
+  order_number: string;
+  customer_name: string | null;
+  customer_notes: string | null;
+  order_type: string | null;
+  created_at: string;
+  items: {
+    name: string;
+    quantity: number;
+    modifiers?: string;
+    notes?: string | null;
+  }[];
+}
+
+// Prep ticket: no prices, big item names so they read at arm's length
+export function buildKitchenTicket(ticket: KitchenTicketData): ReceiptDocument {
+  return [
+    ...(ticket.station ? [centered(ticket.station.toUpperCase(), { bold: true })] : []),
+    centered(ticket.order_type === "dine_in" ? "DINE IN" : "TAKEOUT", { bold: true, doubleHeight: true }),
+    centered(ticket.order_number, { bold: true }),
+    centered(new Date(ticket.created_at).toLocaleTimeString("en-GB", { hour12: false })),
+    ...(ticket.customer_name ? [centered(ticket.customer_name)] : []),
+    divider(),
+    ...ticket.items.flatMap(item => [
+      text(`${item.quantity} x ${item.name.toUpperCase()}`, { bold: true, doubleHeight: true }),
+      ...(item.modifiers ? [text(`  + ${item.modifiers}`)] : []),
+      ...(item.notes ? [text(`  ** ${item.notes}`, { bold: true })] : []),
+    ]),
+    ...(ticket.customer_notes ? [divider(), text("NOTES:", { bold: true }), text(ticket.customer_notes)] : []),
+    divider(),
+    feed(),
+  ];
+}
@@ -0,0 +1,60 @@
+import { Align, ReceiptLine } from "./document";
+
+// Word wraps to the paper width; words longer than a line are split
+export function wrap(value: string, width: number) {
+  const lines: string[] = [];
+
+  for (const paragraph of value.split("\n")) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      let rest = word;
+      while (rest.length > width) {
+        if (line) {
+          lines.push(line);
+          line = "";
+        }
+        lines.push(rest.slice(0, width));
+        rest = rest.slice(width);
+      }
+
+      if (!line) {
+        line = rest;
+      } else if (line.length + 1 + rest.length <= width) {
+        line = `${line} ${rest}`;
+      } else {
+        lines.push(line);
+        line = rest;
+      }
+    }
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+export function alignLine(value: string, width: number, align: Align = "left") {
+  const space = Math.max(0, width - value.length);
+  if (align === "right") return " ".repeat(space) + value;
+  if (align === "center") return " ".repeat(Math.floor(space / 2)) + value;
+  return value;
+}
+
+// The right column stays on the last line of the label, or drops below it if it doesn't fit
+export function layoutColumns(left: string, right: string, width: number) {
+  const lines = wrap(left, width);
+  const last = lines[lines.length - 1];
+
+  if (last.length + 1 + right.length <= width) {
+    lines[lines.length - 1] = last + " ".repeat(width - last.length - right.length) + right;
+  } else {
+    lines.push(alignLine(right, width, "right"));
+  }
+
+  return lines;
+}
+
+// Printable text rows for a text or columns line, already padded to the paper width
+export function layoutLine(line: Extract<ReceiptLine, { type: "text" | "columns" }>, width: number) {
+  if (line.type === "columns") return layoutColumns(line.left, line.right, width);
+  return wrap(line.text, width).map(row => alignLine(row, width, line.align));
+}
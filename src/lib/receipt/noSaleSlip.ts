@@ -0,0 +1,24 @@
+import { formatStoreDateTime } from "@/lib/businessDay";
+import { ReceiptDocument, centered, divider, drawerKick, feed, text } from "./document";
+
+export interface NoSaleSlipData {
+  opened_at: string;
+  opened_by: string | null;
+  approved_by: string | null;
+  reason: string;
+}
+
+// Opens the drawer and leaves a slip in it, so every open outside a sale is on paper too
+export function buildNoSaleSlip(slip: NoSaleSlipData, timeZone: string): ReceiptDocument {
+  return [
+    drawerKick(),
+    centered("NO SALE", { bold: true, doubleHeight: true }),
+    centered(formatStoreDateTime(slip.opened_at, timeZone)),
+    divider(),
+    text(`Opened by: ${slip.opened_by || "-"}`),
+    ...(slip.approved_by ? [text(`Approved by: ${slip.approved_by}`)] : []),
+    text(`Reason: ${slip.reason}`),
+    divider(),
+    feed(),
+  ];
+}
@@ -0,0 +1,155 @@
+import { formatAmount } from "@/lib/utils";
+import { getTaxTypeCode } from "@/lib/tax";
+import { StoreSettings } from "@/lib/settings";
+import { OrderPayment, getPaymentMethodLabel } from "@/lib/payments";
+import { OrderDiscount } from "@/lib/discounts";
+import { formatModifiers } from "@/lib/modifiers";
+import { ReceiptDocument, barcode, centered, columns, divider, feed, qrCode, text } from "./document";
+
+interface AmountLine {
+  label: string;
+  amount: number;
+}
+
+export interface OrderReceiptData {
+  settings: StoreSettings;
+  order: {
+    order_number: string;
+    or_number: string | null;
+    created_at: string;
+    total_amount: number;
+  };
+  items: {
+    name: string;
+    notes?: string | null;
+    modifiers?: string;
+    quantity: number;
+    unit_price: number;
+    total_price: number;
+    tax_type: string;
+  }[];
+  deductions: { subtotal: number; lines: AmountLine[] };
+  vatBreakdown: AmountLine[];
+  payments: { lines: AmountLine[]; change: number };
+  trackingUrl: string;
+}
+
+interface OrderItemRow {
+  quantity: number;
+  unit_price: number;
+  total_price: number;
+  tax_type: string;
+  special_instructions?: string | null;
+  menu_items?: { name: string } | null;
+  order_item_modifiers?: { option_name: string; price_delta: number }[];
+}
+
+export const toReceiptItems = (items: OrderItemRow[]): OrderReceiptData["items"] =>
+  items.map(item => ({
+    name: item.menu_items?.name || "",
+    notes: item.special_instructions,
+    modifiers: item.order_item_modifiers?.length ? formatModifiers(item.order_item_modifiers) : undefined,
+    quantity: item.quantity,
+    unit_price: item.unit_price,
+    total_price: item.total_price,
+    tax_type: item.tax_type,
+  }));
+
+// Orders completed before tenders were recorded fall back to the single payment method
+export function getReceiptPayments(
+  order: { payment_method: string; total_amount: number },
+  payments: OrderPayment[]
+) {
+  if (payments.length === 0) {
+    return { lines: [{ label: order.payment_method, amount: Number(order.total_amount) }], change: 0 };
+  }
+  return {
+    lines: payments.map(payment => ({
+      label: `${getPaymentMethodLabel(payment.method)}${payment.reference_number ? ` #${payment.reference_number}` : ''}`,
+      amount: Number(payment.amount_tendered),
+    })),
+    change: payments.reduce((sum, payment) => sum + Number(payment.change_given), 0),
+  };
+}
+
+// Subtotal before SC/PWD VAT exemption and discounts, then one line per deduction
+export function getReceiptDeductions(
+  order: { total_amount: number; vat_exempt_amount: number; discount_amount: number },
+  discounts: OrderDiscount[]
+) {
+  const lines = [
+    ...(Number(order.vat_exempt_amount) > 0 ? [{ label: "LESS VAT (SC/PWD)", amount: Number(order.vat_exempt_amount) }] : []),
+    ...(discounts.length
+      ? discounts.map(discount => ({
+          label: `LESS ${discount.discount_type.toUpperCase()}${discount.id_number ? ` ID#${discount.id_number}` : ''}`,
+          amount: Number(discount.discount_amount) || 0,
+        }))
+      : Number(order.discount_amount) > 0 ? [{ label: "LESS DISCOUNT", amount: Number(order.discount_amount) }] : []),
+  ];
+  return {
+    subtotal: Number(order.total_amount) + lines.reduce((sum, line) => sum + line.amount, 0),
+    lines,
+  };
+}
+
+// BIR breakdown; every line is also marked V, E or Z for its tax type
+export const getVatBreakdown = (order: {
+  vatable_sales: number;
+  tax_amount: number;
+  vat_exempt_sales: number;
+  zero_rated_sales: number;
+}) => [
+  { label: "VATable Sales", amount: order.vatable_sales },
+  { label: "VAT Amount", amount: order.tax_amount },
+  { label: "VAT-Exempt Sales", amount: order.vat_exempt_sales },
+  { label: "Zero-Rated Sales", amount: order.zero_rated_sales },
+];
+
+// Customer receipt; printed on paper and in the browser from this one template
+export function buildOrderReceipt({ settings, order, items, deductions, vatBreakdown, payments, trackingUrl }: OrderReceiptData): ReceiptDocument {
+  const createdAt = new Date(order.created_at);
+  const itemCount = items.reduce((total, item) => total + item.quantity, 0);
+
+  return [
+    centered(settings.business_name, { bold: true, doubleHeight: true }),
+    ...[
+      settings.address,
+      settings.phone,
+      settings.tin ? `VAT REG TIN: ${settings.tin}` : null,
+      settings.receipt_header,
+    ].filter(Boolean).map(line => centered(line)),
+    divider(),
+    ...(order.or_number ? [text(`OR#: ${order.or_number}`)] : []),
+    text(`INV#: ${order.order_number}`),
+    columns(
+      `DATE: ${createdAt.toLocaleDateString("en-GB")}`,
+      `TIME: ${createdAt.toLocaleTimeString("en-GB", { hour12: false })}`
+    ),
+    divider(),
+    ...items.flatMap(item => [
+      text(item.notes ? `${item.name} (${item.notes})` : item.name),
+      ...(item.modifiers ? [text(`  + ${item.modifiers}`)] : []),
+      columns(
+        `  ${item.quantity} x ${formatAmount(item.unit_price)}`,
+        `${formatAmount(item.total_price)} ${getTaxTypeCode(item.tax_type)}`
+      ),
+    ]),
+    divider(),
+    text(`${itemCount} Item(s)`),
+    columns("SUBTOTAL", formatAmount(deductions.subtotal), { bold: true }),
+    ...deductions.lines.map(line => columns(line.label, `-${formatAmount(line.amount)}`)),
+    columns("TOTAL", formatAmount(order.total_amount), { bold: true, doubleHeight: true }),
+    divider(),
+    ...vatBreakdown.map(line => columns(line.label, formatAmount(line.amount))),
+    divider(),
+    text("PAYMENT RECEIVED:"),
+    ...payments.lines.map(line => columns(line.label, formatAmount(line.amount))),
+    columns("CHANGE", formatAmount(payments.change)),
+    feed(),
+    centered(order.or_number ? "OFFICIAL RECEIPT" : "Acknowledgement Receipt", { bold: true }),
+    barcode(order.order_number),
+    qrCode(trackingUrl),
+    centered("Scan to track your order"),
+    ...(settings.receipt_footer ? [feed(), centered(settings.receipt_footer)] : []),
+  ];
+}
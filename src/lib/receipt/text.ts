@@ -0,0 +1,23 @@
+import { PaperColumns, ReceiptDocument } from "./document";
+import { alignLine, layoutLine } from "./layout";
+
+// Plain text preview for screens; codes show as their data
+export function renderText(document: ReceiptDocument, columns: PaperColumns) {
+  return document.flatMap(line => {
+    switch (line.type) {
+      case "text":
+      case "columns":
+        return layoutLine(line, columns);
+      case "divider":
+        return ["-".repeat(columns)];
+      case "feed":
+        return Array(line.lines).fill("");
+      case "qr":
+        return [alignLine("[QR code]", columns, "center")];
+      case "barcode":
+        return [alignLine(`[${line.data}]`, columns, "center")];
+      case "drawer":
+        return [];
+    }
+  }).join("\n");
+}
@@ -0,0 +1,59 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface RefundableItem {
+  id: string;
+  quantity: number;
+  total_price: number;
+}
+
+export interface RefundLine {
+  order_item_id: string;
+  quantity: number;
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+// What has already been refunded on an order, per line and in total
+export async function fetchOrderRefunds(orderId: string) {
+  const { data, error } = await supabase
+    .from("order_refunds")
+    .select("amount, order_refund_items (order_item_id, quantity)")
+    .eq("order_id", orderId);
+
+  if (error) throw error;
+
+  const quantities: Record<string, number> = {};
+  let refunded = 0;
+  for (const refund of data || []) {
+    refunded += Number(refund.amount);
+    for (const item of refund.order_refund_items) {
+      quantities[item.order_item_id] = (quantities[item.order_item_id] || 0) + item.quantity;
+    }
+  }
+
+  return { quantities, refunded: round(refunded) };
+}
+
+// Same split as refund_order: each line's share of what was paid, so discounts come
+// off the refund, and the refund that finishes the order takes whatever is left
+export function estimateRefund(
+  order: { total_amount: number; order_items: RefundableItem[] },
+  lines: RefundLine[],
+  refundedQuantities: Record<string, number>,
+  refunded: number,
+) {
+  const subtotal = order.order_items.reduce((sum, item) => sum + Number(item.total_price), 0);
+  const remaining = round(order.total_amount - refunded);
+
+  let amount = 0;
+  for (const line of lines) {
+    const item = order.order_items.find(i => i.id === line.order_item_id);
+    if (!item || !line.quantity || !subtotal) continue;
+    amount += round(item.total_price * line.quantity / item.quantity * order.total_amount / subtotal);
+  }
+
+  const isFull = order.order_items.every(item =>
+    (refundedQuantities[item.id] || 0) + (lines.find(l => l.order_item_id === item.id)?.quantity || 0) >= item.quantity);
+
+  return { amount: isFull ? remaining : Math.min(round(amount), remaining), isFull };
+}
@@ -0,0 +1,63 @@
+// Sales History filters live in the URL so a filtered view can be bookmarked or shared.
+// Empty strings mean "no filter"; from and to are business days.
+export interface SalesHistoryFilters {
+  from: string;
+  to: string;
+  status: string;
+  paymentMethod: string;
+  cashierId: string;
+  minAmount: string;
+  maxAmount: string;
+  search: string;
+  sort: SalesHistorySort;
+  page: number;
+}
+
+export type SalesHistorySort = "newest" | "oldest" | "highest" | "lowest";
+
+export const SALES_HISTORY_SORTS: { value: SalesHistorySort; label: string; column: string; ascending: boolean }[] = [
+  { value: "newest", label: "Newest first", column: "created_at", ascending: false },
+  { value: "oldest", label: "Oldest first", column: "created_at", ascending: true },
+  { value: "highest", label: "Highest amount", column: "total_amount", ascending: false },
+  { value: "lowest", label: "Lowest amount", column: "total_amount", ascending: true },
+];
+
+export const SALES_HISTORY_PAGE_SIZE = 25;
+
+const PARAM_NAMES: Record<Exclude<keyof SalesHistoryFilters, "sort" | "page">, string> = {
+  from: "from",
+  to: "to",
+  status: "status",
+  paymentMethod: "method",
+  cashierId: "cashier",
+  minAmount: "min",
+  maxAmount: "max",
+  search: "q",
+};
+
+export function readFilters(params: URLSearchParams): SalesHistoryFilters {
+  const sort = params.get("sort") as SalesHistorySort;
+  const page = Number(params.get("page"));
+  const filters = {
+    sort: SALES_HISTORY_SORTS.some(s => s.value === sort) ? sort : "newest",
+    page: Number.isInteger(page) && page > 1 ? page : 1,
+  } as SalesHistoryFilters;
+  for (const [key, name] of Object.entries(PARAM_NAMES)) {
+    filters[key] = params.get(name) || "";
+  }
+  return filters;
+}
+
+// Leaves defaults out so an unfiltered view is just /sales
+export function writeFilters(filters: SalesHistoryFilters) {
+  const params = new URLSearchParams();
+  for (const [key, name] of Object.entries(PARAM_NAMES)) {
+    if (filters[key]) params.set(name, filters[key]);
+  }
+  if (filters.sort !== "newest") params.set("sort", filters.sort);
+  if (filters.page > 1) params.set("page", String(filters.page));
+  return params;
+}
+
+// PostgREST's or=() syntax breaks on commas and parentheses, and % or * would act as wildcards
+export const cleanSearch = (term: string) => term.replace(/[,()"*%\\]/g, "").trim();
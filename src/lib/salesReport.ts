@@ -0,0 +1,61 @@
+interface CountAmount {
+  count: number;
+  amount: number;
+}
+
+interface MixRow {
+  name: string;
+  quantity: number;
+  revenue: number;
+}
+
+// Shape of get_sales_report; amounts come back from Postgres as numbers
+export interface SalesReport {
+  summary: {
+    sales: number;
+    orders: number;
+    tax: number;
+    previous_sales: number;
+    previous_orders: number;
+  };
+  daily: { date: string; sales: number; orders: number; previous_sales: number }[];
+  heatmap: { weekday: number; hour: number; orders: number; sales: number }[];
+  categories: MixRow[];
+  items: MixRow[];
+  cashiers: { cashier_id: string | null; name: string; orders: number; sales: number }[];
+  adjustments: {
+    discounts: CountAmount;
+    refunds: CountAmount;
+    voids: CountAmount;
+  };
+  kitchen: {
+    orders: number;
+    average_prep_minutes: number | null;
+    p90_prep_minutes: number | null;
+    average_wait_minutes: number | null;
+  };
+}
+
+// ISO weekday order, matching EXTRACT(ISODOW ...) in the report
+export const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+// Percent change against the previous period; null when there is nothing to compare with
+export function getChange(current: number, previous: number) {
+  if (!previous) return null;
+  return ((current - previous) / previous) * 100;
+}
+
+// Orders per weekday/hour cell, with the busiest cell for scaling the colours
+export function buildHeatmap(cells: SalesReport["heatmap"]) {
+  const grid = WEEKDAYS.map(() => Array<number>(24).fill(0));
+  for (const cell of cells) {
+    grid[cell.weekday - 1][cell.hour] = Number(cell.orders);
+  }
+  return { grid, max: Math.max(0, ...grid.flat()) };
+}
+
+// Whole minutes, or a dash when no completed order had both timestamps
+export function formatMinutes(minutes: number | null) {
+  if (minutes === null) return "—";
+  return `${Math.round(minutes)} min`;
+}
@@ -0,0 +1,85 @@
+import { ApprovalRules, DEFAULT_APPROVAL_RULES } from "@/lib/approvals";
+
+export type DayKey = "mon" | "tue" | "wed" | "thu" | "fri" | "sat" | "sun";
+
+// null means closed all day
+export type OpeningHours = Record<DayKey, { open: string; close: string } | null>;
+
+export interface StoreSettings {
+  business_name: string;
+  tagline: string | null;
+  address: string | null;
+  phone: string | null;
+  tin: string | null;
+  logo_url: string | null;
+  vat_rate: number;
+  currency: string;
+  receipt_header: string | null;
+  receipt_footer: string | null;
+  paper_width: number;
+  timezone: string;
+  business_day_cutoff: number;
+  order_number_prefix: string;
+  or_prefix: string;
+  next_or_number: number;
+  opening_hours: OpeningHours;
+  approval_rules: ApprovalRules;
+}
+
+export const DAYS: { key: DayKey; label: string }[] = [
+  { key: "mon", label: "Monday" },
+  { key: "tue", label: "Tuesday" },
+  { key: "wed", label: "Wednesday" },
+  { key: "thu", label: "Thursday" },
+  { key: "fri", label: "Friday" },
+  { key: "sat", label: "Saturday" },
+  { key: "sun", label: "Sunday" },
+];
+
+export const CURRENCIES = ["PHP", "USD", "SGD", "HKD", "JPY", "EUR"];
+
+const defaultHours = { open: "07:00", close: "21:00" };
+
+// Shown until the settings row has loaded
+export const DEFAULT_STORE_SETTINGS: StoreSettings = {
+  business_name: "Orijins Coffee House",
+  tagline: "Fresh coffee, made with love",
+  address: "418 General Luna Street",
+  phone: "09610537663",
+  tin: null,
+  logo_url: "/lovable-uploads/de766a0c-8555-4067-98ad-1830ddc6138a.png",
+  vat_rate: 0.12,
+  currency: "PHP",
+  receipt_header: null,
+  receipt_footer: "Thank you!",
+  paper_width: 58,
+  timezone: "Asia/Manila",
+  business_day_cutoff: 0,
+  order_number_prefix: "ORD",
+  or_prefix: "",
+  next_or_number: 1,
+  opening_hours: {
+    mon: defaultHours,
+    tue: defaultHours,
+    wed: defaultHours,
+    thu: defaultHours,
+    fri: defaultHours,
+    sat: defaultHours,
+    sun: defaultHours,
+  },
+  approval_rules: DEFAULT_APPROVAL_RULES,
+};
+
+const getDayKey = (date: Date) => DAYS[(date.getDay() + 6) % 7].key;
+
+export function getHoursFor(hours: OpeningHours, date = new Date()) {
+  return hours?.[getDayKey(date)] ?? null;
+}
+
+export function isOpenAt(hours: OpeningHours, date = new Date()) {
+  const today = getHoursFor(hours, date);
+  if (!today) return false;
+
+  const time = `${String(date.getHours()).padStart(2, "0")}:${String(date.getMinutes()).padStart(2, "0")}`;
+  return time >= today.open && time < today.close;
+}
@@ -0,0 +1,11 @@
+export type TaxType = "vatable" | "vat_exempt" | "zero_rated";
+
+// code is the letter printed after each line on the official receipt
+export const TAX_TYPES: { value: TaxType; label: string; code: string }[] = [
+  { value: "vatable", label: "VATable", code: "V" },
+  { value: "vat_exempt", label: "VAT-exempt", code: "E" },
+  { value: "zero_rated", label: "Zero-rated", code: "Z" },
+];
+
+export const getTaxTypeCode = (taxType: string) =>
+  TAX_TYPES.find(t => t.value === taxType)?.code || "V";
@@ -5,12 +5,25 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
+let currency = 'PHP';
+
+// Called by StoreSettingsProvider; formatPHP runs outside components so it can't use the hook
+export function setCurrency(code: string) {
+  currency = code;
+}
+
 export function formatPHP(amount: number | string) {
   const num = typeof amount === 'string' ? parseFloat(amount) : amount ?? 0;
   try {
-    return new Intl.NumberFormat('en-PH', { style: 'currency', currency: 'PHP' }).format(isNaN(num as number) ? 0 : (num as number));
+    return new Intl.NumberFormat('en-PH', { style: 'currency', currency }).format(isNaN(num as number) ? 0 : (num as number));
   } catch {
     const safe = typeof num === 'number' && !isNaN(num) ? num : 0;
     return `₱${safe.toFixed(2)}`;
   }
 }
+
+// Amount without the currency symbol, for receipt columns
+export function formatAmount(amount: number | string) {
+  const num = typeof amount === 'string' ? parseFloat(amount) : amount ?? 0;
+  return new Intl.NumberFormat('en-PH', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(isNaN(num) ? 0 : num);
+}
@@ -0,0 +1,70 @@
+import { formatAmount } from "@/lib/utils";
+import { getPaymentMethodLabel } from "@/lib/payments";
+import { ReceiptDocument, centered, columns, divider, feed, text } from "@/lib/receipt";
+import { formatStoreDateTime } from "@/lib/businessDay";
+
+export interface ZReport {
+  shift_id: string;
+  cashier_id: string;
+  cashier_name: string | null;
+  // Missing from reports snapshotted before business days were configurable
+  business_date?: string;
+  opened_at: string;
+  closed_at: string | null;
+  opening_float: number;
+  orders_paid: number;
+  gross_sales: number;
+  sales_by_tender: { method: string; count: number; amount: number }[];
+  cash_sales: number;
+  cash_drops: number;
+  paid_outs: number;
+  refunds: { count: number; amount: number };
+  // Refunds given back from the drawer; before GCash, Maya and card refunds every refund was cash
+  cash_refunds?: number;
+  discounts: { count: number; amount: number };
+  voids: { count: number; amount: number };
+  expected_cash: number;
+  counted_cash: number | null;
+  variance: number | null;
+}
+
+// Z-report document for the thermal printer and the on-screen preview
+export function buildZReport(report: ZReport, timeZone: string): ReceiptDocument {
+  const money = (amount: number | null) => formatAmount(Number(amount) || 0);
+  const dateTime = (value: string | null) => (value ? formatStoreDateTime(value, timeZone) : "-");
+
+  return [
+    centered("Z-REPORT", { bold: true, doubleHeight: true }),
+    ...(report.closed_at ? [] : [centered("(SHIFT STILL OPEN)")]),
+    divider(),
+    text(`Cashier: ${report.cashier_name || ""}`),
+    ...(report.business_date ? [text(`Business day: ${report.business_date}`)] : []),
+    text(`Opened: ${dateTime(report.opened_at)}`),
+    text(`Closed: ${dateTime(report.closed_at)}`),
+    divider(),
+    columns("Orders paid", String(report.orders_paid)),
+    columns("Gross sales", money(report.gross_sales), { bold: true }),
+    feed(),
+    text("SALES BY TENDER", { bold: true }),
+    ...report.sales_by_tender.map(tender =>
+      columns(`${getPaymentMethodLabel(tender.method)} (${tender.count})`, money(tender.amount))
+    ),
+    divider(),
+    columns(`Refunds (${report.refunds.count})`, money(report.refunds.amount)),
+    columns(`Discounts (${report.discounts.count})`, money(report.discounts.amount)),
+    columns(`Voids (${report.voids.count})`, money(report.voids.amount)),
+    divider(),
+    text("CASH DRAWER", { bold: true }),
+    columns("Opening float", money(report.opening_float)),
+    columns("Cash sales", money(report.cash_sales)),
+    columns("Cash drops", `-${money(report.cash_drops)}`),
+    columns("Paid outs", `-${money(report.paid_outs)}`),
+    columns("Cash refunds", `-${money(report.cash_refunds ?? report.refunds.amount)}`),
+    columns("Expected cash", money(report.expected_cash), { bold: true }),
+    columns("Counted cash", report.counted_cash === null ? "-" : money(report.counted_cash)),
+    columns("Over/(short)", report.variance === null ? "-" : money(report.variance), { bold: true }),
+    divider(),
+    feed(),
+    text("Signature: ______________"),
+  ];
+}
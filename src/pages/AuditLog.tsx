@@ -0,0 +1,397 @@
+import { useState, useEffect, useMemo } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { ArrowLeft, Search, Eye, Download, ChevronLeft, ChevronRight } from "lucide-react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { getBusinessDate, getBusinessDayRange } from "@/lib/businessDay";
+import { exportRows } from "@/lib/export";
+import { fetchAllRows } from "@/lib/exportDatasets";
+import {
+  AUDIT_ENTITIES,
+  AUDIT_EXPORT_COLUMNS,
+  AUDIT_LOG_PAGE_SIZE,
+  ActivityLog,
+  AuditLogFilters,
+  getEntityFilter,
+  getEntityLabel,
+  readAuditFilters,
+  writeAuditFilters,
+} from "@/lib/auditLog";
+
+interface StaffMember {
+  user_id: string;
+  full_name: string | null;
+}
+
+const AuditLog = () => {
+  const { settings } = useStoreSettings();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => readAuditFilters(searchParams), [searchParams]);
+  const [logs, setLogs] = useState<ActivityLog[]>([]);
+  const [logCount, setLogCount] = useState(0);
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [actions, setActions] = useState<string[]>([]);
+  // Search waits for a pause in typing before it hits the URL and the database
+  const [searchDraft, setSearchDraft] = useState(filters.search);
+  const [loading, setLoading] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [inspectedLog, setInspectedLog] = useState<ActivityLog | null>(null);
+
+  useEffect(() => {
+    loadFilterOptions();
+  }, []);
+
+  useEffect(() => {
+    loadLogs();
+  }, [searchParams, settings.timezone, settings.business_day_cutoff]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      if (searchDraft !== filters.search) {
+        updateFilters({ search: searchDraft });
+      }
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [searchDraft]);
+
+  const loadFilterOptions = async () => {
+    const [staffResult, actionsResult] = await Promise.all([
+      supabase.from("profiles").select("user_id, full_name").order("full_name"),
+      supabase.rpc("get_activity_log_actions"),
+    ]);
+    setStaff(staffResult.data || []);
+    setActions(actionsResult.data || []);
+  };
+
+  // A fresh query each time, since exporting pages through the same filters
+  const buildQuery = (options?: { count: "exact" }) => {
+    const start = filters.from ? getBusinessDayRange(settings, filters.from).start : null;
+    const end = filters.to ? getBusinessDayRange(settings, filters.to).end : null;
+    const entityFilter = filters.entity ? getEntityFilter(filters.entity) : null;
+
+    let query = supabase.from("activity_logs").select("*", options);
+    if (start) query = query.gte("created_at", start);
+    if (end) query = query.lt("created_at", end);
+    if (filters.userId) query = query.eq("user_id", filters.userId);
+    if (filters.action) query = query.eq("action", filters.action);
+    if (entityFilter) query = query.or(entityFilter);
+    if (filters.search.trim()) {
+      query = query.textSearch("description", filters.search.trim(), { type: "websearch", config: "simple" });
+    }
+    return query.order("created_at", { ascending: false }).order("id");
+  };
+
+  const loadLogs = async () => {
+    setLoading(true);
+    const first = (filters.page - 1) * AUDIT_LOG_PAGE_SIZE;
+    const { data, count, error } = await buildQuery({ count: "exact" }).range(first, first + AUDIT_LOG_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error("Error loading audit log:", error);
+      toast.error("Failed to load audit log");
+    } else {
+      setLogs(data || []);
+      setLogCount(count || 0);
+    }
+    setLoading(false);
+  };
+
+  const getUserName = (userId: string | null) => {
+    if (!userId) return "System";
+    return staff.find(member => member.user_id === userId)?.full_name || "Unknown user";
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const rows = await fetchAllRows<ActivityLog>((first, last) => buildQuery().range(first, last));
+      if (rows.length === 0) {
+        toast.info("No audit entries match these filters");
+        return;
+      }
+
+      await exportRows("csv", {
+        fileName: `audit-log-${filters.from || "start"}-to-${filters.to || getBusinessDate(settings)}`,
+        title: "Audit Log",
+        subtitle: `Exported ${getBusinessDate(settings)} (${settings.timezone})`,
+        timeZone: settings.timezone,
+        columns: AUDIT_EXPORT_COLUMNS,
+        rows: rows.map(log => ({
+          created_at: log.created_at,
+          user: getUserName(log.user_id),
+          action: log.action,
+          entity: getEntityLabel(log.metadata),
+          description: log.description,
+          metadata: log.metadata ? JSON.stringify(log.metadata) : null,
+        })),
+      });
+
+      await supabase.rpc('log_activity', {
+        action_type: 'EXPORT',
+        description_text: `Exported ${rows.length} audit log entries`,
+        metadata_json: { dataset: 'audit_log', format: 'csv', rows: rows.length, action: 'export_audit_log' }
+      });
+      toast.success(`Exported ${rows.length} row(s)`);
+    } catch (error) {
+      console.error("Error exporting audit log:", error);
+      toast.error("Failed to export audit log");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Any filter change starts again from the first page
+  const updateFilters = (changes: Partial<AuditLogFilters>) => {
+    setSearchParams(writeAuditFilters({ ...filters, page: 1, ...changes }), { replace: true });
+  };
+
+  const goToPage = (page: number) => {
+    setSearchParams(writeAuditFilters({ ...filters, page }));
+  };
+
+  const clearFilters = () => {
+    setSearchDraft("");
+    setSearchParams(new URLSearchParams(), { replace: true });
+  };
+
+  const pageCount = Math.max(1, Math.ceil(logCount / AUDIT_LOG_PAGE_SIZE));
+  const firstShown = (filters.page - 1) * AUDIT_LOG_PAGE_SIZE + 1;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="border-b bg-gradient-to-r from-primary/10 via-primary/5 to-transparent backdrop-blur-sm">
+        <div className="flex h-20 items-center px-6">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => navigate("/dashboard")}
+            className="mr-4 hover:bg-primary/10"
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Dashboard
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">Audit Log</h1>
+            <p className="text-sm text-muted-foreground">Who did what, and when</p>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={isExporting} className="ml-auto">
+            <Download className="h-4 w-4 mr-2" />
+            {isExporting ? "Exporting..." : "Export CSV"}
+          </Button>
+        </div>
+      </div>
+
+      <div className="container mx-auto p-6">
+        {/* Filters */}
+        <Card className="mb-8 border-0 shadow-lg bg-gradient-to-r from-card to-secondary/20">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle className="text-lg font-semibold">Search Activity</CardTitle>
+            <Button variant="ghost" size="sm" onClick={clearFilters} disabled={searchParams.toString() === ""}>
+              Clear filters
+            </Button>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder='Search descriptions, e.g. refund "order ORD-" -printer'
+                value={searchDraft}
+                onChange={(e) => setSearchDraft(e.target.value)}
+                className="pl-10 border-0 bg-background/50 backdrop-blur-sm shadow-inner"
+              />
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              <div>
+                <Label htmlFor="audit_from">From</Label>
+                <Input
+                  id="audit_from"
+                  type="date"
+                  value={filters.from}
+                  onChange={(e) => updateFilters({ from: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="audit_to">To</Label>
+                <Input
+                  id="audit_to"
+                  type="date"
+                  value={filters.to}
+                  onChange={(e) => updateFilters({ to: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label>User</Label>
+                <Select
+                  value={filters.userId || "all"}
+                  onValueChange={(value) => updateFilters({ userId: value === "all" ? "" : value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Users</SelectItem>
+                    {staff.map(member => (
+                      <SelectItem key={member.user_id} value={member.user_id}>
+                        {member.full_name || "Unnamed"}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Action</Label>
+                <Select
+                  value={filters.action || "all"}
+                  onValueChange={(value) => updateFilters({ action: value === "all" ? "" : value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Actions</SelectItem>
+                    {actions.map(action => (
+                      <SelectItem key={action} value={action}>{action}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Entity</Label>
+                <Select
+                  value={filters.entity || "all"}
+                  onValueChange={(value) => updateFilters({ entity: value === "all" ? "" : value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Entities</SelectItem>
+                    {AUDIT_ENTITIES.map(entity => (
+                      <SelectItem key={entity.value} value={entity.value}>{entity.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Log Entries */}
+        <Card className="border-0 shadow-lg bg-gradient-to-br from-card to-accent/5">
+          <CardHeader>
+            <CardTitle className="text-xl font-semibold">Activity</CardTitle>
+            <CardDescription className="text-base">
+              {logCount === 0
+                ? "0 entries found"
+                : `Showing ${firstShown}-${firstShown + logs.length - 1} of ${logCount} entries`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="text-center py-8">Loading...</div>
+            ) : logs.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                No activity found
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {logs.map(log => (
+                  <div key={log.id} className="flex justify-between items-center gap-4 p-3 border rounded-lg">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <Badge variant="secondary">{log.action}</Badge>
+                        {getEntityLabel(log.metadata) && (
+                          <Badge variant="outline">{getEntityLabel(log.metadata)}</Badge>
+                        )}
+                      </div>
+                      <p className="text-sm truncate">{log.description}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(log.created_at).toLocaleString()} · {getUserName(log.user_id)}
+                      </p>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setInspectedLog(log)}
+                    >
+                      <Eye className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+            {pageCount > 1 && (
+              <div className="flex items-center justify-between mt-6">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => goToPage(filters.page - 1)}
+                  disabled={loading || filters.page <= 1}
+                >
+                  <ChevronLeft className="h-4 w-4 mr-1" />
+                  Previous
+                </Button>
+                <span className="text-sm text-muted-foreground">
+                  Page {filters.page} of {pageCount}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => goToPage(filters.page + 1)}
+                  disabled={loading || filters.page >= pageCount}
+                >
+                  Next
+                  <ChevronRight className="h-4 w-4 ml-1" />
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={!!inspectedLog} onOpenChange={(open) => !open && setInspectedLog(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{inspectedLog?.action}</DialogTitle>
+            <DialogDescription>{inspectedLog?.description}</DialogDescription>
+          </DialogHeader>
+          {inspectedLog && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <Label>When</Label>
+                  <p>{new Date(inspectedLog.created_at).toLocaleString()}</p>
+                </div>
+                <div>
+                  <Label>User</Label>
+                  <p>{getUserName(inspectedLog.user_id)}</p>
+                </div>
+                <div className="col-span-2">
+                  <Label>Entry ID</Label>
+                  <p className="font-mono text-xs break-all">{inspectedLog.id}</p>
+                </div>
+              </div>
+              <div>
+                <Label>Metadata</Label>
+                <pre className="mt-1 p-3 rounded bg-muted text-xs font-mono overflow-x-auto whitespace-pre-wrap break-all">
+                  {inspectedLog.metadata ? JSON.stringify(inspectedLog.metadata, null, 2) : "No metadata"}
+                </pre>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default AuditLog;
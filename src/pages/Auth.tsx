@@ -8,9 +8,11 @@ import { Label } from "@/components/ui/label";
 import { toast } from "@/hooks/use-toast";
 import { ArrowLeft, LogIn, UserPlus, Coffee } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
 
 const Auth = () => {
   const navigate = useNavigate();
+  const { settings } = useStoreSettings();
   const { user } = useAuth();
   const [isLogin, setIsLogin] = useState(true);
   const [isLoading, setIsLoading] = useState(false);
@@ -89,12 +91,12 @@ const Auth = () => {
         <div className="text-center mb-8">
           <div className="flex items-center justify-center space-x-3 mb-4">
             <img 
-              src="/lovable-uploads/de766a0c-8555-4067-98ad-1830ddc6138a.png" 
-              alt="Orijin's Coffee Shop" 
+              src={settings.logo_url || undefined} 
+              alt={settings.business_name} 
               className="h-12 w-12 rounded-lg"
             />
             <div>
-              <h1 className="text-3xl font-bold text-primary">Orijin's Coffee</h1>
+              <h1 className="text-3xl font-bold text-primary">{settings.business_name}</h1>
               <p className="text-sm text-muted-foreground">Staff Portal</p>
             </div>
           </div>
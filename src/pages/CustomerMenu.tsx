@@ -9,6 +9,20 @@ import { Textarea } from "@/components/ui/textarea";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { toast } from "@/hooks/use-toast";
 import { formatPHP } from "@/lib/utils";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { useOfflineSync } from "@/hooks/useOfflineSync";
+import { isNetworkError } from "@/lib/outbox";
+import SyncStatusIndicator from "@/components/SyncStatusIndicator";
+import { getHoursFor, isOpenAt } from "@/lib/settings";
+import {
+  ModifierGroup,
+  SelectedModifier,
+  formatModifiers,
+  getModifierGroupsForItem,
+  getModifiersTotal,
+} from "@/lib/modifiers";
+import { getLastOrder, getTrackingPath, saveLastOrder } from "@/lib/orderTracking";
+import ModifierSelectionDialog from "@/components/ModifierSelectionDialog";
 import { 
   Coffee, 
   ShoppingCart, 
@@ -16,7 +30,9 @@ import {
   Minus, 
   Search,
   User,
-  LogIn
+  LogIn,
+  Receipt,
+  Clock
 } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 
@@ -38,13 +54,34 @@ interface Category {
 }
 
 interface CartItem extends MenuItem {
+  line_id: string;
   quantity: number;
+  modifiers: SelectedModifier[];
+  notes: string;
 }
 
+interface PlacedOrder {
+  id: string;
+  order_number: string;
+  tracking_token: string;
+  total_amount: number;
+  tax_amount: number;
+}
+
+// The same item with different modifiers or notes is a separate cart line
+const getLineId = (itemId: string, modifiers: SelectedModifier[], notes: string) =>
+  [itemId, ...modifiers.map(m => m.modifier_option_id).sort(), notes].join("|");
+
+const getLineUnitPrice = (item: CartItem) => Number(item.price) + getModifiersTotal(item.modifiers);
+
 const CustomerMenu = () => {
   const navigate = useNavigate();
+  const { settings } = useStoreSettings();
+  const { queueRequest } = useOfflineSync();
   const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
+  const [modifierGroups, setModifierGroups] = useState<ModifierGroup[]>([]);
+  const [customizingItem, setCustomizingItem] = useState<MenuItem | null>(null);
   const [cart, setCart] = useState<CartItem[]>([]);
   const [selectedCategory, setSelectedCategory] = useState<string>("all");
   const [searchQuery, setSearchQuery] = useState("");
@@ -59,10 +96,20 @@ const CustomerMenu = () => {
   useEffect(() => {
     loadMenuItems();
     loadCategories();
+    loadModifierGroups();
     // Load cart from localStorage
     try {
       const stored = localStorage.getItem('customer_cart');
-      if (stored) setCart(JSON.parse(stored));
+      if (stored) {
+        // Carts saved before modifiers existed have no line ids
+        const parsed: CartItem[] = JSON.parse(stored);
+        setCart(parsed.map(item => ({
+          ...item,
+          modifiers: item.modifiers || [],
+          notes: item.notes || "",
+          line_id: item.line_id || getLineId(item.id, item.modifiers || [], item.notes || ""),
+        })));
+      }
     } catch {}
   }, []);
 
@@ -96,6 +143,20 @@ const CustomerMenu = () => {
     }
   };
 
+  const loadModifierGroups = async () => {
+    const { data, error } = await supabase
+      .from("modifier_groups")
+      .select(`
+        *,
+        modifier_options (*)
+      `)
+      .order("sort_order");
+
+    if (!error && data) {
+      setModifierGroups(data);
+    }
+  };
+
   const filteredItems = menuItems.filter(item => {
     const matchesCategory = selectedCategory === "all" || item.category_id === selectedCategory;
     const matchesSearch = item.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -104,15 +165,25 @@ const CustomerMenu = () => {
   });
 
   const addToCart = (item: MenuItem) => {
-    const existingItem = cart.find(cartItem => cartItem.id === item.id);
+    // Items with modifier groups are customized before they go into the cart
+    if (getModifierGroupsForItem(modifierGroups, item).length > 0) {
+      setCustomizingItem(item);
+      return;
+    }
+    addLineToCart(item, [], "");
+  };
+
+  const addLineToCart = (item: MenuItem, modifiers: SelectedModifier[], notes: string) => {
+    const lineId = getLineId(item.id, modifiers, notes);
+    const existingItem = cart.find(cartItem => cartItem.line_id === lineId);
     if (existingItem) {
       setCart(cart.map(cartItem => 
-        cartItem.id === item.id 
+        cartItem.line_id === lineId 
           ? { ...cartItem, quantity: cartItem.quantity + 1 }
           : cartItem
       ));
     } else {
-      setCart([...cart, { ...item, quantity: 1 }]);
+      setCart([...cart, { ...item, line_id: lineId, quantity: 1, modifiers, notes }]);
     }
     toast({
       title: "Added to cart",
@@ -120,12 +191,12 @@ const CustomerMenu = () => {
     });
   };
 
-  const updateQuantity = (itemId: string, newQuantity: number) => {
+  const updateQuantity = (lineId: string, newQuantity: number) => {
     if (newQuantity === 0) {
-      setCart(cart.filter(item => item.id !== itemId));
+      setCart(cart.filter(item => item.line_id !== lineId));
     } else {
       setCart(cart.map(item => 
-        item.id === itemId 
+        item.line_id === lineId 
           ? { ...item, quantity: newQuantity }
           : item
       ));
@@ -133,7 +204,15 @@ const CustomerMenu = () => {
   };
 
   const calculateTotal = () => {
-    return cart.reduce((total, item) => total + (item.price * item.quantity), 0);
+    return cart.reduce((total, item) => total + (getLineUnitPrice(item) * item.quantity), 0);
+  };
+
+  const resetCheckout = () => {
+    setCart([]);
+    setCustomerName("");
+    setSpecialInstructions("");
+    setIsCheckoutOpen(false);
+    setIsCartOpen(false);
   };
 
   const submitOrder = async () => {
@@ -167,65 +246,49 @@ const CustomerMenu = () => {
 
     setIsSubmitting(true);
 
+    // Prices, availability and modifiers are validated and recomputed by the server.
+    // The request id makes a retried or replayed order safe to send twice.
+    const orderArgs = {
+      p_customer_name: name,
+      p_customer_notes: specialInstructions ? specialInstructions.slice(0, 500) : null,
+      p_order_type: "takeout",
+      p_client_request_id: crypto.randomUUID(),
+      p_items: cart.map(item => ({
+        menu_item_id: item.id,
+        quantity: item.quantity,
+        modifier_option_ids: item.modifiers.map(modifier => modifier.modifier_option_id),
+        notes: item.notes || null
+      }))
+    };
+
     try {
-      const total = calculateTotal();
-      let orderNumber: string | null = null;
-
-      // Try database-generated order number first; fallback to client-generated
-      try {
-        const { data: orderNumberData, error: orderNumberError } = await supabase.rpc('generate_order_number');
-        if (orderNumberError) throw orderNumberError;
-        orderNumber = orderNumberData as string;
-      } catch (e) {
-        console.warn('Falling back to local order number generation', e);
-        orderNumber = `ORD-${new Date().toISOString().replace(/[-:TZ.]/g, '').slice(0,14)}-${Math.random().toString(36).slice(2,6).toUpperCase()}`;
+      const { data, error: orderError } = navigator.onLine
+        ? await supabase.rpc('place_order', orderArgs)
+        : { data: null, error: { message: "Offline" } };
+
+      if (orderError && isNetworkError(orderError)) {
+        await queueRequest({ kind: "place_order", label: `${name}'s order`, args: orderArgs });
+        toast({
+          title: "Order Saved Offline",
+          description: "We're offline right now. Your order will be sent automatically as soon as the connection is back.",
+        });
+        resetCheckout();
+        return;
       }
 
-      // Create order
-      const { data: order, error: orderError } = await supabase
-        .from("orders")
-        .insert({
-          order_number: orderNumber,
-          customer_name: name,
-          customer_notes: specialInstructions ? specialInstructions.slice(0, 500) : null,
-          total_amount: total,
-          status: "pending",
-          payment_method: "cash",
-          order_type: "takeout"
-        })
-        .select()
-        .single();
-
       if (orderError) throw orderError;
 
-      // Create order items
-      const orderItems = cart.map(item => ({
-        order_id: order.id,
-        menu_item_id: item.id,
-        quantity: item.quantity,
-        unit_price: item.price,
-        total_price: item.price * item.quantity,
-        special_instructions: null
-      }));
-
-      const { error: itemsError } = await supabase
-        .from("order_items")
-        .insert(orderItems);
-
-      if (itemsError) throw itemsError;
+      const order = data as unknown as PlacedOrder;
 
       // Show success message with order confirmation details
       toast({
         title: "✅ Order Confirmed!",
-        description: `Order ${orderNumber} placed successfully. Total: ${formatPHP(total)}. Please wait for staff confirmation.`,
+        description: `Order ${order.order_number} placed successfully. Total: ${formatPHP(order.total_amount)}. Please wait for staff confirmation.`,
       });
+      saveLastOrder(order.order_number, order.tracking_token);
 
-      // Reset form and cart
-      setCart([]);
-      setCustomerName("");
-      setSpecialInstructions("");
-      setIsCheckoutOpen(false);
-      setIsCartOpen(false);
+      resetCheckout();
+      navigate(getTrackingPath(order.order_number, order.tracking_token));
 
     } catch (error: any) {
       console.error("Error submitting order:", error);
@@ -240,6 +303,8 @@ const CustomerMenu = () => {
   };
 
   const cartTotal = calculateTotal();
+  const lastOrder = getLastOrder();
+  const todaysHours = getHoursFor(settings.opening_hours);
 
   return (
     <div className="min-h-screen bg-background">
@@ -249,17 +314,30 @@ const CustomerMenu = () => {
           <div className="flex items-center justify-between h-16">
             <div className="flex items-center space-x-3">
               <img 
-                src="/lovable-uploads/de766a0c-8555-4067-98ad-1830ddc6138a.png" 
-                alt="Orijin's Coffee Shop" 
+                src={settings.logo_url || undefined} 
+                alt={settings.business_name} 
                 className="h-10 w-10 rounded-lg"
               />
               <div>
-                <h1 className="text-2xl font-bold">Orijin's Coffee Shop</h1>
-                <p className="text-sm text-primary-foreground/80">Fresh coffee, made with love</p>
+                <h1 className="text-2xl font-bold">{settings.business_name}</h1>
+                {settings.tagline && <p className="text-sm text-primary-foreground/80">{settings.tagline}</p>}
               </div>
             </div>
             
             <div className="flex items-center space-x-4">
+              <SyncStatusIndicator className="bg-primary-foreground/10 text-primary-foreground border-primary-foreground/20" />
+
+              {/* Last order tracking */}
+              {lastOrder && (
+                <Button
+                  variant="secondary"
+                  onClick={() => navigate(getTrackingPath(lastOrder.orderNumber, lastOrder.trackingToken))}
+                >
+                  <Receipt className="h-4 w-4 mr-2" />
+                  My Order
+                </Button>
+              )}
+
               {/* Cart Button */}
               <Button
                 variant="secondary"
@@ -294,12 +372,21 @@ const CustomerMenu = () => {
       <section className="bg-gradient-to-r from-secondary/50 to-accent/30 py-16">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 text-center">
           <h2 className="text-4xl font-bold text-foreground mb-4">
-            Welcome to Orijin's Coffee Shop
+            Welcome to {settings.business_name}
           </h2>
           <p className="text-xl text-muted-foreground mb-8 max-w-2xl mx-auto">
             Discover our carefully crafted coffee blends and delicious treats. 
             Made fresh daily with premium ingredients and served with a smile.
           </p>
+
+          {!isOpenAt(settings.opening_hours) && (
+            <div className="inline-flex items-center gap-2 mb-6 px-4 py-2 rounded-full bg-muted text-muted-foreground">
+              <Clock className="h-4 w-4" />
+              {todaysHours
+                ? `We're closed right now. Today's hours: ${todaysHours.open} – ${todaysHours.close}`
+                : "We're closed today"}
+            </div>
+          )}
           
           {/* Search Bar */}
           <div className="max-w-md mx-auto relative">
@@ -413,18 +500,26 @@ const CustomerMenu = () => {
             ) : (
               <>
                 {cart.map(item => (
-                  <Card key={item.id}>
+                  <Card key={item.line_id}>
                     <CardContent className="p-4">
                       <div className="flex justify-between items-start mb-2">
-                        <h4 className="font-medium">{item.name}</h4>
-                        <span className="font-bold text-accent">{formatPHP(item.price * item.quantity)}</span>
+                        <div>
+                          <h4 className="font-medium">{item.name}</h4>
+                          {item.modifiers.length > 0 && (
+                            <p className="text-xs text-muted-foreground">{formatModifiers(item.modifiers)}</p>
+                          )}
+                          {item.notes && (
+                            <p className="text-xs text-muted-foreground italic">Note: {item.notes}</p>
+                          )}
+                        </div>
+                        <span className="font-bold text-accent">{formatPHP(getLineUnitPrice(item) * item.quantity)}</span>
                       </div>
                       
                       <div className="flex items-center gap-2 mb-2">
                         <Button
                           size="sm"
                           variant="outline"
-                          onClick={() => updateQuantity(item.id, item.quantity - 1)}
+                          onClick={() => updateQuantity(item.line_id, item.quantity - 1)}
                         >
                           <Minus className="h-3 w-3" />
                         </Button>
@@ -432,7 +527,7 @@ const CustomerMenu = () => {
                         <Button
                           size="sm"
                           variant="outline"
-                          onClick={() => updateQuantity(item.id, item.quantity + 1)}
+                          onClick={() => updateQuantity(item.line_id, item.quantity + 1)}
                         >
                           <Plus className="h-3 w-3" />
                         </Button>
@@ -461,6 +556,18 @@ const CustomerMenu = () => {
         </DialogContent>
       </Dialog>
 
+      {/* Modifier Selection */}
+      <ModifierSelectionDialog
+        item={customizingItem}
+        groups={customizingItem ? getModifierGroupsForItem(modifierGroups, customizingItem) : []}
+        isOpen={!!customizingItem}
+        onClose={() => setCustomizingItem(null)}
+        onConfirm={(modifiers, notes) => {
+          if (customizingItem) addLineToCart(customizingItem, modifiers, notes);
+          setCustomizingItem(null);
+        }}
+      />
+
       {/* Checkout Form */}
       <Dialog open={isCheckoutOpen} onOpenChange={setIsCheckoutOpen}>
         <DialogContent className="max-w-md">
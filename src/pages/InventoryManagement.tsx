@@ -61,7 +61,7 @@ const InventoryManagement = () => {
     
     const itemData = {
       item_name: formData.item_name,
-      current_stock: parseInt(formData.current_stock),
+      current_stock: parseFloat(formData.current_stock),
       min_stock_level: parseInt(formData.min_stock_level),
       max_stock_level: parseInt(formData.max_stock_level),
       unit: formData.unit,
@@ -194,6 +194,7 @@ const InventoryManagement = () => {
                     <Input
                       id="current_stock"
                       type="number"
+                      step="0.01"
                       value={formData.current_stock}
                       onChange={(e) => setFormData({ ...formData, current_stock: e.target.value })}
                       required
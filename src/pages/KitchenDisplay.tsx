@@ -0,0 +1,313 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "@/hooks/use-toast";
+import { formatModifiers } from "@/lib/modifiers";
+import { ArrowLeft, CheckCircle, Maximize, MessageSquare, Undo2 } from "lucide-react";
+
+interface KitchenOrder {
+  id: string;
+  order_number: string;
+  customer_name: string | null;
+  order_type: string;
+  customer_notes: string | null;
+  status: string;
+  created_at: string;
+  updated_at: string;
+  approved_at: string | null;
+  order_items: KitchenOrderItem[];
+}
+
+interface KitchenOrderItem {
+  id: string;
+  quantity: number;
+  special_instructions: string | null;
+  menu_items: {
+    name: string;
+    size: string | null;
+    preparation_time: number | null;
+  };
+  order_item_modifiers: {
+    option_name: string;
+    price_delta: number;
+  }[];
+}
+
+const DEFAULT_PREPARATION_MINUTES = 5;
+
+// Items are made side by side, so a ticket is due when its slowest item is
+const getTargetMinutes = (order: KitchenOrder) =>
+  Math.max(
+    DEFAULT_PREPARATION_MINUTES,
+    ...order.order_items.map(item => item.menu_items?.preparation_time || DEFAULT_PREPARATION_MINUTES)
+  );
+
+const formatElapsed = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+};
+
+const getTimerColor = (elapsedMs: number, targetMinutes: number) => {
+  const ratio = elapsedMs / (targetMinutes * 60 * 1000);
+  if (ratio >= 1) return "bg-red-600 text-white";
+  if (ratio >= 0.75) return "bg-yellow-500 text-black";
+  return "bg-green-600 text-white";
+};
+
+const KitchenDisplay = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [orders, setOrders] = useState<KitchenOrder[]>([]);
+  const [now, setNow] = useState(Date.now());
+  // Most recent bump last, so recall always brings back the latest ticket
+  const [bumpedOrders, setBumpedOrders] = useState<KitchenOrder[]>([]);
+  const [busyOrderId, setBusyOrderId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadOrders();
+
+    // Any order change can add or remove a ticket: approvals, bumps from another screen, cancellations
+    const kitchenSubscription = supabase
+      .channel('kitchen-channel')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'orders'
+        },
+        (payload) => {
+          loadOrders();
+
+          const newOrder = payload.new as { status?: string; order_number?: string };
+          const oldOrder = payload.old as { status?: string };
+          if (newOrder?.status === 'preparing' && oldOrder?.status !== 'preparing') {
+            toast({
+              title: "New Ticket",
+              description: `Order ${newOrder.order_number}`,
+            });
+          }
+        }
+      )
+      .subscribe();
+
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+
+    return () => {
+      supabase.removeChannel(kitchenSubscription);
+      clearInterval(timer);
+    };
+  }, []);
+
+  const loadOrders = async () => {
+    const { data, error } = await supabase
+      .from("orders")
+      .select(`
+        id,
+        order_number,
+        customer_name,
+        order_type,
+        customer_notes,
+        status,
+        created_at,
+        updated_at,
+        approved_at,
+        order_items (
+          id,
+          quantity,
+          special_instructions,
+          menu_items (
+            name,
+            size,
+            preparation_time
+          ),
+          order_item_modifiers (
+            option_name,
+            price_delta
+          )
+        )
+      `)
+      .eq("status", "preparing")
+      .is("order_items.voided_at", null)
+      .order("approved_at", { ascending: true });
+
+    if (error) {
+      console.error("Error loading kitchen orders:", error);
+    } else {
+      setOrders(data || []);
+    }
+  };
+
+  // Goes through apply_order_action like every other status change, so a till
+  // that moved the order first wins and the kitchen is told instead
+  const setOrderStatus = async (order: KitchenOrder, fromStatus: string, newStatus: string, actionType: string) => {
+    if (!user) return false;
+
+    setBusyOrderId(order.id);
+    try {
+      const { data, error } = await supabase.rpc('apply_order_action', {
+        p_order_id: order.id,
+        p_action_type: actionType,
+        p_new_status: newStatus,
+        p_expected_status: fromStatus,
+      });
+
+      if (error) throw error;
+
+      await loadOrders();
+
+      const result = data as { applied: boolean; current_status?: string };
+      if (!result.applied) {
+        toast({
+          title: "Order Already Updated",
+          description: `Order ${order.order_number} is already ${result.current_status}.`,
+          variant: "destructive",
+        });
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error("Error updating kitchen order:", error);
+      toast({
+        title: "Action Failed",
+        description: `Could not update order ${order.order_number}. Please try again.`,
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setBusyOrderId(null);
+    }
+  };
+
+  const handleBump = async (order: KitchenOrder) => {
+    if (await setOrderStatus(order, 'preparing', 'ready', 'ready')) {
+      setBumpedOrders(prev => [...prev, order]);
+    }
+  };
+
+  const handleRecall = async () => {
+    const lastBumped = bumpedOrders[bumpedOrders.length - 1];
+    if (!lastBumped) return;
+
+    if (await setOrderStatus(lastBumped, 'ready', 'preparing', 'recall')) {
+      setBumpedOrders(prev => prev.slice(0, -1));
+    }
+  };
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen();
+    } else {
+      document.documentElement.requestFullscreen().catch(() => {});
+    }
+  };
+
+  const lastBumped = bumpedOrders[bumpedOrders.length - 1];
+
+  return (
+    <div className="min-h-screen bg-zinc-950 text-zinc-100 flex flex-col">
+      <header className="flex items-center justify-between px-4 h-14 border-b border-zinc-800">
+        <div className="flex items-center gap-3">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => navigate('/dashboard')}
+            className="text-zinc-100 hover:bg-zinc-800 hover:text-zinc-100"
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Dashboard
+          </Button>
+          <h1 className="text-xl font-bold">Kitchen Display</h1>
+          <Badge variant="secondary">{orders.length} in progress</Badge>
+        </div>
+        <div className="flex items-center gap-3">
+          <span className="text-lg font-mono">
+            {new Date(now).toLocaleTimeString('en-PH', { hour: '2-digit', minute: '2-digit' })}
+          </span>
+          <Button
+            variant="secondary"
+            onClick={handleRecall}
+            disabled={!lastBumped || busyOrderId !== null}
+          >
+            <Undo2 className="h-4 w-4 mr-2" />
+            Recall{lastBumped ? ` ${lastBumped.order_number.slice(-4)}` : ''}
+          </Button>
+          <Button variant="ghost" size="icon" onClick={toggleFullscreen} className="text-zinc-100 hover:bg-zinc-800 hover:text-zinc-100">
+            <Maximize className="h-4 w-4" />
+          </Button>
+        </div>
+      </header>
+
+      {orders.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center text-zinc-500 text-2xl">
+          No orders in progress
+        </div>
+      ) : (
+        <div className="flex-1 p-4 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 content-start">
+          {orders.map(order => {
+            // The clock runs from approval, and keeps running if a ticket is recalled from ready
+            const elapsed = now - new Date(order.approved_at ?? order.created_at).getTime();
+            const targetMinutes = getTargetMinutes(order);
+
+            return (
+              <div key={order.id} className="bg-zinc-900 rounded-lg overflow-hidden flex flex-col border border-zinc-800">
+                <div className={`flex items-center justify-between px-3 py-2 ${getTimerColor(elapsed, targetMinutes)}`}>
+                  <div>
+                    <p className="font-bold text-lg">#{order.order_number.slice(-4)}</p>
+                    <p className="text-xs opacity-90">
+                      {order.customer_name || 'Walk-in'} · {order.order_type === 'dine_in' ? 'Dine in' : 'Takeout'}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="font-mono text-2xl font-bold">{formatElapsed(elapsed)}</p>
+                    <p className="text-xs opacity-90">target {targetMinutes}m</p>
+                  </div>
+                </div>
+
+                <div className="flex-1 p-3 space-y-3">
+                  {order.order_items.map(item => (
+                    <div key={item.id}>
+                      <p className="text-lg font-semibold">
+                        {item.quantity}× {item.menu_items?.name}
+                        {item.menu_items?.size && <span className="text-zinc-400"> ({item.menu_items.size})</span>}
+                      </p>
+                      {item.order_item_modifiers?.length > 0 && (
+                        <p className="text-sm text-sky-300">+ {formatModifiers(item.order_item_modifiers)}</p>
+                      )}
+                      {item.special_instructions && (
+                        <p className="text-sm text-amber-300 italic">"{item.special_instructions}"</p>
+                      )}
+                    </div>
+                  ))}
+
+                  {order.customer_notes && (
+                    <div className="flex gap-2 text-sm text-amber-300 border-t border-zinc-800 pt-2">
+                      <MessageSquare className="h-4 w-4 shrink-0 mt-0.5" />
+                      <span>{order.customer_notes}</span>
+                    </div>
+                  )}
+                </div>
+
+                <Button
+                  onClick={() => handleBump(order)}
+                  disabled={busyOrderId === order.id}
+                  className="rounded-none h-14 text-lg bg-green-700 hover:bg-green-600 text-white"
+                >
+                  <CheckCircle className="h-5 w-5 mr-2" />
+                  Bump — Ready
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default KitchenDisplay;
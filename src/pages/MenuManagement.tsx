@@ -8,9 +8,14 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "sonner";
-import { ArrowLeft, Plus, Edit, Trash2 } from "lucide-react";
+import { ArrowLeft, Plus, Edit, Trash2, ClipboardList, SlidersHorizontal, Percent, Printer } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { formatPHP } from "@/lib/utils";
+import RecipeDialog from "@/components/RecipeDialog";
+import ModifierGroupsDialog from "@/components/ModifierGroupsDialog";
+import DiscountTypesDialog from "@/components/DiscountTypesDialog";
+import PrintersDialog from "@/components/PrintersDialog";
+import { TAX_TYPES } from "@/lib/tax";
 
 interface MenuItem {
   id: string;
@@ -20,6 +25,7 @@ interface MenuItem {
   category_id: string;
   is_available: boolean;
   size?: string;
+  tax_type: string;
 }
 
 interface Category {
@@ -34,13 +40,18 @@ const MenuManagement = () => {
   const [categories, setCategories] = useState<Category[]>([]);
   const [selectedItem, setSelectedItem] = useState<MenuItem | null>(null);
   const [isEditing, setIsEditing] = useState(false);
+  const [recipeItem, setRecipeItem] = useState<MenuItem | null>(null);
+  const [isModifiersOpen, setIsModifiersOpen] = useState(false);
+  const [isDiscountsOpen, setIsDiscountsOpen] = useState(false);
+  const [isPrintersOpen, setIsPrintersOpen] = useState(false);
   const [formData, setFormData] = useState({
     name: "",
     description: "",
     price: "",
     category_id: "",
     is_available: true,
-    size: ""
+    size: "",
+    tax_type: "vatable"
   });
 
   useEffect(() => {
@@ -96,7 +107,8 @@ const MenuManagement = () => {
       price: parseFloat(formData.price),
       category_id: formData.category_id,
       is_available: formData.is_available,
-      size: formData.size || null
+      size: formData.size || null,
+      tax_type: formData.tax_type
     };
 
     if (isEditing && selectedItem) {
@@ -148,7 +160,8 @@ const MenuManagement = () => {
       price: (item.price ?? 0).toString(),
       category_id: item.category_id || "",
       is_available: item.is_available ?? true,
-      size: item.size || ""
+      size: item.size || "",
+      tax_type: item.tax_type || "vatable"
     });
   };
 
@@ -180,7 +193,8 @@ const MenuManagement = () => {
       price: "",
       category_id: "",
       is_available: true,
-      size: ""
+      size: "",
+      tax_type: "vatable"
     });
     setSelectedItem(null);
     setIsEditing(false);
@@ -285,6 +299,25 @@ const MenuManagement = () => {
                     </SelectContent>
                   </Select>
                 </div>
+
+                <div>
+                  <Label htmlFor="tax_type">Tax Type</Label>
+                  <Select 
+                    value={formData.tax_type} 
+                    onValueChange={(value) => setFormData({ ...formData, tax_type: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TAX_TYPES.map(taxType => (
+                        <SelectItem key={taxType.value} value={taxType.value}>
+                          {taxType.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
                 
                 <div className="flex gap-2">
                   <Button type="submit">
@@ -302,9 +335,25 @@ const MenuManagement = () => {
 
           {/* Menu Items List */}
           <Card className="border-0 shadow-lg bg-gradient-to-br from-card to-accent/5 hover:shadow-xl transition-all duration-300">
-            <CardHeader>
-              <CardTitle className="text-xl font-semibold">Menu Items</CardTitle>
-              <CardDescription>Manage your menu items</CardDescription>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div>
+                <CardTitle className="text-xl font-semibold">Menu Items</CardTitle>
+                <CardDescription>Manage your menu items</CardDescription>
+              </div>
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" onClick={() => setIsModifiersOpen(true)}>
+                  <SlidersHorizontal className="h-4 w-4 mr-2" />
+                  Modifiers
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => setIsDiscountsOpen(true)}>
+                  <Percent className="h-4 w-4 mr-2" />
+                  Discounts
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => setIsPrintersOpen(true)}>
+                  <Printer className="h-4 w-4 mr-2" />
+                  Printers
+                </Button>
+              </div>
             </CardHeader>
             <CardContent>
               <div className="space-y-4 max-h-96 overflow-y-auto">
@@ -318,6 +367,14 @@ const MenuManagement = () => {
                        </p>
                      </div>
                     <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setRecipeItem(item)}
+                        title="Recipe"
+                      >
+                        <ClipboardList className="h-4 w-4" />
+                      </Button>
                       <Button
                         size="sm"
                         variant="outline"
@@ -340,6 +397,29 @@ const MenuManagement = () => {
           </Card>
         </div>
       </div>
+
+      <RecipeDialog
+        menuItem={recipeItem}
+        isOpen={!!recipeItem}
+        onClose={() => setRecipeItem(null)}
+      />
+
+      <ModifierGroupsDialog
+        menuItems={menuItems}
+        categories={categories}
+        isOpen={isModifiersOpen}
+        onClose={() => setIsModifiersOpen(false)}
+      />
+
+      <DiscountTypesDialog
+        isOpen={isDiscountsOpen}
+        onClose={() => setIsDiscountsOpen(false)}
+      />
+
+      <PrintersDialog
+        isOpen={isPrintersOpen}
+        onClose={() => setIsPrintersOpen(false)}
+      />
     </div>
   );
 };
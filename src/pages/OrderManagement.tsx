@@ -1,8 +1,24 @@
 import { useState, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { useOfflineSync } from "@/hooks/useOfflineSync";
+import { useManagerApproval } from "@/hooks/useManagerApproval";
+import { isNetworkError } from "@/lib/outbox";
+import SyncStatusIndicator from "@/components/SyncStatusIndicator";
+import PrinterStatus from "@/components/PrinterStatus";
+import { useBluetoothPrinter } from "@/hooks/useBluetoothPrinter";
+import { buildKitchenTicket, fetchOrderReceipt } from "@/lib/receipt";
+import { getCategoryPrinters, routeToStations } from "@/lib/printers";
 import { useNavigate } from "react-router-dom";
 import { formatPHP } from "@/lib/utils";
+import { formatModifiers } from "@/lib/modifiers";
+import { ORDER_STATUSES } from "@/lib/orderStatus";
+import { logOrderPrint } from "@/lib/orderTimeline";
+import TenderDialog from "@/components/TenderDialog";
+import DiscountDialog from "@/components/DiscountDialog";
+import RefundDialog from "@/components/RefundDialog";
+import OrderStatusBadge from "@/components/OrderStatusBadge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -40,11 +56,13 @@ interface Order {
   customer_notes: string | null;
   total_amount: number;
   tax_amount: number;
+  discount_amount: number;
   status: string;
   payment_method: string;
   created_at: string;
   updated_at: string;
   order_items: OrderItem[];
+  order_payments: { id: string }[];
 }
 
 interface OrderItem {
@@ -56,12 +74,21 @@ interface OrderItem {
   menu_items: {
     name: string;
     description: string;
+    category_id: string | null;
   };
+  order_item_modifiers: {
+    option_name: string;
+    price_delta: number;
+  }[];
 }
 
 const OrderManagement = () => {
   const { user, signOut } = useAuth();
   const navigate = useNavigate();
+  const { settings } = useStoreSettings();
+  const { queueRequest } = useOfflineSync();
+  const { withApproval } = useManagerApproval();
+  const printer = useBluetoothPrinter();
   const [orders, setOrders] = useState<Order[]>([]);
   const [filteredOrders, setFilteredOrders] = useState<Order[]>([]);
   const [statusFilter, setStatusFilter] = useState("all");
@@ -69,10 +96,12 @@ const OrderManagement = () => {
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
   const [isActionDialogOpen, setIsActionDialogOpen] = useState(false);
   const [actionType, setActionType] = useState<string>("");
-  const [actionAmount, setActionAmount] = useState("");
   const [actionReason, setActionReason] = useState("");
   const [actionNotes, setActionNotes] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [tenderOrder, setTenderOrder] = useState<Order | null>(null);
+  const [discountOrderId, setDiscountOrderId] = useState<string | null>(null);
+  const [refundOrderId, setRefundOrderId] = useState<string | null>(null);
 
   useEffect(() => {
     loadOrders();
@@ -102,7 +131,7 @@ const OrderManagement = () => {
               if (Notification.permission === 'granted') {
                 const notification = new Notification('🔔 New Order Received!', {
                   body: `Order ${payload.new.order_number} from ${payload.new.customer_name || 'Customer'}`,
-                  icon: '/lovable-uploads/de766a0c-8555-4067-98ad-1830ddc6138a.png',
+                  icon: settings.logo_url || undefined,
                   requireInteraction: true
                 });
                 
@@ -157,10 +186,19 @@ const OrderManagement = () => {
           *,
           menu_items (
             name,
-            description
+            description,
+            category_id
+          ),
+          order_item_modifiers (
+            option_name,
+            price_delta
           )
+        ),
+        order_payments (
+          id
         )
       `)
+      .is("order_items.voided_at", null)
       .order("created_at", { ascending: false });
     
     if (!error && data) {
@@ -168,99 +206,116 @@ const OrderManagement = () => {
     }
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'pending': return 'bg-yellow-500';
-      case 'preparing': return 'bg-blue-500';
-      case 'ready': return 'bg-green-500';
-      case 'completed': return 'bg-gray-500';
-      case 'cancelled': return 'bg-red-500';
-      case 'refunded': return 'bg-purple-500';
-      default: return 'bg-gray-400';
-    }
-  };
+  // Kitchen copies on approval and customer copy on completion; jobs wait in the queue while a printer is away
+  const autoPrint = async (order: Order | undefined, actionType: string, applied: boolean) => {
+    if (!order) return;
+
+    try {
+      if (actionType === 'approve' && printer.autoPrint.kitchenOnApprove) {
+        // One ticket per station, e.g. drinks to the bar and rice meals to the kitchen
+        const items = order.order_items.map(item => ({ ...item, category_id: item.menu_items?.category_id ?? null }));
+        const routes = routeToStations(items, await getCategoryPrinters());
+
+        for (const route of routes) {
+          const station = route.printer?.name || 'Kitchen';
+
+          // Without a paired printer only network stations can take a ticket
+          if (route.printer?.connection !== 'network' && !printer.isPaired) {
+            toast({
+              title: "Ticket Not Printed",
+              description: `No printer on this till can print the ${station} ticket for ${order.order_number}.`,
+              variant: "destructive",
+            });
+            continue;
+          }
+
+          await printer.print(buildKitchenTicket({
+            ...order,
+            station: route.printer?.name,
+            items: route.items.map(item => ({
+              name: item.menu_items?.name || '',
+              quantity: item.quantity,
+              modifiers: item.order_item_modifiers?.length ? formatModifiers(item.order_item_modifiers) : undefined,
+              notes: item.special_instructions,
+            })),
+          }), { kind: 'kitchen', label: `${station} ${order.order_number}`, printer: route.printer });
+          await logOrderPrint(order, 'kitchen', station);
+        }
+      }
 
-  const getStatusBadgeVariant = (status: string) => {
-    switch (status) {
-      case 'pending': return 'default';
-      case 'preparing': return 'secondary';
-      case 'ready': return 'default';
-      case 'completed': return 'secondary';
-      case 'cancelled': return 'destructive';
-      case 'refunded': return 'destructive';
-      default: return 'outline';
+      // The receipt needs the server's totals and OR number, so it only prints once the completion went through
+      if (actionType === 'complete' && applied && printer.isPaired && printer.autoPrint.receiptOnComplete) {
+        const receipt = await fetchOrderReceipt(order.id, settings);
+        if (receipt) {
+          await printer.print(receipt, { label: `Receipt ${order.order_number}` });
+          await logOrderPrint(order, 'receipt');
+        }
+      }
+    } catch (error) {
+      console.error("Error queueing print job:", error);
     }
   };
 
   const performOrderAction = async (orderId: string, newStatus: string, actionType: string) => {
     if (!user) return;
 
+    const order = orders.find(o => o.id === orderId);
+    // The status we saw is sent along so a stale change can't overwrite a newer one
+    const actionArgs = {
+      p_order_id: orderId,
+      p_action_type: actionType,
+      p_new_status: newStatus,
+      p_expected_status: order?.status,
+      p_reason: actionReason || null,
+      p_notes: actionNotes || null,
+      p_client_request_id: crypto.randomUUID(),
+    };
+
     setIsSubmitting(true);
     
     try {
-      console.log("Performing order action:", { orderId, newStatus, actionType });
-      
-      // Update order status
-      const { error: orderError } = await supabase
-        .from("orders")
-        .update({ 
-          status: newStatus,
-          updated_at: new Date().toISOString()
-        })
-        .eq("id", orderId);
-
-      if (orderError) {
-        console.error("Order update error:", orderError);
-        throw orderError;
-      }
-
-      console.log("Order status updated successfully");
-
-      // Log the action
-      const { error: actionError } = await supabase
-        .from("order_actions")
-        .insert({
-          order_id: orderId,
-          action_type: actionType,
-          action_by: user.id,
-          amount: actionAmount ? parseFloat(actionAmount) : null,
-          reason: actionReason || null,
-          notes: actionNotes || null
+      // Cancelling may need a manager's PIN; offline, the sync reports it if so
+      const result = navigator.onLine
+        ? await withApproval(approval => supabase.rpc('apply_order_action', { ...actionArgs, ...approval }))
+        : { data: null, error: { message: "Offline" } };
+      if (!result) return;
+
+      const { data, error } = result;
+
+      if (error && isNetworkError(error)) {
+        await queueRequest({
+          kind: "apply_order_action",
+          label: `${order?.order_number || 'Order'} ${actionType}`,
+          args: actionArgs,
         });
-
-      if (actionError) {
-        console.error("Action log error:", actionError);
-        throw actionError;
-      }
-
-      console.log("Action logged successfully");
-
-      // Log activity - optional, don't fail if this fails
-      try {
-        const order = orders.find(o => o.id === orderId);
-        await supabase
-          .from("activity_logs")
-          .insert({
-            user_id: user.id,
-            action: 'order_action',
-            description: `Order ${order?.order_number} ${actionType}`,
-            metadata: { order_id: orderId, action: actionType, new_status: newStatus }
-          });
-        console.log("Activity logged successfully");
-      } catch (activityError) {
-        console.warn("Activity logging failed (non-critical):", activityError);
+        // Show the change right away; the server has the final say when it syncs
+        setOrders(orders.map(o => o.id === orderId ? { ...o, status: newStatus } : o));
+        autoPrint(order, actionType, false);
+        toast({
+          title: "Saved Offline",
+          description: `${order?.order_number || 'Order'} will be updated once the connection is back.`,
+        });
+      } else if (error) {
+        throw error;
+      } else if (!(data as { applied: boolean }).applied) {
+        const result = data as { current_status: string };
+        toast({
+          title: "Order Already Updated",
+          description: `This order is already ${result.current_status}.`,
+          variant: "destructive",
+        });
+        await loadOrders();
+      } else {
+        toast({
+          title: "Action Completed",
+          description: `Order has been ${actionType}.`,
+        });
+        autoPrint(order, actionType, true);
+        await loadOrders();
       }
 
-      toast({
-        title: "Action Completed",
-        description: `Order has been ${actionType}.`,
-      });
-
-      // Reload orders and close dialog
-      await loadOrders();
       setIsActionDialogOpen(false);
       setSelectedOrder(null);
-      setActionAmount("");
       setActionReason("");
       setActionNotes("");
 
@@ -293,13 +348,30 @@ const OrderManagement = () => {
         performOrderAction(order.id, 'ready', 'ready');
         break;
       case 'complete':
-        performOrderAction(order.id, 'completed', 'complete');
+        // Take payment first unless the order was already paid
+        if (order.order_payments?.length) {
+          performOrderAction(order.id, 'completed', 'complete');
+        } else {
+          setTenderOrder(order);
+        }
         break;
       default:
         setIsActionDialogOpen(true);
     }
   };
 
+  const handlePaid = (change: number) => {
+    const order = tenderOrder;
+    setTenderOrder(null);
+    if (!order) return;
+
+    toast({
+      title: "Payment Recorded",
+      description: change > 0 ? `Change due: ${formatPHP(change)}` : "Paid in full.",
+    });
+    performOrderAction(order.id, 'completed', 'complete');
+  };
+
   const pendingCount = orders.filter(o => o.status === 'pending').length;
   const preparingCount = orders.filter(o => o.status === 'preparing').length;
   const readyCount = orders.filter(o => o.status === 'ready').length;
@@ -322,18 +394,20 @@ const OrderManagement = () => {
               </Button>
               <div className="flex items-center space-x-3">
                 <img 
-                  src="/lovable-uploads/de766a0c-8555-4067-98ad-1830ddc6138a.png" 
-                  alt="Orijin's Coffee Shop" 
+                  src={settings.logo_url || undefined} 
+                  alt={settings.business_name} 
                   className="h-8 w-8 rounded"
                 />
                 <div>
                   <h1 className="text-xl font-bold">Order Management</h1>
-                  <p className="text-xs text-primary-foreground/70">Orijin's Coffee House</p>
+                  <p className="text-xs text-primary-foreground/70">{settings.business_name}</p>
                 </div>
               </div>
             </div>
             
             <div className="flex items-center gap-4">
+              <SyncStatusIndicator className="bg-primary-foreground/10 text-primary-foreground border-primary-foreground/20" />
+              <PrinterStatus className="bg-primary-foreground/10 text-primary-foreground border-primary-foreground/20" />
               <Badge variant="outline" className="gap-2 bg-primary-foreground/10 text-primary-foreground border-primary-foreground/20">
                 <Clock className="h-3 w-3" />
                 {pendingCount} Pending
@@ -378,12 +452,9 @@ const OrderManagement = () => {
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="all">All Orders</SelectItem>
-              <SelectItem value="pending">Pending</SelectItem>
-              <SelectItem value="preparing">Preparing</SelectItem>
-              <SelectItem value="ready">Ready</SelectItem>
-              <SelectItem value="completed">Completed</SelectItem>
-              <SelectItem value="cancelled">Cancelled</SelectItem>
-              <SelectItem value="refunded">Refunded</SelectItem>
+              {ORDER_STATUSES.map(status => (
+                <SelectItem key={status.value} value={status.value}>{status.label}</SelectItem>
+              ))}
             </SelectContent>
           </Select>
         </div>
@@ -408,9 +479,7 @@ const OrderManagement = () => {
                       {order.customer_name || 'Walk-in Customer'}
                     </CardDescription>
                   </div>
-                  <Badge variant={getStatusBadgeVariant(order.status)}>
-                    {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
-                  </Badge>
+                  <OrderStatusBadge status={order.status} />
                 </div>
               </CardHeader>
 
@@ -439,9 +508,17 @@ const OrderManagement = () => {
                 <div className="space-y-1">
                   <p className="text-sm font-medium">Items:</p>
                   {order.order_items?.map(item => (
-                    <div key={item.id} className="text-sm text-muted-foreground flex justify-between">
-                      <span>{item.quantity}x {item.menu_items?.name}</span>
-                      <span>{formatPHP(item.total_price)}</span>
+                    <div key={item.id} className="text-sm text-muted-foreground">
+                      <div className="flex justify-between">
+                        <span>{item.quantity}x {item.menu_items?.name}</span>
+                        <span>{formatPHP(item.total_price)}</span>
+                      </div>
+                      {item.order_item_modifiers?.length > 0 && (
+                        <p className="text-xs pl-4">{formatModifiers(item.order_item_modifiers)}</p>
+                      )}
+                      {item.special_instructions && (
+                        <p className="text-xs pl-4 italic">Note: {item.special_instructions}</p>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -460,6 +537,12 @@ const OrderManagement = () => {
                 )}
 
                 {/* Total */}
+                {order.discount_amount > 0 && (
+                  <div className="flex justify-between items-center pt-2 border-t text-sm text-muted-foreground">
+                    <span>Discount:</span>
+                    <span>-{formatPHP(order.discount_amount)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between items-center pt-2 border-t">
                   <span className="font-medium">Total:</span>
                   <span className="font-bold text-lg">{formatPHP(order.total_amount)}</span>
@@ -514,33 +597,27 @@ const OrderManagement = () => {
                     </Button>
                   )}
 
-                  {(order.status === 'completed' || order.status === 'ready') && (
-                    <>
-                      <Button 
-                        size="sm" 
-                        variant="outline"
-                        onClick={() => {
-                          setSelectedOrder(order);
-                          setActionType('refund');
-                          setIsActionDialogOpen(true);
-                        }}
-                      >
-                        <DollarSign className="h-3 w-3 mr-1" />
-                        Refund
-                      </Button>
-                      <Button 
-                        size="sm" 
-                        variant="outline"
-                        onClick={() => {
-                          setSelectedOrder(order);
-                          setActionType('discount');
-                          setIsActionDialogOpen(true);
-                        }}
-                      >
-                        <Percent className="h-3 w-3 mr-1" />
-                        Discount
-                      </Button>
-                    </>
+                  {(order.status === 'completed' || order.status === 'ready') && order.order_payments?.length > 0 && (
+                    <Button 
+                      size="sm" 
+                      variant="outline"
+                      onClick={() => setRefundOrderId(order.id)}
+                    >
+                      <DollarSign className="h-3 w-3 mr-1" />
+                      Refund
+                    </Button>
+                  )}
+
+                  {/* Discounts change the total, so they go on before payment */}
+                  {['pending', 'preparing', 'ready'].includes(order.status) && !order.order_payments?.length && (
+                    <Button 
+                      size="sm" 
+                      variant="outline"
+                      onClick={() => setDiscountOrderId(order.id)}
+                    >
+                      <Percent className="h-3 w-3 mr-1" />
+                      Discount
+                    </Button>
                   )}
                 </div>
               </CardContent>
@@ -562,8 +639,6 @@ const OrderManagement = () => {
           <DialogHeader>
             <DialogTitle>
               {actionType === 'cancel' && 'Cancel Order'}
-              {actionType === 'refund' && 'Refund Order'}  
-              {actionType === 'discount' && 'Apply Discount'}
             </DialogTitle>
             <DialogDescription>
               {selectedOrder && `Order: ${selectedOrder.order_number}`}
@@ -571,22 +646,6 @@ const OrderManagement = () => {
           </DialogHeader>
 
           <div className="space-y-4">
-            {(actionType === 'refund' || actionType === 'discount') && (
-              <div>
-                <Label htmlFor="amount">
-                  {actionType === 'refund' ? 'Refund Amount' : 'Discount Amount'}
-                </Label>
-                <Input
-                  id="amount"
-                  type="number"
-                  step="0.01"
-                  value={actionAmount}
-                  onChange={(e) => setActionAmount(e.target.value)}
-                  placeholder={actionType === 'refund' ? '0.00' : '0.00 or percentage (e.g., 10%)'}
-                />
-              </div>
-            )}
-
             <div>
               <Label htmlFor="reason">Reason</Label>
               <Input
@@ -616,20 +675,6 @@ const OrderManagement = () => {
                 
                 if (actionType === 'cancel') {
                   newStatus = 'cancelled';
-                } else if (actionType === 'refund') {
-                  newStatus = 'refunded';
-                  // Validate refund amount
-                  if (!actionAmount || parseFloat(actionAmount) <= 0) {
-                    toast({
-                      title: "Invalid Amount",
-                      description: "Please enter a valid refund amount.",
-                      variant: "destructive",
-                    });
-                    return;
-                  }
-                } else if (actionType === 'discount') {
-                  // Keep current status for discounts
-                  newStatus = selectedOrder.status;
                 }
                 
                 performOrderAction(selectedOrder.id, newStatus, actionType);
@@ -642,6 +687,30 @@ const OrderManagement = () => {
           </div>
         </DialogContent>
       </Dialog>
+
+      {/* Tender Dialog */}
+      <TenderDialog
+        order={tenderOrder}
+        isOpen={!!tenderOrder}
+        onClose={() => setTenderOrder(null)}
+        onPaid={handlePaid}
+      />
+
+      {/* Discount Dialog */}
+      <DiscountDialog
+        order={orders.find(o => o.id === discountOrderId) || null}
+        isOpen={!!discountOrderId}
+        onClose={() => setDiscountOrderId(null)}
+        onChanged={loadOrders}
+      />
+
+      {/* Refund Dialog */}
+      <RefundDialog
+        order={orders.find(o => o.id === refundOrderId) || null}
+        isOpen={!!refundOrderId}
+        onClose={() => setRefundOrderId(null)}
+        onRefunded={loadOrders}
+      />
     </div>
   );
 };
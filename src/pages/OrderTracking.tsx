@@ -0,0 +1,255 @@
+import { useState, useEffect, useRef } from "react";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "@/hooks/use-toast";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { formatPHP } from "@/lib/utils";
+import { ORDER_STATUS_STEPS, TrackedOrder } from "@/lib/orderTracking";
+import { ArrowLeft, Bell, CheckCircle, ChefHat, Clock, PackageCheck, XCircle } from "lucide-react";
+
+const STEP_DETAILS: Record<string, { label: string; description: string; icon: typeof Clock }> = {
+  pending: { label: "Received", description: "Waiting for staff to confirm your order", icon: Clock },
+  preparing: { label: "Preparing", description: "Your order is being made", icon: ChefHat },
+  ready: { label: "Ready", description: "Your order is ready for pickup at the counter", icon: PackageCheck },
+  completed: { label: "Completed", description: "Enjoy! Thank you for ordering", icon: CheckCircle },
+};
+
+// Realtime is the fast path; polling covers dropped connections and sleeping tabs
+const POLL_INTERVAL_MS = 30000;
+
+const OrderTracking = () => {
+  const navigate = useNavigate();
+  const { settings } = useStoreSettings();
+  const { orderNumber } = useParams();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("t");
+  const [order, setOrder] = useState<TrackedOrder | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [notificationsEnabled, setNotificationsEnabled] = useState(
+    typeof Notification !== "undefined" && Notification.permission === "granted"
+  );
+  const lastStatus = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!orderNumber || !token) {
+      setLoading(false);
+      return;
+    }
+
+    loadOrder();
+
+    const channel = supabase
+      .channel(`order:${token}`)
+      .on('broadcast', { event: 'status_changed' }, () => {
+        loadOrder();
+      })
+      .subscribe();
+
+    const poll = setInterval(loadOrder, POLL_INTERVAL_MS);
+
+    return () => {
+      supabase.removeChannel(channel);
+      clearInterval(poll);
+    };
+  }, [orderNumber, token]);
+
+  const loadOrder = async () => {
+    const { data, error } = await supabase.rpc('get_order_status', {
+      p_order_number: orderNumber,
+      p_token: token,
+    });
+
+    if (error) {
+      console.error("Error loading order status:", error);
+    } else {
+      const trackedOrder = data as unknown as TrackedOrder | null;
+      if (trackedOrder) {
+        handleStatusChange(trackedOrder.status);
+      }
+      setOrder(trackedOrder);
+    }
+    setLoading(false);
+  };
+
+  const handleStatusChange = (status: string) => {
+    const previous = lastStatus.current;
+    lastStatus.current = status;
+
+    // Only announce transitions seen on this page, not the status it opened with
+    if (!previous || previous === status || status !== 'ready') return;
+
+    toast({
+      title: "🎉 Your order is ready!",
+      description: "Please pick it up at the counter.",
+    });
+
+    if (typeof Notification !== "undefined" && Notification.permission === 'granted') {
+      new Notification('Your order is ready!', {
+        body: `Order ${orderNumber} is ready for pickup.`,
+        icon: settings.logo_url || undefined,
+      });
+    }
+
+    navigator.vibrate?.([200, 100, 200]);
+  };
+
+  const enableNotifications = async () => {
+    if (typeof Notification === "undefined") {
+      toast({
+        title: "Not Supported",
+        description: "This browser does not support notifications. Keep this page open to see updates.",
+      });
+      return;
+    }
+
+    const permission = await Notification.requestPermission();
+    setNotificationsEnabled(permission === 'granted');
+  };
+
+  const header = (
+    <header className="bg-primary text-primary-foreground shadow-lg">
+      <div className="max-w-3xl mx-auto px-4 flex items-center h-16 gap-3">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => navigate("/")}
+          className="text-primary-foreground hover:bg-primary-foreground/10"
+        >
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Menu
+        </Button>
+        <img
+          src={settings.logo_url || undefined}
+          alt={settings.business_name}
+          className="h-8 w-8 rounded"
+        />
+        <h1 className="text-xl font-bold">Order Status</h1>
+      </div>
+    </header>
+  );
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background">
+        {header}
+        <div className="flex items-center justify-center py-24">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="min-h-screen bg-background">
+        {header}
+        <div className="max-w-3xl mx-auto px-4 py-16 text-center">
+          <h2 className="text-2xl font-bold mb-2">Order not found</h2>
+          <p className="text-muted-foreground">
+            Check that you opened the full link from your order confirmation or receipt.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const isClosed = order.status === 'cancelled' || order.status === 'refunded';
+  const currentStep = ORDER_STATUS_STEPS.indexOf(order.status as typeof ORDER_STATUS_STEPS[number]);
+
+  return (
+    <div className="min-h-screen bg-background">
+      {header}
+
+      <div className="max-w-3xl mx-auto px-4 py-8 space-y-6">
+        <Card>
+          <CardHeader className="text-center">
+            <CardDescription>Order</CardDescription>
+            <CardTitle className="text-3xl">{order.order_number}</CardTitle>
+            {order.customer_name && <p className="text-muted-foreground">for {order.customer_name}</p>}
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {isClosed ? (
+              <div className="flex flex-col items-center gap-2 text-destructive">
+                <XCircle className="h-12 w-12" />
+                <p className="text-lg font-semibold capitalize">Order {order.status}</p>
+                <p className="text-sm text-muted-foreground">Please ask our staff if you have any questions.</p>
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-4 gap-2">
+                  {ORDER_STATUS_STEPS.map((step, index) => {
+                    const { label, icon: Icon } = STEP_DETAILS[step];
+                    const isDone = index <= currentStep;
+                    return (
+                      <div key={step} className="flex flex-col items-center gap-2 text-center">
+                        <div className={`h-12 w-12 rounded-full flex items-center justify-center ${
+                          isDone ? 'bg-primary text-primary-foreground' : 'bg-muted text-muted-foreground'
+                        } ${index === currentStep ? 'ring-4 ring-primary/30' : ''}`}>
+                          <Icon className="h-6 w-6" />
+                        </div>
+                        <span className={`text-sm ${isDone ? 'font-semibold' : 'text-muted-foreground'}`}>{label}</span>
+                      </div>
+                    );
+                  })}
+                </div>
+
+                <div className="text-center">
+                  <p className="text-lg font-medium">{STEP_DETAILS[order.status]?.description}</p>
+                  {order.estimated_ready_at && (
+                    <p className="text-muted-foreground mt-1">
+                      Estimated ready by{" "}
+                      <span className="font-semibold text-foreground">
+                        {new Date(order.estimated_ready_at).toLocaleTimeString('en-PH', { hour: '2-digit', minute: '2-digit' })}
+                      </span>
+                    </p>
+                  )}
+                </div>
+
+                {!notificationsEnabled && order.status !== 'completed' && (
+                  <div className="text-center">
+                    <Button variant="outline" onClick={enableNotifications}>
+                      <Bell className="h-4 w-4 mr-2" />
+                      Notify me when it's ready
+                    </Button>
+                  </div>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex justify-between items-center">
+              Your Items
+              <Badge variant="outline">{order.order_type === 'dine_in' ? 'Dine in' : 'Takeout'}</Badge>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {order.items.map((item, index) => (
+              <div key={index} className="flex justify-between">
+                <div>
+                  <p className="font-medium">
+                    {item.quantity}x {item.name}{item.size ? ` (${item.size})` : ''}
+                  </p>
+                  {item.modifiers.length > 0 && (
+                    <p className="text-xs text-muted-foreground">+ {item.modifiers.join(", ")}</p>
+                  )}
+                </div>
+              </div>
+            ))}
+            <div className="border-t pt-3 flex justify-between font-semibold">
+              <span>Total</span>
+              <span>{formatPHP(order.total_amount)}</span>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default OrderTracking;
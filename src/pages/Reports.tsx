@@ -1,129 +1,115 @@
 import { useState, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
 import { toast } from "sonner";
-import { ArrowLeft, Download, TrendingUp, DollarSign, ShoppingCart, Users } from "lucide-react";
+import { ArrowLeft, Download, TrendingUp, TrendingDown, DollarSign, ShoppingCart, Users, Percent, Undo2, Ban, ChefHat } from "lucide-react";
 import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
 import { formatPHP } from "@/lib/utils";
+import ExportDialog from "@/components/ExportDialog";
+import { SalesReport, WEEKDAYS, buildHeatmap, formatMinutes, getChange } from "@/lib/salesReport";
+import { addDays, getBusinessDate, getBusinessWeek } from "@/lib/businessDay";
 
-interface SalesData {
-  totalSales: number;
-  totalOrders: number;
-  averageOrderValue: number;
-  totalTax: number;
-  topItems: Array<{
-    name: string;
-    quantity: number;
-    revenue: number;
-  }>;
-}
+// Ranges of business days, counted back from today's
+const DATE_PRESETS = [
+  { label: "This week", range: (today: string) => getBusinessWeek(today) },
+  { label: "Last 7 days", range: (today: string) => ({ start: addDays(today, -6), end: today }) },
+  { label: "Last 30 days", range: (today: string) => ({ start: addDays(today, -29), end: today }) },
+];
+
+const salesChartConfig = {
+  sales: { label: "This period", color: "hsl(var(--primary))" },
+  previous_sales: { label: "Previous period", color: "hsl(var(--muted-foreground))" },
+} satisfies ChartConfig;
+
+const mixChartConfig = {
+  revenue: { label: "Revenue", color: "hsl(var(--accent))" },
+} satisfies ChartConfig;
+
+const ChangeBadge = ({ current, previous }: { current: number; previous: number }) => {
+  const change = getChange(current, previous);
+  if (change === null) {
+    return <p className="text-xs text-muted-foreground">No sales in the previous period</p>;
+  }
+
+  const Icon = change >= 0 ? TrendingUp : TrendingDown;
+  return (
+    <p className={`text-xs flex items-center gap-1 ${change >= 0 ? "text-success" : "text-destructive"}`}>
+      <Icon className="h-3 w-3" />
+      {change >= 0 ? "+" : ""}{change.toFixed(1)}% vs previous period
+    </p>
+  );
+};
 
 const Reports = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
-  const [salesData, setSalesData] = useState<SalesData>({
-    totalSales: 0,
-    totalOrders: 0,
-    averageOrderValue: 0,
-    totalTax: 0,
-    topItems: []
-  });
-  const [dateRange, setDateRange] = useState({
-    startDate: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-    endDate: new Date().toISOString().split('T')[0]
+  const { settings } = useStoreSettings();
+  const [report, setReport] = useState<SalesReport | null>(null);
+  const [dateRange, setDateRange] = useState(() => {
+    const today = getBusinessDate(settings);
+    return { startDate: addDays(today, -29), endDate: today };
   });
   const [loading, setLoading] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
 
   useEffect(() => {
     loadReportsData();
   }, [dateRange]);
 
   const loadReportsData = async () => {
+    if (!dateRange.startDate || !dateRange.endDate) return;
+
     setLoading(true);
     try {
-      // Get orders in date range
-      const { data: orders, error: ordersError } = await supabase
-        .from("orders")
-        .select("*")
-        .gte("created_at", `${dateRange.startDate}T00:00:00.000Z`)
-        .lte("created_at", `${dateRange.endDate}T23:59:59.999Z`)
-        .eq("status", "completed");
-
-      if (ordersError) throw ordersError;
-
-      // Get order items with menu item details
-      const { data: orderItems, error: itemsError } = await supabase
-        .from("order_items")
-        .select(`
-          *,
-          menu_items (name),
-          orders!inner (
-            created_at,
-            status
-          )
-        `)
-        .gte("orders.created_at", `${dateRange.startDate}T00:00:00.000Z`)
-        .lte("orders.created_at", `${dateRange.endDate}T23:59:59.999Z`)
-        .eq("orders.status", "completed");
-
-      if (itemsError) throw itemsError;
-
-      // Calculate metrics
-      const totalSales = orders?.reduce((sum, order) => sum + order.total_amount, 0) || 0;
-      const totalOrders = orders?.length || 0;
-      const totalTax = orders?.reduce((sum, order) => sum + order.tax_amount, 0) || 0;
-      const averageOrderValue = totalOrders > 0 ? totalSales / totalOrders : 0;
-
-      // Calculate top items
-      const itemSales = new Map();
-      orderItems?.forEach(item => {
-        const itemName = item.menu_items?.name || "Unknown Item";
-        if (itemSales.has(itemName)) {
-          const existing = itemSales.get(itemName);
-          itemSales.set(itemName, {
-            quantity: existing.quantity + item.quantity,
-            revenue: existing.revenue + item.total_price
-          });
-        } else {
-          itemSales.set(itemName, {
-            quantity: item.quantity,
-            revenue: item.total_price
-          });
-        }
-      });
-
-      const topItems = Array.from(itemSales.entries())
-        .map(([name, data]) => ({ name, ...data }))
-        .sort((a, b) => b.revenue - a.revenue)
-        .slice(0, 5);
-
-      setSalesData({
-        totalSales,
-        totalOrders,
-        averageOrderValue,
-        totalTax,
-        topItems
+      const { data, error } = await supabase.rpc("get_sales_report", {
+        p_from: dateRange.startDate,
+        p_to: dateRange.endDate,
       });
 
+      if (error) throw error;
+      setReport(data as unknown as SalesReport);
     } catch (error) {
       console.error("Error loading reports:", error);
-      toast.error("Failed to load reports data");
+      toast.error(error instanceof Error ? error.message : "Failed to load reports data");
     } finally {
       setLoading(false);
     }
   };
 
+  const applyPreset = (preset: typeof DATE_PRESETS[number]) => {
+    const { start, end } = preset.range(getBusinessDate(settings));
+    setDateRange({ startDate: start, endDate: end });
+  };
+
+  const summary = report?.summary;
+  const averageOrderValue = summary?.orders ? summary.sales / summary.orders : 0;
+  const heatmap = buildHeatmap(report?.heatmap || []);
+  const adjustments = report ? [
+    { label: "Discounts", icon: Percent, ...report.adjustments.discounts },
+    { label: "Refunds", icon: Undo2, ...report.adjustments.refunds },
+    { label: "Voids & Cancellations", icon: Ban, ...report.adjustments.voids },
+  ] : [];
+  const kitchenTimes = report ? [
+    { label: "Average Prep Time", description: "Approval to ready", minutes: report.kitchen.average_prep_minutes },
+    { label: "Slowest 10%", description: "Prep time of the slowest orders", minutes: report.kitchen.p90_prep_minutes },
+    { label: "Average Pickup Wait", description: "Ready to completed", minutes: report.kitchen.average_wait_minutes },
+  ] : [];
+
   return (
     <div className="min-h-screen bg-background">
       <div className="border-b bg-gradient-to-r from-primary/10 via-primary/5 to-transparent backdrop-blur-sm">
         <div className="flex h-20 items-center px-6">
-          <Button 
-            variant="ghost" 
-            size="sm" 
+          <Button
+            variant="ghost"
+            size="sm"
             onClick={() => navigate("/dashboard")}
             className="mr-4 hover:bg-primary/10"
           >
@@ -134,6 +120,10 @@ const Reports = () => {
             <h1 className="text-2xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">Reports & Analytics</h1>
             <p className="text-sm text-muted-foreground">Analyze business performance and trends</p>
           </div>
+          <Button variant="outline" size="sm" onClick={() => setIsExportOpen(true)} className="ml-auto">
+            <Download className="h-4 w-4 mr-2" />
+            Export
+          </Button>
         </div>
       </div>
 
@@ -142,9 +132,16 @@ const Reports = () => {
         <Card className="mb-8 border-0 shadow-lg bg-gradient-to-r from-card to-secondary/20">
           <CardHeader>
             <CardTitle className="text-lg font-semibold">Date Range</CardTitle>
-            <CardDescription>Select the date range for your reports</CardDescription>
+            <CardDescription>Select the business days to report on. Each period is compared with the one right before it.</CardDescription>
           </CardHeader>
-          <CardContent>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {DATE_PRESETS.map(preset => (
+                <Button key={preset.label} size="sm" variant="outline" onClick={() => applyPreset(preset)}>
+                  {preset.label}
+                </Button>
+              ))}
+            </div>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
                 <Label htmlFor="startDate">Start Date</Label>
@@ -168,19 +165,21 @@ const Reports = () => {
           </CardContent>
         </Card>
 
-        {loading ? (
+        {loading || !report ? (
           <div className="text-center py-8">Loading reports...</div>
         ) : (
-          <>
+          <div className="space-y-8">
             {/* Key Metrics */}
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
               <Card className="border-0 shadow-lg bg-gradient-to-br from-card via-card to-primary/5 hover:shadow-xl transition-all duration-300">
                 <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
                   <CardTitle className="text-sm font-medium text-muted-foreground">Total Sales</CardTitle>
                   <DollarSign className="h-5 w-5 text-primary" />
                 </CardHeader>
                 <CardContent>
-                  <div className="text-2xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">{formatPHP(salesData.totalSales)}</div>
+                  <div className="text-2xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">{formatPHP(summary.sales)}</div>
+                  <ChangeBadge current={summary.sales} previous={summary.previous_sales} />
+                  <p className="text-xs text-muted-foreground mt-1">Net of refunds, on the day they were given</p>
                 </CardContent>
               </Card>
 
@@ -190,7 +189,8 @@ const Reports = () => {
                   <ShoppingCart className="h-5 w-5 text-accent" />
                 </CardHeader>
                 <CardContent>
-                  <div className="text-2xl font-bold bg-gradient-to-r from-accent to-primary bg-clip-text text-transparent">{salesData.totalOrders}</div>
+                  <div className="text-2xl font-bold bg-gradient-to-r from-accent to-primary bg-clip-text text-transparent">{summary.orders}</div>
+                  <ChangeBadge current={summary.orders} previous={summary.previous_orders} />
                 </CardContent>
               </Card>
 
@@ -200,7 +200,7 @@ const Reports = () => {
                   <TrendingUp className="h-5 w-5 text-success" />
                 </CardHeader>
                 <CardContent>
-                  <div className="text-2xl font-bold bg-gradient-to-r from-success to-primary bg-clip-text text-transparent">{formatPHP(salesData.averageOrderValue)}</div>
+                  <div className="text-2xl font-bold bg-gradient-to-r from-success to-primary bg-clip-text text-transparent">{formatPHP(averageOrderValue)}</div>
                 </CardContent>
               </Card>
 
@@ -210,52 +210,223 @@ const Reports = () => {
                   <DollarSign className="h-5 w-5 text-warning" />
                 </CardHeader>
                 <CardContent>
-                  <div className="text-2xl font-bold bg-gradient-to-r from-warning to-primary bg-clip-text text-transparent">{formatPHP(salesData.totalTax)}</div>
+                  <div className="text-2xl font-bold bg-gradient-to-r from-warning to-primary bg-clip-text text-transparent">{formatPHP(summary.tax)}</div>
                 </CardContent>
               </Card>
             </div>
 
-            {/* Top Selling Items */}
-            <Card className="border-0 shadow-lg bg-gradient-to-br from-card to-accent/5">
+            {/* Sales Over Time */}
+            <Card className="border-0 shadow-lg bg-gradient-to-br from-card to-primary/5">
               <CardHeader>
-                <CardTitle className="text-xl font-semibold">Top Selling Items</CardTitle>
-                <CardDescription>Best performing menu items in the selected period</CardDescription>
+                <CardTitle className="text-xl font-semibold">Sales Over Time</CardTitle>
+                <CardDescription>Daily sales less refunds, against the same day of the previous period</CardDescription>
               </CardHeader>
               <CardContent>
-                {salesData.topItems.length === 0 ? (
-                  <div className="text-center py-8 text-muted-foreground">
-                    No sales data available for the selected period
+                <ChartContainer config={salesChartConfig} className="h-72 w-full">
+                  <LineChart data={report.daily} margin={{ left: 12, right: 12 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis
+                      dataKey="date"
+                      tickLine={false}
+                      axisLine={false}
+                      tickFormatter={(value) => format(new Date(`${value}T00:00:00`), "MMM d")}
+                    />
+                    <YAxis tickLine={false} axisLine={false} width={70} tickFormatter={(value) => formatPHP(value)} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Line dataKey="sales" type="monotone" stroke="var(--color-sales)" strokeWidth={2} dot={false} />
+                    <Line dataKey="previous_sales" type="monotone" stroke="var(--color-previous_sales)" strokeWidth={2} strokeDasharray="4 4" dot={false} />
+                  </LineChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            {/* Busiest Hours */}
+            <Card className="border-0 shadow-lg bg-gradient-to-br from-card to-accent/5">
+              <CardHeader>
+                <CardTitle className="text-xl font-semibold">Busiest Hours</CardTitle>
+                <CardDescription>Completed orders by hour of day and weekday</CardDescription>
+              </CardHeader>
+              <CardContent className="overflow-x-auto">
+                <div className="grid gap-1 min-w-[720px]" style={{ gridTemplateColumns: "3rem repeat(24, minmax(0, 1fr))" }}>
+                  <div />
+                  {Array.from({ length: 24 }, (_, hour) => (
+                    <div key={hour} className="text-[10px] text-center text-muted-foreground">{hour}</div>
+                  ))}
+                  {WEEKDAYS.map((weekday, day) => (
+                    <div key={weekday} className="contents">
+                      <div className="text-xs text-muted-foreground flex items-center">{weekday}</div>
+                      {heatmap.grid[day].map((orders, hour) => (
+                        <div
+                          key={hour}
+                          className="h-6 rounded-sm bg-primary"
+                          style={{ opacity: heatmap.max ? 0.08 + 0.92 * (orders / heatmap.max) : 0.08 }}
+                          title={`${weekday} ${hour}:00 - ${orders} order(s)`}
+                        />
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Category and Item Mix */}
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Card className="border-0 shadow-lg bg-gradient-to-br from-card to-accent/5">
+                <CardHeader>
+                  <CardTitle className="text-xl font-semibold">Category Mix</CardTitle>
+                  <CardDescription>Revenue by menu category</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {report.categories.length === 0 ? (
+                    <div className="text-center py-8 text-muted-foreground">
+                      No sales data available for the selected period
+                    </div>
+                  ) : (
+                    <ChartContainer config={mixChartConfig} className="h-72 w-full">
+                      <BarChart data={report.categories} layout="vertical" margin={{ left: 12 }}>
+                        <CartesianGrid horizontal={false} />
+                        <XAxis type="number" tickLine={false} axisLine={false} tickFormatter={(value) => formatPHP(value)} />
+                        <YAxis type="category" dataKey="name" tickLine={false} axisLine={false} width={100} />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <Bar dataKey="revenue" fill="var(--color-revenue)" radius={4} />
+                      </BarChart>
+                    </ChartContainer>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card className="border-0 shadow-lg bg-gradient-to-br from-card to-accent/5">
+                <CardHeader>
+                  <CardTitle className="text-xl font-semibold">Top Selling Items</CardTitle>
+                  <CardDescription>Best performing menu items in the selected period</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {report.items.length === 0 ? (
+                    <div className="text-center py-8 text-muted-foreground">
+                      No sales data available for the selected period
+                    </div>
+                  ) : (
+                    <div className="space-y-2">
+                      {report.items.map((item, index) => (
+                        <div key={item.name} className="flex justify-between items-center p-3 border rounded">
+                          <div className="flex items-center gap-3">
+                            <span className="text-lg font-bold text-muted-foreground">#{index + 1}</span>
+                            <div>
+                              <h4 className="font-medium">{item.name}</h4>
+                              <p className="text-sm text-muted-foreground">
+                                {item.quantity} units sold
+                              </p>
+                            </div>
+                          </div>
+                          <div className="text-right">
+                            <p className="font-medium">{formatPHP(item.revenue)}</p>
+                            <p className="text-sm text-muted-foreground">
+                              {formatPHP(item.revenue / item.quantity)} avg
+                            </p>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Cashiers and Adjustments */}
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Card className="border-0 shadow-lg bg-gradient-to-br from-card to-primary/5">
+                <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                  <div>
+                    <CardTitle className="text-xl font-semibold">Cashier Performance</CardTitle>
+                    <CardDescription>Payments taken by each cashier</CardDescription>
                   </div>
-                ) : (
-                  <div className="space-y-4">
-                    {salesData.topItems.map((item, index) => (
-                      <div key={item.name} className="flex justify-between items-center p-3 border rounded">
-                        <div className="flex items-center gap-3">
-                          <span className="text-lg font-bold text-muted-foreground">#{index + 1}</span>
+                  <Users className="h-5 w-5 text-primary" />
+                </CardHeader>
+                <CardContent>
+                  {report.cashiers.length === 0 ? (
+                    <div className="text-center py-8 text-muted-foreground">
+                      No payments recorded in the selected period
+                    </div>
+                  ) : (
+                    <div className="space-y-2">
+                      {report.cashiers.map(cashier => (
+                        <div key={cashier.cashier_id || "unknown"} className="flex justify-between items-center p-3 border rounded">
                           <div>
-                            <h4 className="font-medium">{item.name}</h4>
+                            <h4 className="font-medium">{cashier.name}</h4>
+                            <p className="text-sm text-muted-foreground">{cashier.orders} order(s)</p>
+                          </div>
+                          <div className="text-right">
+                            <p className="font-medium">{formatPHP(cashier.sales)}</p>
                             <p className="text-sm text-muted-foreground">
-                              {item.quantity} units sold
+                              {formatPHP(cashier.sales / cashier.orders)} avg
                             </p>
                           </div>
                         </div>
-                        <div className="text-right">
-                          <p className="font-medium">{formatPHP(item.revenue)}</p>
-                          <p className="text-sm text-muted-foreground">
-                            {formatPHP(item.revenue / item.quantity)} avg
-                          </p>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card className="border-0 shadow-lg bg-gradient-to-br from-card to-warning/5">
+                <CardHeader>
+                  <CardTitle className="text-xl font-semibold">Discounts, Refunds & Voids</CardTitle>
+                  <CardDescription>Money taken off sales in the selected period</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-2">
+                    {adjustments.map(({ label, icon: Icon, count, amount }) => (
+                      <div key={label} className="flex justify-between items-center p-3 border rounded">
+                        <div className="flex items-center gap-3">
+                          <Icon className="h-5 w-5 text-warning" />
+                          <div>
+                            <h4 className="font-medium">{label}</h4>
+                            <p className="text-sm text-muted-foreground">{count} time(s)</p>
+                          </div>
                         </div>
+                        <p className="font-medium">{formatPHP(amount)}</p>
                       </div>
                     ))}
                   </div>
-                )}
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Kitchen Times */}
+            <Card className="border-0 shadow-lg bg-gradient-to-br from-card to-success/5">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <div>
+                  <CardTitle className="text-xl font-semibold">Kitchen Times</CardTitle>
+                  <CardDescription>
+                    From {report.kitchen.orders} completed order(s) in the selected period
+                  </CardDescription>
+                </div>
+                <ChefHat className="h-5 w-5 text-success" />
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  {kitchenTimes.map(({ label, description, minutes }) => (
+                    <div key={label} className="p-3 border rounded">
+                      <h4 className="font-medium">{label}</h4>
+                      <p className="text-sm text-muted-foreground">{description}</p>
+                      <p className="text-2xl font-bold mt-2">{formatMinutes(minutes)}</p>
+                    </div>
+                  ))}
+                </div>
               </CardContent>
             </Card>
-          </>
+          </div>
         )}
       </div>
+
+      <ExportDialog
+        isOpen={isExportOpen}
+        onClose={() => setIsExportOpen(false)}
+        defaultRange={dateRange}
+      />
     </div>
   );
 };
 
-export default Reports;
\ No newline at end of file
+export default Reports;
@@ -1,16 +1,32 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "sonner";
-import { ArrowLeft, Search, Eye } from "lucide-react";
-import { useNavigate } from "react-router-dom";
+import { ArrowLeft, Search, Eye, Download, ChevronLeft, ChevronRight } from "lucide-react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import OrderDetailsModal from "@/components/OrderDetailsModal";
+import ExportDialog from "@/components/ExportDialog";
+import OrderStatusBadge from "@/components/OrderStatusBadge";
 import { formatPHP } from "@/lib/utils";
+import { canAccessRoute } from "@/lib/permissions";
+import { getBusinessDate, getBusinessDayRange } from "@/lib/businessDay";
+import { PAYMENT_METHODS, getPaymentMethodLabel } from "@/lib/payments";
+import { ORDER_STATUSES } from "@/lib/orderStatus";
+import {
+  SALES_HISTORY_PAGE_SIZE,
+  SALES_HISTORY_SORTS,
+  SalesHistoryFilters,
+  SalesHistorySort,
+  cleanSearch,
+  readFilters,
+  writeFilters,
+} from "@/lib/salesHistory";
 
 interface Order {
   id: string;
@@ -21,53 +37,131 @@ interface Order {
   payment_method: string;
   status: string;
   created_at: string;
+  profiles: { full_name: string | null } | null;
 }
 
+interface OrderTotals {
+  orders: number;
+  sales: number;
+  tax: number;
+}
+
+interface Cashier {
+  user_id: string;
+  full_name: string | null;
+}
+
+const EMPTY_TOTALS: OrderTotals = { orders: 0, sales: 0, tax: 0 };
+
 const SalesHistory = () => {
-  const { user } = useAuth();
+  const { user, role } = useAuth();
+  const { settings } = useStoreSettings();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => readFilters(searchParams), [searchParams]);
   const [orders, setOrders] = useState<Order[]>([]);
-  const [searchTerm, setSearchTerm] = useState("");
+  const [orderCount, setOrderCount] = useState(0);
+  const [totals, setTotals] = useState<OrderTotals>(EMPTY_TOTALS);
+  const [cashiers, setCashiers] = useState<Cashier[]>([]);
+  // Typed filters wait for a pause in typing before they hit the URL and the database
+  const [draft, setDraft] = useState({ search: filters.search, minAmount: filters.minAmount, maxAmount: filters.maxAmount });
   const [loading, setLoading] = useState(false);
   const [selectedOrderId, setSelectedOrderId] = useState<string | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
 
   useEffect(() => {
-    loadOrders();
+    loadCashiers();
   }, []);
 
+  useEffect(() => {
+    loadOrders();
+  }, [searchParams, settings.timezone, settings.business_day_cutoff]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      if (draft.search !== filters.search || draft.minAmount !== filters.minAmount || draft.maxAmount !== filters.maxAmount) {
+        updateFilters(draft);
+      }
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [draft]);
+
+  const loadCashiers = async () => {
+    const { data } = await supabase
+      .from("profiles")
+      .select("user_id, full_name")
+      .order("full_name");
+    setCashiers(data || []);
+  };
+
   const loadOrders = async () => {
     setLoading(true);
-    const { data, error } = await supabase
+    const start = filters.from ? getBusinessDayRange(settings, filters.from).start : null;
+    const end = filters.to ? getBusinessDayRange(settings, filters.to).end : null;
+    const search = cleanSearch(filters.search);
+    const minAmount = filters.minAmount ? Number(filters.minAmount) : null;
+    const maxAmount = filters.maxAmount ? Number(filters.maxAmount) : null;
+    const sort = SALES_HISTORY_SORTS.find(s => s.value === filters.sort);
+    const first = (filters.page - 1) * SALES_HISTORY_PAGE_SIZE;
+
+    let query = supabase
       .from("orders")
-      .select("*")
-      .order("created_at", { ascending: false })
-      .limit(100);
-    
-    if (error) {
+      .select("*, profiles!orders_cashier_id_fkey (full_name)", { count: "exact" });
+    if (start) query = query.gte("created_at", start);
+    if (end) query = query.lt("created_at", end);
+    if (filters.status) query = query.eq("status", filters.status);
+    if (filters.paymentMethod) query = query.eq("payment_method", filters.paymentMethod);
+    if (filters.cashierId) query = query.eq("cashier_id", filters.cashierId);
+    if (minAmount !== null) query = query.gte("total_amount", minAmount);
+    if (maxAmount !== null) query = query.lte("total_amount", maxAmount);
+    if (search) query = query.or(`order_number.ilike.%${search}%,customer_name.ilike.%${search}%`);
+
+    // The totals cover every matching order, not just this page
+    const [page, summary] = await Promise.all([
+      query
+        .order(sort.column, { ascending: sort.ascending })
+        .order("id")
+        .range(first, first + SALES_HISTORY_PAGE_SIZE - 1),
+      supabase.rpc("get_order_totals", {
+        p_from: start,
+        p_to: end,
+        p_status: filters.status || null,
+        p_payment_method: filters.paymentMethod || null,
+        p_cashier_id: filters.cashierId || null,
+        p_min_amount: minAmount,
+        p_max_amount: maxAmount,
+        p_search: search || null,
+      }),
+    ]);
+
+    if (page.error || summary.error) {
+      console.error("Error loading sales history:", page.error || summary.error);
       toast.error("Failed to load sales history");
     } else {
-      setOrders(data || []);
+      setOrders(page.data || []);
+      setOrderCount(page.count || 0);
+      setTotals(summary.data as unknown as OrderTotals);
     }
     setLoading(false);
   };
 
-  const filteredOrders = orders.filter(order => 
-    order.order_number.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    (order.customer_name && order.customer_name.toLowerCase().includes(searchTerm.toLowerCase()))
-  );
+  // Any filter change starts again from the first page
+  const updateFilters = (changes: Partial<SalesHistoryFilters>) => {
+    setSearchParams(writeFilters({ ...filters, page: 1, ...changes }), { replace: true });
+  };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case "completed": return "default";
-      case "pending": return "secondary";
-      case "cancelled": return "destructive";
-      default: return "outline";
-    }
+  const goToPage = (page: number) => {
+    setSearchParams(writeFilters({ ...filters, page }));
+  };
+
+  const clearFilters = () => {
+    setDraft({ search: "", minAmount: "", maxAmount: "" });
+    setSearchParams(new URLSearchParams(), { replace: true });
   };
 
-  const totalSales = filteredOrders.reduce((sum, order) => sum + order.total_amount, 0);
-  const totalTax = filteredOrders.reduce((sum, order) => sum + order.tax_amount, 0);
+  const pageCount = Math.max(1, Math.ceil(orderCount / SALES_HISTORY_PAGE_SIZE));
+  const firstShown = (filters.page - 1) * SALES_HISTORY_PAGE_SIZE + 1;
 
   const handleViewOrder = (orderId: string) => {
     setSelectedOrderId(orderId);
@@ -100,6 +194,13 @@ const SalesHistory = () => {
             <h1 className="text-2xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">Sales History</h1>
             <p className="text-sm text-muted-foreground">Track and analyze sales performance</p>
           </div>
+          {/* Exports include every order and discount, so they follow the reports permission */}
+          {canAccessRoute(role, "/reports") && (
+            <Button variant="outline" size="sm" onClick={() => setIsExportOpen(true)} className="ml-auto">
+              <Download className="h-4 w-4 mr-2" />
+              Export
+            </Button>
+          )}
         </div>
       </div>
 
@@ -111,7 +212,7 @@ const SalesHistory = () => {
               <CardTitle className="text-sm font-medium text-muted-foreground">Total Orders</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-3xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">{filteredOrders.length}</div>
+              <div className="text-3xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">{totals.orders}</div>
             </CardContent>
           </Card>
           
@@ -120,7 +221,7 @@ const SalesHistory = () => {
               <CardTitle className="text-sm font-medium text-muted-foreground">Total Sales</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-3xl font-bold bg-gradient-to-r from-accent to-primary bg-clip-text text-transparent">{formatPHP(totalSales)}</div>
+              <div className="text-3xl font-bold bg-gradient-to-r from-accent to-primary bg-clip-text text-transparent">{formatPHP(totals.sales)}</div>
             </CardContent>
           </Card>
           
@@ -129,57 +230,170 @@ const SalesHistory = () => {
               <CardTitle className="text-sm font-medium text-muted-foreground">Total Tax</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-3xl font-bold bg-gradient-to-r from-success to-primary bg-clip-text text-transparent">{formatPHP(totalTax)}</div>
+              <div className="text-3xl font-bold bg-gradient-to-r from-success to-primary bg-clip-text text-transparent">{formatPHP(totals.tax)}</div>
             </CardContent>
           </Card>
         </div>
 
-        {/* Search */}
+        {/* Filters */}
         <Card className="mb-8 border-0 shadow-lg bg-gradient-to-r from-card to-secondary/20">
-          <CardHeader>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
             <CardTitle className="text-lg font-semibold">Search Orders</CardTitle>
+            <Button variant="ghost" size="sm" onClick={clearFilters} disabled={searchParams.toString() === ""}>
+              Clear filters
+            </Button>
           </CardHeader>
-          <CardContent>
+          <CardContent className="space-y-4">
             <div className="relative">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
               <Input
                 placeholder="Search by order number or customer name..."
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
+                value={draft.search}
+                onChange={(e) => setDraft({ ...draft, search: e.target.value })}
                 className="pl-10 border-0 bg-background/50 backdrop-blur-sm shadow-inner"
               />
             </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <Label htmlFor="sales_from">From</Label>
+                <Input
+                  id="sales_from"
+                  type="date"
+                  value={filters.from}
+                  onChange={(e) => updateFilters({ from: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="sales_to">To</Label>
+                <Input
+                  id="sales_to"
+                  type="date"
+                  value={filters.to}
+                  onChange={(e) => updateFilters({ to: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="sales_min">Min Amount</Label>
+                <Input
+                  id="sales_min"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={draft.minAmount}
+                  onChange={(e) => setDraft({ ...draft, minAmount: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="sales_max">Max Amount</Label>
+                <Input
+                  id="sales_max"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={draft.maxAmount}
+                  onChange={(e) => setDraft({ ...draft, maxAmount: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label>Status</Label>
+                <Select
+                  value={filters.status || "all"}
+                  onValueChange={(value) => updateFilters({ status: value === "all" ? "" : value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Statuses</SelectItem>
+                    {ORDER_STATUSES.map(status => (
+                      <SelectItem key={status.value} value={status.value}>{status.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Payment</Label>
+                <Select
+                  value={filters.paymentMethod || "all"}
+                  onValueChange={(value) => updateFilters({ paymentMethod: value === "all" ? "" : value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Payments</SelectItem>
+                    {PAYMENT_METHODS.map(method => (
+                      <SelectItem key={method.value} value={method.value}>{method.label}</SelectItem>
+                    ))}
+                    <SelectItem value="split">Split</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Cashier</Label>
+                <Select
+                  value={filters.cashierId || "all"}
+                  onValueChange={(value) => updateFilters({ cashierId: value === "all" ? "" : value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Cashiers</SelectItem>
+                    {cashiers.map(cashier => (
+                      <SelectItem key={cashier.user_id} value={cashier.user_id}>
+                        {cashier.full_name || "Unnamed"}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Sort</Label>
+                <Select value={filters.sort} onValueChange={(value) => updateFilters({ sort: value as SalesHistorySort })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SALES_HISTORY_SORTS.map(sort => (
+                      <SelectItem key={sort.value} value={sort.value}>{sort.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
           </CardContent>
         </Card>
 
         {/* Orders List */}
         <Card className="border-0 shadow-lg bg-gradient-to-br from-card to-accent/5">
           <CardHeader>
-            <CardTitle className="text-xl font-semibold">Recent Orders</CardTitle>
+            <CardTitle className="text-xl font-semibold">Orders</CardTitle>
             <CardDescription className="text-base">
-              {filteredOrders.length} orders found
+              {orderCount === 0
+                ? "0 orders found"
+                : `Showing ${firstShown}-${firstShown + orders.length - 1} of ${orderCount} orders`}
             </CardDescription>
           </CardHeader>
           <CardContent>
             {loading ? (
               <div className="text-center py-8">Loading...</div>
-            ) : filteredOrders.length === 0 ? (
+            ) : orders.length === 0 ? (
               <div className="text-center py-8 text-muted-foreground">
                 No orders found
               </div>
             ) : (
               <div className="space-y-4">
-                {filteredOrders.map(order => (
+                {orders.map(order => (
                   <div key={order.id} className="flex justify-between items-center p-4 border rounded-lg">
                     <div className="flex-1">
                       <div className="flex items-center gap-2 mb-1">
                         <h4 className="font-medium">{order.order_number}</h4>
-                        <Badge variant={getStatusColor(order.status) as any}>
-                          {order.status}
-                        </Badge>
+                        <OrderStatusBadge status={order.status} />
                       </div>
                       <p className="text-sm text-muted-foreground">
                         {order.customer_name || "Walk-in customer"}
+                        {order.profiles?.full_name && ` · Cashier: ${order.profiles.full_name}`}
                       </p>
                       <p className="text-xs text-muted-foreground">
                         {new Date(order.created_at).toLocaleString()}
@@ -189,7 +403,7 @@ const SalesHistory = () => {
                     <div className="text-right mr-4">
                       <p className="font-medium">{formatPHP(order.total_amount)}</p>
                       <p className="text-sm text-muted-foreground capitalize">
-                        {order.payment_method}
+                        {getPaymentMethodLabel(order.payment_method)}
                       </p>
                     </div>
                     
@@ -204,6 +418,31 @@ const SalesHistory = () => {
                 ))}
               </div>
             )}
+            {pageCount > 1 && (
+              <div className="flex items-center justify-between mt-6">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => goToPage(filters.page - 1)}
+                  disabled={loading || filters.page <= 1}
+                >
+                  <ChevronLeft className="h-4 w-4 mr-1" />
+                  Previous
+                </Button>
+                <span className="text-sm text-muted-foreground">
+                  Page {filters.page} of {pageCount}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => goToPage(filters.page + 1)}
+                  disabled={loading || filters.page >= pageCount}
+                >
+                  Next
+                  <ChevronRight className="h-4 w-4 ml-1" />
+                </Button>
+              </div>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -214,6 +453,15 @@ const SalesHistory = () => {
         onClose={handleCloseModal}
         onOrderUpdated={handleOrderUpdated}
       />
+
+      <ExportDialog
+        isOpen={isExportOpen}
+        onClose={() => setIsExportOpen(false)}
+        defaultRange={{
+          startDate: filters.from || getBusinessDate(settings),
+          endDate: filters.to || filters.from || getBusinessDate(settings),
+        }}
+      />
     </div>
   );
 };
@@ -0,0 +1,443 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { ArrowLeft, Building2, Clock, Percent, Receipt, Save, ShieldCheck } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { CURRENCIES, DAYS, DayKey, StoreSettings } from "@/lib/settings";
+import { TIME_ZONES } from "@/lib/businessDay";
+import { APPROVAL_TOGGLES, ApprovalRules } from "@/lib/approvals";
+
+const Settings = () => {
+  const navigate = useNavigate();
+  const { settings, refreshSettings } = useStoreSettings();
+  const [form, setForm] = useState<StoreSettings>(settings);
+  const [vatPercent, setVatPercent] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setForm(settings);
+    setVatPercent((settings.vat_rate * 100).toString());
+  }, [settings]);
+
+  const updateHours = (day: DayKey, hours: { open: string; close: string } | null) => {
+    setForm({ ...form, opening_hours: { ...form.opening_hours, [day]: hours } });
+  };
+
+  const updateRules = (rules: Partial<ApprovalRules>) => {
+    setForm({ ...form, approval_rules: { ...form.approval_rules, ...rules } });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const vatRate = parseFloat(vatPercent);
+    if (isNaN(vatRate) || vatRate < 0 || vatRate >= 100) {
+      toast.error("Enter a VAT rate between 0 and 100%");
+      return;
+    }
+
+    if (!/^[A-Z0-9]{1,6}$/.test(form.order_number_prefix)) {
+      toast.error("Order number prefix must be 1-6 letters or numbers");
+      return;
+    }
+
+    const invalidDay = DAYS.find(({ key }) => {
+      const hours = form.opening_hours[key];
+      return hours && hours.open >= hours.close;
+    });
+    if (invalidDay) {
+      toast.error(`${invalidDay.label} closes before it opens`);
+      return;
+    }
+
+    const { refund_over, discount_over_percent } = form.approval_rules;
+    if ((refund_over ?? 0) < 0 || (discount_over_percent ?? 0) < 0 || (discount_over_percent ?? 0) > 100) {
+      toast.error("Approval limits must be zero or more, and discounts at most 100%");
+      return;
+    }
+
+    setIsSaving(true);
+    // next_or_number is advanced by record_payments only
+    const { error } = await supabase
+      .from("store_settings")
+      .update({
+        business_name: form.business_name,
+        tagline: form.tagline || null,
+        address: form.address || null,
+        phone: form.phone || null,
+        tin: form.tin || null,
+        logo_url: form.logo_url || null,
+        vat_rate: vatRate / 100,
+        currency: form.currency,
+        receipt_header: form.receipt_header || null,
+        receipt_footer: form.receipt_footer || null,
+        paper_width: form.paper_width,
+        order_number_prefix: form.order_number_prefix,
+        or_prefix: form.or_prefix,
+        opening_hours: form.opening_hours,
+        timezone: form.timezone,
+        business_day_cutoff: form.business_day_cutoff,
+        approval_rules: form.approval_rules,
+      })
+      .eq("id", true);
+    setIsSaving(false);
+
+    if (error) {
+      toast.error("Failed to save settings");
+    } else {
+      toast.success("Settings saved");
+      await supabase.rpc('log_activity', {
+        action_type: 'UPDATE',
+        description_text: 'Updated store settings',
+        metadata_json: { action: 'update_store_settings' }
+      });
+      refreshSettings();
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="border-b bg-gradient-to-r from-primary/10 via-primary/5 to-transparent backdrop-blur-sm">
+        <div className="flex h-20 items-center px-6">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => navigate("/dashboard")}
+            className="mr-4 hover:bg-primary/10"
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Dashboard
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">Settings</h1>
+            <p className="text-sm text-muted-foreground">Business profile, taxes, receipts and opening hours</p>
+          </div>
+        </div>
+      </div>
+
+      <form onSubmit={handleSave} className="container mx-auto p-6 space-y-6 max-w-4xl">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Building2 className="h-5 w-5" />
+              Business Profile
+            </CardTitle>
+            <CardDescription>Shown on the customer menu, staff pages and receipts</CardDescription>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="business_name">Business Name</Label>
+              <Input
+                id="business_name"
+                value={form.business_name}
+                onChange={(e) => setForm({ ...form, business_name: e.target.value })}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="tagline">Tagline</Label>
+              <Input
+                id="tagline"
+                value={form.tagline || ""}
+                onChange={(e) => setForm({ ...form, tagline: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="address">Address</Label>
+              <Input
+                id="address"
+                value={form.address || ""}
+                onChange={(e) => setForm({ ...form, address: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="phone">Phone</Label>
+              <Input
+                id="phone"
+                value={form.phone || ""}
+                onChange={(e) => setForm({ ...form, phone: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="logo_url">Logo URL</Label>
+              <Input
+                id="logo_url"
+                value={form.logo_url || ""}
+                onChange={(e) => setForm({ ...form, logo_url: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>Currency</Label>
+              <Select value={form.currency} onValueChange={(value) => setForm({ ...form, currency: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CURRENCIES.map(currency => (
+                    <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Percent className="h-5 w-5" />
+              Tax
+            </CardTitle>
+            <CardDescription>Menu prices include VAT. Set the rate to 0 if the business is not VAT registered.</CardDescription>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="tin">TIN</Label>
+              <Input
+                id="tin"
+                value={form.tin || ""}
+                onChange={(e) => setForm({ ...form, tin: e.target.value })}
+                placeholder="000-000-000-00000"
+              />
+            </div>
+            <div>
+              <Label htmlFor="vat_rate">VAT Rate (%)</Label>
+              <Input
+                id="vat_rate"
+                type="number"
+                step="0.01"
+                min="0"
+                value={vatPercent}
+                onChange={(e) => setVatPercent(e.target.value)}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Receipt className="h-5 w-5" />
+              Receipts & Numbering
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="receipt_header">Receipt Header</Label>
+              <Textarea
+                id="receipt_header"
+                value={form.receipt_header || ""}
+                onChange={(e) => setForm({ ...form, receipt_header: e.target.value })}
+                placeholder="Printed under the address"
+                rows={2}
+              />
+            </div>
+            <div>
+              <Label htmlFor="receipt_footer">Receipt Footer</Label>
+              <Textarea
+                id="receipt_footer"
+                value={form.receipt_footer || ""}
+                onChange={(e) => setForm({ ...form, receipt_footer: e.target.value })}
+                rows={2}
+              />
+            </div>
+            <div>
+              <Label>Receipt Paper</Label>
+              <Select value={String(form.paper_width)} onValueChange={(value) => setForm({ ...form, paper_width: Number(value) })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="58">58mm (32 characters)</SelectItem>
+                  <SelectItem value="80">80mm (48 characters)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="order_number_prefix">Order Number Prefix</Label>
+              <Input
+                id="order_number_prefix"
+                value={form.order_number_prefix}
+                onChange={(e) => setForm({ ...form, order_number_prefix: e.target.value.toUpperCase() })}
+                maxLength={6}
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                e.g. {form.order_number_prefix}-20250101-0001
+              </p>
+            </div>
+            <div>
+              <Label htmlFor="or_prefix">Official Receipt Prefix</Label>
+              <Input
+                id="or_prefix"
+                value={form.or_prefix}
+                onChange={(e) => setForm({ ...form, or_prefix: e.target.value.toUpperCase() })}
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Next OR number: {form.or_prefix}{String(form.next_or_number).padStart(8, "0")}
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Clock className="h-5 w-5" />
+              Opening Hours
+            </CardTitle>
+            <CardDescription>
+              Sales count towards the business day they fall in. Start the day after closing if you stay open past midnight.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="grid grid-cols-2 gap-4 pb-3 border-b">
+              <div>
+                <Label>Time Zone</Label>
+                <Select value={form.timezone} onValueChange={(value) => setForm({ ...form, timezone: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TIME_ZONES.map(timeZone => (
+                      <SelectItem key={timeZone} value={timeZone}>{timeZone}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Business Day Starts At</Label>
+                <Select
+                  value={String(form.business_day_cutoff)}
+                  onValueChange={(value) => setForm({ ...form, business_day_cutoff: Number(value) })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from({ length: 12 }, (_, hour) => (
+                      <SelectItem key={hour} value={String(hour)}>
+                        {hour === 0 ? "Midnight" : `${hour}:00 AM`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {DAYS.map(({ key, label }) => {
+              const hours = form.opening_hours[key];
+              return (
+                <div key={key} className="grid grid-cols-4 gap-4 items-center">
+                  <span className="font-medium">{label}</span>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={!!hours}
+                      onCheckedChange={(checked) => updateHours(key, checked ? { open: "07:00", close: "21:00" } : null)}
+                    />
+                    <span className="text-sm text-muted-foreground">{hours ? "Open" : "Closed"}</span>
+                  </div>
+                  {hours && (
+                    <>
+                      <Input
+                        type="time"
+                        value={hours.open}
+                        onChange={(e) => updateHours(key, { ...hours, open: e.target.value })}
+                      />
+                      <Input
+                        type="time"
+                        value={hours.close}
+                        onChange={(e) => updateHours(key, { ...hours, close: e.target.value })}
+                      />
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5" />
+              Manager Approval
+            </CardTitle>
+            <CardDescription>
+              When a cashier does one of these, a manager has to enter their PIN. Managers approve their own.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-3 gap-4 items-center">
+              <div>
+                <p className="font-medium">Refunds</p>
+                <p className="text-sm text-muted-foreground">Over this amount; 0 for every refund</p>
+              </div>
+              <Switch
+                checked={form.approval_rules.refund_over !== null}
+                onCheckedChange={(checked) => updateRules({ refund_over: checked ? 0 : null })}
+              />
+              {form.approval_rules.refund_over !== null && (
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.approval_rules.refund_over}
+                  onChange={(e) => updateRules({ refund_over: parseFloat(e.target.value) || 0 })}
+                />
+              )}
+            </div>
+            <div className="grid grid-cols-3 gap-4 items-center">
+              <div>
+                <p className="font-medium">Discounts</p>
+                <p className="text-sm text-muted-foreground">Over this % of the order or line</p>
+              </div>
+              <Switch
+                checked={form.approval_rules.discount_over_percent !== null}
+                onCheckedChange={(checked) => updateRules({ discount_over_percent: checked ? 20 : null })}
+              />
+              {form.approval_rules.discount_over_percent !== null && (
+                <Input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="1"
+                  value={form.approval_rules.discount_over_percent}
+                  onChange={(e) => updateRules({ discount_over_percent: parseFloat(e.target.value) || 0 })}
+                />
+              )}
+            </div>
+            {APPROVAL_TOGGLES.map(({ key, label, description }) => (
+              <div key={key} className="grid grid-cols-3 gap-4 items-center">
+                <div>
+                  <p className="font-medium">{label}</p>
+                  <p className="text-sm text-muted-foreground">{description}</p>
+                </div>
+                <Switch
+                  checked={form.approval_rules[key]}
+                  onCheckedChange={(checked) => updateRules({ [key]: checked })}
+                />
+              </div>
+            ))}
+            <p className="text-sm text-muted-foreground">
+              Discount types marked as needing approval always need it.
+            </p>
+          </CardContent>
+        </Card>
+
+        <Button type="submit" disabled={isSaving}>
+          <Save className="h-4 w-4 mr-2" />
+          {isSaving ? "Saving..." : "Save Settings"}
+        </Button>
+      </form>
+    </div>
+  );
+};
+
+export default Settings;
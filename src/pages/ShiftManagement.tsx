@@ -0,0 +1,553 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useManagerApproval } from "@/hooks/useManagerApproval";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { ArrowLeft, Bluetooth, FileText, LockOpen, LogIn, LogOut, MinusCircle, Vault } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { formatPHP } from "@/lib/utils";
+import { ZReport, buildZReport } from "@/lib/zReport";
+import { buildNoSaleSlip, getPaperColumns, renderText } from "@/lib/receipt";
+import { useBluetoothPrinter } from "@/hooks/useBluetoothPrinter";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+
+interface CashShift {
+  id: string;
+  cashier_id: string;
+  opening_float: number;
+  opened_at: string;
+  closed_at: string | null;
+  expected_cash: number | null;
+  counted_cash: number | null;
+  z_report: unknown;
+  profiles?: { full_name: string | null } | null;
+}
+
+interface CashMovement {
+  id: string;
+  movement_type: string;
+  amount: number;
+  reason: string | null;
+  created_at: string;
+}
+
+const ShiftManagement = () => {
+  const { user, profile } = useAuth();
+  const { withApproval } = useManagerApproval();
+  const navigate = useNavigate();
+  const bluetoothPrinter = useBluetoothPrinter();
+  const { settings } = useStoreSettings();
+  const [openShift, setOpenShift] = useState<CashShift | null>(null);
+  const [currentReport, setCurrentReport] = useState<ZReport | null>(null);
+  const [movements, setMovements] = useState<CashMovement[]>([]);
+  const [recentShifts, setRecentShifts] = useState<CashShift[]>([]);
+  const [openingFloat, setOpeningFloat] = useState("");
+  const [countedCash, setCountedCash] = useState("");
+  const [closingNotes, setClosingNotes] = useState("");
+  const [movementType, setMovementType] = useState<"cash_drop" | "paid_out" | null>(null);
+  const [movementAmount, setMovementAmount] = useState("");
+  const [movementReason, setMovementReason] = useState("");
+  const [isDrawerDialogOpen, setIsDrawerDialogOpen] = useState(false);
+  const [drawerReason, setDrawerReason] = useState("");
+  const [viewedReport, setViewedReport] = useState<ZReport | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (user) {
+      loadShifts();
+    }
+  }, [user]);
+
+  const loadShifts = async () => {
+    if (!user) return;
+
+    const { data: shift, error } = await supabase
+      .from("cash_shifts")
+      .select("*")
+      .eq("cashier_id", user.id)
+      .is("closed_at", null)
+      .maybeSingle();
+
+    if (error) {
+      toast.error("Failed to load shift");
+      return;
+    }
+
+    setOpenShift(shift);
+
+    if (shift) {
+      const [{ data: report }, { data: movementData }] = await Promise.all([
+        supabase.rpc("get_z_report", { p_shift_id: shift.id }),
+        supabase
+          .from("cash_movements")
+          .select("id, movement_type, amount, reason, created_at")
+          .eq("shift_id", shift.id)
+          .order("created_at", { ascending: false }),
+      ]);
+      setCurrentReport(report as unknown as ZReport);
+      setMovements(movementData || []);
+    } else {
+      setCurrentReport(null);
+      setMovements([]);
+    }
+
+    // Managers see every cashier's shifts, cashiers only their own (RLS)
+    const { data: closedShifts } = await supabase
+      .from("cash_shifts")
+      .select(`
+        *,
+        profiles (
+          full_name
+        )
+      `)
+      .not("closed_at", "is", null)
+      .order("closed_at", { ascending: false })
+      .limit(20);
+
+    setRecentShifts(closedShifts || []);
+  };
+
+  const handleOpenShift = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSubmitting(true);
+    const { error } = await supabase.rpc("open_shift", {
+      p_opening_float: parseFloat(openingFloat) || 0,
+    });
+    setIsSubmitting(false);
+
+    if (error) {
+      toast.error(error.message || "Failed to open shift");
+    } else {
+      toast.success("Shift opened");
+      setOpeningFloat("");
+      loadShifts();
+    }
+  };
+
+  const handleRecordMovement = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!movementType) return;
+
+    const amount = parseFloat(movementAmount);
+    if (!amount || amount <= 0) {
+      toast.error("Enter a valid amount");
+      return;
+    }
+
+    setIsSubmitting(true);
+    const { error } = await supabase.rpc("record_cash_movement", {
+      p_movement_type: movementType,
+      p_amount: amount,
+      p_reason: movementReason || null,
+    });
+    setIsSubmitting(false);
+
+    if (error) {
+      toast.error(error.message || "Failed to record cash movement");
+    } else {
+      toast.success(movementType === "cash_drop" ? "Cash drop recorded" : "Paid out recorded");
+      setMovementType(null);
+      setMovementAmount("");
+      setMovementReason("");
+      loadShifts();
+    }
+  };
+
+  // The open is logged first; the printer then kicks the drawer and prints a no-sale slip
+  const handleOpenDrawer = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!drawerReason.trim()) {
+      toast.error("Enter a reason for opening the drawer");
+      return;
+    }
+
+    setIsSubmitting(true);
+    const result = await withApproval(approval => supabase.rpc("open_cash_drawer", {
+      p_reason: drawerReason.trim(),
+      ...approval,
+    }));
+    setIsSubmitting(false);
+
+    if (!result) return;
+    if (result.error) {
+      toast.error(result.error.message || "Failed to open the drawer");
+      return;
+    }
+
+    const { approved_by } = result.data as { shift_id: string; approved_by: string | null };
+    let approverName: string | null = null;
+    if (approved_by && approved_by !== user?.id) {
+      const { data } = await supabase.from("profiles").select("full_name").eq("user_id", approved_by).maybeSingle();
+      approverName = data?.full_name || "Manager";
+    }
+
+    if (bluetoothPrinter.isPaired) {
+      await bluetoothPrinter.print(buildNoSaleSlip({
+        opened_at: new Date().toISOString(),
+        opened_by: profile?.full_name || null,
+        approved_by: approverName,
+        reason: drawerReason.trim(),
+      }, settings.timezone), { kind: 'report', label: 'No sale' });
+      toast.success("Drawer opened");
+    } else {
+      toast.success("Drawer open recorded. Pair a printer to open the drawer from here.");
+    }
+
+    setIsDrawerDialogOpen(false);
+    setDrawerReason("");
+  };
+
+  const handleCloseShift = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (countedCash === "" || parseFloat(countedCash) < 0) {
+      toast.error("Count the drawer and enter the cash on hand");
+      return;
+    }
+
+    setIsSubmitting(true);
+    const { data, error } = await supabase.rpc("close_shift", {
+      p_counted_cash: parseFloat(countedCash),
+      p_notes: closingNotes || null,
+    });
+    setIsSubmitting(false);
+
+    if (error) {
+      toast.error(error.message || "Failed to close shift");
+    } else {
+      toast.success("Shift closed");
+      setCountedCash("");
+      setClosingNotes("");
+      setViewedReport(data as unknown as ZReport);
+      loadShifts();
+    }
+  };
+
+  const handlePrintReport = async () => {
+    if (!viewedReport) return;
+    await bluetoothPrinter.print(buildZReport(viewedReport, settings.timezone), { kind: 'report', label: 'Z-report' });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="border-b bg-gradient-to-r from-primary/10 via-primary/5 to-transparent backdrop-blur-sm">
+        <div className="flex h-20 items-center px-6">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => navigate("/dashboard")}
+            className="mr-4 hover:bg-primary/10"
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Dashboard
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">Shift & Cash Drawer</h1>
+            <p className="text-sm text-muted-foreground">Open and close your shift and reconcile the drawer</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="container mx-auto p-6 space-y-6">
+        {!openShift ? (
+          <Card className="max-w-md">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <LogIn className="h-5 w-5" />
+                Open Shift
+              </CardTitle>
+              <CardDescription>Count the starting cash in your drawer</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleOpenShift} className="space-y-4">
+                <div>
+                  <Label htmlFor="opening_float">Opening Float</Label>
+                  <Input
+                    id="opening_float"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={openingFloat}
+                    onChange={(e) => setOpeningFloat(e.target.value)}
+                    placeholder="0.00"
+                    required
+                  />
+                </div>
+                <Button type="submit" disabled={isSubmitting}>Open Shift</Button>
+              </form>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-sm font-medium text-muted-foreground">Opened</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-lg font-bold">{new Date(openShift.opened_at).toLocaleString()}</div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-sm font-medium text-muted-foreground">Opening Float</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{formatPHP(openShift.opening_float)}</div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-sm font-medium text-muted-foreground">Gross Sales</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{formatPHP(currentReport?.gross_sales || 0)}</div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-sm font-medium text-muted-foreground">Expected Cash</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{formatPHP(currentReport?.expected_cash || 0)}</div>
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center justify-between">
+                    <span className="flex items-center gap-2">
+                      <Vault className="h-5 w-5" />
+                      Drawer Movements
+                    </span>
+                    <div className="flex gap-2">
+                      <Button size="sm" variant="outline" onClick={() => setMovementType("cash_drop")}>
+                        Cash Drop
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => setMovementType("paid_out")}>
+                        <MinusCircle className="h-4 w-4 mr-1" />
+                        Paid Out
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => setIsDrawerDialogOpen(true)}>
+                        <LockOpen className="h-4 w-4 mr-1" />
+                        Open Drawer
+                      </Button>
+                    </div>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {movements.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No cash taken out of the drawer yet</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {movements.map(movement => (
+                        <div key={movement.id} className="flex justify-between items-center text-sm border rounded p-2">
+                          <div>
+                            <Badge variant="outline">{movement.movement_type === "cash_drop" ? "Cash drop" : "Paid out"}</Badge>
+                            <span className="ml-2 text-muted-foreground">{movement.reason}</span>
+                          </div>
+                          <div className="text-right">
+                            <p className="font-medium">-{formatPHP(movement.amount)}</p>
+                            <p className="text-xs text-muted-foreground">{new Date(movement.created_at).toLocaleTimeString()}</p>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center justify-between">
+                    <span className="flex items-center gap-2">
+                      <LogOut className="h-5 w-5" />
+                      Close Shift
+                    </span>
+                    <Button size="sm" variant="outline" onClick={() => setViewedReport(currentReport)} disabled={!currentReport}>
+                      <FileText className="h-4 w-4 mr-1" />
+                      Preview Report
+                    </Button>
+                  </CardTitle>
+                  <CardDescription>Count the drawer without looking at the expected amount</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <form onSubmit={handleCloseShift} className="space-y-4">
+                    <div>
+                      <Label htmlFor="counted_cash">Counted Cash</Label>
+                      <Input
+                        id="counted_cash"
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={countedCash}
+                        onChange={(e) => setCountedCash(e.target.value)}
+                        placeholder="0.00"
+                        required
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="closing_notes">Notes</Label>
+                      <Textarea
+                        id="closing_notes"
+                        value={closingNotes}
+                        onChange={(e) => setClosingNotes(e.target.value)}
+                        rows={2}
+                      />
+                    </div>
+                    <Button type="submit" variant="destructive" disabled={isSubmitting}>
+                      Close Shift & Print Z-Report
+                    </Button>
+                  </form>
+                </CardContent>
+              </Card>
+            </div>
+          </>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Closed Shifts</CardTitle>
+            <CardDescription>Z-reports saved when each shift was closed</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {recentShifts.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No closed shifts yet</p>
+            ) : (
+              <div className="space-y-2">
+                {recentShifts.map(shift => {
+                  const variance = shift.counted_cash !== null && shift.expected_cash !== null
+                    ? Number(shift.counted_cash) - Number(shift.expected_cash)
+                    : null;
+                  return (
+                    <div key={shift.id} className="flex justify-between items-center p-3 border rounded">
+                      <div>
+                        <p className="font-medium">{shift.profiles?.full_name || "Cashier"}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {new Date(shift.opened_at).toLocaleString()} – {new Date(shift.closed_at).toLocaleString()}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        {variance !== null && (
+                          <Badge variant={Math.abs(variance) < 0.01 ? "secondary" : "destructive"}>
+                            {variance >= 0 ? "Over" : "Short"} {formatPHP(Math.abs(variance))}
+                          </Badge>
+                        )}
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setViewedReport(shift.z_report as ZReport)}
+                          disabled={!shift.z_report}
+                        >
+                          <FileText className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Cash Movement Dialog */}
+      <Dialog open={!!movementType} onOpenChange={() => setMovementType(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{movementType === "cash_drop" ? "Cash Drop" : "Paid Out"}</DialogTitle>
+            <DialogDescription>
+              {movementType === "cash_drop"
+                ? "Cash moved from the drawer to the safe"
+                : "Cash paid out of the drawer for expenses"}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleRecordMovement} className="space-y-4">
+            <div>
+              <Label htmlFor="movement_amount">Amount</Label>
+              <Input
+                id="movement_amount"
+                type="number"
+                step="0.01"
+                min="0"
+                value={movementAmount}
+                onChange={(e) => setMovementAmount(e.target.value)}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="movement_reason">Reason</Label>
+              <Input
+                id="movement_reason"
+                value={movementReason}
+                onChange={(e) => setMovementReason(e.target.value)}
+                placeholder={movementType === "paid_out" ? "e.g. Ice delivery" : "e.g. Mid-shift drop"}
+              />
+            </div>
+            <Button type="submit" disabled={isSubmitting}>Record</Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Open Drawer Dialog */}
+      <Dialog open={isDrawerDialogOpen} onOpenChange={() => setIsDrawerDialogOpen(false)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Open Drawer</DialogTitle>
+            <DialogDescription>Open the cash drawer without a sale. Every open is logged.</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleOpenDrawer} className="space-y-4">
+            <div>
+              <Label htmlFor="drawer_reason">Reason</Label>
+              <Input
+                id="drawer_reason"
+                value={drawerReason}
+                onChange={(e) => setDrawerReason(e.target.value)}
+                placeholder="e.g. Change for a customer"
+                required
+              />
+            </div>
+            <Button type="submit" disabled={isSubmitting}>Open Drawer</Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Z-Report Dialog */}
+      <Dialog open={!!viewedReport} onOpenChange={() => setViewedReport(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{viewedReport?.closed_at ? "Z-Report" : "Shift Report (Open)"}</DialogTitle>
+          </DialogHeader>
+          {viewedReport && (
+            <>
+              <pre className="text-xs font-mono bg-muted p-4 rounded overflow-x-auto">
+                {renderText(buildZReport(viewedReport, settings.timezone), getPaperColumns(settings.paper_width))}
+              </pre>
+              <Button
+                variant={bluetoothPrinter.isConnected ? "default" : "outline"}
+                onClick={bluetoothPrinter.isConnected ? handlePrintReport : bluetoothPrinter.connect}
+                disabled={bluetoothPrinter.isConnecting}
+              >
+                <Bluetooth className="h-4 w-4 mr-2" />
+                {bluetoothPrinter.isConnected ? "Print" : "Connect Printer"}
+              </Button>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ShiftManagement;
@@ -1,5 +1,7 @@
 import { useState, useEffect } from "react";
 import { useAuth } from "@/hooks/useAuth";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { getBusinessDate, getBusinessDayRange } from "@/lib/businessDay";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -9,14 +11,22 @@ import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { toast } from "@/hooks/use-toast";
 import { formatPHP } from "@/lib/utils";
+import { canAccessRoute } from "@/lib/permissions";
+import OrderStatusBadge from "@/components/OrderStatusBadge";
+import SetPinDialog from "@/components/SetPinDialog";
 import { 
   LayoutDashboard, 
   ShoppingBag, 
   DollarSign, 
   Users, 
   Coffee, 
+  Package,
+  ChefHat,
+  Wallet,
   BarChart3, 
+  ScrollText,
   Settings,
+  KeyRound,
   Bell,
   User,
   LogOut,
@@ -43,7 +53,8 @@ interface Order {
 }
 
 const StaffDashboard = () => {
-  const { user, signOut } = useAuth();
+  const { user, profile: userProfile, role, signOut } = useAuth();
+  const { settings } = useStoreSettings();
   const location = useLocation();
   const [stats, setStats] = useState<DashboardStats>({
     dailySales: 0,
@@ -52,12 +63,11 @@ const StaffDashboard = () => {
     revenue: 0
   });
   const [recentOrders, setRecentOrders] = useState<Order[]>([]);
-  const [userProfile, setUserProfile] = useState<any>(null);
+  const [isPinDialogOpen, setIsPinDialogOpen] = useState(false);
 
   useEffect(() => {
     if (user) {
       loadDashboardData();
-      loadUserProfile();
       
       // Set up real-time subscription for new orders
       const channel = supabase
@@ -83,19 +93,19 @@ const StaffDashboard = () => {
         supabase.removeChannel(channel);
       };
     }
-  }, [user]);
+  }, [user, settings.timezone, settings.business_day_cutoff]);
 
   const loadDashboardData = async () => {
     try {
-      // Get today's date
-      const today = new Date().toISOString().split('T')[0];
-      
+      // Today's business day in the store's time zone, whatever the device is set to
+      const today = getBusinessDayRange(settings, getBusinessDate(settings));
+
       // Fetch daily sales
       const { data: dailyOrders } = await supabase
         .from('orders')
         .select('total_amount')
-        .gte('created_at', `${today}T00:00:00`)
-        .lt('created_at', `${today}T23:59:59`)
+        .gte('created_at', today.start)
+        .lt('created_at', today.end)
         .eq('status', 'completed');
 
       // Fetch pending orders count
@@ -108,8 +118,8 @@ const StaffDashboard = () => {
       const { data: todayOrders } = await supabase
         .from('orders')
         .select('id')
-        .gte('created_at', `${today}T00:00:00`)
-        .lt('created_at', `${today}T23:59:59`);
+        .gte('created_at', today.start)
+        .lt('created_at', today.end);
 
       // Fetch recent orders
       const { data: orders } = await supabase
@@ -134,20 +144,6 @@ const StaffDashboard = () => {
     }
   };
 
-  const loadUserProfile = async () => {
-    if (!user) return;
-    
-    const { data } = await supabase
-      .from('profiles')
-      .select('*')
-      .eq('user_id', user.id)
-      .single();
-    
-    if (data) {
-      setUserProfile(data);
-    }
-  };
-
   const handleSignOut = async () => {
     await signOut();
   };
@@ -155,35 +151,18 @@ const StaffDashboard = () => {
   const navigationItems = [
     { title: "Dashboard", url: "/dashboard", icon: LayoutDashboard },
     { title: "Order Management", url: "/order-management", icon: ShoppingBag },
+    { title: "Kitchen Display", url: "/kitchen", icon: ChefHat },
     { title: "Sales Management", url: "/sales", icon: DollarSign },
+    { title: "Shift & Drawer", url: "/shifts", icon: Wallet },
     { title: "Account Management", url: "/staff", icon: Users },
     { title: "Menu Management", url: "/menu", icon: Coffee },
+    { title: "Inventory", url: "/inventory", icon: Package },
     { title: "Reports", url: "/reports", icon: BarChart3 },
+    { title: "Audit Log", url: "/audit", icon: ScrollText },
     { title: "Settings", url: "/settings", icon: Settings },
   ];
 
-  const canAccess = (item: any) => {
-    const role = userProfile?.role;
-    if (role === 'admin' || role === 'owner') return true;
-    if (role === 'cashier') {
-      return ['Dashboard', 'Order Management', 'Sales Management'].includes(item.title);
-    }
-    if (role === 'staff') {
-      return ['Dashboard', 'Order Management'].includes(item.title);
-    }
-    return false;
-  };
-
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'pending': return 'bg-warning text-warning-foreground';
-      case 'preparing': return 'bg-blue-500 text-white';
-      case 'ready': return 'bg-success text-success-foreground';
-      case 'completed': return 'bg-green-600 text-white';
-      case 'cancelled': return 'bg-destructive text-destructive-foreground';
-      default: return 'bg-muted text-muted-foreground';
-    }
-  };
+  const canAccess = (item: { url: string }) => canAccessRoute(role, item.url);
 
   const isHomePage = location.pathname === '/dashboard';
 
@@ -195,12 +174,12 @@ const StaffDashboard = () => {
             <div className="p-4 border-b border-sidebar-border">
               <div className="flex items-center space-x-3">
                 <img 
-                  src="/lovable-uploads/de766a0c-8555-4067-98ad-1830ddc6138a.png" 
-                  alt="Orijin's Coffee Shop" 
+                  src={settings.logo_url || undefined} 
+                  alt={settings.business_name} 
                   className="h-8 w-8 rounded"
                 />
                 <div>
-                  <h2 className="text-lg font-bold">Orijin's Coffee</h2>
+                  <h2 className="text-lg font-bold">{settings.business_name}</h2>
                   <p className="text-xs text-sidebar-foreground/70">Staff Portal</p>
                 </div>
               </div>
@@ -270,6 +249,10 @@ const StaffDashboard = () => {
                     <User className="mr-2 h-4 w-4" />
                     Profile
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setIsPinDialogOpen(true)}>
+                    <KeyRound className="mr-2 h-4 w-4" />
+                    Approval PIN
+                  </DropdownMenuItem>
                   <DropdownMenuSeparator />
                   <DropdownMenuItem onClick={handleSignOut}>
                     <LogOut className="mr-2 h-4 w-4" />
@@ -354,9 +337,7 @@ const StaffDashboard = () => {
                             </div>
                             <div className="text-right">
                               <p className="font-bold text-lg">{formatPHP(order.total_amount)}</p>
-                              <Badge className={getStatusColor(order.status)}>
-                                {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
-                              </Badge>
+                              <OrderStatusBadge status={order.status} />
                             </div>
                           </div>
                         ))
@@ -375,6 +356,8 @@ const StaffDashboard = () => {
           </main>
         </div>
       </div>
+
+      <SetPinDialog isOpen={isPinDialogOpen} onClose={() => setIsPinDialogOpen(false)} />
     </SidebarProvider>
   );
 };
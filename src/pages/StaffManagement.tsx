@@ -9,20 +9,21 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { toast } from "sonner";
-import { ArrowLeft, Users, Shield, User } from "lucide-react";
+import { ArrowLeft, Users, Shield, User, Crown } from "lucide-react";
 import { useNavigate } from "react-router-dom";
+import { Role, getAssignableRoles } from "@/lib/permissions";
 
 interface Profile {
   id: string;
   user_id: string;
   full_name: string;
-  role: string;
+  role: string | null;
   created_at: string;
   updated_at: string;
 }
 
 const StaffManagement = () => {
-  const { user } = useAuth();
+  const { user, role } = useAuth();
   const navigate = useNavigate();
   const [profiles, setProfiles] = useState<Profile[]>([]);
   const [loading, setLoading] = useState(false);
@@ -55,7 +56,8 @@ const StaffManagement = () => {
       .eq("user_id", userId);
     
     if (error) {
-      toast.error("Failed to update role");
+      // The database rejects role changes the signed in user is not allowed to make
+      toast.error(error.message || "Failed to update role");
     } else {
       toast.success("Role updated successfully");
       loadProfiles();
@@ -84,18 +86,23 @@ const StaffManagement = () => {
     }
   };
 
-  const getRoleIcon = (role: string) => {
+  const assignableRoles = getAssignableRoles(role);
+
+  const getRoleIcon = (role: string | null) => {
     switch (role) {
+      case "owner": return <Crown className="h-4 w-4" />;
       case "admin": return <Shield className="h-4 w-4" />;
       case "manager": return <Users className="h-4 w-4" />;
       default: return <User className="h-4 w-4" />;
     }
   };
 
-  const getRoleColor = (role: string) => {
+  const getRoleColor = (role: string | null) => {
     switch (role) {
+      case "owner":
       case "admin": return "destructive";
       case "manager": return "secondary";
+      case null: return "outline";
       default: return "default";
     }
   };
@@ -189,37 +196,21 @@ const StaffManagement = () => {
                     
                     <div className="flex items-center gap-3">
                       <Badge variant={getRoleColor(profile.role) as any}>
-                        {profile.role}
+                        {profile.role || "no role"}
                       </Badge>
-                      <div className="flex gap-2">
-                        {profile.role !== "admin" && (
-                          <Button
-                            size="sm"
-                            variant="outline"
-                            onClick={() => updateRole(profile.user_id, "admin")}
-                          >
-                            Make Admin
-                          </Button>
-                        )}
-                        {profile.role !== "manager" && (
-                          <Button
-                            size="sm"
-                            variant="outline"
-                            onClick={() => updateRole(profile.user_id, "manager")}
-                          >
-                            Make Manager
-                          </Button>
-                        )}
-                        {profile.role !== "cashier" && (
-                          <Button
-                            size="sm"
-                            variant="outline"
-                            onClick={() => updateRole(profile.user_id, "cashier")}
-                          >
-                            Make Cashier
-                          </Button>
-                        )}
-                      </div>
+                      {/* New sign-ups have no role and no access until one is assigned here */}
+                      {profile.user_id !== user?.id && assignableRoles.length > 0 && (!profile.role || assignableRoles.includes(profile.role as Role)) && (
+                        <Select value={profile.role ?? undefined} onValueChange={(v) => updateRole(profile.user_id, v)}>
+                          <SelectTrigger className="w-32">
+                            <SelectValue placeholder="Assign role" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {assignableRoles.map(r => (
+                              <SelectItem key={r} value={r} className="capitalize">{r}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -254,9 +245,9 @@ const StaffManagement = () => {
                   <SelectValue placeholder="Select role" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="admin">Admin</SelectItem>
-                  <SelectItem value="manager">Manager</SelectItem>
-                  <SelectItem value="cashier">Cashier</SelectItem>
+                  {assignableRoles.map(r => (
+                    <SelectItem key={r} value={r} className="capitalize">{r}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -0,0 +1,140 @@
+-- Allow the refunded status already used by Order Management
+ALTER TABLE public.orders DROP CONSTRAINT IF EXISTS orders_status_check;
+ALTER TABLE public.orders ADD CONSTRAINT orders_status_check
+  CHECK (status IN ('pending', 'preparing', 'ready', 'completed', 'cancelled', 'refunded'));
+
+-- Recipes deduct fractional amounts (grams, ml), so stock can no longer be an integer.
+-- The low stock trigger depends on the column and has to be recreated around the change.
+DROP TRIGGER IF EXISTS inventory_low_stock_check ON public.inventory;
+ALTER TABLE public.inventory ALTER COLUMN current_stock TYPE NUMERIC(12,2);
+
+CREATE OR REPLACE FUNCTION public.check_low_stock()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  -- Delete existing alerts for this inventory item
+  DELETE FROM public.low_stock_alerts WHERE inventory_id = NEW.id AND is_acknowledged = false;
+
+  -- Check if stock is used up (automatic deductions can overshoot below zero)
+  IF NEW.current_stock <= 0 THEN
+    INSERT INTO public.low_stock_alerts (inventory_id, alert_level)
+    VALUES (NEW.id, 'out_of_stock');
+  -- Check if stock is below minimum level
+  ELSIF NEW.current_stock <= NEW.min_stock_level THEN
+    INSERT INTO public.low_stock_alerts (inventory_id, alert_level)
+    VALUES (NEW.id, CASE WHEN NEW.current_stock <= (NEW.min_stock_level * 0.5) THEN 'critical' ELSE 'low' END);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER inventory_low_stock_check
+  AFTER UPDATE ON public.inventory
+  FOR EACH ROW
+  WHEN (OLD.current_stock IS DISTINCT FROM NEW.current_stock)
+  EXECUTE FUNCTION public.check_low_stock();
+
+-- Recipe (bill of materials) for each menu item.
+-- Every size is its own menu_items row, so a recipe is per item and size.
+CREATE TABLE public.menu_item_ingredients (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  menu_item_id UUID NOT NULL REFERENCES public.menu_items(id) ON DELETE CASCADE,
+  inventory_id UUID NOT NULL REFERENCES public.inventory(id) ON DELETE RESTRICT,
+  quantity NUMERIC(10,2) NOT NULL CHECK (quantity > 0), -- in the inventory item's unit
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT menu_item_ingredients_unique UNIQUE (menu_item_id, inventory_id)
+);
+
+-- Stock ledger: every automatic stock change is recorded here and applied to inventory
+CREATE TABLE public.inventory_movements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  inventory_id UUID NOT NULL REFERENCES public.inventory(id) ON DELETE CASCADE,
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  quantity_change NUMERIC(12,2) NOT NULL,
+  reason TEXT NOT NULL, -- order_completed, order_reversed
+  created_by UUID REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.menu_item_ingredients ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.inventory_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can manage recipes" ON public.menu_item_ingredients FOR ALL TO authenticated USING (true) WITH CHECK (true);
+-- Movements are only written by the order trigger below
+CREATE POLICY "Authenticated users can view inventory movements" ON public.inventory_movements FOR SELECT TO authenticated USING (true);
+
+CREATE TRIGGER update_menu_item_ingredients_updated_at BEFORE UPDATE ON public.menu_item_ingredients FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_menu_item_ingredients_menu_item_id ON public.menu_item_ingredients(menu_item_id);
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_inventory_id ON public.inventory_movements(inventory_id);
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_order_id ON public.inventory_movements(order_id);
+
+-- Apply each ledger row to the inventory item (fires the low stock check)
+CREATE OR REPLACE FUNCTION public.apply_inventory_movement()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  UPDATE public.inventory
+  SET current_stock = current_stock + NEW.quantity_change
+  WHERE id = NEW.inventory_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trigger_apply_inventory_movement
+  AFTER INSERT ON public.inventory_movements
+  FOR EACH ROW EXECUTE FUNCTION public.apply_inventory_movement();
+
+-- Deduct recipe stock when an order is completed and put it back when it is cancelled or refunded
+CREATE OR REPLACE FUNCTION public.deduct_order_stock()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  is_deducted BOOLEAN;
+BEGIN
+  IF OLD.status = NEW.status THEN
+    RETURN NEW;
+  END IF;
+
+  -- The ledger knows whether this order's stock is currently out of inventory
+  SELECT EXISTS (
+    SELECT 1 FROM public.inventory_movements
+    WHERE order_id = NEW.id
+    GROUP BY inventory_id
+    HAVING SUM(quantity_change) <> 0
+  ) INTO is_deducted;
+
+  IF NEW.status = 'completed' AND NOT is_deducted THEN
+    INSERT INTO public.inventory_movements (inventory_id, order_id, quantity_change, reason, created_by)
+    SELECT r.inventory_id, NEW.id, -SUM(r.quantity * oi.quantity), 'order_completed', auth.uid()
+    FROM public.order_items oi
+    JOIN public.menu_item_ingredients r ON r.menu_item_id = oi.menu_item_id
+    WHERE oi.order_id = NEW.id
+    GROUP BY r.inventory_id;
+  ELSIF NEW.status IN ('cancelled', 'refunded') AND is_deducted THEN
+    INSERT INTO public.inventory_movements (inventory_id, order_id, quantity_change, reason, created_by)
+    SELECT inventory_id, NEW.id, -SUM(quantity_change), 'order_reversed', auth.uid()
+    FROM public.inventory_movements
+    WHERE order_id = NEW.id
+    GROUP BY inventory_id
+    HAVING SUM(quantity_change) <> 0;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trigger_deduct_order_stock
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW EXECUTE FUNCTION public.deduct_order_stock();
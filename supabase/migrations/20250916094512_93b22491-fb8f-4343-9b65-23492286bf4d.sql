@@ -0,0 +1,64 @@
+-- Modifier groups (milk type, sugar level, add-ons) attached to a menu item or a whole category
+CREATE TABLE public.modifier_groups (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  menu_item_id UUID REFERENCES public.menu_items(id) ON DELETE CASCADE,
+  category_id UUID REFERENCES public.categories(id) ON DELETE CASCADE,
+  is_required BOOLEAN NOT NULL DEFAULT false,
+  min_selections INTEGER NOT NULL DEFAULT 0,
+  max_selections INTEGER NOT NULL DEFAULT 1,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT modifier_groups_target_check CHECK ((menu_item_id IS NULL) <> (category_id IS NULL)),
+  CONSTRAINT modifier_groups_selection_check CHECK (
+    min_selections >= 0
+    AND max_selections >= 1
+    AND min_selections <= max_selections
+    AND (NOT is_required OR min_selections >= 1)
+  )
+);
+
+-- Options inside a group with the amount they add to the item price
+CREATE TABLE public.modifier_options (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  group_id UUID NOT NULL REFERENCES public.modifier_groups(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  price_delta DECIMAL(10,2) NOT NULL DEFAULT 0,
+  is_available BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Modifiers chosen for an order line. Names and prices are copied so history survives menu edits.
+CREATE TABLE public.order_item_modifiers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_item_id UUID NOT NULL REFERENCES public.order_items(id) ON DELETE CASCADE,
+  modifier_option_id UUID REFERENCES public.modifier_options(id) ON DELETE SET NULL,
+  group_name TEXT NOT NULL,
+  option_name TEXT NOT NULL,
+  price_delta DECIMAL(10,2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.modifier_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.modifier_options ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.order_item_modifiers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can manage modifier groups" ON public.modifier_groups FOR ALL TO authenticated USING (true) WITH CHECK (true);
+CREATE POLICY "Authenticated users can manage modifier options" ON public.modifier_options FOR ALL TO authenticated USING (true) WITH CHECK (true);
+CREATE POLICY "Authenticated users can manage order item modifiers" ON public.order_item_modifiers FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+-- Customers need to see modifiers on the public menu and attach them to their order lines
+CREATE POLICY "Public can view modifier groups" ON public.modifier_groups FOR SELECT USING (true);
+CREATE POLICY "Public can view modifier options" ON public.modifier_options FOR SELECT USING (true);
+CREATE POLICY "Public can create order item modifiers" ON public.order_item_modifiers FOR INSERT TO anon WITH CHECK (true);
+
+CREATE TRIGGER update_modifier_groups_updated_at BEFORE UPDATE ON public.modifier_groups FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE TRIGGER update_modifier_options_updated_at BEFORE UPDATE ON public.modifier_options FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_modifier_groups_menu_item_id ON public.modifier_groups(menu_item_id);
+CREATE INDEX IF NOT EXISTS idx_modifier_groups_category_id ON public.modifier_groups(category_id);
+CREATE INDEX IF NOT EXISTS idx_modifier_options_group_id ON public.modifier_options(group_id);
+CREATE INDEX IF NOT EXISTS idx_order_item_modifiers_order_item_id ON public.order_item_modifiers(order_item_id);
@@ -0,0 +1,165 @@
+-- Customer orders are placed through place_order only.
+-- Direct inserts let anyone post any total or unit price and could leave orders without items.
+DROP POLICY IF EXISTS "Public can create orders" ON public.orders;
+DROP POLICY IF EXISTS "Public can create order items" ON public.order_items;
+DROP POLICY IF EXISTS "Public can create order item modifiers" ON public.order_item_modifiers;
+
+-- The sequence must be schema qualified now that the function runs with an empty search_path
+CREATE OR REPLACE FUNCTION public.generate_order_number()
+RETURNS text
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  order_num TEXT;
+BEGIN
+  order_num := 'ORD-' || TO_CHAR(NOW(), 'YYYYMMDD') || '-' || LPAD(NEXTVAL('public.order_sequence')::TEXT, 4, '0');
+  RETURN order_num;
+END;
+$$;
+
+-- Place an order in one transaction, repricing every line from the menu.
+-- p_items: [{ "menu_item_id": uuid, "quantity": int, "modifier_option_ids": [uuid], "notes": text }]
+CREATE OR REPLACE FUNCTION public.place_order(
+  p_customer_name TEXT,
+  p_items JSONB,
+  p_customer_notes TEXT DEFAULT NULL,
+  p_order_type TEXT DEFAULT 'takeout'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  vat_rate CONSTANT NUMERIC := 0.12; -- menu prices are VAT inclusive
+  v_item JSONB;
+  v_line JSONB;
+  v_lines JSONB := '[]'::JSONB;
+  v_menu_item public.menu_items%ROWTYPE;
+  v_group public.modifier_groups%ROWTYPE;
+  v_quantity INTEGER;
+  v_option_ids UUID[];
+  v_count INTEGER;
+  v_modifiers_total NUMERIC(10,2);
+  v_unit_price NUMERIC(10,2);
+  v_total NUMERIC(10,2) := 0;
+  v_tax NUMERIC(10,2);
+  v_order_id UUID;
+  v_order_number TEXT;
+  v_order_item_id UUID;
+BEGIN
+  IF p_customer_name IS NULL OR length(trim(p_customer_name)) < 2 THEN
+    RAISE EXCEPTION 'Customer name must be at least 2 characters.';
+  END IF;
+
+  IF length(p_customer_notes) > 500 THEN
+    RAISE EXCEPTION 'Special instructions must be 500 characters or less.';
+  END IF;
+
+  IF p_order_type NOT IN ('takeout', 'dine_in') THEN
+    RAISE EXCEPTION 'Invalid order type: %', p_order_type;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Please add items to your cart before ordering.';
+  END IF;
+
+  -- Validate and price every line before anything is written
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+    SELECT * INTO v_menu_item FROM public.menu_items WHERE id = (v_item->>'menu_item_id')::UUID;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Menu item not found.';
+    END IF;
+
+    IF NOT COALESCE(v_menu_item.is_available, false) THEN
+      RAISE EXCEPTION '% is no longer available.', v_menu_item.name;
+    END IF;
+
+    v_quantity := (v_item->>'quantity')::INTEGER;
+    IF v_quantity IS NULL OR v_quantity < 1 OR v_quantity > 99 THEN
+      RAISE EXCEPTION 'Invalid quantity for %.', v_menu_item.name;
+    END IF;
+
+    v_option_ids := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_item->'modifier_option_ids', '[]'::JSONB))::UUID);
+
+    -- Every option must be available and belong to a group of this item or its category
+    SELECT COUNT(*) INTO v_count
+    FROM public.modifier_options o
+    JOIN public.modifier_groups g ON g.id = o.group_id
+    WHERE o.id = ANY(v_option_ids)
+      AND o.is_available
+      AND (g.menu_item_id = v_menu_item.id OR g.category_id = v_menu_item.category_id);
+
+    IF v_count <> cardinality(v_option_ids) THEN
+      RAISE EXCEPTION 'Some options for % are no longer available.', v_menu_item.name;
+    END IF;
+
+    FOR v_group IN
+      SELECT * FROM public.modifier_groups
+      WHERE menu_item_id = v_menu_item.id OR category_id = v_menu_item.category_id
+    LOOP
+      SELECT COUNT(*) INTO v_count
+      FROM public.modifier_options
+      WHERE group_id = v_group.id AND id = ANY(v_option_ids);
+
+      IF v_count < (CASE WHEN v_group.is_required THEN GREATEST(v_group.min_selections, 1) ELSE v_group.min_selections END)
+         OR v_count > v_group.max_selections THEN
+        RAISE EXCEPTION 'Please check your % choice for %.', v_group.name, v_menu_item.name;
+      END IF;
+    END LOOP;
+
+    SELECT COALESCE(SUM(price_delta), 0) INTO v_modifiers_total
+    FROM public.modifier_options
+    WHERE id = ANY(v_option_ids);
+
+    v_unit_price := v_menu_item.price + v_modifiers_total;
+    v_total := v_total + v_unit_price * v_quantity;
+
+    v_lines := v_lines || jsonb_build_object(
+      'menu_item_id', v_menu_item.id,
+      'quantity', v_quantity,
+      'unit_price', v_unit_price,
+      'notes', NULLIF(left(trim(v_item->>'notes'), 200), ''),
+      'modifier_option_ids', to_jsonb(v_option_ids)
+    );
+  END LOOP;
+
+  v_tax := round(v_total - v_total / (1 + vat_rate), 2);
+  v_order_number := public.generate_order_number();
+
+  INSERT INTO public.orders (order_number, customer_name, customer_notes, total_amount, tax_amount, status, payment_method, order_type)
+  VALUES (v_order_number, trim(p_customer_name), NULLIF(trim(p_customer_notes), ''), v_total, v_tax, 'pending', 'cash', p_order_type)
+  RETURNING id INTO v_order_id;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(v_lines) LOOP
+    INSERT INTO public.order_items (order_id, menu_item_id, quantity, unit_price, total_price, special_instructions)
+    VALUES (
+      v_order_id,
+      (v_line->>'menu_item_id')::UUID,
+      (v_line->>'quantity')::INTEGER,
+      (v_line->>'unit_price')::NUMERIC,
+      (v_line->>'unit_price')::NUMERIC * (v_line->>'quantity')::INTEGER,
+      v_line->>'notes'
+    )
+    RETURNING id INTO v_order_item_id;
+
+    INSERT INTO public.order_item_modifiers (order_item_id, modifier_option_id, group_name, option_name, price_delta)
+    SELECT v_order_item_id, o.id, g.name, o.name, o.price_delta
+    FROM public.modifier_options o
+    JOIN public.modifier_groups g ON g.id = o.group_id
+    WHERE o.id IN (SELECT jsonb_array_elements_text(v_line->'modifier_option_ids')::UUID);
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'id', v_order_id,
+    'order_number', v_order_number,
+    'total_amount', v_total,
+    'tax_amount', v_tax
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.place_order(TEXT, JSONB, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.place_order(TEXT, JSONB, TEXT, TEXT) TO anon, authenticated;
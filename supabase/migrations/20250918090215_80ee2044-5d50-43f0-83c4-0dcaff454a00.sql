@@ -0,0 +1,216 @@
+-- Role based access control.
+-- Roles, highest first: owner, admin, manager, cashier, staff.
+-- The same matrix drives the route guards in src/lib/permissions.ts.
+ALTER TABLE public.profiles DROP CONSTRAINT IF EXISTS profiles_role_check;
+ALTER TABLE public.profiles ADD CONSTRAINT profiles_role_check
+  CHECK (role IN ('owner', 'admin', 'manager', 'cashier', 'staff'));
+
+-- Role of the signed in user, NULL for customers, users without a profile and new
+-- sign-ups still waiting for a role
+CREATE OR REPLACE FUNCTION public.get_user_role()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT role FROM public.profiles WHERE user_id = auth.uid()
+$$;
+
+-- SECURITY DEFINER so policies on profiles can call it without recursing
+CREATE OR REPLACE FUNCTION public.has_role(allowed_roles TEXT[])
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE user_id = auth.uid() AND role = ANY(allowed_roles)
+  )
+$$;
+
+REVOKE ALL ON FUNCTION public.get_user_role() FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.has_role(TEXT[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_user_role() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.has_role(TEXT[]) TO authenticated;
+
+-- Profiles: everyone on staff can see names, only owners and admins manage roles
+DROP POLICY IF EXISTS "Users can view all profiles" ON public.profiles;
+DROP POLICY IF EXISTS "Users can update any profile" ON public.profiles;
+DROP POLICY IF EXISTS "Users can insert their own profile" ON public.profiles;
+
+CREATE POLICY "Staff can view profiles" ON public.profiles FOR SELECT TO authenticated
+  USING (auth.uid() = user_id OR public.has_role(ARRAY['owner', 'admin', 'manager', 'cashier', 'staff']));
+CREATE POLICY "Users can update their own profile" ON public.profiles FOR UPDATE TO authenticated
+  USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Admins can update profiles" ON public.profiles FOR UPDATE TO authenticated
+  USING (public.has_role(ARRAY['owner', 'admin'])) WITH CHECK (public.has_role(ARRAY['owner', 'admin']));
+CREATE POLICY "Users can insert their own profile" ON public.profiles FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+-- Anyone can sign up from /auth, so a new profile starts with no role and no access
+-- until an owner or admin assigns one
+ALTER TABLE public.profiles ALTER COLUMN role DROP DEFAULT;
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  INSERT INTO public.profiles (user_id, full_name)
+  VALUES (
+    new.id,
+    COALESCE(new.raw_user_meta_data->>'full_name', new.email)
+  );
+  RETURN new;
+END;
+$$;
+
+-- Row policies cannot compare old and new values, so role changes are checked here.
+-- Roles are only ever given by updating a profile. auth.uid() is NULL for service
+-- role calls, which may do that.
+CREATE OR REPLACE FUNCTION public.protect_profile_role()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_actor_role TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.role IS NOT NULL THEN
+      RAISE EXCEPTION 'New profiles cannot be given a role. Assign it from Staff Management.';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.role IS NOT DISTINCT FROM OLD.role THEN
+    RETURN NEW;
+  END IF;
+
+  v_actor_role := public.get_user_role();
+
+  IF v_actor_role IS NULL OR v_actor_role NOT IN ('owner', 'admin') THEN
+    RAISE EXCEPTION 'Only owners and admins can change roles.';
+  END IF;
+
+  IF OLD.user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot change your own role.';
+  END IF;
+
+  -- Admins manage everyone except owners
+  IF v_actor_role = 'admin' AND (OLD.role = 'owner' OR NEW.role = 'owner') THEN
+    RAISE EXCEPTION 'Only an owner can grant or revoke the owner role.';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_profile_role ON public.profiles;
+CREATE TRIGGER protect_profile_role
+  BEFORE INSERT OR UPDATE OF role ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_profile_role();
+
+-- Menu, recipes and modifiers: managers and up edit, all staff read
+DROP POLICY IF EXISTS "Authenticated users can manage categories" ON public.categories;
+DROP POLICY IF EXISTS "Authenticated users can manage menu items" ON public.menu_items;
+DROP POLICY IF EXISTS "Authenticated users can manage recipes" ON public.menu_item_ingredients;
+DROP POLICY IF EXISTS "Authenticated users can manage modifier groups" ON public.modifier_groups;
+DROP POLICY IF EXISTS "Authenticated users can manage modifier options" ON public.modifier_options;
+
+CREATE POLICY "Managers can manage categories" ON public.categories FOR ALL TO authenticated
+  USING (public.has_role(ARRAY['owner', 'admin', 'manager'])) WITH CHECK (public.has_role(ARRAY['owner', 'admin', 'manager']));
+CREATE POLICY "Managers can manage menu items" ON public.menu_items FOR ALL TO authenticated
+  USING (public.has_role(ARRAY['owner', 'admin', 'manager'])) WITH CHECK (public.has_role(ARRAY['owner', 'admin', 'manager']));
+CREATE POLICY "Staff can view recipes" ON public.menu_item_ingredients FOR SELECT TO authenticated
+  USING (public.has_role(ARRAY['owner', 'admin', 'manager', 'cashier', 'staff']));
+CREATE POLICY "Managers can manage recipes" ON public.menu_item_ingredients FOR ALL TO authenticated
+  USING (public.has_role(ARRAY['owner', 'admin', 'manager'])) WITH CHECK (public.has_role(ARRAY['owner', 'admin', 'manager']));
+CREATE POLICY "Managers can manage modifier groups" ON public.modifier_groups FOR ALL TO authenticated
+  USING (public.has_role(ARRAY['owner', 'admin', 'manager'])) WITH CHECK (public.has_role(ARRAY['owner', 'admin', 'manager']));
+CREATE POLICY "Managers can manage modifier options" ON public.modifier_options FOR ALL TO authenticated
+  USING (public.has_role(ARRAY['owner', 'admin', 'manager'])) WITH CHECK (public.has_role(ARRAY['owner', 'admin', 'manager']));
+
+-- Inventory: all staff read, managers and up adjust stock and acknowledge alerts
+DROP POLICY IF EXISTS "Authenticated users can manage inventory" ON public.inventory;
+DROP POLICY IF EXISTS "Authenticated users can manage alerts" ON public.low_stock_alerts;
+DROP POLICY IF EXISTS "Authenticated users can view inventory movements" ON public.inventory_movements;
+
+CREATE POLICY "Staff can view inventory" ON public.inventory FOR SELECT TO authenticated
+  USING (public.has_role(ARRAY['owner', 'admin', 'manager', 'cashier', 'staff']));
+CREATE POLICY "Managers can manage inventory" ON public.inventory FOR ALL TO authenticated
+  USING (public.has_role(ARRAY['owner', 'admin', 'manager'])) WITH CHECK (public.has_role(ARRAY['owner', 'admin', 'manager']));
+CREATE POLICY "Staff can view alerts" ON public.low_stock_alerts FOR SELECT TO authenticated
+  USING (public.has_role(ARRAY['owner', 'admin', 'manager', 'cashier', 'staff']));
+CREATE POLICY "Managers can manage alerts" ON public.low_stock_alerts FOR ALL TO authenticated
+  USING (public.has_role(ARRAY['owner', 'admin', 'manager'])) WITH CHECK (public.has_role(ARRAY['owner', 'admin', 'manager']));
+CREATE POLICY "Managers can view inventory movements" ON public.inventory_movements FOR SELECT TO authenticated
+  USING (public.has_role(ARRAY['owner', 'admin', 'manager']));
+
+-- Alerts are maintained by the system whoever changed the stock
+ALTER FUNCTION public.check_low_stock() SECURITY DEFINER;
+
+-- Orders: all staff work the queue, cashiers and up handle money, managers and up delete
+DROP POLICY IF EXISTS "Authenticated users can manage orders" ON public.orders;
+DROP POLICY IF EXISTS "Authenticated users can manage order items" ON public.order_items;
+DROP POLICY IF EXISTS "Authenticated users can manage order item modifiers" ON public.order_item_modifiers;
+DROP POLICY IF EXISTS "Authenticated users can manage order actions" ON public.order_actions;
+DROP POLICY IF EXISTS "Authenticated users can manage order discounts" ON public.order_discounts;
+
+CREATE POLICY "Staff can view orders" ON public.orders FOR SELECT TO authenticated
+  USING (public.has_role(ARRAY['owner', 'admin', 'manager', 'cashier', 'staff']));
+CREATE POLICY "Cashiers can create orders" ON public.orders FOR INSERT TO authenticated
+  WITH CHECK (public.has_role(ARRAY['owner', 'admin', 'manager', 'cashier']));
+CREATE POLICY "Staff can update orders" ON public.orders FOR UPDATE TO authenticated
+  USING (public.has_role(ARRAY['owner', 'admin', 'manager', 'cashier', 'staff']))
+  WITH CHECK (public.has_role(ARRAY['owner', 'admin', 'manager', 'cashier', 'staff']));
+CREATE POLICY "Managers can delete orders" ON public.orders FOR DELETE TO authenticated
+  USING (public.has_role(ARRAY['owner', 'admin', 'manager']));
+
+CREATE POLICY "Staff can view order items" ON public.order_items FOR SELECT TO authenticated
+  USING (public.has_role(ARRAY['owner', 'admin', 'manager', 'cashier', 'staff']));
+CREATE POLICY "Cashiers can manage order items" ON public.order_items FOR ALL TO authenticated
+  USING (public.has_role(ARRAY['owner', 'admin', 'manager', 'cashier'])) WITH CHECK (public.has_role(ARRAY['owner', 'admin', 'manager', 'cashier']));
+
+CREATE POLICY "Staff can view order item modifiers" ON public.order_item_modifiers FOR SELECT TO authenticated
+  USING (public.has_role(ARRAY['owner', 'admin', 'manager', 'cashier', 'staff']));
+CREATE POLICY "Cashiers can manage order item modifiers" ON public.order_item_modifiers FOR ALL TO authenticated
+  USING (public.has_role(ARRAY['owner', 'admin', 'manager', 'cashier'])) WITH CHECK (public.has_role(ARRAY['owner', 'admin', 'manager', 'cashier']));
+
+-- Order actions are an audit trail: insert as yourself, never edit
+CREATE POLICY "Staff can view order actions" ON public.order_actions FOR SELECT TO authenticated
+  USING (public.has_role(ARRAY['owner', 'admin', 'manager', 'cashier', 'staff']));
+CREATE POLICY "Staff can record order actions" ON public.order_actions FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = action_by AND public.has_role(ARRAY['owner', 'admin', 'manager', 'cashier', 'staff']));
+
+CREATE POLICY "Staff can view order discounts" ON public.order_discounts FOR SELECT TO authenticated
+  USING (public.has_role(ARRAY['owner', 'admin', 'manager', 'cashier', 'staff']));
+CREATE POLICY "Cashiers can apply order discounts" ON public.order_discounts FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = applied_by AND public.has_role(ARRAY['owner', 'admin', 'manager', 'cashier']));
+
+-- Sales and activity logs: written by staff, read by managers and up
+DROP POLICY IF EXISTS "Authenticated users can view sales logs" ON public.sales_logs;
+DROP POLICY IF EXISTS "Authenticated users can view activity logs" ON public.activity_logs;
+DROP POLICY IF EXISTS "Authenticated users can insert activity logs" ON public.activity_logs;
+DROP POLICY IF EXISTS "Authenticated users can view and insert activity logs" ON public.activity_logs;
+
+CREATE POLICY "Managers can view sales logs" ON public.sales_logs FOR SELECT TO authenticated
+  USING (public.has_role(ARRAY['owner', 'admin', 'manager']));
+CREATE POLICY "Cashiers can record sales logs" ON public.sales_logs FOR INSERT TO authenticated
+  WITH CHECK (public.has_role(ARRAY['owner', 'admin', 'manager', 'cashier']));
+
+CREATE POLICY "Managers can view activity logs" ON public.activity_logs FOR SELECT TO authenticated
+  USING (public.has_role(ARRAY['owner', 'admin', 'manager']));
+CREATE POLICY "Staff can insert activity logs" ON public.activity_logs FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id AND public.has_role(ARRAY['owner', 'admin', 'manager', 'cashier', 'staff']));
@@ -0,0 +1,157 @@
+-- Tenders taken for an order. An order can be paid with several (cash + GCash + card).
+-- amount is what the tender contributes to the order total; for cash it is
+-- amount_tendered minus the change handed back.
+CREATE TABLE public.order_payments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  method TEXT NOT NULL CHECK (method IN ('cash', 'gcash', 'maya', 'card')),
+  amount NUMERIC(10,2) NOT NULL CHECK (amount >= 0),
+  amount_tendered NUMERIC(10,2) NOT NULL CHECK (amount_tendered > 0),
+  change_given NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (change_given >= 0),
+  reference_number TEXT,
+  received_by UUID REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_payments_order_id ON public.order_payments(order_id);
+
+ALTER TABLE public.order_payments ENABLE ROW LEVEL SECURITY;
+
+-- Written only through record_payments
+CREATE POLICY "Staff can view order payments" ON public.order_payments FOR SELECT TO authenticated
+  USING (public.has_role(ARRAY['owner', 'admin', 'manager', 'cashier', 'staff']));
+
+-- Record every tender for an order in one go and work out the change.
+-- p_tenders: [{ "method": "cash", "amount_tendered": 500, "reference_number": null }]
+CREATE OR REPLACE FUNCTION public.record_payments(p_order_id UUID, p_tenders JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_tender JSONB;
+  v_method TEXT;
+  v_tendered NUMERIC(10,2);
+  v_cash_tendered NUMERIC(10,2) := 0;
+  v_other_tendered NUMERIC(10,2) := 0;
+  v_change NUMERIC(10,2);
+  v_change_left NUMERIC(10,2);
+  v_change_given NUMERIC(10,2);
+  v_methods TEXT[] := '{}';
+BEGIN
+  IF NOT public.has_role(ARRAY['owner', 'admin', 'manager', 'cashier']) THEN
+    RAISE EXCEPTION 'Only cashiers can take payments.';
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found.';
+  END IF;
+
+  IF v_order.status IN ('cancelled', 'refunded') THEN
+    RAISE EXCEPTION 'Order % is %.', v_order.order_number, v_order.status;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.order_payments WHERE order_id = p_order_id) THEN
+    RAISE EXCEPTION 'Order % has already been paid.', v_order.order_number;
+  END IF;
+
+  IF p_tenders IS NULL OR jsonb_typeof(p_tenders) <> 'array' OR jsonb_array_length(p_tenders) = 0 THEN
+    RAISE EXCEPTION 'Add at least one tender.';
+  END IF;
+
+  FOR v_tender IN SELECT * FROM jsonb_array_elements(p_tenders) LOOP
+    v_method := v_tender->>'method';
+    v_tendered := (v_tender->>'amount_tendered')::NUMERIC;
+
+    IF v_method IS NULL OR v_method NOT IN ('cash', 'gcash', 'maya', 'card') THEN
+      RAISE EXCEPTION 'Invalid payment method: %', v_method;
+    END IF;
+
+    IF v_tendered IS NULL OR v_tendered <= 0 THEN
+      RAISE EXCEPTION 'Tender amounts must be greater than zero.';
+    END IF;
+
+    IF v_method = 'cash' THEN
+      v_cash_tendered := v_cash_tendered + v_tendered;
+    ELSE
+      v_other_tendered := v_other_tendered + v_tendered;
+    END IF;
+
+    IF NOT v_method = ANY(v_methods) THEN
+      v_methods := v_methods || v_method;
+    END IF;
+  END LOOP;
+
+  IF v_cash_tendered + v_other_tendered < v_order.total_amount THEN
+    RAISE EXCEPTION 'Tenders of % do not cover the order total of %.', v_cash_tendered + v_other_tendered, v_order.total_amount;
+  END IF;
+
+  -- Change can only be given from cash; GCash, Maya and card are charged exactly
+  IF v_other_tendered > v_order.total_amount THEN
+    RAISE EXCEPTION 'Non-cash tenders cannot exceed the order total.';
+  END IF;
+
+  v_change := v_cash_tendered + v_other_tendered - v_order.total_amount;
+  v_change_left := v_change;
+
+  FOR v_tender IN SELECT * FROM jsonb_array_elements(p_tenders) LOOP
+    v_method := v_tender->>'method';
+    v_tendered := (v_tender->>'amount_tendered')::NUMERIC;
+    v_change_given := CASE WHEN v_method = 'cash' THEN LEAST(v_change_left, v_tendered) ELSE 0 END;
+    v_change_left := v_change_left - v_change_given;
+
+    INSERT INTO public.order_payments (order_id, method, amount, amount_tendered, change_given, reference_number, received_by)
+    VALUES (
+      p_order_id,
+      v_method,
+      v_tendered - v_change_given,
+      v_tendered,
+      v_change_given,
+      NULLIF(trim(v_tender->>'reference_number'), ''),
+      auth.uid()
+    );
+  END LOOP;
+
+  UPDATE public.orders
+  SET payment_method = CASE WHEN cardinality(v_methods) > 1 THEN 'split' ELSE v_methods[1] END
+  WHERE id = p_order_id;
+
+  RETURN jsonb_build_object(
+    'total_amount', v_order.total_amount,
+    'amount_tendered', v_cash_tendered + v_other_tendered,
+    'change', v_change
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_payments(UUID, JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.record_payments(UUID, JSONB) TO authenticated;
+
+-- An order only counts as a completed sale once its tenders cover the total, however
+-- the status is changed (the order screen, an offline replay or a direct call)
+CREATE OR REPLACE FUNCTION public.check_order_paid()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.status = 'completed'
+     AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'completed')
+     AND COALESCE((SELECT SUM(amount) FROM public.order_payments WHERE order_id = NEW.id), 0) < NEW.total_amount THEN
+    RAISE EXCEPTION 'Order % has not been paid in full.', NEW.order_number;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_order_paid ON public.orders;
+CREATE TRIGGER check_order_paid
+  BEFORE INSERT OR UPDATE OF status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_order_paid();
@@ -0,0 +1,366 @@
+-- Cashier shifts and cash drawer reconciliation
+CREATE TABLE public.cash_shifts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  cashier_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE RESTRICT,
+  opening_float NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (opening_float >= 0),
+  opened_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  closed_at TIMESTAMP WITH TIME ZONE,
+  expected_cash NUMERIC(10,2),
+  counted_cash NUMERIC(10,2),
+  z_report JSONB, -- snapshot taken at close so reprints match what was signed off
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One open drawer per cashier
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cash_shifts_one_open ON public.cash_shifts(cashier_id) WHERE closed_at IS NULL;
+
+-- Cash taken out of the drawer during a shift
+CREATE TABLE public.cash_movements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  shift_id UUID NOT NULL REFERENCES public.cash_shifts(id) ON DELETE CASCADE,
+  movement_type TEXT NOT NULL CHECK (movement_type IN ('cash_drop', 'paid_out')),
+  amount NUMERIC(10,2) NOT NULL CHECK (amount > 0),
+  reason TEXT,
+  created_by UUID REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cash_movements_shift_id ON public.cash_movements(shift_id);
+
+ALTER TABLE public.order_payments ADD COLUMN shift_id UUID REFERENCES public.cash_shifts(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_order_payments_shift_id ON public.order_payments(shift_id);
+
+ALTER TABLE public.cash_shifts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cash_movements ENABLE ROW LEVEL SECURITY;
+
+-- Cashiers see their own shifts, managers and up see all. Writes go through the functions below
+CREATE POLICY "Cashiers can view their shifts" ON public.cash_shifts FOR SELECT TO authenticated
+  USING (cashier_id = auth.uid() OR public.has_role(ARRAY['owner', 'admin', 'manager']));
+CREATE POLICY "Cashiers can view their cash movements" ON public.cash_movements FOR SELECT TO authenticated
+  USING (
+    public.has_role(ARRAY['owner', 'admin', 'manager'])
+    OR EXISTS (SELECT 1 FROM public.cash_shifts s WHERE s.id = shift_id AND s.cashier_id = auth.uid())
+  );
+
+CREATE TRIGGER update_cash_shifts_updated_at
+  BEFORE UPDATE ON public.cash_shifts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.open_shift(p_opening_float NUMERIC)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_shift_id UUID;
+BEGIN
+  IF NOT public.has_role(ARRAY['owner', 'admin', 'manager', 'cashier']) THEN
+    RAISE EXCEPTION 'Only cashiers can open a shift.';
+  END IF;
+
+  IF p_opening_float IS NULL OR p_opening_float < 0 THEN
+    RAISE EXCEPTION 'Opening float cannot be negative.';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.cash_shifts WHERE cashier_id = auth.uid() AND closed_at IS NULL) THEN
+    RAISE EXCEPTION 'You already have an open shift.';
+  END IF;
+
+  INSERT INTO public.cash_shifts (cashier_id, opening_float)
+  VALUES (auth.uid(), p_opening_float)
+  RETURNING id INTO v_shift_id;
+
+  PERFORM public.log_activity('shift_opened', 'Shift opened with float ' || p_opening_float, jsonb_build_object('shift_id', v_shift_id));
+
+  RETURN v_shift_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_cash_movement(p_movement_type TEXT, p_amount NUMERIC, p_reason TEXT DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_shift_id UUID;
+  v_movement_id UUID;
+BEGIN
+  SELECT id INTO v_shift_id FROM public.cash_shifts WHERE cashier_id = auth.uid() AND closed_at IS NULL;
+
+  IF v_shift_id IS NULL THEN
+    RAISE EXCEPTION 'Open a shift first.';
+  END IF;
+
+  INSERT INTO public.cash_movements (shift_id, movement_type, amount, reason, created_by)
+  VALUES (v_shift_id, p_movement_type, p_amount, NULLIF(trim(p_reason), ''), auth.uid())
+  RETURNING id INTO v_movement_id;
+
+  RETURN v_movement_id;
+END;
+$$;
+
+-- Z-report for a shift: tenders, drawer movements, and the refunds, discounts and
+-- voids the cashier recorded while the shift was open.
+CREATE OR REPLACE FUNCTION public.get_z_report(p_shift_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_shift public.cash_shifts%ROWTYPE;
+  v_until TIMESTAMP WITH TIME ZONE;
+  v_cash_sales NUMERIC(10,2);
+  v_cash_drops NUMERIC(10,2);
+  v_paid_outs NUMERIC(10,2);
+  v_refunds NUMERIC(10,2);
+  v_expected NUMERIC(10,2);
+BEGIN
+  SELECT * INTO v_shift FROM public.cash_shifts WHERE id = p_shift_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shift not found.';
+  END IF;
+
+  IF v_shift.cashier_id <> auth.uid() AND NOT public.has_role(ARRAY['owner', 'admin', 'manager']) THEN
+    RAISE EXCEPTION 'You can only view your own shifts.';
+  END IF;
+
+  v_until := COALESCE(v_shift.closed_at, now());
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_cash_sales
+  FROM public.order_payments WHERE shift_id = p_shift_id AND method = 'cash';
+
+  SELECT
+    COALESCE(SUM(amount) FILTER (WHERE movement_type = 'cash_drop'), 0),
+    COALESCE(SUM(amount) FILTER (WHERE movement_type = 'paid_out'), 0)
+  INTO v_cash_drops, v_paid_outs
+  FROM public.cash_movements WHERE shift_id = p_shift_id;
+
+  -- Refunds are handed back from the drawer
+  SELECT COALESCE(SUM(amount), 0) INTO v_refunds
+  FROM public.order_actions
+  WHERE action_type = 'refund' AND action_by = v_shift.cashier_id
+    AND created_at >= v_shift.opened_at AND created_at <= v_until;
+
+  v_expected := v_shift.opening_float + v_cash_sales - v_cash_drops - v_paid_outs - v_refunds;
+
+  RETURN jsonb_build_object(
+    'shift_id', v_shift.id,
+    'cashier_id', v_shift.cashier_id,
+    'cashier_name', (SELECT full_name FROM public.profiles WHERE user_id = v_shift.cashier_id),
+    'opened_at', v_shift.opened_at,
+    'closed_at', v_shift.closed_at,
+    'opening_float', v_shift.opening_float,
+    'orders_paid', (SELECT COUNT(DISTINCT order_id) FROM public.order_payments WHERE shift_id = p_shift_id),
+    'gross_sales', (SELECT COALESCE(SUM(amount), 0) FROM public.order_payments WHERE shift_id = p_shift_id),
+    'sales_by_tender', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('method', method, 'count', payment_count, 'amount', total) ORDER BY method)
+      FROM (
+        SELECT method, COUNT(*) AS payment_count, SUM(amount) AS total
+        FROM public.order_payments WHERE shift_id = p_shift_id
+        GROUP BY method
+      ) tenders
+    ), '[]'::JSONB),
+    'cash_sales', v_cash_sales,
+    'cash_drops', v_cash_drops,
+    'paid_outs', v_paid_outs,
+    'refunds', jsonb_build_object(
+      'count', (SELECT COUNT(*) FROM public.order_actions
+                WHERE action_type = 'refund' AND action_by = v_shift.cashier_id
+                  AND created_at >= v_shift.opened_at AND created_at <= v_until),
+      'amount', v_refunds
+    ),
+    'discounts', (
+      SELECT jsonb_build_object('count', COUNT(*), 'amount', COALESCE(SUM(amount), 0))
+      FROM (
+        SELECT discount_amount AS amount FROM public.order_discounts
+        WHERE applied_by = v_shift.cashier_id AND created_at >= v_shift.opened_at AND created_at <= v_until
+        UNION ALL
+        SELECT amount FROM public.order_actions
+        WHERE action_type = 'discount' AND action_by = v_shift.cashier_id
+          AND created_at >= v_shift.opened_at AND created_at <= v_until
+      ) discounts
+    ),
+    'voids', (
+      SELECT jsonb_build_object('count', COUNT(*), 'amount', COALESCE(SUM(o.total_amount), 0))
+      FROM public.order_actions a
+      JOIN public.orders o ON o.id = a.order_id
+      WHERE a.action_type IN ('cancel', 'void') AND a.action_by = v_shift.cashier_id
+        AND a.created_at >= v_shift.opened_at AND a.created_at <= v_until
+    ),
+    'expected_cash', v_expected,
+    'counted_cash', v_shift.counted_cash,
+    'variance', CASE WHEN v_shift.counted_cash IS NULL THEN NULL ELSE v_shift.counted_cash - v_expected END
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.close_shift(p_counted_cash NUMERIC, p_notes TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_shift_id UUID;
+  v_report JSONB;
+BEGIN
+  IF p_counted_cash IS NULL OR p_counted_cash < 0 THEN
+    RAISE EXCEPTION 'Enter the counted cash.';
+  END IF;
+
+  SELECT id INTO v_shift_id FROM public.cash_shifts WHERE cashier_id = auth.uid() AND closed_at IS NULL FOR UPDATE;
+
+  IF v_shift_id IS NULL THEN
+    RAISE EXCEPTION 'You do not have an open shift.';
+  END IF;
+
+  UPDATE public.cash_shifts
+  SET closed_at = now(), counted_cash = p_counted_cash, notes = NULLIF(trim(p_notes), '')
+  WHERE id = v_shift_id;
+
+  v_report := public.get_z_report(v_shift_id);
+
+  UPDATE public.cash_shifts
+  SET expected_cash = (v_report->>'expected_cash')::NUMERIC, z_report = v_report
+  WHERE id = v_shift_id;
+
+  PERFORM public.log_activity('shift_closed', 'Shift closed, variance ' || (v_report->>'variance'), jsonb_build_object('shift_id', v_shift_id));
+
+  RETURN v_report;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.open_shift(NUMERIC) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.record_cash_movement(TEXT, NUMERIC, TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.get_z_report(UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.close_shift(NUMERIC, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.open_shift(NUMERIC) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.record_cash_movement(TEXT, NUMERIC, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_z_report(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.close_shift(NUMERIC, TEXT) TO authenticated;
+
+-- Payments are tied to the shift they were taken in
+CREATE OR REPLACE FUNCTION public.record_payments(p_order_id UUID, p_tenders JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_tender JSONB;
+  v_method TEXT;
+  v_tendered NUMERIC(10,2);
+  v_cash_tendered NUMERIC(10,2) := 0;
+  v_other_tendered NUMERIC(10,2) := 0;
+  v_change NUMERIC(10,2);
+  v_change_left NUMERIC(10,2);
+  v_change_given NUMERIC(10,2);
+  v_methods TEXT[] := '{}';
+  v_shift_id UUID;
+BEGIN
+  IF NOT public.has_role(ARRAY['owner', 'admin', 'manager', 'cashier']) THEN
+    RAISE EXCEPTION 'Only cashiers can take payments.';
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found.';
+  END IF;
+
+  IF v_order.status IN ('cancelled', 'refunded') THEN
+    RAISE EXCEPTION 'Order % is %.', v_order.order_number, v_order.status;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.order_payments WHERE order_id = p_order_id) THEN
+    RAISE EXCEPTION 'Order % has already been paid.', v_order.order_number;
+  END IF;
+
+  IF p_tenders IS NULL OR jsonb_typeof(p_tenders) <> 'array' OR jsonb_array_length(p_tenders) = 0 THEN
+    RAISE EXCEPTION 'Add at least one tender.';
+  END IF;
+
+  FOR v_tender IN SELECT * FROM jsonb_array_elements(p_tenders) LOOP
+    v_method := v_tender->>'method';
+    v_tendered := (v_tender->>'amount_tendered')::NUMERIC;
+
+    IF v_method IS NULL OR v_method NOT IN ('cash', 'gcash', 'maya', 'card') THEN
+      RAISE EXCEPTION 'Invalid payment method: %', v_method;
+    END IF;
+
+    IF v_tendered IS NULL OR v_tendered <= 0 THEN
+      RAISE EXCEPTION 'Tender amounts must be greater than zero.';
+    END IF;
+
+    IF v_method = 'cash' THEN
+      v_cash_tendered := v_cash_tendered + v_tendered;
+    ELSE
+      v_other_tendered := v_other_tendered + v_tendered;
+    END IF;
+
+    IF NOT v_method = ANY(v_methods) THEN
+      v_methods := v_methods || v_method;
+    END IF;
+  END LOOP;
+
+  IF v_cash_tendered + v_other_tendered < v_order.total_amount THEN
+    RAISE EXCEPTION 'Tenders of % do not cover the order total of %.', v_cash_tendered + v_other_tendered, v_order.total_amount;
+  END IF;
+
+  -- Cash goes into the drawer of the cashier's open shift
+  SELECT id INTO v_shift_id FROM public.cash_shifts WHERE cashier_id = auth.uid() AND closed_at IS NULL;
+
+  IF v_cash_tendered > 0 AND v_shift_id IS NULL THEN
+    RAISE EXCEPTION 'Open a shift before taking cash.';
+  END IF;
+
+  -- Change can only be given from cash; GCash, Maya and card are charged exactly
+  IF v_other_tendered > v_order.total_amount THEN
+    RAISE EXCEPTION 'Non-cash tenders cannot exceed the order total.';
+  END IF;
+
+  v_change := v_cash_tendered + v_other_tendered - v_order.total_amount;
+  v_change_left := v_change;
+
+  FOR v_tender IN SELECT * FROM jsonb_array_elements(p_tenders) LOOP
+    v_method := v_tender->>'method';
+    v_tendered := (v_tender->>'amount_tendered')::NUMERIC;
+    v_change_given := CASE WHEN v_method = 'cash' THEN LEAST(v_change_left, v_tendered) ELSE 0 END;
+    v_change_left := v_change_left - v_change_given;
+
+    INSERT INTO public.order_payments (order_id, shift_id, method, amount, amount_tendered, change_given, reference_number, received_by)
+    VALUES (
+      p_order_id,
+      v_shift_id,
+      v_method,
+      v_tendered - v_change_given,
+      v_tendered,
+      v_change_given,
+      NULLIF(trim(v_tender->>'reference_number'), ''),
+      auth.uid()
+    );
+  END LOOP;
+
+  UPDATE public.orders
+  SET payment_method = CASE WHEN cardinality(v_methods) > 1 THEN 'split' ELSE v_methods[1] END
+  WHERE id = p_order_id;
+
+  RETURN jsonb_build_object(
+    'total_amount', v_order.total_amount,
+    'amount_tendered', v_cash_tendered + v_other_tendered,
+    'change', v_change
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_payments(UUID, JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.record_payments(UUID, JSONB) TO authenticated;
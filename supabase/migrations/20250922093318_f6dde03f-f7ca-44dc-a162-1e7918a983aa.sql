@@ -0,0 +1,439 @@
+-- Discount types managers set up once and cashiers pick from, instead of typing
+-- an amount. Promo-code discounts (code set) can only be applied by entering the code.
+CREATE TABLE public.discount_types (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  code TEXT,
+  value_type TEXT NOT NULL CHECK (value_type IN ('percentage', 'fixed')),
+  value NUMERIC(10,2) NOT NULL CHECK (value > 0),
+  scope TEXT NOT NULL DEFAULT 'order' CHECK (scope IN ('order', 'item')),
+  max_amount NUMERIC(10,2) CHECK (max_amount > 0),
+  vat_exempt BOOLEAN NOT NULL DEFAULT false,
+  requires_id BOOLEAN NOT NULL DEFAULT false,
+  stackable BOOLEAN NOT NULL DEFAULT false,
+  requires_approval BOOLEAN NOT NULL DEFAULT false,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (value_type <> 'percentage' OR value <= 100)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_discount_types_code ON public.discount_types(upper(code)) WHERE code IS NOT NULL;
+
+CREATE TRIGGER update_discount_types_updated_at BEFORE UPDATE ON public.discount_types FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.discount_types ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view discount types" ON public.discount_types FOR SELECT TO authenticated
+  USING (public.has_role(ARRAY['owner', 'admin', 'manager', 'cashier', 'staff']));
+CREATE POLICY "Managers can manage discount types" ON public.discount_types FOR ALL TO authenticated
+  USING (public.has_role(ARRAY['owner', 'admin', 'manager']))
+  WITH CHECK (public.has_role(ARRAY['owner', 'admin', 'manager']));
+
+-- SC/PWD: 20% off the VAT-exclusive price of the holder's own items, VAT exempt
+INSERT INTO public.discount_types (name, value_type, value, scope, vat_exempt, requires_id) VALUES
+  ('Senior Citizen', 'percentage', 20, 'item', true, true),
+  ('PWD', 'percentage', 20, 'item', true, true);
+
+-- discount_type and discount_value keep a copy of the type's name and value at the time
+ALTER TABLE public.order_discounts
+  ADD COLUMN discount_type_id UUID REFERENCES public.discount_types(id) ON DELETE RESTRICT,
+  ADD COLUMN order_item_id UUID REFERENCES public.order_items(id) ON DELETE CASCADE,
+  ADD COLUMN id_number TEXT,
+  ADD COLUMN id_holder_name TEXT,
+  ADD COLUMN approved_by UUID REFERENCES public.profiles(user_id) ON DELETE SET NULL;
+
+-- VAT taken off SC/PWD items; gross = total_amount + discount_amount + vat_exempt_amount
+ALTER TABLE public.orders ADD COLUMN vat_exempt_amount NUMERIC(10,2) NOT NULL DEFAULT 0;
+
+-- Discounts are written only through apply_discount/remove_discount
+DROP POLICY IF EXISTS "Cashiers can apply order discounts" ON public.order_discounts;
+
+-- Work out discount_amount, vat_exempt_amount, tax_amount and total_amount from the
+-- order's lines and the discounts applied to it, in the order they were applied.
+CREATE OR REPLACE FUNCTION public.recalculate_order_totals(p_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  vat_rate CONSTANT NUMERIC := 0.12; -- menu prices are VAT inclusive
+  v_item_ids UUID[];
+  v_remaining NUMERIC[];
+  v_exempt BOOLEAN[];
+  v_discount RECORD;
+  v_base NUMERIC(10,2);
+  v_amount NUMERIC(10,2);
+  v_left NUMERIC(10,2);
+  v_share NUMERIC(10,2);
+  v_last INT;
+  v_vat_exempt NUMERIC(10,2) := 0;
+  v_discount_total NUMERIC(10,2) := 0;
+  v_total NUMERIC(10,2) := 0;
+  v_taxable NUMERIC(10,2) := 0;
+  i INT;
+BEGIN
+  SELECT array_agg(id ORDER BY created_at, id), array_agg(total_price ORDER BY created_at, id), array_agg(false)
+  INTO v_item_ids, v_remaining, v_exempt
+  FROM public.order_items WHERE order_id = p_order_id;
+
+  IF v_item_ids IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Strip the VAT out of lines covered by a VAT-exempt discount before any discount is taken
+  FOR v_discount IN
+    SELECT d.order_item_id
+    FROM public.order_discounts d
+    JOIN public.discount_types t ON t.id = d.discount_type_id
+    WHERE d.order_id = p_order_id AND t.vat_exempt
+  LOOP
+    FOR i IN 1 .. array_length(v_item_ids, 1) LOOP
+      IF NOT v_exempt[i] AND (v_discount.order_item_id IS NULL OR v_discount.order_item_id = v_item_ids[i]) THEN
+        v_exempt[i] := true;
+        v_vat_exempt := v_vat_exempt + v_remaining[i] - round(v_remaining[i] / (1 + vat_rate), 2);
+        v_remaining[i] := round(v_remaining[i] / (1 + vat_rate), 2);
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  FOR v_discount IN
+    SELECT d.id, d.order_item_id, d.discount_amount, t.id AS type_id, t.value_type, t.value, t.max_amount
+    FROM public.order_discounts d
+    LEFT JOIN public.discount_types t ON t.id = d.discount_type_id
+    WHERE d.order_id = p_order_id
+    ORDER BY d.created_at, d.id
+  LOOP
+    v_base := 0;
+    v_last := NULL;
+    FOR i IN 1 .. array_length(v_item_ids, 1) LOOP
+      IF (v_discount.order_item_id IS NULL OR v_discount.order_item_id = v_item_ids[i]) AND v_remaining[i] > 0 THEN
+        v_base := v_base + v_remaining[i];
+        v_last := i;
+      END IF;
+    END LOOP;
+
+    IF v_discount.type_id IS NULL THEN
+      -- Typed-in discounts from before discount types keep their recorded amount
+      v_amount := COALESCE(v_discount.discount_amount, 0);
+    ELSIF v_discount.value_type = 'percentage' THEN
+      v_amount := round(v_base * v_discount.value / 100, 2);
+    ELSE
+      v_amount := v_discount.value;
+    END IF;
+
+    v_amount := LEAST(v_amount, v_base, COALESCE(v_discount.max_amount, v_amount));
+
+    -- Spread the discount over the lines it covers so VAT is worked out on what is left
+    v_left := v_amount;
+    FOR i IN 1 .. array_length(v_item_ids, 1) LOOP
+      IF v_base > 0 AND (v_discount.order_item_id IS NULL OR v_discount.order_item_id = v_item_ids[i]) AND v_remaining[i] > 0 THEN
+        v_share := LEAST(v_remaining[i], CASE WHEN i = v_last THEN v_left ELSE round(v_amount * v_remaining[i] / v_base, 2) END);
+        v_remaining[i] := v_remaining[i] - v_share;
+        v_left := v_left - v_share;
+      END IF;
+    END LOOP;
+    v_amount := v_amount - v_left;
+
+    UPDATE public.order_discounts SET discount_amount = v_amount WHERE id = v_discount.id;
+    v_discount_total := v_discount_total + v_amount;
+  END LOOP;
+
+  FOR i IN 1 .. array_length(v_item_ids, 1) LOOP
+    v_total := v_total + v_remaining[i];
+    IF NOT v_exempt[i] THEN
+      v_taxable := v_taxable + v_remaining[i];
+    END IF;
+  END LOOP;
+
+  UPDATE public.orders
+  SET total_amount = v_total,
+      tax_amount = round(v_taxable - v_taxable / (1 + vat_rate), 2),
+      discount_amount = v_discount_total,
+      vat_exempt_amount = v_vat_exempt
+  WHERE id = p_order_id;
+END;
+$$;
+
+-- Internal to the order functions. New functions are executable by anon and
+-- authenticated unless revoked from them by name, not just from PUBLIC.
+REVOKE ALL ON FUNCTION public.recalculate_order_totals(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Apply a discount type to an order, or to one line when the type is per item.
+-- Pass p_promo_code instead of p_discount_type_id to apply a promo by its code.
+CREATE OR REPLACE FUNCTION public.apply_discount(
+  p_order_id UUID,
+  p_discount_type_id UUID DEFAULT NULL,
+  p_promo_code TEXT DEFAULT NULL,
+  p_order_item_id UUID DEFAULT NULL,
+  p_id_number TEXT DEFAULT NULL,
+  p_id_holder_name TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_type public.discount_types%ROWTYPE;
+  v_discount_id UUID;
+  v_amount NUMERIC(10,2);
+BEGIN
+  IF NOT public.has_role(ARRAY['owner', 'admin', 'manager', 'cashier']) THEN
+    RAISE EXCEPTION 'Only cashiers can apply discounts.';
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found.';
+  END IF;
+
+  IF v_order.status NOT IN ('pending', 'preparing', 'ready') THEN
+    RAISE EXCEPTION 'Order % is %.', v_order.order_number, v_order.status;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.order_payments WHERE order_id = p_order_id) THEN
+    RAISE EXCEPTION 'Apply discounts before taking payment.';
+  END IF;
+
+  IF p_discount_type_id IS NOT NULL THEN
+    SELECT * INTO v_type FROM public.discount_types WHERE id = p_discount_type_id AND is_active;
+  ELSE
+    SELECT * INTO v_type FROM public.discount_types WHERE upper(code) = upper(trim(p_promo_code)) AND is_active;
+  END IF;
+
+  IF v_type.id IS NULL THEN
+    RAISE EXCEPTION 'Discount not found or no longer active.';
+  END IF;
+
+  IF v_type.code IS NOT NULL AND upper(v_type.code) IS DISTINCT FROM upper(trim(p_promo_code)) THEN
+    RAISE EXCEPTION 'Enter the promo code to apply %.', v_type.name;
+  END IF;
+
+  IF v_type.scope = 'item' AND p_order_item_id IS NULL THEN
+    RAISE EXCEPTION 'Pick the item to apply % to.', v_type.name;
+  END IF;
+
+  IF v_type.scope = 'order' AND p_order_item_id IS NOT NULL THEN
+    RAISE EXCEPTION '% applies to the whole order.', v_type.name;
+  END IF;
+
+  IF p_order_item_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.order_items WHERE id = p_order_item_id AND order_id = p_order_id
+  ) THEN
+    RAISE EXCEPTION 'Item is not on order %.', v_order.order_number;
+  END IF;
+
+  IF v_type.requires_id AND (NULLIF(trim(p_id_number), '') IS NULL OR NULLIF(trim(p_id_holder_name), '') IS NULL) THEN
+    RAISE EXCEPTION 'Enter the ID number and name for the % discount.', v_type.name;
+  END IF;
+
+  IF v_type.requires_approval AND NOT public.has_role(ARRAY['owner', 'admin', 'manager']) THEN
+    RAISE EXCEPTION 'A manager must apply the % discount.', v_type.name;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.order_discounts
+    WHERE order_id = p_order_id AND discount_type_id = v_type.id
+      AND order_item_id IS NOT DISTINCT FROM p_order_item_id
+  ) THEN
+    RAISE EXCEPTION '% has already been applied.', v_type.name;
+  END IF;
+
+  -- The same type can go on several lines (one senior per item), but a
+  -- non-stackable discount cannot share the order with any other discount
+  IF EXISTS (
+    SELECT 1
+    FROM public.order_discounts d
+    LEFT JOIN public.discount_types t ON t.id = d.discount_type_id
+    WHERE d.order_id = p_order_id
+      AND d.discount_type_id IS DISTINCT FROM v_type.id
+      AND (NOT v_type.stackable OR NOT COALESCE(t.stackable, false))
+  ) THEN
+    RAISE EXCEPTION '% cannot be combined with the other discounts on this order.', v_type.name;
+  END IF;
+
+  INSERT INTO public.order_discounts (
+    order_id, discount_type_id, discount_type, discount_value, order_item_id,
+    id_number, id_holder_name, applied_by, approved_by
+  )
+  VALUES (
+    p_order_id, v_type.id, v_type.name, v_type.value, p_order_item_id,
+    NULLIF(trim(p_id_number), ''), NULLIF(trim(p_id_holder_name), ''), auth.uid(),
+    CASE WHEN v_type.requires_approval THEN auth.uid() END
+  )
+  RETURNING id INTO v_discount_id;
+
+  PERFORM public.recalculate_order_totals(p_order_id);
+
+  SELECT discount_amount INTO v_amount FROM public.order_discounts WHERE id = v_discount_id;
+
+  INSERT INTO public.order_actions (order_id, action_type, action_by, amount, reason)
+  VALUES (p_order_id, 'discount', auth.uid(), v_amount, v_type.name);
+
+  RETURN (
+    SELECT jsonb_build_object(
+      'total_amount', total_amount,
+      'tax_amount', tax_amount,
+      'discount_amount', discount_amount,
+      'vat_exempt_amount', vat_exempt_amount
+    )
+    FROM public.orders WHERE id = p_order_id
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.apply_discount(UUID, UUID, TEXT, UUID, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.apply_discount(UUID, UUID, TEXT, UUID, TEXT, TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.remove_discount(p_discount_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_discount public.order_discounts%ROWTYPE;
+  v_order public.orders%ROWTYPE;
+BEGIN
+  IF NOT public.has_role(ARRAY['owner', 'admin', 'manager', 'cashier']) THEN
+    RAISE EXCEPTION 'Only cashiers can remove discounts.';
+  END IF;
+
+  SELECT * INTO v_discount FROM public.order_discounts WHERE id = p_discount_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Discount not found.';
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = v_discount.order_id FOR UPDATE;
+
+  IF v_order.status NOT IN ('pending', 'preparing', 'ready') THEN
+    RAISE EXCEPTION 'Order % is %.', v_order.order_number, v_order.status;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.order_payments WHERE order_id = v_order.id) THEN
+    RAISE EXCEPTION 'Order % has already been paid.', v_order.order_number;
+  END IF;
+
+  IF v_discount.approved_by IS NOT NULL AND NOT public.has_role(ARRAY['owner', 'admin', 'manager']) THEN
+    RAISE EXCEPTION 'A manager must remove the % discount.', v_discount.discount_type;
+  END IF;
+
+  DELETE FROM public.order_discounts WHERE id = p_discount_id;
+
+  PERFORM public.recalculate_order_totals(v_order.id);
+
+  INSERT INTO public.order_actions (order_id, action_type, action_by, amount, reason)
+  VALUES (v_order.id, 'discount_removed', auth.uid(), v_discount.discount_amount, v_discount.discount_type);
+
+  RETURN (
+    SELECT jsonb_build_object(
+      'total_amount', total_amount,
+      'tax_amount', tax_amount,
+      'discount_amount', discount_amount,
+      'vat_exempt_amount', vat_exempt_amount
+    )
+    FROM public.orders WHERE id = v_order.id
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.remove_discount(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.remove_discount(UUID) TO authenticated;
+
+-- apply_discount also writes an order_actions row, so count discounts from order_discounts only
+CREATE OR REPLACE FUNCTION public.get_z_report(p_shift_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_shift public.cash_shifts%ROWTYPE;
+  v_until TIMESTAMP WITH TIME ZONE;
+  v_cash_sales NUMERIC(10,2);
+  v_cash_drops NUMERIC(10,2);
+  v_paid_outs NUMERIC(10,2);
+  v_refunds NUMERIC(10,2);
+  v_expected NUMERIC(10,2);
+BEGIN
+  SELECT * INTO v_shift FROM public.cash_shifts WHERE id = p_shift_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shift not found.';
+  END IF;
+
+  IF v_shift.cashier_id <> auth.uid() AND NOT public.has_role(ARRAY['owner', 'admin', 'manager']) THEN
+    RAISE EXCEPTION 'You can only view your own shifts.';
+  END IF;
+
+  v_until := COALESCE(v_shift.closed_at, now());
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_cash_sales
+  FROM public.order_payments WHERE shift_id = p_shift_id AND method = 'cash';
+
+  SELECT
+    COALESCE(SUM(amount) FILTER (WHERE movement_type = 'cash_drop'), 0),
+    COALESCE(SUM(amount) FILTER (WHERE movement_type = 'paid_out'), 0)
+  INTO v_cash_drops, v_paid_outs
+  FROM public.cash_movements WHERE shift_id = p_shift_id;
+
+  -- Refunds are handed back from the drawer
+  SELECT COALESCE(SUM(amount), 0) INTO v_refunds
+  FROM public.order_actions
+  WHERE action_type = 'refund' AND action_by = v_shift.cashier_id
+    AND created_at >= v_shift.opened_at AND created_at <= v_until;
+
+  v_expected := v_shift.opening_float + v_cash_sales - v_cash_drops - v_paid_outs - v_refunds;
+
+  RETURN jsonb_build_object(
+    'shift_id', v_shift.id,
+    'cashier_id', v_shift.cashier_id,
+    'cashier_name', (SELECT full_name FROM public.profiles WHERE user_id = v_shift.cashier_id),
+    'opened_at', v_shift.opened_at,
+    'closed_at', v_shift.closed_at,
+    'opening_float', v_shift.opening_float,
+    'orders_paid', (SELECT COUNT(DISTINCT order_id) FROM public.order_payments WHERE shift_id = p_shift_id),
+    'gross_sales', (SELECT COALESCE(SUM(amount), 0) FROM public.order_payments WHERE shift_id = p_shift_id),
+    'sales_by_tender', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('method', method, 'count', payment_count, 'amount', total) ORDER BY method)
+      FROM (
+        SELECT method, COUNT(*) AS payment_count, SUM(amount) AS total
+        FROM public.order_payments WHERE shift_id = p_shift_id
+        GROUP BY method
+      ) tenders
+    ), '[]'::JSONB),
+    'cash_sales', v_cash_sales,
+    'cash_drops', v_cash_drops,
+    'paid_outs', v_paid_outs,
+    'refunds', jsonb_build_object(
+      'count', (SELECT COUNT(*) FROM public.order_actions
+                WHERE action_type = 'refund' AND action_by = v_shift.cashier_id
+                  AND created_at >= v_shift.opened_at AND created_at <= v_until),
+      'amount', v_refunds
+    ),
+    'discounts', (
+      SELECT jsonb_build_object('count', COUNT(*), 'amount', COALESCE(SUM(amount), 0))
+      FROM (
+        SELECT discount_amount AS amount FROM public.order_discounts
+        WHERE applied_by = v_shift.cashier_id AND created_at >= v_shift.opened_at AND created_at <= v_until
+      ) discounts
+    ),
+    'voids', (
+      SELECT jsonb_build_object('count', COUNT(*), 'amount', COALESCE(SUM(o.total_amount), 0))
+      FROM public.order_actions a
+      JOIN public.orders o ON o.id = a.order_id
+      WHERE a.action_type IN ('cancel', 'void') AND a.action_by = v_shift.cashier_id
+        AND a.created_at >= v_shift.opened_at AND a.created_at <= v_until
+    ),
+    'expected_cash', v_expected,
+    'counted_cash', v_shift.counted_cash,
+    'variance', CASE WHEN v_shift.counted_cash IS NULL THEN NULL ELSE v_shift.counted_cash - v_expected END
+  );
+END;
+$$;
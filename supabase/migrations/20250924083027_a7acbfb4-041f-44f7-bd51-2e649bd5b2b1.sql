@@ -0,0 +1,50 @@
+-- The rest of the business profile, so no page hard-codes the shop's details.
+-- opening_hours maps mon..sun to {"open": "HH:MM", "close": "HH:MM"}, or null when closed.
+ALTER TABLE public.store_settings
+  ADD COLUMN logo_url TEXT DEFAULT '/lovable-uploads/de766a0c-8555-4067-98ad-1830ddc6138a.png',
+  ADD COLUMN tagline TEXT DEFAULT 'Fresh coffee, made with love',
+  ADD COLUMN receipt_header TEXT,
+  ADD COLUMN receipt_footer TEXT DEFAULT 'Thank you!',
+  ADD COLUMN order_number_prefix TEXT NOT NULL DEFAULT 'ORD' CHECK (order_number_prefix ~ '^[A-Z0-9]{1,6}$'),
+  ADD COLUMN currency TEXT NOT NULL DEFAULT 'PHP' CHECK (currency ~ '^[A-Z]{3}$'),
+  ADD COLUMN opening_hours JSONB NOT NULL DEFAULT '{
+    "mon": {"open": "07:00", "close": "21:00"},
+    "tue": {"open": "07:00", "close": "21:00"},
+    "wed": {"open": "07:00", "close": "21:00"},
+    "thu": {"open": "07:00", "close": "21:00"},
+    "fri": {"open": "07:00", "close": "21:00"},
+    "sat": {"open": "07:00", "close": "21:00"},
+    "sun": {"open": "07:00", "close": "21:00"}
+  }'::JSONB;
+
+-- Receipt numbering only moves forward through record_payments
+CREATE OR REPLACE FUNCTION public.protect_or_sequence()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.next_or_number < OLD.next_or_number THEN
+    RAISE EXCEPTION 'Official receipt numbers cannot be reused.';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_store_settings_or_sequence
+  BEFORE UPDATE OF next_or_number ON public.store_settings
+  FOR EACH ROW EXECUTE FUNCTION public.protect_or_sequence();
+
+CREATE OR REPLACE FUNCTION public.generate_order_number()
+RETURNS text
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  order_num TEXT;
+BEGIN
+  order_num := COALESCE((SELECT order_number_prefix FROM public.store_settings), 'ORD')
+    || '-' || TO_CHAR(NOW(), 'YYYYMMDD') || '-' || LPAD(NEXTVAL('public.order_sequence')::TEXT, 4, '0');
+  RETURN order_num;
+END;
+$$;
@@ -0,0 +1,248 @@
+-- Idempotency keys let the offline outbox replay requests without duplicating them
+ALTER TABLE public.orders ADD COLUMN client_request_id UUID;
+ALTER TABLE public.order_actions ADD COLUMN client_request_id UUID;
+
+CREATE UNIQUE INDEX orders_client_request_id_key ON public.orders (client_request_id);
+CREATE UNIQUE INDEX order_actions_client_request_id_key ON public.order_actions (client_request_id);
+
+-- place_order gains an optional idempotency key
+DROP FUNCTION public.place_order(TEXT, JSONB, TEXT, TEXT);
+
+CREATE FUNCTION public.place_order(
+  p_customer_name TEXT,
+  p_items JSONB,
+  p_customer_notes TEXT DEFAULT NULL,
+  p_order_type TEXT DEFAULT 'takeout',
+  p_client_request_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_item JSONB;
+  v_line JSONB;
+  v_lines JSONB := '[]'::JSONB;
+  v_menu_item public.menu_items%ROWTYPE;
+  v_group public.modifier_groups%ROWTYPE;
+  v_quantity INTEGER;
+  v_option_ids UUID[];
+  v_count INTEGER;
+  v_modifiers_total NUMERIC(10,2);
+  v_unit_price NUMERIC(10,2);
+  v_total NUMERIC(10,2) := 0;
+  v_tax NUMERIC(10,2);
+  v_order_id UUID;
+  v_order_number TEXT;
+  v_tracking_token TEXT;
+  v_order_item_id UUID;
+BEGIN
+  -- A replayed offline order returns the order it already created
+  IF p_client_request_id IS NOT NULL THEN
+    SELECT id, order_number, tracking_token INTO v_order_id, v_order_number, v_tracking_token
+    FROM public.orders
+    WHERE client_request_id = p_client_request_id;
+
+    IF FOUND THEN
+      RETURN (
+        SELECT jsonb_build_object(
+          'id', id,
+          'order_number', order_number,
+          'tracking_token', tracking_token,
+          'total_amount', total_amount,
+          'tax_amount', tax_amount
+        )
+        FROM public.orders
+        WHERE id = v_order_id
+      );
+    END IF;
+  END IF;
+
+  IF p_customer_name IS NULL OR length(trim(p_customer_name)) < 2 THEN
+    RAISE EXCEPTION 'Customer name must be at least 2 characters.';
+  END IF;
+
+  IF length(p_customer_notes) > 500 THEN
+    RAISE EXCEPTION 'Special instructions must be 500 characters or less.';
+  END IF;
+
+  IF p_order_type NOT IN ('takeout', 'dine_in') THEN
+    RAISE EXCEPTION 'Invalid order type: %', p_order_type;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Please add items to your cart before ordering.';
+  END IF;
+
+  -- Validate and price every line before anything is written
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+    SELECT * INTO v_menu_item FROM public.menu_items WHERE id = (v_item->>'menu_item_id')::UUID;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Menu item not found.';
+    END IF;
+
+    IF NOT COALESCE(v_menu_item.is_available, false) THEN
+      RAISE EXCEPTION '% is no longer available.', v_menu_item.name;
+    END IF;
+
+    v_quantity := (v_item->>'quantity')::INTEGER;
+    IF v_quantity IS NULL OR v_quantity < 1 OR v_quantity > 99 THEN
+      RAISE EXCEPTION 'Invalid quantity for %.', v_menu_item.name;
+    END IF;
+
+    v_option_ids := ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_item->'modifier_option_ids', '[]'::JSONB))::UUID);
+
+    -- Every option must be available and belong to a group of this item or its category
+    SELECT COUNT(*) INTO v_count
+    FROM public.modifier_options o
+    JOIN public.modifier_groups g ON g.id = o.group_id
+    WHERE o.id = ANY(v_option_ids)
+      AND o.is_available
+      AND (g.menu_item_id = v_menu_item.id OR g.category_id = v_menu_item.category_id);
+
+    IF v_count <> cardinality(v_option_ids) THEN
+      RAISE EXCEPTION 'Some options for % are no longer available.', v_menu_item.name;
+    END IF;
+
+    FOR v_group IN
+      SELECT * FROM public.modifier_groups
+      WHERE menu_item_id = v_menu_item.id OR category_id = v_menu_item.category_id
+    LOOP
+      SELECT COUNT(*) INTO v_count
+      FROM public.modifier_options
+      WHERE group_id = v_group.id AND id = ANY(v_option_ids);
+
+      IF v_count < (CASE WHEN v_group.is_required THEN GREATEST(v_group.min_selections, 1) ELSE v_group.min_selections END)
+         OR v_count > v_group.max_selections THEN
+        RAISE EXCEPTION 'Please check your % choice for %.', v_group.name, v_menu_item.name;
+      END IF;
+    END LOOP;
+
+    SELECT COALESCE(SUM(price_delta), 0) INTO v_modifiers_total
+    FROM public.modifier_options
+    WHERE id = ANY(v_option_ids);
+
+    v_unit_price := v_menu_item.price + v_modifiers_total;
+    v_total := v_total + v_unit_price * v_quantity;
+
+    v_lines := v_lines || jsonb_build_object(
+      'menu_item_id', v_menu_item.id,
+      'quantity', v_quantity,
+      'unit_price', v_unit_price,
+      'tax_type', v_menu_item.tax_type,
+      'notes', NULLIF(left(trim(v_item->>'notes'), 200), ''),
+      'modifier_option_ids', to_jsonb(v_option_ids)
+    );
+  END LOOP;
+
+  v_order_number := public.generate_order_number();
+
+  INSERT INTO public.orders (order_number, customer_name, customer_notes, total_amount, status, payment_method, order_type, client_request_id)
+  VALUES (v_order_number, trim(p_customer_name), NULLIF(trim(p_customer_notes), ''), v_total, 'pending', 'cash', p_order_type, p_client_request_id)
+  RETURNING id, tracking_token INTO v_order_id, v_tracking_token;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(v_lines) LOOP
+    INSERT INTO public.order_items (order_id, menu_item_id, quantity, unit_price, total_price, special_instructions, tax_type)
+    VALUES (
+      v_order_id,
+      (v_line->>'menu_item_id')::UUID,
+      (v_line->>'quantity')::INTEGER,
+      (v_line->>'unit_price')::NUMERIC,
+      (v_line->>'unit_price')::NUMERIC * (v_line->>'quantity')::INTEGER,
+      v_line->>'notes',
+      v_line->>'tax_type'
+    )
+    RETURNING id INTO v_order_item_id;
+
+    INSERT INTO public.order_item_modifiers (order_item_id, modifier_option_id, group_name, option_name, price_delta)
+    SELECT v_order_item_id, o.id, g.name, o.name, o.price_delta
+    FROM public.modifier_options o
+    JOIN public.modifier_groups g ON g.id = o.group_id
+    WHERE o.id IN (SELECT jsonb_array_elements_text(v_line->'modifier_option_ids')::UUID);
+  END LOOP;
+
+  PERFORM public.recalculate_order_totals(v_order_id);
+  SELECT tax_amount INTO v_tax FROM public.orders WHERE id = v_order_id;
+
+  RETURN jsonb_build_object(
+    'id', v_order_id,
+    'order_number', v_order_number,
+    'tracking_token', v_tracking_token,
+    'total_amount', v_total,
+    'tax_amount', v_tax
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.place_order(TEXT, JSONB, TEXT, TEXT, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.place_order(TEXT, JSONB, TEXT, TEXT, UUID) TO anon, authenticated;
+
+-- Status change plus its audit row in one call. p_expected_status is the status the
+-- device saw when the change was made; if the order has since moved on, the change
+-- is rejected as a conflict instead of overwriting the newer status.
+CREATE OR REPLACE FUNCTION public.apply_order_action(
+  p_order_id UUID,
+  p_action_type TEXT,
+  p_new_status TEXT,
+  p_expected_status TEXT DEFAULT NULL,
+  p_amount NUMERIC DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_client_request_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+BEGIN
+  IF NOT public.has_role(ARRAY['owner', 'admin', 'manager', 'cashier', 'staff']) THEN
+    RAISE EXCEPTION 'You do not have permission to update orders.';
+  END IF;
+
+  IF p_client_request_id IS NOT NULL
+     AND EXISTS (SELECT 1 FROM public.order_actions WHERE client_request_id = p_client_request_id) THEN
+    RETURN jsonb_build_object('applied', true, 'duplicate', true);
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found.';
+  END IF;
+
+  IF p_expected_status IS NOT NULL AND v_order.status IS DISTINCT FROM p_expected_status THEN
+    -- Another device already made the same change
+    IF v_order.status = p_new_status THEN
+      RETURN jsonb_build_object('applied', true, 'duplicate', true);
+    END IF;
+
+    RETURN jsonb_build_object(
+      'applied', false,
+      'conflict', true,
+      'order_number', v_order.order_number,
+      'current_status', v_order.status
+    );
+  END IF;
+
+  UPDATE public.orders SET status = p_new_status WHERE id = p_order_id;
+
+  INSERT INTO public.order_actions (order_id, action_type, action_by, amount, reason, notes, client_request_id)
+  VALUES (p_order_id, p_action_type, auth.uid(), p_amount, p_reason, p_notes, p_client_request_id);
+
+  PERFORM public.log_activity(
+    'order_action',
+    'Order ' || v_order.order_number || ' ' || p_action_type,
+    jsonb_build_object('order_id', p_order_id, 'action', p_action_type, 'new_status', p_new_status)
+  );
+
+  RETURN jsonb_build_object('applied', true, 'status', p_new_status);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.apply_order_action(UUID, TEXT, TEXT, TEXT, NUMERIC, TEXT, TEXT, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.apply_order_action(UUID, TEXT, TEXT, TEXT, NUMERIC, TEXT, TEXT, UUID) TO authenticated;
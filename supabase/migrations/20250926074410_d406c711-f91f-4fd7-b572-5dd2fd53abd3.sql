@@ -0,0 +1,3 @@
+-- Receipt printer paper: 58mm prints 32 characters per line, 80mm prints 48
+ALTER TABLE public.store_settings
+  ADD COLUMN paper_width INTEGER NOT NULL DEFAULT 58 CHECK (paper_width IN (58, 80));
@@ -0,0 +1,26 @@
+-- Station printers kitchen tickets are sent to. Bluetooth printers are paired on a
+-- till; network printers take raw ESC/POS posted to an HTTP print bridge at address.
+CREATE TABLE public.printers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  connection TEXT NOT NULL DEFAULT 'bluetooth' CHECK (connection IN ('bluetooth', 'network')),
+  address TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (connection <> 'network' OR address IS NOT NULL)
+);
+
+CREATE TRIGGER update_printers_updated_at BEFORE UPDATE ON public.printers FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.printers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view printers" ON public.printers FOR SELECT TO authenticated
+  USING (public.has_role(ARRAY['owner', 'admin', 'manager', 'cashier', 'staff']));
+CREATE POLICY "Managers can manage printers" ON public.printers FOR ALL TO authenticated
+  USING (public.has_role(ARRAY['owner', 'admin', 'manager']))
+  WITH CHECK (public.has_role(ARRAY['owner', 'admin', 'manager']));
+
+-- Items in a category without a printer go to the till's own printer
+ALTER TABLE public.categories
+  ADD COLUMN printer_id UUID REFERENCES public.printers(id) ON DELETE SET NULL;
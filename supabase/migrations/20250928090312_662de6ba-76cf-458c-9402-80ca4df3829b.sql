@@ -0,0 +1,147 @@
+-- Everything the reports page charts, aggregated here so the browser never downloads
+-- individual order lines. Dates are the store's local calendar days in p_tz, p_from
+-- to p_to inclusive; the previous period is the same number of days right before it.
+CREATE OR REPLACE FUNCTION public.get_sales_report(p_from DATE, p_to DATE, p_tz TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_days INTEGER;
+  v_start TIMESTAMP WITH TIME ZONE;
+  v_end TIMESTAMP WITH TIME ZONE;
+  v_prev_start TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF NOT public.has_role(ARRAY['owner', 'admin', 'manager']) THEN
+    RAISE EXCEPTION 'Only managers can view reports.';
+  END IF;
+
+  IF p_to < p_from THEN
+    RAISE EXCEPTION 'The end date is before the start date.';
+  END IF;
+
+  v_days := p_to - p_from + 1;
+  IF v_days > 366 THEN
+    RAISE EXCEPTION 'Reports cover at most a year at a time.';
+  END IF;
+
+  v_start := p_from::TIMESTAMP AT TIME ZONE p_tz;
+  v_end := (p_to + 1)::TIMESTAMP AT TIME ZONE p_tz;
+  v_prev_start := (p_from - v_days)::TIMESTAMP AT TIME ZONE p_tz;
+
+  RETURN jsonb_build_object(
+    'summary', (
+      SELECT jsonb_build_object(
+        'sales', COALESCE(SUM(total_amount) FILTER (WHERE created_at >= v_start), 0),
+        'orders', COUNT(*) FILTER (WHERE created_at >= v_start),
+        'tax', COALESCE(SUM(tax_amount) FILTER (WHERE created_at >= v_start), 0),
+        'previous_sales', COALESCE(SUM(total_amount) FILTER (WHERE created_at < v_start), 0),
+        'previous_orders', COUNT(*) FILTER (WHERE created_at < v_start)
+      )
+      FROM public.orders
+      WHERE status = 'completed' AND created_at >= v_prev_start AND created_at < v_end
+    ),
+    -- One row per day of the period, lined up with the same day of the previous period
+    'daily', (
+      SELECT jsonb_agg(jsonb_build_object(
+        'date', p_from + d.day_index,
+        'sales', COALESCE(cur.sales, 0),
+        'orders', COALESCE(cur.orders, 0),
+        'previous_sales', COALESCE(prev.sales, 0)
+      ) ORDER BY d.day_index)
+      FROM generate_series(0, v_days - 1) AS d(day_index)
+      LEFT JOIN (
+        SELECT (created_at AT TIME ZONE p_tz)::DATE - p_from AS day_index, SUM(total_amount) AS sales, COUNT(*) AS orders
+        FROM public.orders
+        WHERE status = 'completed' AND created_at >= v_start AND created_at < v_end
+        GROUP BY 1
+      ) cur ON cur.day_index = d.day_index
+      LEFT JOIN (
+        SELECT (created_at AT TIME ZONE p_tz)::DATE - (p_from - v_days) AS day_index, SUM(total_amount) AS sales
+        FROM public.orders
+        WHERE status = 'completed' AND created_at >= v_prev_start AND created_at < v_start
+        GROUP BY 1
+      ) prev ON prev.day_index = d.day_index
+    ),
+    -- Weekday 1 = Monday
+    'heatmap', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('weekday', weekday, 'hour', hour, 'orders', orders, 'sales', sales))
+      FROM (
+        SELECT
+          EXTRACT(ISODOW FROM created_at AT TIME ZONE p_tz)::INTEGER AS weekday,
+          EXTRACT(HOUR FROM created_at AT TIME ZONE p_tz)::INTEGER AS hour,
+          COUNT(*) AS orders,
+          SUM(total_amount) AS sales
+        FROM public.orders
+        WHERE status = 'completed' AND created_at >= v_start AND created_at < v_end
+        GROUP BY 1, 2
+      ) cells
+    ), '[]'::JSONB),
+    'categories', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('name', name, 'quantity', quantity, 'revenue', revenue) ORDER BY revenue DESC)
+      FROM (
+        SELECT COALESCE(c.name, 'Uncategorized') AS name, SUM(oi.quantity) AS quantity, SUM(oi.total_price) AS revenue
+        FROM public.order_items oi
+        JOIN public.orders o ON o.id = oi.order_id
+        LEFT JOIN public.menu_items mi ON mi.id = oi.menu_item_id
+        LEFT JOIN public.categories c ON c.id = mi.category_id
+        WHERE o.status = 'completed' AND o.created_at >= v_start AND o.created_at < v_end
+        GROUP BY 1
+      ) category_mix
+    ), '[]'::JSONB),
+    'items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('name', name, 'quantity', quantity, 'revenue', revenue) ORDER BY revenue DESC)
+      FROM (
+        SELECT COALESCE(mi.name, 'Unknown Item') AS name, SUM(oi.quantity) AS quantity, SUM(oi.total_price) AS revenue
+        FROM public.order_items oi
+        JOIN public.orders o ON o.id = oi.order_id
+        LEFT JOIN public.menu_items mi ON mi.id = oi.menu_item_id
+        WHERE o.status = 'completed' AND o.created_at >= v_start AND o.created_at < v_end
+        GROUP BY 1
+        ORDER BY revenue DESC
+        LIMIT 10
+      ) item_mix
+    ), '[]'::JSONB),
+    -- Credited to whoever took the payment
+    'cashiers', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'cashier_id', received_by,
+        'name', COALESCE((SELECT full_name FROM public.profiles WHERE user_id = received_by), 'Unknown'),
+        'orders', orders,
+        'sales', sales
+      ) ORDER BY sales DESC)
+      FROM (
+        SELECT p.received_by, COUNT(DISTINCT p.order_id) AS orders, SUM(p.amount) AS sales
+        FROM public.order_payments p
+        JOIN public.orders o ON o.id = p.order_id
+        WHERE o.status = 'completed' AND o.created_at >= v_start AND o.created_at < v_end
+        GROUP BY p.received_by
+      ) cashier_sales
+    ), '[]'::JSONB),
+    'adjustments', jsonb_build_object(
+      'discounts', (
+        SELECT jsonb_build_object('count', COUNT(*), 'amount', COALESCE(SUM(d.discount_amount), 0))
+        FROM public.order_discounts d
+        JOIN public.orders o ON o.id = d.order_id
+        WHERE o.status = 'completed' AND o.created_at >= v_start AND o.created_at < v_end
+      ),
+      'refunds', (
+        SELECT jsonb_build_object('count', COUNT(*), 'amount', COALESCE(SUM(amount), 0))
+        FROM public.order_actions
+        WHERE action_type = 'refund' AND created_at >= v_start AND created_at < v_end
+      ),
+      'voids', (
+        SELECT jsonb_build_object('count', COUNT(*), 'amount', COALESCE(SUM(o.total_amount), 0))
+        FROM public.order_actions a
+        JOIN public.orders o ON o.id = a.order_id
+        WHERE a.action_type IN ('cancel', 'void') AND a.created_at >= v_start AND a.created_at < v_end
+      )
+    )
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_sales_report(DATE, DATE, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_sales_report(DATE, DATE, TEXT) TO authenticated;
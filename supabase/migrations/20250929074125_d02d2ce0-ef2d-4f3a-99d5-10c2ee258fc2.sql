@@ -0,0 +1,281 @@
+-- Sales are counted per business day in the store's own time zone. A late-closing
+-- store can start the day at e.g. 4 AM so sales after midnight count towards the night before.
+ALTER TABLE public.store_settings
+  ADD COLUMN timezone TEXT NOT NULL DEFAULT 'Asia/Manila',
+  ADD COLUMN business_day_cutoff INTEGER NOT NULL DEFAULT 0 CHECK (business_day_cutoff BETWEEN 0 AND 23);
+
+-- The business day a moment falls in
+CREATE OR REPLACE FUNCTION public.business_date(p_at TIMESTAMP WITH TIME ZONE)
+RETURNS DATE
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT ((p_at AT TIME ZONE timezone) - make_interval(hours => business_day_cutoff))::DATE
+  FROM public.store_settings;
+$$;
+
+-- When a business day starts; the day ends where the next one starts
+CREATE OR REPLACE FUNCTION public.business_day_start(p_date DATE)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT (p_date + make_interval(hours => business_day_cutoff)) AT TIME ZONE timezone
+  FROM public.store_settings;
+$$;
+
+REVOKE ALL ON FUNCTION public.business_date(TIMESTAMP WITH TIME ZONE) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.business_date(TIMESTAMP WITH TIME ZONE) TO authenticated;
+REVOKE ALL ON FUNCTION public.business_day_start(DATE) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.business_day_start(DATE) TO authenticated;
+
+-- The Z-report shows which business day the shift belongs to
+CREATE OR REPLACE FUNCTION public.get_z_report(p_shift_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_shift public.cash_shifts%ROWTYPE;
+  v_until TIMESTAMP WITH TIME ZONE;
+  v_cash_sales NUMERIC(10,2);
+  v_cash_drops NUMERIC(10,2);
+  v_paid_outs NUMERIC(10,2);
+  v_refunds NUMERIC(10,2);
+  v_expected NUMERIC(10,2);
+BEGIN
+  SELECT * INTO v_shift FROM public.cash_shifts WHERE id = p_shift_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shift not found.';
+  END IF;
+
+  IF v_shift.cashier_id <> auth.uid() AND NOT public.has_role(ARRAY['owner', 'admin', 'manager']) THEN
+    RAISE EXCEPTION 'You can only view your own shifts.';
+  END IF;
+
+  v_until := COALESCE(v_shift.closed_at, now());
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_cash_sales
+  FROM public.order_payments WHERE shift_id = p_shift_id AND method = 'cash';
+
+  SELECT
+    COALESCE(SUM(amount) FILTER (WHERE movement_type = 'cash_drop'), 0),
+    COALESCE(SUM(amount) FILTER (WHERE movement_type = 'paid_out'), 0)
+  INTO v_cash_drops, v_paid_outs
+  FROM public.cash_movements WHERE shift_id = p_shift_id;
+
+  -- Refunds are handed back from the drawer
+  SELECT COALESCE(SUM(amount), 0) INTO v_refunds
+  FROM public.order_actions
+  WHERE action_type = 'refund' AND action_by = v_shift.cashier_id
+    AND created_at >= v_shift.opened_at AND created_at <= v_until;
+
+  v_expected := v_shift.opening_float + v_cash_sales - v_cash_drops - v_paid_outs - v_refunds;
+
+  RETURN jsonb_build_object(
+    'shift_id', v_shift.id,
+    'cashier_id', v_shift.cashier_id,
+    'cashier_name', (SELECT full_name FROM public.profiles WHERE user_id = v_shift.cashier_id),
+    'business_date', public.business_date(v_shift.opened_at),
+    'opened_at', v_shift.opened_at,
+    'closed_at', v_shift.closed_at,
+    'opening_float', v_shift.opening_float,
+    'orders_paid', (SELECT COUNT(DISTINCT order_id) FROM public.order_payments WHERE shift_id = p_shift_id),
+    'gross_sales', (SELECT COALESCE(SUM(amount), 0) FROM public.order_payments WHERE shift_id = p_shift_id),
+    'sales_by_tender', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('method', method, 'count', payment_count, 'amount', total) ORDER BY method)
+      FROM (
+        SELECT method, COUNT(*) AS payment_count, SUM(amount) AS total
+        FROM public.order_payments WHERE shift_id = p_shift_id
+        GROUP BY method
+      ) tenders
+    ), '[]'::JSONB),
+    'cash_sales', v_cash_sales,
+    'cash_drops', v_cash_drops,
+    'paid_outs', v_paid_outs,
+    'refunds', jsonb_build_object(
+      'count', (SELECT COUNT(*) FROM public.order_actions
+                WHERE action_type = 'refund' AND action_by = v_shift.cashier_id
+                  AND created_at >= v_shift.opened_at AND created_at <= v_until),
+      'amount', v_refunds
+    ),
+    'discounts', (
+      SELECT jsonb_build_object('count', COUNT(*), 'amount', COALESCE(SUM(amount), 0))
+      FROM (
+        SELECT discount_amount AS amount FROM public.order_discounts
+        WHERE applied_by = v_shift.cashier_id AND created_at >= v_shift.opened_at AND created_at <= v_until
+      ) discounts
+    ),
+    'voids', (
+      SELECT jsonb_build_object('count', COUNT(*), 'amount', COALESCE(SUM(o.total_amount), 0))
+      FROM public.order_actions a
+      JOIN public.orders o ON o.id = a.order_id
+      WHERE a.action_type IN ('cancel', 'void') AND a.action_by = v_shift.cashier_id
+        AND a.created_at >= v_shift.opened_at AND a.created_at <= v_until
+    ),
+    'expected_cash', v_expected,
+    'counted_cash', v_shift.counted_cash,
+    'variance', CASE WHEN v_shift.counted_cash IS NULL THEN NULL ELSE v_shift.counted_cash - v_expected END
+  );
+END;
+$$;
+
+-- Day boundaries now come from the store settings instead of the browser's time zone
+DROP FUNCTION IF EXISTS public.get_sales_report(DATE, DATE, TEXT);
+
+-- Everything the reports page charts, aggregated here so the browser never downloads
+-- individual order lines. p_from to p_to are business days, inclusive; the previous
+-- period is the same number of days right before it.
+CREATE OR REPLACE FUNCTION public.get_sales_report(p_from DATE, p_to DATE)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_days INTEGER;
+  v_start TIMESTAMP WITH TIME ZONE;
+  v_end TIMESTAMP WITH TIME ZONE;
+  v_prev_start TIMESTAMP WITH TIME ZONE;
+  v_tz TEXT;
+BEGIN
+  IF NOT public.has_role(ARRAY['owner', 'admin', 'manager']) THEN
+    RAISE EXCEPTION 'Only managers can view reports.';
+  END IF;
+
+  IF p_to < p_from THEN
+    RAISE EXCEPTION 'The end date is before the start date.';
+  END IF;
+
+  v_days := p_to - p_from + 1;
+  IF v_days > 366 THEN
+    RAISE EXCEPTION 'Reports cover at most a year at a time.';
+  END IF;
+
+  v_start := public.business_day_start(p_from);
+  v_end := public.business_day_start(p_to + 1);
+  v_prev_start := public.business_day_start(p_from - v_days);
+  SELECT timezone INTO v_tz FROM public.store_settings;
+
+  RETURN jsonb_build_object(
+    'summary', (
+      SELECT jsonb_build_object(
+        'sales', COALESCE(SUM(total_amount) FILTER (WHERE created_at >= v_start), 0),
+        'orders', COUNT(*) FILTER (WHERE created_at >= v_start),
+        'tax', COALESCE(SUM(tax_amount) FILTER (WHERE created_at >= v_start), 0),
+        'previous_sales', COALESCE(SUM(total_amount) FILTER (WHERE created_at < v_start), 0),
+        'previous_orders', COUNT(*) FILTER (WHERE created_at < v_start)
+      )
+      FROM public.orders
+      WHERE status = 'completed' AND created_at >= v_prev_start AND created_at < v_end
+    ),
+    -- One row per day of the period, lined up with the same day of the previous period
+    'daily', (
+      SELECT jsonb_agg(jsonb_build_object(
+        'date', p_from + d.day_index,
+        'sales', COALESCE(cur.sales, 0),
+        'orders', COALESCE(cur.orders, 0),
+        'previous_sales', COALESCE(prev.sales, 0)
+      ) ORDER BY d.day_index)
+      FROM generate_series(0, v_days - 1) AS d(day_index)
+      LEFT JOIN (
+        SELECT public.business_date(created_at) - p_from AS day_index, SUM(total_amount) AS sales, COUNT(*) AS orders
+        FROM public.orders
+        WHERE status = 'completed' AND created_at >= v_start AND created_at < v_end
+        GROUP BY 1
+      ) cur ON cur.day_index = d.day_index
+      LEFT JOIN (
+        SELECT public.business_date(created_at) - (p_from - v_days) AS day_index, SUM(total_amount) AS sales
+        FROM public.orders
+        WHERE status = 'completed' AND created_at >= v_prev_start AND created_at < v_start
+        GROUP BY 1
+      ) prev ON prev.day_index = d.day_index
+    ),
+    -- Clock time in the store, so a 1 AM sale shows at 1 AM even when it belongs to the day before. Weekday 1 = Monday
+    'heatmap', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('weekday', weekday, 'hour', hour, 'orders', orders, 'sales', sales))
+      FROM (
+        SELECT
+          EXTRACT(ISODOW FROM created_at AT TIME ZONE v_tz)::INTEGER AS weekday,
+          EXTRACT(HOUR FROM created_at AT TIME ZONE v_tz)::INTEGER AS hour,
+          COUNT(*) AS orders,
+          SUM(total_amount) AS sales
+        FROM public.orders
+        WHERE status = 'completed' AND created_at >= v_start AND created_at < v_end
+        GROUP BY 1, 2
+      ) cells
+    ), '[]'::JSONB),
+    'categories', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('name', name, 'quantity', quantity, 'revenue', revenue) ORDER BY revenue DESC)
+      FROM (
+        SELECT COALESCE(c.name, 'Uncategorized') AS name, SUM(oi.quantity) AS quantity, SUM(oi.total_price) AS revenue
+        FROM public.order_items oi
+        JOIN public.orders o ON o.id = oi.order_id
+        LEFT JOIN public.menu_items mi ON mi.id = oi.menu_item_id
+        LEFT JOIN public.categories c ON c.id = mi.category_id
+        WHERE o.status = 'completed' AND o.created_at >= v_start AND o.created_at < v_end
+        GROUP BY 1
+      ) category_mix
+    ), '[]'::JSONB),
+    'items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('name', name, 'quantity', quantity, 'revenue', revenue) ORDER BY revenue DESC)
+      FROM (
+        SELECT COALESCE(mi.name, 'Unknown Item') AS name, SUM(oi.quantity) AS quantity, SUM(oi.total_price) AS revenue
+        FROM public.order_items oi
+        JOIN public.orders o ON o.id = oi.order_id
+        LEFT JOIN public.menu_items mi ON mi.id = oi.menu_item_id
+        WHERE o.status = 'completed' AND o.created_at >= v_start AND o.created_at < v_end
+        GROUP BY 1
+        ORDER BY revenue DESC
+        LIMIT 10
+      ) item_mix
+    ), '[]'::JSONB),
+    -- Credited to whoever took the payment
+    'cashiers', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'cashier_id', received_by,
+        'name', COALESCE((SELECT full_name FROM public.profiles WHERE user_id = received_by), 'Unknown'),
+        'orders', orders,
+        'sales', sales
+      ) ORDER BY sales DESC)
+      FROM (
+        SELECT p.received_by, COUNT(DISTINCT p.order_id) AS orders, SUM(p.amount) AS sales
+        FROM public.order_payments p
+        JOIN public.orders o ON o.id = p.order_id
+        WHERE o.status = 'completed' AND o.created_at >= v_start AND o.created_at < v_end
+        GROUP BY p.received_by
+      ) cashier_sales
+    ), '[]'::JSONB),
+    'adjustments', jsonb_build_object(
+      'discounts', (
+        SELECT jsonb_build_object('count', COUNT(*), 'amount', COALESCE(SUM(d.discount_amount), 0))
+        FROM public.order_discounts d
+        JOIN public.orders o ON o.id = d.order_id
+        WHERE o.status = 'completed' AND o.created_at >= v_start AND o.created_at < v_end
+      ),
+      'refunds', (
+        SELECT jsonb_build_object('count', COUNT(*), 'amount', COALESCE(SUM(amount), 0))
+        FROM public.order_actions
+        WHERE action_type = 'refund' AND created_at >= v_start AND created_at < v_end
+      ),
+      'voids', (
+        SELECT jsonb_build_object('count', COUNT(*), 'amount', COALESCE(SUM(o.total_amount), 0))
+        FROM public.order_actions a
+        JOIN public.orders o ON o.id = a.order_id
+        WHERE a.action_type IN ('cancel', 'void') AND a.created_at >= v_start AND a.created_at < v_end
+      )
+    )
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_sales_report(DATE, DATE) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_sales_report(DATE, DATE) TO authenticated;
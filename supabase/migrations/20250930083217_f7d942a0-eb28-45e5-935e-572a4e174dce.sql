@@ -0,0 +1,53 @@
+-- Sales History pages through orders on the server, newest first by default
+CREATE INDEX IF NOT EXISTS idx_orders_created_at ON public.orders(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_orders_cashier_id ON public.orders(cashier_id);
+
+-- Totals over every order matching the Sales History filters, not just the page on screen.
+-- NULL parameters are not filtered on; p_to is exclusive.
+CREATE OR REPLACE FUNCTION public.get_order_totals(
+  p_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_status TEXT DEFAULT NULL,
+  p_payment_method TEXT DEFAULT NULL,
+  p_cashier_id UUID DEFAULT NULL,
+  p_min_amount NUMERIC DEFAULT NULL,
+  p_max_amount NUMERIC DEFAULT NULL,
+  p_search TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_totals JSONB;
+BEGIN
+  IF NOT public.has_role(ARRAY['owner', 'admin', 'manager', 'cashier']) THEN
+    RAISE EXCEPTION 'Only cashiers and managers can view sales history.';
+  END IF;
+
+  SELECT jsonb_build_object(
+    'orders', COUNT(*),
+    'sales', COALESCE(SUM(o.total_amount), 0),
+    'tax', COALESCE(SUM(o.tax_amount), 0)
+  )
+  INTO v_totals
+  FROM public.orders o
+  WHERE (p_from IS NULL OR o.created_at >= p_from)
+    AND (p_to IS NULL OR o.created_at < p_to)
+    AND (p_status IS NULL OR o.status = p_status)
+    AND (p_payment_method IS NULL OR o.payment_method = p_payment_method)
+    AND (p_cashier_id IS NULL OR o.cashier_id = p_cashier_id)
+    AND (p_min_amount IS NULL OR o.total_amount >= p_min_amount)
+    AND (p_max_amount IS NULL OR o.total_amount <= p_max_amount)
+    AND (p_search IS NULL
+      OR o.order_number ILIKE '%' || p_search || '%'
+      OR o.customer_name ILIKE '%' || p_search || '%');
+
+  RETURN v_totals;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_order_totals(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, UUID, NUMERIC, NUMERIC, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_order_totals(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, UUID, NUMERIC, NUMERIC, TEXT) TO authenticated;
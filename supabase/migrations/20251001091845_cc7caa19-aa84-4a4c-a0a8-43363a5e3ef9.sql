@@ -0,0 +1,908 @@
+-- Order lines are voided rather than deleted, so the audit trail and reports can still see them
+ALTER TABLE public.order_items
+  ADD COLUMN voided_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN voided_by UUID REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  ADD COLUMN void_reason TEXT;
+
+-- Every edit records what it changed
+ALTER TABLE public.order_actions
+  ADD COLUMN order_item_id UUID REFERENCES public.order_items(id) ON DELETE SET NULL,
+  ADD COLUMN before_values JSONB,
+  ADD COLUMN after_values JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_order_actions_order_id ON public.order_actions(order_id);
+
+-- Orders are voided, never deleted
+DROP POLICY IF EXISTS "Managers can delete orders" ON public.orders;
+
+-- Voided lines no longer count towards the order totals
+CREATE OR REPLACE FUNCTION public.recalculate_order_totals(p_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_vat_rate NUMERIC;
+  v_item_ids UUID[];
+  v_remaining NUMERIC[];
+  v_tax_types TEXT[];
+  v_exempt BOOLEAN[];
+  v_discount RECORD;
+  v_base NUMERIC(10,2);
+  v_amount NUMERIC(10,2);
+  v_left NUMERIC(10,2);
+  v_share NUMERIC(10,2);
+  v_last INT;
+  v_vat_exempt NUMERIC(10,2) := 0;
+  v_discount_total NUMERIC(10,2) := 0;
+  v_total NUMERIC(10,2) := 0;
+  v_line_vat NUMERIC(10,2);
+  v_vat NUMERIC(10,2) := 0;
+  v_vatable NUMERIC(10,2) := 0;
+  v_vat_exempt_sales NUMERIC(10,2) := 0;
+  v_zero_rated NUMERIC(10,2) := 0;
+  i INT;
+BEGIN
+  SELECT COALESCE((SELECT s.vat_rate FROM public.store_settings s), 0.12) INTO v_vat_rate;
+
+  SELECT
+    array_agg(id ORDER BY created_at, id),
+    array_agg(total_price ORDER BY created_at, id),
+    array_agg(tax_type ORDER BY created_at, id),
+    array_agg(false)
+  INTO v_item_ids, v_remaining, v_tax_types, v_exempt
+  FROM public.order_items WHERE order_id = p_order_id AND voided_at IS NULL;
+
+  IF v_item_ids IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Strip the VAT out of VATable lines covered by a VAT-exempt discount before any discount is taken
+  FOR v_discount IN
+    SELECT d.order_item_id
+    FROM public.order_discounts d
+    JOIN public.discount_types t ON t.id = d.discount_type_id
+    WHERE d.order_id = p_order_id AND t.vat_exempt
+  LOOP
+    FOR i IN 1 .. array_length(v_item_ids, 1) LOOP
+      IF NOT v_exempt[i] AND v_tax_types[i] = 'vatable'
+         AND (v_discount.order_item_id IS NULL OR v_discount.order_item_id = v_item_ids[i]) THEN
+        v_exempt[i] := true;
+        v_vat_exempt := v_vat_exempt + v_remaining[i] - round(v_remaining[i] / (1 + v_vat_rate), 2);
+        v_remaining[i] := round(v_remaining[i] / (1 + v_vat_rate), 2);
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  FOR v_discount IN
+    SELECT d.id, d.order_item_id, d.discount_amount, t.id AS type_id, t.value_type, t.value, t.max_amount
+    FROM public.order_discounts d
+    LEFT JOIN public.discount_types t ON t.id = d.discount_type_id
+    WHERE d.order_id = p_order_id
+    ORDER BY d.created_at, d.id
+  LOOP
+    v_base := 0;
+    v_last := NULL;
+    FOR i IN 1 .. array_length(v_item_ids, 1) LOOP
+      IF (v_discount.order_item_id IS NULL OR v_discount.order_item_id = v_item_ids[i]) AND v_remaining[i] > 0 THEN
+        v_base := v_base + v_remaining[i];
+        v_last := i;
+      END IF;
+    END LOOP;
+
+    IF v_discount.type_id IS NULL THEN
+      -- Typed-in discounts from before discount types keep their recorded amount
+      v_amount := COALESCE(v_discount.discount_amount, 0);
+    ELSIF v_discount.value_type = 'percentage' THEN
+      v_amount := round(v_base * v_discount.value / 100, 2);
+    ELSE
+      v_amount := v_discount.value;
+    END IF;
+
+    v_amount := LEAST(v_amount, v_base, COALESCE(v_discount.max_amount, v_amount));
+
+    -- Spread the discount over the lines it covers so VAT is worked out on what is left
+    v_left := v_amount;
+    FOR i IN 1 .. array_length(v_item_ids, 1) LOOP
+      IF v_base > 0 AND (v_discount.order_item_id IS NULL OR v_discount.order_item_id = v_item_ids[i]) AND v_remaining[i] > 0 THEN
+        v_share := LEAST(v_remaining[i], CASE WHEN i = v_last THEN v_left ELSE round(v_amount * v_remaining[i] / v_base, 2) END);
+        v_remaining[i] := v_remaining[i] - v_share;
+        v_left := v_left - v_share;
+      END IF;
+    END LOOP;
+    v_amount := v_amount - v_left;
+
+    UPDATE public.order_discounts SET discount_amount = v_amount WHERE id = v_discount.id;
+    v_discount_total := v_discount_total + v_amount;
+  END LOOP;
+
+  FOR i IN 1 .. array_length(v_item_ids, 1) LOOP
+    v_total := v_total + v_remaining[i];
+    v_line_vat := 0;
+
+    IF v_exempt[i] OR v_tax_types[i] = 'vat_exempt' THEN
+      v_vat_exempt_sales := v_vat_exempt_sales + v_remaining[i];
+    ELSIF v_tax_types[i] = 'zero_rated' THEN
+      v_zero_rated := v_zero_rated + v_remaining[i];
+    ELSE
+      v_line_vat := round(v_remaining[i] - v_remaining[i] / (1 + v_vat_rate), 2);
+      v_vatable := v_vatable + v_remaining[i] - v_line_vat;
+      v_vat := v_vat + v_line_vat;
+    END IF;
+
+    UPDATE public.order_items SET vat_amount = v_line_vat WHERE id = v_item_ids[i];
+  END LOOP;
+
+  UPDATE public.orders
+  SET total_amount = v_total,
+      tax_amount = v_vat,
+      discount_amount = v_discount_total,
+      vat_exempt_amount = v_vat_exempt,
+      vatable_sales = v_vatable,
+      vat_exempt_sales = v_vat_exempt_sales,
+      zero_rated_sales = v_zero_rated
+  WHERE id = p_order_id;
+END;
+$$;
+
+-- Status changes record the status they moved from
+CREATE OR REPLACE FUNCTION public.apply_order_action(
+  p_order_id UUID,
+  p_action_type TEXT,
+  p_new_status TEXT,
+  p_expected_status TEXT DEFAULT NULL,
+  p_amount NUMERIC DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_client_request_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+BEGIN
+  IF NOT public.has_role(ARRAY['owner', 'admin', 'manager', 'cashier', 'staff']) THEN
+    RAISE EXCEPTION 'You do not have permission to update orders.';
+  END IF;
+
+  IF p_client_request_id IS NOT NULL
+     AND EXISTS (SELECT 1 FROM public.order_actions WHERE client_request_id = p_client_request_id) THEN
+    RETURN jsonb_build_object('applied', true, 'duplicate', true);
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found.';
+  END IF;
+
+  IF p_expected_status IS NOT NULL AND v_order.status IS DISTINCT FROM p_expected_status THEN
+    -- Another device already made the same change
+    IF v_order.status = p_new_status THEN
+      RETURN jsonb_build_object('applied', true, 'duplicate', true);
+    END IF;
+
+    RETURN jsonb_build_object(
+      'applied', false,
+      'conflict', true,
+      'order_number', v_order.order_number,
+      'current_status', v_order.status
+    );
+  END IF;
+
+  UPDATE public.orders SET status = p_new_status WHERE id = p_order_id;
+
+  INSERT INTO public.order_actions (order_id, action_type, action_by, amount, reason, notes, client_request_id, before_values, after_values)
+  VALUES (
+    p_order_id, p_action_type, auth.uid(), p_amount, p_reason, p_notes, p_client_request_id,
+    jsonb_build_object('status', v_order.status),
+    jsonb_build_object('status', p_new_status)
+  );
+
+  PERFORM public.log_activity(
+    'order_action',
+    'Order ' || v_order.order_number || ' ' || p_action_type,
+    jsonb_build_object('order_id', p_order_id, 'action', p_action_type, 'new_status', p_new_status)
+  );
+
+  RETURN jsonb_build_object('applied', true, 'status', p_new_status);
+END;
+$$;
+
+-- Orders can be edited until they are paid; after that the change is a refund.
+-- Locks the order so two tills editing it at once apply one after the other.
+CREATE OR REPLACE FUNCTION public.lock_editable_order(p_order_id UUID)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+BEGIN
+  IF NOT public.has_role(ARRAY['owner', 'admin', 'manager', 'cashier']) THEN
+    RAISE EXCEPTION 'You do not have permission to edit orders.';
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found.';
+  END IF;
+
+  IF v_order.status NOT IN ('pending', 'preparing', 'ready') THEN
+    RAISE EXCEPTION 'Order % is % and can no longer be edited.', v_order.order_number, v_order.status;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.order_payments WHERE order_id = p_order_id) THEN
+    RAISE EXCEPTION 'Order % has been paid. Refund it instead of editing it.', v_order.order_number;
+  END IF;
+
+  RETURN v_order;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_order_totals_snapshot(p_order_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT jsonb_build_object(
+    'total_amount', total_amount,
+    'tax_amount', tax_amount,
+    'discount_amount', discount_amount
+  )
+  FROM public.orders
+  WHERE id = p_order_id;
+$$;
+
+-- Only called from the functions below
+REVOKE ALL ON FUNCTION public.lock_editable_order(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.get_order_totals_snapshot(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Adds a line to an unpaid order, priced and checked the same way place_order does
+CREATE OR REPLACE FUNCTION public.add_order_item(
+  p_order_id UUID,
+  p_menu_item_id UUID,
+  p_quantity INTEGER DEFAULT 1,
+  p_modifier_option_ids UUID[] DEFAULT '{}',
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_menu_item public.menu_items%ROWTYPE;
+  v_group public.modifier_groups%ROWTYPE;
+  v_option_ids UUID[] := COALESCE(p_modifier_option_ids, '{}');
+  v_count INTEGER;
+  v_unit_price NUMERIC(10,2);
+  v_before JSONB;
+  v_order_item_id UUID;
+BEGIN
+  v_order := public.lock_editable_order(p_order_id);
+  v_before := public.get_order_totals_snapshot(p_order_id);
+
+  SELECT * INTO v_menu_item FROM public.menu_items WHERE id = p_menu_item_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Menu item not found.';
+  END IF;
+
+  IF NOT COALESCE(v_menu_item.is_available, false) THEN
+    RAISE EXCEPTION '% is not available.', v_menu_item.name;
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity < 1 OR p_quantity > 99 THEN
+    RAISE EXCEPTION 'Invalid quantity for %.', v_menu_item.name;
+  END IF;
+
+  SELECT COUNT(*) INTO v_count
+  FROM public.modifier_options o
+  JOIN public.modifier_groups g ON g.id = o.group_id
+  WHERE o.id = ANY(v_option_ids)
+    AND o.is_available
+    AND (g.menu_item_id = v_menu_item.id OR g.category_id = v_menu_item.category_id);
+
+  IF v_count <> cardinality(v_option_ids) THEN
+    RAISE EXCEPTION 'Some options for % are not available.', v_menu_item.name;
+  END IF;
+
+  FOR v_group IN
+    SELECT * FROM public.modifier_groups
+    WHERE menu_item_id = v_menu_item.id OR category_id = v_menu_item.category_id
+  LOOP
+    SELECT COUNT(*) INTO v_count
+    FROM public.modifier_options
+    WHERE group_id = v_group.id AND id = ANY(v_option_ids);
+
+    IF v_count < (CASE WHEN v_group.is_required THEN GREATEST(v_group.min_selections, 1) ELSE v_group.min_selections END)
+       OR v_count > v_group.max_selections THEN
+      RAISE EXCEPTION 'Please check the % choice for %.', v_group.name, v_menu_item.name;
+    END IF;
+  END LOOP;
+
+  SELECT v_menu_item.price + COALESCE(SUM(price_delta), 0) INTO v_unit_price
+  FROM public.modifier_options
+  WHERE id = ANY(v_option_ids);
+
+  INSERT INTO public.order_items (order_id, menu_item_id, quantity, unit_price, total_price, special_instructions, tax_type)
+  VALUES (
+    p_order_id,
+    v_menu_item.id,
+    p_quantity,
+    v_unit_price,
+    v_unit_price * p_quantity,
+    NULLIF(left(trim(p_notes), 200), ''),
+    v_menu_item.tax_type
+  )
+  RETURNING id INTO v_order_item_id;
+
+  INSERT INTO public.order_item_modifiers (order_item_id, modifier_option_id, group_name, option_name, price_delta)
+  SELECT v_order_item_id, o.id, g.name, o.name, o.price_delta
+  FROM public.modifier_options o
+  JOIN public.modifier_groups g ON g.id = o.group_id
+  WHERE o.id = ANY(v_option_ids);
+
+  PERFORM public.recalculate_order_totals(p_order_id);
+
+  INSERT INTO public.order_actions (order_id, order_item_id, action_type, action_by, amount, before_values, after_values)
+  VALUES (
+    p_order_id, v_order_item_id, 'add_item', auth.uid(), v_unit_price * p_quantity,
+    v_before,
+    public.get_order_totals_snapshot(p_order_id) || jsonb_build_object('item', v_menu_item.name, 'quantity', p_quantity)
+  );
+
+  PERFORM public.log_activity(
+    'order_edit',
+    'Added ' || p_quantity || ' x ' || v_menu_item.name || ' to order ' || v_order.order_number,
+    jsonb_build_object('order_id', p_order_id, 'order_item_id', v_order_item_id, 'action', 'add_item')
+  );
+
+  RETURN jsonb_build_object('id', v_order_item_id) || public.get_order_totals_snapshot(p_order_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.update_order_item_quantity(p_order_item_id UUID, p_quantity INTEGER)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_item public.order_items%ROWTYPE;
+  v_order public.orders%ROWTYPE;
+  v_name TEXT;
+  v_before JSONB;
+BEGIN
+  IF p_quantity IS NULL OR p_quantity < 1 OR p_quantity > 99 THEN
+    RAISE EXCEPTION 'Quantity must be between 1 and 99. Void the line to remove it.';
+  END IF;
+
+  SELECT * INTO v_item FROM public.order_items WHERE id = p_order_item_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order line not found.';
+  END IF;
+
+  v_order := public.lock_editable_order(v_item.order_id);
+
+  -- Read again now the order is locked, in case another till just changed it
+  SELECT * INTO v_item FROM public.order_items WHERE id = p_order_item_id;
+
+  IF v_item.voided_at IS NOT NULL THEN
+    RAISE EXCEPTION 'That line has already been voided.';
+  END IF;
+
+  IF p_quantity = v_item.quantity THEN
+    RETURN public.get_order_totals_snapshot(v_item.order_id);
+  END IF;
+
+  SELECT name INTO v_name FROM public.menu_items WHERE id = v_item.menu_item_id;
+  v_before := public.get_order_totals_snapshot(v_item.order_id)
+    || jsonb_build_object('quantity', v_item.quantity, 'total_price', v_item.total_price);
+
+  UPDATE public.order_items
+  SET quantity = p_quantity,
+      total_price = unit_price * p_quantity
+  WHERE id = p_order_item_id;
+
+  PERFORM public.recalculate_order_totals(v_item.order_id);
+
+  INSERT INTO public.order_actions (order_id, order_item_id, action_type, action_by, amount, before_values, after_values)
+  VALUES (
+    v_item.order_id, p_order_item_id, 'change_quantity', auth.uid(), v_item.unit_price * (p_quantity - v_item.quantity),
+    v_before,
+    public.get_order_totals_snapshot(v_item.order_id)
+      || jsonb_build_object('quantity', p_quantity, 'total_price', v_item.unit_price * p_quantity)
+  );
+
+  PERFORM public.log_activity(
+    'order_edit',
+    'Changed ' || COALESCE(v_name, 'item') || ' from ' || v_item.quantity || ' to ' || p_quantity || ' on order ' || v_order.order_number,
+    jsonb_build_object('order_id', v_item.order_id, 'order_item_id', p_order_item_id, 'action', 'change_quantity')
+  );
+
+  RETURN public.get_order_totals_snapshot(v_item.order_id);
+END;
+$$;
+
+-- The line stays on the order, marked void, and stops counting towards the totals
+CREATE OR REPLACE FUNCTION public.void_order_item(p_order_item_id UUID, p_reason TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_item public.order_items%ROWTYPE;
+  v_order public.orders%ROWTYPE;
+  v_name TEXT;
+  v_before JSONB;
+BEGIN
+  IF p_reason IS NULL OR length(trim(p_reason)) = 0 THEN
+    RAISE EXCEPTION 'Please give a reason for the void.';
+  END IF;
+
+  SELECT * INTO v_item FROM public.order_items WHERE id = p_order_item_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order line not found.';
+  END IF;
+
+  v_order := public.lock_editable_order(v_item.order_id);
+
+  SELECT * INTO v_item FROM public.order_items WHERE id = p_order_item_id;
+
+  IF v_item.voided_at IS NOT NULL THEN
+    RAISE EXCEPTION 'That line has already been voided.';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.order_items
+    WHERE order_id = v_item.order_id AND id <> p_order_item_id AND voided_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'This is the last item on the order. Void the whole order instead.';
+  END IF;
+
+  SELECT name INTO v_name FROM public.menu_items WHERE id = v_item.menu_item_id;
+  v_before := public.get_order_totals_snapshot(v_item.order_id)
+    || jsonb_build_object('quantity', v_item.quantity, 'total_price', v_item.total_price);
+
+  UPDATE public.order_items
+  SET voided_at = now(),
+      voided_by = auth.uid(),
+      void_reason = trim(p_reason),
+      vat_amount = 0
+  WHERE id = p_order_item_id;
+
+  PERFORM public.recalculate_order_totals(v_item.order_id);
+
+  INSERT INTO public.order_actions (order_id, order_item_id, action_type, action_by, amount, reason, before_values, after_values)
+  VALUES (
+    v_item.order_id, p_order_item_id, 'void_item', auth.uid(), v_item.total_price, trim(p_reason),
+    v_before,
+    public.get_order_totals_snapshot(v_item.order_id) || jsonb_build_object('voided', true)
+  );
+
+  PERFORM public.log_activity(
+    'order_edit',
+    'Voided ' || COALESCE(v_name, 'item') || ' on order ' || v_order.order_number,
+    jsonb_build_object('order_id', v_item.order_id, 'order_item_id', p_order_item_id, 'action', 'void_item', 'reason', trim(p_reason))
+  );
+
+  RETURN public.get_order_totals_snapshot(v_item.order_id);
+END;
+$$;
+
+-- Replaces deleting orders: the order is cancelled and kept, with the void on record for the reports
+CREATE OR REPLACE FUNCTION public.void_order(p_order_id UUID, p_reason TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+BEGIN
+  IF NOT public.has_role(ARRAY['owner', 'admin', 'manager']) THEN
+    RAISE EXCEPTION 'Only managers can void orders.';
+  END IF;
+
+  IF p_reason IS NULL OR length(trim(p_reason)) = 0 THEN
+    RAISE EXCEPTION 'Please give a reason for the void.';
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found.';
+  END IF;
+
+  IF v_order.status IN ('cancelled', 'refunded') THEN
+    RAISE EXCEPTION 'Order % is already %.', v_order.order_number, v_order.status;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.order_payments WHERE order_id = p_order_id) THEN
+    RAISE EXCEPTION 'Order % has been paid. Refund it instead of voiding it.', v_order.order_number;
+  END IF;
+
+  UPDATE public.orders SET status = 'cancelled' WHERE id = p_order_id;
+
+  INSERT INTO public.order_actions (order_id, action_type, action_by, amount, reason, before_values, after_values)
+  VALUES (
+    p_order_id, 'void', auth.uid(), v_order.total_amount, trim(p_reason),
+    jsonb_build_object('status', v_order.status, 'total_amount', v_order.total_amount),
+    jsonb_build_object('status', 'cancelled')
+  );
+
+  PERFORM public.log_activity(
+    'order_action',
+    'Voided order ' || v_order.order_number,
+    jsonb_build_object('order_id', p_order_id, 'action', 'void', 'reason', trim(p_reason))
+  );
+
+  RETURN jsonb_build_object('status', 'cancelled');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.update_order_details(p_order_id UUID, p_customer_name TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+BEGIN
+  IF NOT public.has_role(ARRAY['owner', 'admin', 'manager', 'cashier']) THEN
+    RAISE EXCEPTION 'You do not have permission to edit orders.';
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found.';
+  END IF;
+
+  IF v_order.customer_name IS NOT DISTINCT FROM NULLIF(trim(p_customer_name), '') THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.orders SET customer_name = NULLIF(trim(p_customer_name), '') WHERE id = p_order_id;
+
+  INSERT INTO public.order_actions (order_id, action_type, action_by, before_values, after_values)
+  VALUES (
+    p_order_id, 'edit', auth.uid(),
+    jsonb_build_object('customer_name', v_order.customer_name),
+    jsonb_build_object('customer_name', NULLIF(trim(p_customer_name), ''))
+  );
+
+  PERFORM public.log_activity(
+    'order_edit',
+    'Updated order ' || v_order.order_number,
+    jsonb_build_object('order_id', p_order_id, 'action', 'edit')
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.add_order_item(UUID, UUID, INTEGER, UUID[], TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.add_order_item(UUID, UUID, INTEGER, UUID[], TEXT) TO authenticated;
+REVOKE ALL ON FUNCTION public.update_order_item_quantity(UUID, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.update_order_item_quantity(UUID, INTEGER) TO authenticated;
+REVOKE ALL ON FUNCTION public.void_order_item(UUID, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.void_order_item(UUID, TEXT) TO authenticated;
+REVOKE ALL ON FUNCTION public.void_order(UUID, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.void_order(UUID, TEXT) TO authenticated;
+REVOKE ALL ON FUNCTION public.update_order_details(UUID, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.update_order_details(UUID, TEXT) TO authenticated;
+
+-- Line voids count as voids on the Z-report, at the value of the line
+CREATE OR REPLACE FUNCTION public.get_z_report(p_shift_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_shift public.cash_shifts%ROWTYPE;
+  v_until TIMESTAMP WITH TIME ZONE;
+  v_cash_sales NUMERIC(10,2);
+  v_cash_drops NUMERIC(10,2);
+  v_paid_outs NUMERIC(10,2);
+  v_refunds NUMERIC(10,2);
+  v_expected NUMERIC(10,2);
+BEGIN
+  SELECT * INTO v_shift FROM public.cash_shifts WHERE id = p_shift_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shift not found.';
+  END IF;
+
+  IF v_shift.cashier_id <> auth.uid() AND NOT public.has_role(ARRAY['owner', 'admin', 'manager']) THEN
+    RAISE EXCEPTION 'You can only view your own shifts.';
+  END IF;
+
+  v_until := COALESCE(v_shift.closed_at, now());
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_cash_sales
+  FROM public.order_payments WHERE shift_id = p_shift_id AND method = 'cash';
+
+  SELECT
+    COALESCE(SUM(amount) FILTER (WHERE movement_type = 'cash_drop'), 0),
+    COALESCE(SUM(amount) FILTER (WHERE movement_type = 'paid_out'), 0)
+  INTO v_cash_drops, v_paid_outs
+  FROM public.cash_movements WHERE shift_id = p_shift_id;
+
+  -- Refunds are handed back from the drawer
+  SELECT COALESCE(SUM(amount), 0) INTO v_refunds
+  FROM public.order_actions
+  WHERE action_type = 'refund' AND action_by = v_shift.cashier_id
+    AND created_at >= v_shift.opened_at AND created_at <= v_until;
+
+  v_expected := v_shift.opening_float + v_cash_sales - v_cash_drops - v_paid_outs - v_refunds;
+
+  RETURN jsonb_build_object(
+    'shift_id', v_shift.id,
+    'cashier_id', v_shift.cashier_id,
+    'cashier_name', (SELECT full_name FROM public.profiles WHERE user_id = v_shift.cashier_id),
+    'business_date', public.business_date(v_shift.opened_at),
+    'opened_at', v_shift.opened_at,
+    'closed_at', v_shift.closed_at,
+    'opening_float', v_shift.opening_float,
+    'orders_paid', (SELECT COUNT(DISTINCT order_id) FROM public.order_payments WHERE shift_id = p_shift_id),
+    'gross_sales', (SELECT COALESCE(SUM(amount), 0) FROM public.order_payments WHERE shift_id = p_shift_id),
+    'sales_by_tender', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('method', method, 'count', payment_count, 'amount', total) ORDER BY method)
+      FROM (
+        SELECT method, COUNT(*) AS payment_count, SUM(amount) AS total
+        FROM public.order_payments WHERE shift_id = p_shift_id
+        GROUP BY method
+      ) tenders
+    ), '[]'::JSONB),
+    'cash_sales', v_cash_sales,
+    'cash_drops', v_cash_drops,
+    'paid_outs', v_paid_outs,
+    'refunds', jsonb_build_object(
+      'count', (SELECT COUNT(*) FROM public.order_actions
+                WHERE action_type = 'refund' AND action_by = v_shift.cashier_id
+                  AND created_at >= v_shift.opened_at AND created_at <= v_until),
+      'amount', v_refunds
+    ),
+    'discounts', (
+      SELECT jsonb_build_object('count', COUNT(*), 'amount', COALESCE(SUM(amount), 0))
+      FROM (
+        SELECT discount_amount AS amount FROM public.order_discounts
+        WHERE applied_by = v_shift.cashier_id AND created_at >= v_shift.opened_at AND created_at <= v_until
+      ) discounts
+    ),
+    'voids', (
+      SELECT jsonb_build_object('count', COUNT(*), 'amount', COALESCE(SUM(CASE WHEN a.action_type = 'void_item' THEN a.amount ELSE o.total_amount END), 0))
+      FROM public.order_actions a
+      JOIN public.orders o ON o.id = a.order_id
+      WHERE a.action_type IN ('cancel', 'void', 'void_item') AND a.action_by = v_shift.cashier_id
+        AND a.created_at >= v_shift.opened_at AND a.created_at <= v_until
+    ),
+    'expected_cash', v_expected,
+    'counted_cash', v_shift.counted_cash,
+    'variance', CASE WHEN v_shift.counted_cash IS NULL THEN NULL ELSE v_shift.counted_cash - v_expected END
+  );
+END;
+$$;
+
+-- Voided lines drop out of the item mix; line voids count towards the voids total
+CREATE OR REPLACE FUNCTION public.get_sales_report(p_from DATE, p_to DATE)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_days INTEGER;
+  v_start TIMESTAMP WITH TIME ZONE;
+  v_end TIMESTAMP WITH TIME ZONE;
+  v_prev_start TIMESTAMP WITH TIME ZONE;
+  v_tz TEXT;
+BEGIN
+  IF NOT public.has_role(ARRAY['owner', 'admin', 'manager']) THEN
+    RAISE EXCEPTION 'Only managers can view reports.';
+  END IF;
+
+  IF p_to < p_from THEN
+    RAISE EXCEPTION 'The end date is before the start date.';
+  END IF;
+
+  v_days := p_to - p_from + 1;
+  IF v_days > 366 THEN
+    RAISE EXCEPTION 'Reports cover at most a year at a time.';
+  END IF;
+
+  v_start := public.business_day_start(p_from);
+  v_end := public.business_day_start(p_to + 1);
+  v_prev_start := public.business_day_start(p_from - v_days);
+  SELECT timezone INTO v_tz FROM public.store_settings;
+
+  RETURN jsonb_build_object(
+    'summary', (
+      SELECT jsonb_build_object(
+        'sales', COALESCE(SUM(total_amount) FILTER (WHERE created_at >= v_start), 0),
+        'orders', COUNT(*) FILTER (WHERE created_at >= v_start),
+        'tax', COALESCE(SUM(tax_amount) FILTER (WHERE created_at >= v_start), 0),
+        'previous_sales', COALESCE(SUM(total_amount) FILTER (WHERE created_at < v_start), 0),
+        'previous_orders', COUNT(*) FILTER (WHERE created_at < v_start)
+      )
+      FROM public.orders
+      WHERE status = 'completed' AND created_at >= v_prev_start AND created_at < v_end
+    ),
+    -- One row per day of the period, lined up with the same day of the previous period
+    'daily', (
+      SELECT jsonb_agg(jsonb_build_object(
+        'date', p_from + d.day_index,
+        'sales', COALESCE(cur.sales, 0),
+        'orders', COALESCE(cur.orders, 0),
+        'previous_sales', COALESCE(prev.sales, 0)
+      ) ORDER BY d.day_index)
+      FROM generate_series(0, v_days - 1) AS d(day_index)
+      LEFT JOIN (
+        SELECT public.business_date(created_at) - p_from AS day_index, SUM(total_amount) AS sales, COUNT(*) AS orders
+        FROM public.orders
+        WHERE status = 'completed' AND created_at >= v_start AND created_at < v_end
+        GROUP BY 1
+      ) cur ON cur.day_index = d.day_index
+      LEFT JOIN (
+        SELECT public.business_date(created_at) - (p_from - v_days) AS day_index, SUM(total_amount) AS sales
+        FROM public.orders
+        WHERE status = 'completed' AND created_at >= v_prev_start AND created_at < v_start
+        GROUP BY 1
+      ) prev ON prev.day_index = d.day_index
+    ),
+    -- Clock time in the store, so a 1 AM sale shows at 1 AM even when it belongs to the day before. Weekday 1 = Monday
+    'heatmap', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('weekday', weekday, 'hour', hour, 'orders', orders, 'sales', sales))
+      FROM (
+        SELECT
+          EXTRACT(ISODOW FROM created_at AT TIME ZONE v_tz)::INTEGER AS weekday,
+          EXTRACT(HOUR FROM created_at AT TIME ZONE v_tz)::INTEGER AS hour,
+          COUNT(*) AS orders,
+          SUM(total_amount) AS sales
+        FROM public.orders
+        WHERE status = 'completed' AND created_at >= v_start AND created_at < v_end
+        GROUP BY 1, 2
+      ) cells
+    ), '[]'::JSONB),
+    'categories', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('name', name, 'quantity', quantity, 'revenue', revenue) ORDER BY revenue DESC)
+      FROM (
+        SELECT COALESCE(c.name, 'Uncategorized') AS name, SUM(oi.quantity) AS quantity, SUM(oi.total_price) AS revenue
+        FROM public.order_items oi
+        JOIN public.orders o ON o.id = oi.order_id
+        LEFT JOIN public.menu_items mi ON mi.id = oi.menu_item_id
+        LEFT JOIN public.categories c ON c.id = mi.category_id
+        WHERE o.status = 'completed' AND oi.voided_at IS NULL AND o.created_at >= v_start AND o.created_at < v_end
+        GROUP BY 1
+      ) category_mix
+    ), '[]'::JSONB),
+    'items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('name', name, 'quantity', quantity, 'revenue', revenue) ORDER BY revenue DESC)
+      FROM (
+        SELECT COALESCE(mi.name, 'Unknown Item') AS name, SUM(oi.quantity) AS quantity, SUM(oi.total_price) AS revenue
+        FROM public.order_items oi
+        JOIN public.orders o ON o.id = oi.order_id
+        LEFT JOIN public.menu_items mi ON mi.id = oi.menu_item_id
+        WHERE o.status = 'completed' AND oi.voided_at IS NULL AND o.created_at >= v_start AND o.created_at < v_end
+        GROUP BY 1
+        ORDER BY revenue DESC
+        LIMIT 10
+      ) item_mix
+    ), '[]'::JSONB),
+    -- Credited to whoever took the payment
+    'cashiers', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'cashier_id', received_by,
+        'name', COALESCE((SELECT full_name FROM public.profiles WHERE user_id = received_by), 'Unknown'),
+        'orders', orders,
+        'sales', sales
+      ) ORDER BY sales DESC)
+      FROM (
+        SELECT p.received_by, COUNT(DISTINCT p.order_id) AS orders, SUM(p.amount) AS sales
+        FROM public.order_payments p
+        JOIN public.orders o ON o.id = p.order_id
+        WHERE o.status = 'completed' AND o.created_at >= v_start AND o.created_at < v_end
+        GROUP BY p.received_by
+      ) cashier_sales
+    ), '[]'::JSONB),
+    'adjustments', jsonb_build_object(
+      'discounts', (
+        SELECT jsonb_build_object('count', COUNT(*), 'amount', COALESCE(SUM(d.discount_amount), 0))
+        FROM public.order_discounts d
+        JOIN public.orders o ON o.id = d.order_id
+        WHERE o.status = 'completed' AND o.created_at >= v_start AND o.created_at < v_end
+      ),
+      'refunds', (
+        SELECT jsonb_build_object('count', COUNT(*), 'amount', COALESCE(SUM(amount), 0))
+        FROM public.order_actions
+        WHERE action_type = 'refund' AND created_at >= v_start AND created_at < v_end
+      ),
+      'voids', (
+        SELECT jsonb_build_object('count', COUNT(*), 'amount', COALESCE(SUM(CASE WHEN a.action_type = 'void_item' THEN a.amount ELSE o.total_amount END), 0))
+        FROM public.order_actions a
+        JOIN public.orders o ON o.id = a.order_id
+        WHERE a.action_type IN ('cancel', 'void', 'void_item') AND a.created_at >= v_start AND a.created_at < v_end
+      )
+    )
+  );
+END;
+$$;
+
+
+-- Customers tracking their order only see the lines they will get
+CREATE OR REPLACE FUNCTION public.get_order_status(p_order_number TEXT, p_token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_prep_minutes INTEGER;
+  v_started_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE order_number = p_order_number AND tracking_token = p_token;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  -- Items are made side by side, so the slowest item sets the estimate
+  SELECT COALESCE(MAX(COALESCE(mi.preparation_time, 5)), 5) INTO v_prep_minutes
+  FROM public.order_items oi
+  JOIN public.menu_items mi ON mi.id = oi.menu_item_id
+  WHERE oi.order_id = v_order.id AND oi.voided_at IS NULL;
+
+  -- Until it is approved the clock starts now; once preparing, from when it was approved
+  v_started_at := CASE WHEN v_order.status = 'preparing' THEN v_order.updated_at ELSE now() END;
+
+  RETURN jsonb_build_object(
+    'order_number', v_order.order_number,
+    'customer_name', v_order.customer_name,
+    'order_type', v_order.order_type,
+    'status', v_order.status,
+    'total_amount', v_order.total_amount,
+    'created_at', v_order.created_at,
+    'updated_at', v_order.updated_at,
+    'estimated_ready_at', CASE
+      WHEN v_order.status IN ('pending', 'preparing') THEN v_started_at + make_interval(mins => v_prep_minutes)
+      ELSE NULL
+    END,
+    'items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'name', mi.name,
+        'size', mi.size,
+        'quantity', oi.quantity,
+        'modifiers', COALESCE((
+          SELECT jsonb_agg(oim.option_name ORDER BY oim.created_at)
+          FROM public.order_item_modifiers oim
+          WHERE oim.order_item_id = oi.id
+        ), '[]'::JSONB)
+      ) ORDER BY oi.created_at)
+      FROM public.order_items oi
+      JOIN public.menu_items mi ON mi.id = oi.menu_item_id
+      WHERE oi.order_id = v_order.id AND oi.voided_at IS NULL
+    ), '[]'::JSONB)
+  );
+END;
+$$;
@@ -0,0 +1,319 @@
+-- When each status change happened and who made it
+ALTER TABLE public.orders
+  ADD COLUMN approved_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN approved_by UUID REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  ADD COLUMN ready_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN ready_by UUID REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  ADD COLUMN completed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN completed_by UUID REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  ADD COLUMN cancelled_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN cancelled_by UUID REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  ADD COLUMN refunded_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN refunded_by UUID REFERENCES public.profiles(user_id) ON DELETE SET NULL;
+
+-- Fill them in for existing orders from the actions already on record, without touching updated_at
+ALTER TABLE public.orders DISABLE TRIGGER update_orders_updated_at;
+
+UPDATE public.orders o
+SET approved_at = a.approved_at,
+    approved_by = a.approved_by,
+    ready_at = a.ready_at,
+    ready_by = a.ready_by,
+    completed_at = a.completed_at,
+    completed_by = a.completed_by,
+    cancelled_at = a.cancelled_at,
+    cancelled_by = a.cancelled_by,
+    refunded_at = a.refunded_at,
+    refunded_by = a.refunded_by
+FROM (
+  SELECT
+    order_id,
+    MIN(created_at) FILTER (WHERE action_type = 'approve') AS approved_at,
+    (array_agg(action_by ORDER BY created_at) FILTER (WHERE action_type = 'approve'))[1] AS approved_by,
+    MAX(created_at) FILTER (WHERE action_type = 'ready') AS ready_at,
+    (array_agg(action_by ORDER BY created_at DESC) FILTER (WHERE action_type = 'ready'))[1] AS ready_by,
+    MAX(created_at) FILTER (WHERE action_type = 'complete') AS completed_at,
+    (array_agg(action_by ORDER BY created_at DESC) FILTER (WHERE action_type = 'complete'))[1] AS completed_by,
+    MAX(created_at) FILTER (WHERE action_type IN ('cancel', 'void')) AS cancelled_at,
+    (array_agg(action_by ORDER BY created_at DESC) FILTER (WHERE action_type IN ('cancel', 'void')))[1] AS cancelled_by,
+    MAX(created_at) FILTER (WHERE action_type = 'refund') AS refunded_at,
+    (array_agg(action_by ORDER BY created_at DESC) FILTER (WHERE action_type = 'refund'))[1] AS refunded_by
+  FROM public.order_actions
+  GROUP BY order_id
+) a
+WHERE a.order_id = o.id;
+
+ALTER TABLE public.orders ENABLE TRIGGER update_orders_updated_at;
+
+-- Orders only move along the allowed paths, whoever updates them and however.
+-- Keep in step with ORDER_TRANSITIONS in src/lib/orderStatus.ts.
+CREATE OR REPLACE FUNCTION public.check_order_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT (CASE OLD.status
+    WHEN 'pending' THEN NEW.status IN ('preparing', 'cancelled')
+    WHEN 'preparing' THEN NEW.status IN ('ready', 'cancelled')
+    WHEN 'ready' THEN NEW.status IN ('preparing', 'completed', 'cancelled', 'refunded')
+    WHEN 'completed' THEN NEW.status IN ('refunded')
+    ELSE false
+  END) THEN
+    RAISE EXCEPTION 'Order % is % and cannot be changed to %.', OLD.order_number, OLD.status, NEW.status;
+  END IF;
+
+  CASE NEW.status
+    WHEN 'preparing' THEN
+      IF OLD.status = 'pending' THEN
+        NEW.approved_at := now();
+        NEW.approved_by := auth.uid();
+      ELSE
+        -- Recalled from ready; it gets a new ready time when it comes back
+        NEW.ready_at := NULL;
+        NEW.ready_by := NULL;
+      END IF;
+    WHEN 'ready' THEN
+      NEW.ready_at := now();
+      NEW.ready_by := auth.uid();
+    WHEN 'completed' THEN
+      NEW.completed_at := now();
+      NEW.completed_by := auth.uid();
+    WHEN 'cancelled' THEN
+      NEW.cancelled_at := now();
+      NEW.cancelled_by := auth.uid();
+    WHEN 'refunded' THEN
+      NEW.refunded_at := now();
+      NEW.refunded_by := auth.uid();
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER orders_status_transition
+  BEFORE UPDATE OF status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_order_status_transition();
+
+-- The estimate counts from approval; updated_at also moves when lines are edited
+CREATE OR REPLACE FUNCTION public.get_order_status(p_order_number TEXT, p_token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_prep_minutes INTEGER;
+  v_started_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT * INTO v_order
+  FROM public.orders
+  WHERE order_number = p_order_number AND tracking_token = p_token;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  -- Items are made side by side, so the slowest item sets the estimate
+  SELECT COALESCE(MAX(COALESCE(mi.preparation_time, 5)), 5) INTO v_prep_minutes
+  FROM public.order_items oi
+  JOIN public.menu_items mi ON mi.id = oi.menu_item_id
+  WHERE oi.order_id = v_order.id AND oi.voided_at IS NULL;
+
+  -- Until it is approved the clock starts now; once preparing, from when it was approved
+  v_started_at := CASE WHEN v_order.status = 'preparing' THEN COALESCE(v_order.approved_at, v_order.updated_at) ELSE now() END;
+
+  RETURN jsonb_build_object(
+    'order_number', v_order.order_number,
+    'customer_name', v_order.customer_name,
+    'order_type', v_order.order_type,
+    'status', v_order.status,
+    'total_amount', v_order.total_amount,
+    'created_at', v_order.created_at,
+    'updated_at', v_order.updated_at,
+    'estimated_ready_at', CASE
+      WHEN v_order.status IN ('pending', 'preparing') THEN v_started_at + make_interval(mins => v_prep_minutes)
+      ELSE NULL
+    END,
+    'items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'name', mi.name,
+        'size', mi.size,
+        'quantity', oi.quantity,
+        'modifiers', COALESCE((
+          SELECT jsonb_agg(oim.option_name ORDER BY oim.created_at)
+          FROM public.order_item_modifiers oim
+          WHERE oim.order_item_id = oi.id
+        ), '[]'::JSONB)
+      ) ORDER BY oi.created_at)
+      FROM public.order_items oi
+      JOIN public.menu_items mi ON mi.id = oi.menu_item_id
+      WHERE oi.order_id = v_order.id AND oi.voided_at IS NULL
+    ), '[]'::JSONB)
+  );
+END;
+$$;
+
+-- Kitchen and pickup times from the status timestamps
+CREATE OR REPLACE FUNCTION public.get_sales_report(p_from DATE, p_to DATE)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_days INTEGER;
+  v_start TIMESTAMP WITH TIME ZONE;
+  v_end TIMESTAMP WITH TIME ZONE;
+  v_prev_start TIMESTAMP WITH TIME ZONE;
+  v_tz TEXT;
+BEGIN
+  IF NOT public.has_role(ARRAY['owner', 'admin', 'manager']) THEN
+    RAISE EXCEPTION 'Only managers can view reports.';
+  END IF;
+
+  IF p_to < p_from THEN
+    RAISE EXCEPTION 'The end date is before the start date.';
+  END IF;
+
+  v_days := p_to - p_from + 1;
+  IF v_days > 366 THEN
+    RAISE EXCEPTION 'Reports cover at most a year at a time.';
+  END IF;
+
+  v_start := public.business_day_start(p_from);
+  v_end := public.business_day_start(p_to + 1);
+  v_prev_start := public.business_day_start(p_from - v_days);
+  SELECT timezone INTO v_tz FROM public.store_settings;
+
+  RETURN jsonb_build_object(
+    'summary', (
+      SELECT jsonb_build_object(
+        'sales', COALESCE(SUM(total_amount) FILTER (WHERE created_at >= v_start), 0),
+        'orders', COUNT(*) FILTER (WHERE created_at >= v_start),
+        'tax', COALESCE(SUM(tax_amount) FILTER (WHERE created_at >= v_start), 0),
+        'previous_sales', COALESCE(SUM(total_amount) FILTER (WHERE created_at < v_start), 0),
+        'previous_orders', COUNT(*) FILTER (WHERE created_at < v_start)
+      )
+      FROM public.orders
+      WHERE status = 'completed' AND created_at >= v_prev_start AND created_at < v_end
+    ),
+    -- One row per day of the period, lined up with the same day of the previous period
+    'daily', (
+      SELECT jsonb_agg(jsonb_build_object(
+        'date', p_from + d.day_index,
+        'sales', COALESCE(cur.sales, 0),
+        'orders', COALESCE(cur.orders, 0),
+        'previous_sales', COALESCE(prev.sales, 0)
+      ) ORDER BY d.day_index)
+      FROM generate_series(0, v_days - 1) AS d(day_index)
+      LEFT JOIN (
+        SELECT public.business_date(created_at) - p_from AS day_index, SUM(total_amount) AS sales, COUNT(*) AS orders
+        FROM public.orders
+        WHERE status = 'completed' AND created_at >= v_start AND created_at < v_end
+        GROUP BY 1
+      ) cur ON cur.day_index = d.day_index
+      LEFT JOIN (
+        SELECT public.business_date(created_at) - (p_from - v_days) AS day_index, SUM(total_amount) AS sales
+        FROM public.orders
+        WHERE status = 'completed' AND created_at >= v_prev_start AND created_at < v_start
+        GROUP BY 1
+      ) prev ON prev.day_index = d.day_index
+    ),
+    -- Clock time in the store, so a 1 AM sale shows at 1 AM even when it belongs to the day before. Weekday 1 = Monday
+    'heatmap', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('weekday', weekday, 'hour', hour, 'orders', orders, 'sales', sales))
+      FROM (
+        SELECT
+          EXTRACT(ISODOW FROM created_at AT TIME ZONE v_tz)::INTEGER AS weekday,
+          EXTRACT(HOUR FROM created_at AT TIME ZONE v_tz)::INTEGER AS hour,
+          COUNT(*) AS orders,
+          SUM(total_amount) AS sales
+        FROM public.orders
+        WHERE status = 'completed' AND created_at >= v_start AND created_at < v_end
+        GROUP BY 1, 2
+      ) cells
+    ), '[]'::JSONB),
+    'categories', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('name', name, 'quantity', quantity, 'revenue', revenue) ORDER BY revenue DESC)
+      FROM (
+        SELECT COALESCE(c.name, 'Uncategorized') AS name, SUM(oi.quantity) AS quantity, SUM(oi.total_price) AS revenue
+        FROM public.order_items oi
+        JOIN public.orders o ON o.id = oi.order_id
+        LEFT JOIN public.menu_items mi ON mi.id = oi.menu_item_id
+        LEFT JOIN public.categories c ON c.id = mi.category_id
+        WHERE o.status = 'completed' AND oi.voided_at IS NULL AND o.created_at >= v_start AND o.created_at < v_end
+        GROUP BY 1
+      ) category_mix
+    ), '[]'::JSONB),
+    'items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('name', name, 'quantity', quantity, 'revenue', revenue) ORDER BY revenue DESC)
+      FROM (
+        SELECT COALESCE(mi.name, 'Unknown Item') AS name, SUM(oi.quantity) AS quantity, SUM(oi.total_price) AS revenue
+        FROM public.order_items oi
+        JOIN public.orders o ON o.id = oi.order_id
+        LEFT JOIN public.menu_items mi ON mi.id = oi.menu_item_id
+        WHERE o.status = 'completed' AND oi.voided_at IS NULL AND o.created_at >= v_start AND o.created_at < v_end
+        GROUP BY 1
+        ORDER BY revenue DESC
+        LIMIT 10
+      ) item_mix
+    ), '[]'::JSONB),
+    -- Credited to whoever took the payment
+    'cashiers', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'cashier_id', received_by,
+        'name', COALESCE((SELECT full_name FROM public.profiles WHERE user_id = received_by), 'Unknown'),
+        'orders', orders,
+        'sales', sales
+      ) ORDER BY sales DESC)
+      FROM (
+        SELECT p.received_by, COUNT(DISTINCT p.order_id) AS orders, SUM(p.amount) AS sales
+        FROM public.order_payments p
+        JOIN public.orders o ON o.id = p.order_id
+        WHERE o.status = 'completed' AND o.created_at >= v_start AND o.created_at < v_end
+        GROUP BY p.received_by
+      ) cashier_sales
+    ), '[]'::JSONB),
+    -- Approval to ready is time in the kitchen; ready to completed is how long orders waited for pickup
+    'kitchen', (
+      SELECT jsonb_build_object(
+        'orders', COUNT(ready_at - approved_at),
+        'average_prep_minutes', round((AVG(EXTRACT(EPOCH FROM ready_at - approved_at)) / 60)::NUMERIC, 1),
+        'p90_prep_minutes', round((percentile_cont(0.9) WITHIN GROUP (ORDER BY EXTRACT(EPOCH FROM ready_at - approved_at)) / 60)::NUMERIC, 1),
+        'average_wait_minutes', round((AVG(EXTRACT(EPOCH FROM completed_at - ready_at)) / 60)::NUMERIC, 1)
+      )
+      FROM public.orders
+      WHERE status = 'completed' AND created_at >= v_start AND created_at < v_end
+    ),
+    'adjustments', jsonb_build_object(
+      'discounts', (
+        SELECT jsonb_build_object('count', COUNT(*), 'amount', COALESCE(SUM(d.discount_amount), 0))
+        FROM public.order_discounts d
+        JOIN public.orders o ON o.id = d.order_id
+        WHERE o.status = 'completed' AND o.created_at >= v_start AND o.created_at < v_end
+      ),
+      'refunds', (
+        SELECT jsonb_build_object('count', COUNT(*), 'amount', COALESCE(SUM(amount), 0))
+        FROM public.order_actions
+        WHERE action_type = 'refund' AND created_at >= v_start AND created_at < v_end
+      ),
+      'voids', (
+        SELECT jsonb_build_object('count', COUNT(*), 'amount', COALESCE(SUM(CASE WHEN a.action_type = 'void_item' THEN a.amount ELSE o.total_amount END), 0))
+        FROM public.order_actions a
+        JOIN public.orders o ON o.id = a.order_id
+        WHERE a.action_type IN ('cancel', 'void', 'void_item') AND a.created_at >= v_start AND a.created_at < v_end
+      )
+    )
+  );
+END;
+$$;
@@ -0,0 +1,101 @@
+-- Looking up an order's log entries
+CREATE INDEX IF NOT EXISTS idx_activity_logs_order_id ON public.activity_logs ((metadata->>'order_id'));
+CREATE INDEX IF NOT EXISTS idx_sales_logs_order_id ON public.sales_logs(order_id);
+
+-- Everything that happened to one order, oldest first, with the names of who did it.
+-- Status changes, edits, voids, refunds and discounts all land in order_actions;
+-- activity_logs adds what only the client knows about, like prints.
+CREATE OR REPLACE FUNCTION public.get_order_timeline(p_order_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NOT public.has_role(ARRAY['owner', 'admin', 'manager']) THEN
+    RAISE EXCEPTION 'Only managers can view the order history.';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.orders WHERE id = p_order_id) THEN
+    RAISE EXCEPTION 'Order not found.';
+  END IF;
+
+  RETURN COALESCE((
+    SELECT jsonb_agg(jsonb_build_object(
+      'at', e.at,
+      'source', e.source,
+      'type', e.type,
+      'actor_id', e.actor_id,
+      'actor_name', p.full_name,
+      'item', e.item,
+      'amount', e.amount,
+      'reason', e.reason,
+      'notes', e.notes,
+      'description', e.description,
+      'before_values', e.before_values,
+      'after_values', e.after_values
+    ) ORDER BY e.at, e.source_order)
+    FROM (
+      -- Orders come in from the menu, so there is nobody to name
+      SELECT o.created_at AS at, 0 AS source_order, 'order' AS source, 'created' AS type, NULL::UUID AS actor_id,
+        NULL::TEXT AS item, o.total_amount AS amount, NULL::TEXT AS reason, o.customer_notes AS notes,
+        NULL::TEXT AS description, NULL::JSONB AS before_values,
+        jsonb_build_object('customer_name', o.customer_name, 'order_type', o.order_type) AS after_values
+      FROM public.orders o
+      WHERE o.id = p_order_id
+
+      UNION ALL
+
+      SELECT a.created_at, 1, 'action', a.action_type, a.action_by,
+        m.name, a.amount, a.reason, a.notes,
+        NULL, a.before_values, a.after_values
+      FROM public.order_actions a
+      LEFT JOIN public.order_items i ON i.id = a.order_item_id
+      LEFT JOIN public.menu_items m ON m.id = i.menu_item_id
+      WHERE a.order_id = p_order_id
+
+      UNION ALL
+
+      -- Who applied a discount is on its order_actions row; this adds a sign-off by someone else
+      SELECT d.created_at, 2, 'discount', 'discount_approved', d.approved_by,
+        NULL, d.discount_amount, d.discount_type, NULL,
+        NULL, NULL, NULL
+      FROM public.order_discounts d
+      WHERE d.order_id = p_order_id
+        AND d.approved_by IS NOT NULL AND d.approved_by IS DISTINCT FROM d.applied_by
+
+      UNION ALL
+
+      SELECT pay.created_at, 3, 'payment', 'payment', pay.received_by,
+        NULL, pay.amount, NULL, pay.reference_number,
+        NULL, NULL,
+        jsonb_build_object('method', pay.method, 'amount_tendered', pay.amount_tendered, 'change_given', pay.change_given)
+      FROM public.order_payments pay
+      WHERE pay.order_id = p_order_id
+
+      UNION ALL
+
+      -- These repeat what order_actions already has; the status ones come from the log_order_activity trigger
+      SELECT l.created_at, 4, 'activity', l.action, l.user_id,
+        NULL, NULL, NULL, NULL,
+        l.description, NULL, l.metadata
+      FROM public.activity_logs l
+      WHERE l.metadata->>'order_id' = p_order_id::TEXT
+        AND l.action NOT IN ('order_action', 'order_edit', 'order_created', 'order_status_changed')
+
+      UNION ALL
+
+      SELECT s.created_at, 5, 'sales_log', s.action, s.user_id,
+        NULL, s.amount, NULL, NULL,
+        s.description, NULL, s.metadata
+      FROM public.sales_logs s
+      WHERE s.order_id = p_order_id
+    ) e
+    LEFT JOIN public.profiles p ON p.user_id = e.actor_id
+  ), '[]'::JSONB);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_order_timeline(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_order_timeline(UUID) TO authenticated;
@@ -0,0 +1,78 @@
+-- Audit trails are append-only: no one can edit or remove entries through the API.
+-- RLS already has no UPDATE or DELETE policies on these tables; the restrictive
+-- policies keep it that way even if a permissive one is added later.
+REVOKE UPDATE, DELETE, TRUNCATE ON public.activity_logs FROM anon, authenticated;
+REVOKE UPDATE, DELETE, TRUNCATE ON public.sales_logs FROM anon, authenticated;
+REVOKE UPDATE, DELETE, TRUNCATE ON public.order_actions FROM anon, authenticated;
+
+CREATE POLICY "Activity logs cannot be changed" ON public.activity_logs AS RESTRICTIVE FOR UPDATE
+  USING (false);
+CREATE POLICY "Activity logs cannot be deleted" ON public.activity_logs AS RESTRICTIVE FOR DELETE
+  USING (false);
+CREATE POLICY "Sales logs cannot be changed" ON public.sales_logs AS RESTRICTIVE FOR UPDATE
+  USING (false);
+CREATE POLICY "Sales logs cannot be deleted" ON public.sales_logs AS RESTRICTIVE FOR DELETE
+  USING (false);
+CREATE POLICY "Order actions cannot be changed" ON public.order_actions AS RESTRICTIVE FOR UPDATE
+  USING (false);
+CREATE POLICY "Order actions cannot be deleted" ON public.order_actions AS RESTRICTIVE FOR DELETE
+  USING (false);
+
+-- log_activity can be called over the API, so it is the one way in that RLS does not
+-- cover. Only staff may write entries themselves; triggers log on behalf of whoever
+-- changed the row, which includes customers placing orders.
+CREATE OR REPLACE FUNCTION public.log_activity(
+  action_type TEXT,
+  description_text TEXT,
+  metadata_json JSONB DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  log_id UUID;
+BEGIN
+  IF pg_trigger_depth() = 0 AND NOT public.has_role(ARRAY['owner', 'admin', 'manager', 'cashier', 'staff']) THEN
+    RAISE EXCEPTION 'Only staff can write to the activity log.';
+  END IF;
+
+  INSERT INTO public.activity_logs (user_id, action, description, metadata)
+  VALUES (auth.uid(), action_type, description_text, metadata_json)
+  RETURNING id INTO log_id;
+
+  RETURN log_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.log_activity(TEXT, TEXT, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.log_activity(TEXT, TEXT, JSONB) TO authenticated;
+
+-- Filtering and searching the audit log
+CREATE INDEX IF NOT EXISTS idx_activity_logs_created_at ON public.activity_logs(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_activity_logs_user_id ON public.activity_logs(user_id);
+CREATE INDEX IF NOT EXISTS idx_activity_logs_action ON public.activity_logs(action);
+CREATE INDEX IF NOT EXISTS idx_activity_logs_description_search
+  ON public.activity_logs USING GIN (to_tsvector('simple', description));
+
+-- Action names for the audit log filter; they come from the app and from triggers,
+-- so the list is read from the data rather than kept in the client
+CREATE OR REPLACE FUNCTION public.get_activity_log_actions()
+RETURNS TEXT[]
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NOT public.has_role(ARRAY['owner', 'admin', 'manager']) THEN
+    RAISE EXCEPTION 'Only managers can view the audit log.';
+  END IF;
+
+  RETURN COALESCE((SELECT array_agg(DISTINCT action ORDER BY action) FROM public.activity_logs), '{}');
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_activity_log_actions() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_activity_log_actions() TO authenticated;
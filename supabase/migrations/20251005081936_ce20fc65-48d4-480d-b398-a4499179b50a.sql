@@ -0,0 +1,745 @@
+-- Approval PINs. Hashes are never readable through the API; RLS is on with no
+-- policies, so only the functions below can read or write this table.
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE public.staff_pins (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  pin_hash TEXT NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.staff_pins ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.set_my_pin(p_pin TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NOT public.has_role(ARRAY['owner', 'admin', 'manager', 'cashier', 'staff']) THEN
+    RAISE EXCEPTION 'You do not have permission to set a PIN.';
+  END IF;
+
+  IF p_pin IS NULL OR p_pin !~ '^[0-9]{4,6}$' THEN
+    RAISE EXCEPTION 'PINs are 4 to 6 digits.';
+  END IF;
+
+  INSERT INTO public.staff_pins (user_id, pin_hash)
+  VALUES (auth.uid(), extensions.crypt(p_pin, extensions.gen_salt('bf')))
+  ON CONFLICT (user_id) DO UPDATE SET pin_hash = EXCLUDED.pin_hash, updated_at = now();
+
+  PERFORM public.log_activity('pin_changed', 'Changed approval PIN', jsonb_build_object('action', 'set_pin'));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.set_my_pin(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.set_my_pin(TEXT) TO authenticated;
+
+-- Raises unless p_manager_id is a manager and p_pin is their PIN
+CREATE OR REPLACE FUNCTION public.check_manager_pin(p_manager_id UUID, p_pin TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_hash TEXT;
+BEGIN
+  IF p_manager_id IS NULL OR NULLIF(p_pin, '') IS NULL THEN
+    RAISE EXCEPTION 'A manager must approve this with their PIN.';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE user_id = p_manager_id AND role = ANY(ARRAY['owner', 'admin', 'manager'])
+  ) THEN
+    RAISE EXCEPTION 'Only a manager can approve this.';
+  END IF;
+
+  SELECT pin_hash INTO v_hash FROM public.staff_pins WHERE user_id = p_manager_id;
+
+  IF v_hash IS NULL THEN
+    RAISE EXCEPTION 'That manager has not set a PIN yet.';
+  END IF;
+
+  IF v_hash <> extensions.crypt(p_pin, v_hash) THEN
+    RAISE EXCEPTION 'Incorrect PIN.';
+  END IF;
+END;
+$$;
+
+-- Only called from the functions that need an approval
+REVOKE ALL ON FUNCTION public.check_manager_pin(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- One row per refund, with the lines and quantities it covers. order_actions
+-- still gets a 'refund' row for the order history.
+CREATE TABLE public.order_refunds (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  shift_id UUID REFERENCES public.cash_shifts(id) ON DELETE SET NULL,
+  amount NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (amount >= 0),
+  tax_amount NUMERIC(10,2) NOT NULL DEFAULT 0,
+  method TEXT NOT NULL CHECK (method IN ('cash', 'gcash', 'maya', 'card')),
+  reason TEXT NOT NULL,
+  notes TEXT,
+  restock BOOLEAN NOT NULL DEFAULT false,
+  refunded_by UUID REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  approved_by UUID REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.order_refund_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  refund_id UUID NOT NULL REFERENCES public.order_refunds(id) ON DELETE CASCADE,
+  order_item_id UUID NOT NULL REFERENCES public.order_items(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  amount NUMERIC(10,2) NOT NULL
+);
+
+ALTER TABLE public.order_refunds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.order_refund_items ENABLE ROW LEVEL SECURITY;
+
+-- Written only by refund_order
+CREATE POLICY "Staff can view order refunds" ON public.order_refunds FOR SELECT TO authenticated
+  USING (public.has_role(ARRAY['owner', 'admin', 'manager', 'cashier', 'staff']));
+CREATE POLICY "Staff can view order refund items" ON public.order_refund_items FOR SELECT TO authenticated
+  USING (public.has_role(ARRAY['owner', 'admin', 'manager', 'cashier', 'staff']));
+
+CREATE INDEX IF NOT EXISTS idx_order_refunds_order_id ON public.order_refunds(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_refunds_shift_id ON public.order_refunds(shift_id);
+CREATE INDEX IF NOT EXISTS idx_order_refunds_created_at ON public.order_refunds(created_at);
+CREATE INDEX IF NOT EXISTS idx_order_refund_items_refund_id ON public.order_refund_items(refund_id);
+CREATE INDEX IF NOT EXISTS idx_order_refund_items_order_item_id ON public.order_refund_items(order_item_id);
+
+-- Earlier refunds were an amount on order_actions only. They were all counted as cash,
+-- and refunding an order put all of its stock back.
+INSERT INTO public.order_refunds (order_id, shift_id, amount, tax_amount, method, reason, notes, restock, refunded_by, created_at)
+SELECT
+  a.order_id,
+  (
+    SELECT s.id FROM public.cash_shifts s
+    WHERE s.cashier_id = a.action_by AND s.opened_at <= a.created_at
+      AND (s.closed_at IS NULL OR s.closed_at >= a.created_at)
+    ORDER BY s.opened_at DESC
+    LIMIT 1
+  ),
+  COALESCE(a.amount, 0),
+  CASE WHEN o.total_amount > 0 THEN round(o.tax_amount * COALESCE(a.amount, 0) / o.total_amount, 2) ELSE 0 END,
+  'cash',
+  COALESCE(NULLIF(trim(a.reason), ''), 'Refund'),
+  a.notes,
+  o.status = 'refunded',
+  a.action_by,
+  COALESCE(a.created_at, now())
+FROM public.order_actions a
+JOIN public.orders o ON o.id = a.order_id
+WHERE a.action_type = 'refund';
+
+-- Deduct recipe stock when an order is completed and put it back if it is cancelled.
+-- Refunds put stock back line by line in refund_order, and only when asked to, so an
+-- order refunded straight from ready still uses up whatever was not restocked.
+CREATE OR REPLACE FUNCTION public.deduct_order_stock()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  is_deducted BOOLEAN;
+BEGIN
+  IF OLD.status = NEW.status THEN
+    RETURN NEW;
+  END IF;
+
+  -- The ledger knows whether this order's stock is currently out of inventory
+  SELECT EXISTS (
+    SELECT 1 FROM public.inventory_movements
+    WHERE order_id = NEW.id
+    GROUP BY inventory_id
+    HAVING SUM(quantity_change) <> 0
+  ) INTO is_deducted;
+
+  -- Voided lines were never made, and lines refunded with restock before completion were handed back unused
+  IF NEW.status IN ('completed', 'refunded') AND NOT is_deducted THEN
+    INSERT INTO public.inventory_movements (inventory_id, order_id, quantity_change, reason, created_by)
+    SELECT r.inventory_id, NEW.id, -SUM(r.quantity * (oi.quantity - COALESCE(restocked.quantity, 0))), 'order_completed', auth.uid()
+    FROM public.order_items oi
+    JOIN public.menu_item_ingredients r ON r.menu_item_id = oi.menu_item_id
+    LEFT JOIN (
+      SELECT ri.order_item_id, SUM(ri.quantity) AS quantity
+      FROM public.order_refund_items ri
+      JOIN public.order_refunds rf ON rf.id = ri.refund_id
+      WHERE rf.order_id = NEW.id AND rf.restock
+      GROUP BY ri.order_item_id
+    ) restocked ON restocked.order_item_id = oi.id
+    WHERE oi.order_id = NEW.id AND oi.voided_at IS NULL
+    GROUP BY r.inventory_id
+    HAVING SUM(r.quantity * (oi.quantity - COALESCE(restocked.quantity, 0))) <> 0;
+  ELSIF NEW.status = 'cancelled' AND is_deducted THEN
+    INSERT INTO public.inventory_movements (inventory_id, order_id, quantity_change, reason, created_by)
+    SELECT inventory_id, NEW.id, -SUM(quantity_change), 'order_reversed', auth.uid()
+    FROM public.inventory_movements
+    WHERE order_id = NEW.id
+    GROUP BY inventory_id
+    HAVING SUM(quantity_change) <> 0;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Refunds some or all of a paid order's lines. Each line gets its share of what
+-- was actually paid, so discounts come off the refund too. A cashier needs a
+-- manager's PIN; managers approve their own refunds.
+CREATE OR REPLACE FUNCTION public.refund_order(
+  p_order_id UUID,
+  p_items JSONB,
+  p_method TEXT,
+  p_reason TEXT,
+  p_notes TEXT DEFAULT NULL,
+  p_restock BOOLEAN DEFAULT false,
+  p_approver_id UUID DEFAULT NULL,
+  p_approver_pin TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_item public.order_items%ROWTYPE;
+  v_line JSONB;
+  v_quantity INTEGER;
+  v_remaining INTEGER;
+  v_subtotal NUMERIC(10,2);
+  v_refunded NUMERIC(10,2);
+  v_line_amount NUMERIC(10,2);
+  v_amount NUMERIC(10,2) := 0;
+  v_approved_by UUID;
+  v_shift_id UUID;
+  v_refund_id UUID;
+  v_is_full BOOLEAN;
+  v_is_deducted BOOLEAN;
+  v_new_status TEXT;
+BEGIN
+  IF NOT public.has_role(ARRAY['owner', 'admin', 'manager', 'cashier']) THEN
+    RAISE EXCEPTION 'Only cashiers can refund orders.';
+  END IF;
+
+  IF NULLIF(trim(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'Enter a reason for the refund.';
+  END IF;
+
+  IF p_method IS NULL OR p_method NOT IN ('cash', 'gcash', 'maya', 'card') THEN
+    RAISE EXCEPTION 'Invalid refund method: %', p_method;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Pick the items to refund.';
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found.';
+  END IF;
+
+  IF v_order.status NOT IN ('ready', 'completed') THEN
+    RAISE EXCEPTION 'Order % is % and cannot be refunded.', v_order.order_number, v_order.status;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.order_payments WHERE order_id = p_order_id) THEN
+    RAISE EXCEPTION 'Order % has not been paid.', v_order.order_number;
+  END IF;
+
+  IF public.has_role(ARRAY['owner', 'admin', 'manager']) THEN
+    v_approved_by := auth.uid();
+  ELSE
+    PERFORM public.check_manager_pin(p_approver_id, p_approver_pin);
+    v_approved_by := p_approver_id;
+  END IF;
+
+  -- Cash goes back out of the drawer of the cashier's open shift
+  SELECT id INTO v_shift_id FROM public.cash_shifts WHERE cashier_id = auth.uid() AND closed_at IS NULL;
+
+  IF p_method = 'cash' AND v_shift_id IS NULL THEN
+    RAISE EXCEPTION 'Open a shift before giving a cash refund.';
+  END IF;
+
+  SELECT COALESCE(SUM(total_price), 0) INTO v_subtotal
+  FROM public.order_items WHERE order_id = p_order_id AND voided_at IS NULL;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_refunded FROM public.order_refunds WHERE order_id = p_order_id;
+
+  INSERT INTO public.order_refunds (order_id, shift_id, method, reason, notes, restock, refunded_by, approved_by)
+  VALUES (
+    p_order_id, v_shift_id, p_method, trim(p_reason), NULLIF(trim(p_notes), ''),
+    COALESCE(p_restock, false), auth.uid(), v_approved_by
+  )
+  RETURNING id INTO v_refund_id;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+    v_quantity := (v_line->>'quantity')::INTEGER;
+
+    SELECT * INTO v_item FROM public.order_items
+    WHERE id = (v_line->>'order_item_id')::UUID AND order_id = p_order_id AND voided_at IS NULL;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item is not on order %.', v_order.order_number;
+    END IF;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Refund quantities must be at least 1.';
+    END IF;
+
+    -- Counts earlier refunds and any earlier entry for the same line in this one
+    SELECT v_item.quantity - COALESCE(SUM(quantity), 0) INTO v_remaining
+    FROM public.order_refund_items WHERE order_item_id = v_item.id;
+
+    IF v_quantity > v_remaining THEN
+      RAISE EXCEPTION 'Only % of % can still be refunded.',
+        v_remaining, (SELECT name FROM public.menu_items WHERE id = v_item.menu_item_id);
+    END IF;
+
+    v_line_amount := CASE WHEN v_subtotal = 0 THEN 0
+      ELSE round(v_item.total_price * v_quantity / v_item.quantity * v_order.total_amount / v_subtotal, 2) END;
+
+    INSERT INTO public.order_refund_items (refund_id, order_item_id, quantity, amount)
+    VALUES (v_refund_id, v_item.id, v_quantity, v_line_amount);
+
+    v_amount := v_amount + v_line_amount;
+  END LOOP;
+
+  v_is_full := NOT EXISTS (
+    SELECT 1 FROM public.order_items oi
+    WHERE oi.order_id = p_order_id AND oi.voided_at IS NULL
+      AND oi.quantity > (SELECT COALESCE(SUM(ri.quantity), 0) FROM public.order_refund_items ri WHERE ri.order_item_id = oi.id)
+  );
+
+  -- The refund that finishes the order takes whatever is left, so rounding never strands a few centavos
+  IF v_is_full OR v_amount > v_order.total_amount - v_refunded THEN
+    v_amount := v_order.total_amount - v_refunded;
+  END IF;
+
+  UPDATE public.order_refunds
+  SET amount = v_amount,
+      tax_amount = CASE WHEN v_order.total_amount > 0 THEN round(v_order.tax_amount * v_amount / v_order.total_amount, 2) ELSE 0 END
+  WHERE id = v_refund_id;
+
+  -- Stock only leaves inventory when an order is completed, so before that there is nothing to put back
+  IF p_restock THEN
+    SELECT EXISTS (
+      SELECT 1 FROM public.inventory_movements
+      WHERE order_id = p_order_id
+      GROUP BY inventory_id
+      HAVING SUM(quantity_change) <> 0
+    ) INTO v_is_deducted;
+
+    IF v_is_deducted THEN
+      INSERT INTO public.inventory_movements (inventory_id, order_id, quantity_change, reason, created_by)
+      SELECT r.inventory_id, p_order_id, SUM(r.quantity * ri.quantity), 'order_refunded', auth.uid()
+      FROM public.order_refund_items ri
+      JOIN public.order_items oi ON oi.id = ri.order_item_id
+      JOIN public.menu_item_ingredients r ON r.menu_item_id = oi.menu_item_id
+      WHERE ri.refund_id = v_refund_id
+      GROUP BY r.inventory_id;
+    END IF;
+  END IF;
+
+  v_new_status := CASE WHEN v_is_full THEN 'refunded' ELSE v_order.status END;
+
+  IF v_is_full THEN
+    UPDATE public.orders SET status = 'refunded' WHERE id = p_order_id;
+  END IF;
+
+  INSERT INTO public.order_actions (order_id, action_type, action_by, amount, reason, notes, before_values, after_values)
+  VALUES (
+    p_order_id, 'refund', auth.uid(), v_amount, trim(p_reason), NULLIF(trim(p_notes), ''),
+    jsonb_build_object('status', v_order.status, 'refunded_amount', v_refunded),
+    jsonb_build_object(
+      'status', v_new_status,
+      'refunded_amount', v_refunded + v_amount,
+      'refund_id', v_refund_id,
+      'method', p_method,
+      'restock', COALESCE(p_restock, false),
+      'approved_by', v_approved_by
+    )
+  );
+
+  PERFORM public.log_activity(
+    'order_action',
+    'Refunded ' || v_amount || ' on order ' || v_order.order_number,
+    jsonb_build_object('order_id', p_order_id, 'refund_id', v_refund_id, 'action', 'refund', 'approved_by', v_approved_by)
+  );
+
+  RETURN jsonb_build_object(
+    'refund_id', v_refund_id,
+    'amount', v_amount,
+    'refunded_amount', v_refunded + v_amount,
+    'status', v_new_status
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.refund_order(UUID, JSONB, TEXT, TEXT, TEXT, BOOLEAN, UUID, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.refund_order(UUID, JSONB, TEXT, TEXT, TEXT, BOOLEAN, UUID, TEXT) TO authenticated;
+
+-- A refund without lines, method or approval would skip everything above
+CREATE OR REPLACE FUNCTION public.apply_order_action(
+  p_order_id UUID,
+  p_action_type TEXT,
+  p_new_status TEXT,
+  p_expected_status TEXT DEFAULT NULL,
+  p_amount NUMERIC DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_client_request_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+BEGIN
+  IF NOT public.has_role(ARRAY['owner', 'admin', 'manager', 'cashier', 'staff']) THEN
+    RAISE EXCEPTION 'You do not have permission to update orders.';
+  END IF;
+
+  IF p_action_type = 'refund' OR p_new_status = 'refunded' THEN
+    RAISE EXCEPTION 'Refunds are made with refund_order.';
+  END IF;
+
+  IF p_client_request_id IS NOT NULL
+     AND EXISTS (SELECT 1 FROM public.order_actions WHERE client_request_id = p_client_request_id) THEN
+    RETURN jsonb_build_object('applied', true, 'duplicate', true);
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found.';
+  END IF;
+
+  IF p_expected_status IS NOT NULL AND v_order.status IS DISTINCT FROM p_expected_status THEN
+    -- Another device already made the same change
+    IF v_order.status = p_new_status THEN
+      RETURN jsonb_build_object('applied', true, 'duplicate', true);
+    END IF;
+
+    RETURN jsonb_build_object(
+      'applied', false,
+      'conflict', true,
+      'order_number', v_order.order_number,
+      'current_status', v_order.status
+    );
+  END IF;
+
+  UPDATE public.orders SET status = p_new_status WHERE id = p_order_id;
+
+  INSERT INTO public.order_actions (order_id, action_type, action_by, amount, reason, notes, client_request_id, before_values, after_values)
+  VALUES (
+    p_order_id, p_action_type, auth.uid(), p_amount, p_reason, p_notes, p_client_request_id,
+    jsonb_build_object('status', v_order.status),
+    jsonb_build_object('status', p_new_status)
+  );
+
+  PERFORM public.log_activity(
+    'order_action',
+    'Order ' || v_order.order_number || ' ' || p_action_type,
+    jsonb_build_object('order_id', p_order_id, 'action', p_action_type, 'new_status', p_new_status)
+  );
+
+  RETURN jsonb_build_object('applied', true, 'status', p_new_status);
+END;
+$$;
+
+-- Only cash refunds come out of the drawer
+CREATE OR REPLACE FUNCTION public.get_z_report(p_shift_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_shift public.cash_shifts%ROWTYPE;
+  v_until TIMESTAMP WITH TIME ZONE;
+  v_cash_sales NUMERIC(10,2);
+  v_cash_drops NUMERIC(10,2);
+  v_paid_outs NUMERIC(10,2);
+  v_refunds NUMERIC(10,2);
+  v_cash_refunds NUMERIC(10,2);
+  v_expected NUMERIC(10,2);
+BEGIN
+  SELECT * INTO v_shift FROM public.cash_shifts WHERE id = p_shift_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shift not found.';
+  END IF;
+
+  IF v_shift.cashier_id <> auth.uid() AND NOT public.has_role(ARRAY['owner', 'admin', 'manager']) THEN
+    RAISE EXCEPTION 'You can only view your own shifts.';
+  END IF;
+
+  v_until := COALESCE(v_shift.closed_at, now());
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_cash_sales
+  FROM public.order_payments WHERE shift_id = p_shift_id AND method = 'cash';
+
+  SELECT
+    COALESCE(SUM(amount) FILTER (WHERE movement_type = 'cash_drop'), 0),
+    COALESCE(SUM(amount) FILTER (WHERE movement_type = 'paid_out'), 0)
+  INTO v_cash_drops, v_paid_outs
+  FROM public.cash_movements WHERE shift_id = p_shift_id;
+
+  SELECT
+    COALESCE(SUM(amount), 0),
+    COALESCE(SUM(amount) FILTER (WHERE method = 'cash'), 0)
+  INTO v_refunds, v_cash_refunds
+  FROM public.order_refunds WHERE shift_id = p_shift_id;
+
+  v_expected := v_shift.opening_float + v_cash_sales - v_cash_drops - v_paid_outs - v_cash_refunds;
+
+  RETURN jsonb_build_object(
+    'shift_id', v_shift.id,
+    'cashier_id', v_shift.cashier_id,
+    'cashier_name', (SELECT full_name FROM public.profiles WHERE user_id = v_shift.cashier_id),
+    'business_date', public.business_date(v_shift.opened_at),
+    'opened_at', v_shift.opened_at,
+    'closed_at', v_shift.closed_at,
+    'opening_float', v_shift.opening_float,
+    'orders_paid', (SELECT COUNT(DISTINCT order_id) FROM public.order_payments WHERE shift_id = p_shift_id),
+    'gross_sales', (SELECT COALESCE(SUM(amount), 0) FROM public.order_payments WHERE shift_id = p_shift_id),
+    'sales_by_tender', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('method', method, 'count', payment_count, 'amount', total) ORDER BY method)
+      FROM (
+        SELECT method, COUNT(*) AS payment_count, SUM(amount) AS total
+        FROM public.order_payments WHERE shift_id = p_shift_id
+        GROUP BY method
+      ) tenders
+    ), '[]'::JSONB),
+    'cash_sales', v_cash_sales,
+    'cash_drops', v_cash_drops,
+    'paid_outs', v_paid_outs,
+    'refunds', jsonb_build_object(
+      'count', (SELECT COUNT(*) FROM public.order_refunds WHERE shift_id = p_shift_id),
+      'amount', v_refunds
+    ),
+    'cash_refunds', v_cash_refunds,
+    'discounts', (
+      SELECT jsonb_build_object('count', COUNT(*), 'amount', COALESCE(SUM(amount), 0))
+      FROM (
+        SELECT discount_amount AS amount FROM public.order_discounts
+        WHERE applied_by = v_shift.cashier_id AND created_at >= v_shift.opened_at AND created_at <= v_until
+      ) discounts
+    ),
+    'voids', (
+      SELECT jsonb_build_object('count', COUNT(*), 'amount', COALESCE(SUM(CASE WHEN a.action_type = 'void_item' THEN a.amount ELSE o.total_amount END), 0))
+      FROM public.order_actions a
+      JOIN public.orders o ON o.id = a.order_id
+      WHERE a.action_type IN ('cancel', 'void', 'void_item') AND a.action_by = v_shift.cashier_id
+        AND a.created_at >= v_shift.opened_at AND a.created_at <= v_until
+    ),
+    'expected_cash', v_expected,
+    'counted_cash', v_shift.counted_cash,
+    'variance', CASE WHEN v_shift.counted_cash IS NULL THEN NULL ELSE v_shift.counted_cash - v_expected END
+  );
+END;
+$$;
+
+-- Sales by order date, less refunds by the date they were given. Internal to the reports.
+CREATE OR REPLACE FUNCTION public.sales_ledger(p_start TIMESTAMP WITH TIME ZONE, p_end TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (occurred_at TIMESTAMP WITH TIME ZONE, amount NUMERIC, tax NUMERIC, is_order BOOLEAN)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT created_at, total_amount, tax_amount, true
+  FROM public.orders
+  WHERE status IN ('completed', 'refunded') AND created_at >= p_start AND created_at < p_end
+  UNION ALL
+  SELECT created_at, -amount, -tax_amount, false
+  FROM public.order_refunds
+  WHERE created_at >= p_start AND created_at < p_end;
+$$;
+
+-- The same for item and category mix, at menu prices
+CREATE OR REPLACE FUNCTION public.item_sales_ledger(p_start TIMESTAMP WITH TIME ZONE, p_end TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (menu_item_id UUID, quantity INTEGER, revenue NUMERIC)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT oi.menu_item_id, oi.quantity, oi.total_price
+  FROM public.order_items oi
+  JOIN public.orders o ON o.id = oi.order_id
+  WHERE o.status IN ('completed', 'refunded') AND oi.voided_at IS NULL
+    AND o.created_at >= p_start AND o.created_at < p_end
+  UNION ALL
+  SELECT oi.menu_item_id, -ri.quantity, -round(oi.total_price * ri.quantity / oi.quantity, 2)
+  FROM public.order_refund_items ri
+  JOIN public.order_refunds rf ON rf.id = ri.refund_id
+  JOIN public.order_items oi ON oi.id = ri.order_item_id
+  WHERE rf.created_at >= p_start AND rf.created_at < p_end;
+$$;
+
+-- Read every sale without a role check, so only the report functions may call them
+REVOKE ALL ON FUNCTION public.sales_ledger(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.item_sales_ledger(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+
+-- Net of refunds, which count on the day they were given
+CREATE OR REPLACE FUNCTION public.get_sales_report(p_from DATE, p_to DATE)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_days INTEGER;
+  v_start TIMESTAMP WITH TIME ZONE;
+  v_end TIMESTAMP WITH TIME ZONE;
+  v_prev_start TIMESTAMP WITH TIME ZONE;
+  v_tz TEXT;
+BEGIN
+  IF NOT public.has_role(ARRAY['owner', 'admin', 'manager']) THEN
+    RAISE EXCEPTION 'Only managers can view reports.';
+  END IF;
+
+  IF p_to < p_from THEN
+    RAISE EXCEPTION 'The end date is before the start date.';
+  END IF;
+
+  v_days := p_to - p_from + 1;
+  IF v_days > 366 THEN
+    RAISE EXCEPTION 'Reports cover at most a year at a time.';
+  END IF;
+
+  v_start := public.business_day_start(p_from);
+  v_end := public.business_day_start(p_to + 1);
+  v_prev_start := public.business_day_start(p_from - v_days);
+  SELECT timezone INTO v_tz FROM public.store_settings;
+
+  RETURN jsonb_build_object(
+    'summary', (
+      SELECT jsonb_build_object(
+        'sales', COALESCE(SUM(amount) FILTER (WHERE occurred_at >= v_start), 0),
+        'orders', COUNT(*) FILTER (WHERE is_order AND occurred_at >= v_start),
+        'tax', COALESCE(SUM(tax) FILTER (WHERE occurred_at >= v_start), 0),
+        'previous_sales', COALESCE(SUM(amount) FILTER (WHERE occurred_at < v_start), 0),
+        'previous_orders', COUNT(*) FILTER (WHERE is_order AND occurred_at < v_start)
+      )
+      FROM public.sales_ledger(v_prev_start, v_end)
+    ),
+    -- One row per day of the period, lined up with the same day of the previous period
+    'daily', (
+      SELECT jsonb_agg(jsonb_build_object(
+        'date', p_from + d.day_index,
+        'sales', COALESCE(cur.sales, 0),
+        'orders', COALESCE(cur.orders, 0),
+        'previous_sales', COALESCE(prev.sales, 0)
+      ) ORDER BY d.day_index)
+      FROM generate_series(0, v_days - 1) AS d(day_index)
+      LEFT JOIN (
+        SELECT public.business_date(occurred_at) - p_from AS day_index, SUM(amount) AS sales, COUNT(*) FILTER (WHERE is_order) AS orders
+        FROM public.sales_ledger(v_start, v_end)
+        GROUP BY 1
+      ) cur ON cur.day_index = d.day_index
+      LEFT JOIN (
+        SELECT public.business_date(occurred_at) - (p_from - v_days) AS day_index, SUM(amount) AS sales
+        FROM public.sales_ledger(v_prev_start, v_start)
+        GROUP BY 1
+      ) prev ON prev.day_index = d.day_index
+    ),
+    -- Clock time in the store, so a 1 AM sale shows at 1 AM even when it belongs to the day before. Weekday 1 = Monday
+    'heatmap', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('weekday', weekday, 'hour', hour, 'orders', orders, 'sales', sales))
+      FROM (
+        SELECT
+          EXTRACT(ISODOW FROM created_at AT TIME ZONE v_tz)::INTEGER AS weekday,
+          EXTRACT(HOUR FROM created_at AT TIME ZONE v_tz)::INTEGER AS hour,
+          COUNT(*) AS orders,
+          SUM(total_amount) AS sales
+        FROM public.orders
+        WHERE status IN ('completed', 'refunded') AND created_at >= v_start AND created_at < v_end
+        GROUP BY 1, 2
+      ) cells
+    ), '[]'::JSONB),
+    'categories', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('name', name, 'quantity', quantity, 'revenue', revenue) ORDER BY revenue DESC)
+      FROM (
+        SELECT COALESCE(c.name, 'Uncategorized') AS name, SUM(s.quantity) AS quantity, SUM(s.revenue) AS revenue
+        FROM public.item_sales_ledger(v_start, v_end) s
+        LEFT JOIN public.menu_items mi ON mi.id = s.menu_item_id
+        LEFT JOIN public.categories c ON c.id = mi.category_id
+        GROUP BY 1
+      ) category_mix
+    ), '[]'::JSONB),
+    'items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('name', name, 'quantity', quantity, 'revenue', revenue) ORDER BY revenue DESC)
+      FROM (
+        SELECT COALESCE(mi.name, 'Unknown Item') AS name, SUM(s.quantity) AS quantity, SUM(s.revenue) AS revenue
+        FROM public.item_sales_ledger(v_start, v_end) s
+        LEFT JOIN public.menu_items mi ON mi.id = s.menu_item_id
+        GROUP BY 1
+        ORDER BY revenue DESC
+        LIMIT 10
+      ) item_mix
+    ), '[]'::JSONB),
+    -- Credited to whoever took the payment
+    'cashiers', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'cashier_id', received_by,
+        'name', COALESCE((SELECT full_name FROM public.profiles WHERE user_id = received_by), 'Unknown'),
+        'orders', orders,
+        'sales', sales
+      ) ORDER BY sales DESC)
+      FROM (
+        SELECT p.received_by, COUNT(DISTINCT p.order_id) AS orders, SUM(p.amount) AS sales
+        FROM public.order_payments p
+        JOIN public.orders o ON o.id = p.order_id
+        WHERE o.status IN ('completed', 'refunded') AND o.created_at >= v_start AND o.created_at < v_end
+        GROUP BY p.received_by
+      ) cashier_sales
+    ), '[]'::JSONB),
+    -- Approval to ready is time in the kitchen; ready to completed is how long orders waited for pickup
+    'kitchen', (
+      SELECT jsonb_build_object(
+        'orders', COUNT(ready_at - approved_at),
+        'average_prep_minutes', round((AVG(EXTRACT(EPOCH FROM ready_at - approved_at)) / 60)::NUMERIC, 1),
+        'p90_prep_minutes', round((percentile_cont(0.9) WITHIN GROUP (ORDER BY EXTRACT(EPOCH FROM ready_at - approved_at)) / 60)::NUMERIC, 1),
+        'average_wait_minutes', round((AVG(EXTRACT(EPOCH FROM completed_at - ready_at)) / 60)::NUMERIC, 1)
+      )
+      FROM public.orders
+      WHERE status = 'completed' AND created_at >= v_start AND created_at < v_end
+    ),
+    'adjustments', jsonb_build_object(
+      'discounts', (
+        SELECT jsonb_build_object('count', COUNT(*), 'amount', COALESCE(SUM(d.discount_amount), 0))
+        FROM public.order_discounts d
+        JOIN public.orders o ON o.id = d.order_id
+        WHERE o.status IN ('completed', 'refunded') AND o.created_at >= v_start AND o.created_at < v_end
+      ),
+      'refunds', (
+        SELECT jsonb_build_object('count', COUNT(*), 'amount', COALESCE(SUM(amount), 0))
+        FROM public.order_refunds
+        WHERE created_at >= v_start AND created_at < v_end
+      ),
+      'voids', (
+        SELECT jsonb_build_object('count', COUNT(*), 'amount', COALESCE(SUM(CASE WHEN a.action_type = 'void_item' THEN a.amount ELSE o.total_amount END), 0))
+        FROM public.order_actions a
+        JOIN public.orders o ON o.id = a.order_id
+        WHERE a.action_type IN ('cancel', 'void', 'void_item') AND a.created_at >= v_start AND a.created_at < v_end
+      )
+    )
+  );
+END;
+$$;
+
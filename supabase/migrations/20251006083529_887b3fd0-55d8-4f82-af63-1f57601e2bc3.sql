@@ -0,0 +1,933 @@
+-- Which actions need a manager's PIN when someone below manager does them.
+-- refund_over and discount_over_percent are limits (0 means always, null never);
+-- the rest are on or off. Managers approve their own actions.
+ALTER TABLE public.store_settings
+  ADD COLUMN approval_rules JSONB NOT NULL
+  DEFAULT '{"refund_over": 0, "discount_over_percent": 20, "void": true, "price_override": true, "drawer_open": true}';
+
+-- Who signed off an action, next to who did it
+ALTER TABLE public.order_actions
+  ADD COLUMN approved_by UUID REFERENCES public.profiles(user_id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_order_actions_approved_by ON public.order_actions(approved_by);
+
+-- Refunds kept their approver in after_values, and discounts on order_discounts
+UPDATE public.order_actions
+SET approved_by = (after_values->>'approved_by')::UUID
+WHERE action_type = 'refund' AND after_values->>'approved_by' IS NOT NULL;
+
+UPDATE public.order_actions a
+SET approved_by = d.approved_by
+FROM public.order_discounts d
+WHERE a.action_type = 'discount' AND a.approved_by IS NULL
+  AND d.order_id = a.order_id AND d.discount_type = a.reason AND d.approved_by IS NOT NULL;
+
+-- The client asks for a manager's PIN when it sees one of these codes and tries again
+CREATE OR REPLACE FUNCTION public.check_manager_pin(p_manager_id UUID, p_pin TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_hash TEXT;
+BEGIN
+  IF p_manager_id IS NULL OR NULLIF(p_pin, '') IS NULL THEN
+    RAISE EXCEPTION 'A manager must approve this with their PIN.' USING ERRCODE = 'AP001';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE user_id = p_manager_id AND role = ANY(ARRAY['owner', 'admin', 'manager'])
+  ) THEN
+    RAISE EXCEPTION 'Only a manager can approve this.' USING ERRCODE = 'AP002';
+  END IF;
+
+  SELECT pin_hash INTO v_hash FROM public.staff_pins WHERE user_id = p_manager_id;
+
+  IF v_hash IS NULL THEN
+    RAISE EXCEPTION 'That manager has not set a PIN yet.' USING ERRCODE = 'AP002';
+  END IF;
+
+  IF v_hash <> extensions.crypt(p_pin, v_hash) THEN
+    RAISE EXCEPTION 'Incorrect PIN.' USING ERRCODE = 'AP002';
+  END IF;
+END;
+$$;
+
+-- Whether the store's rules want a manager for this action; p_value is the refund
+-- amount or the discount's share of what it applies to
+CREATE OR REPLACE FUNCTION public.approval_required(p_action TEXT, p_value NUMERIC DEFAULT NULL)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_rules JSONB;
+BEGIN
+  SELECT approval_rules INTO v_rules FROM public.store_settings;
+
+  RETURN CASE p_action
+    WHEN 'refund' THEN v_rules->>'refund_over' IS NOT NULL AND COALESCE(p_value, 0) > (v_rules->>'refund_over')::NUMERIC
+    WHEN 'discount' THEN v_rules->>'discount_over_percent' IS NOT NULL AND COALESCE(p_value, 0) > (v_rules->>'discount_over_percent')::NUMERIC
+    ELSE COALESCE((v_rules->>p_action)::BOOLEAN, false)
+  END;
+END;
+$$;
+
+-- Who approved an action that needed it: the user themselves if they are a manager,
+-- otherwise the manager whose PIN was entered. NULL when no approval was needed.
+CREATE OR REPLACE FUNCTION public.get_approver(p_required BOOLEAN, p_approver_id UUID, p_approver_pin TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NOT COALESCE(p_required, false) THEN
+    RETURN NULL;
+  END IF;
+
+  IF public.has_role(ARRAY['owner', 'admin', 'manager']) THEN
+    RETURN auth.uid();
+  END IF;
+
+  PERFORM public.check_manager_pin(p_approver_id, p_approver_pin);
+  RETURN p_approver_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.approval_required(TEXT, NUMERIC) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.get_approver(BOOLEAN, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- These take the approving manager and their PIN as two extra arguments
+DROP FUNCTION public.apply_order_action(UUID, TEXT, TEXT, TEXT, NUMERIC, TEXT, TEXT, UUID);
+DROP FUNCTION public.void_order(UUID, TEXT);
+DROP FUNCTION public.void_order_item(UUID, TEXT);
+DROP FUNCTION public.apply_discount(UUID, UUID, TEXT, UUID, TEXT, TEXT);
+DROP FUNCTION public.remove_discount(UUID);
+
+CREATE OR REPLACE FUNCTION public.apply_order_action(
+  p_order_id UUID,
+  p_action_type TEXT,
+  p_new_status TEXT,
+  p_expected_status TEXT DEFAULT NULL,
+  p_amount NUMERIC DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_client_request_id UUID DEFAULT NULL,
+  p_approver_id UUID DEFAULT NULL,
+  p_approver_pin TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_approved_by UUID;
+BEGIN
+  IF NOT public.has_role(ARRAY['owner', 'admin', 'manager', 'cashier', 'staff']) THEN
+    RAISE EXCEPTION 'You do not have permission to update orders.';
+  END IF;
+
+  IF p_action_type = 'refund' OR p_new_status = 'refunded' THEN
+    RAISE EXCEPTION 'Refunds are made with refund_order.';
+  END IF;
+
+  IF p_client_request_id IS NOT NULL
+     AND EXISTS (SELECT 1 FROM public.order_actions WHERE client_request_id = p_client_request_id) THEN
+    RETURN jsonb_build_object('applied', true, 'duplicate', true);
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found.';
+  END IF;
+
+  IF p_expected_status IS NOT NULL AND v_order.status IS DISTINCT FROM p_expected_status THEN
+    -- Another device already made the same change
+    IF v_order.status = p_new_status THEN
+      RETURN jsonb_build_object('applied', true, 'duplicate', true);
+    END IF;
+
+    RETURN jsonb_build_object(
+      'applied', false,
+      'conflict', true,
+      'order_number', v_order.order_number,
+      'current_status', v_order.status
+    );
+  END IF;
+
+  -- Cancelling is voiding an order that hasn't been paid
+  IF p_new_status = 'cancelled' THEN
+    v_approved_by := public.get_approver(public.approval_required('void'), p_approver_id, p_approver_pin);
+  END IF;
+
+  UPDATE public.orders SET status = p_new_status WHERE id = p_order_id;
+
+  INSERT INTO public.order_actions (order_id, action_type, action_by, approved_by, amount, reason, notes, client_request_id, before_values, after_values)
+  VALUES (
+    p_order_id, p_action_type, auth.uid(), v_approved_by, p_amount, p_reason, p_notes, p_client_request_id,
+    jsonb_build_object('status', v_order.status),
+    jsonb_build_object('status', p_new_status)
+  );
+
+  PERFORM public.log_activity(
+    'order_action',
+    'Order ' || v_order.order_number || ' ' || p_action_type,
+    jsonb_build_object('order_id', p_order_id, 'action', p_action_type, 'new_status', p_new_status)
+  );
+
+  RETURN jsonb_build_object('applied', true, 'status', p_new_status);
+END;
+$$;
+
+-- Replaces deleting orders: the order is cancelled and kept, with the void on record for the reports
+CREATE OR REPLACE FUNCTION public.void_order(
+  p_order_id UUID,
+  p_reason TEXT,
+  p_approver_id UUID DEFAULT NULL,
+  p_approver_pin TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_approved_by UUID;
+BEGIN
+  IF NOT public.has_role(ARRAY['owner', 'admin', 'manager', 'cashier']) THEN
+    RAISE EXCEPTION 'Only managers can void orders.';
+  END IF;
+
+  IF p_reason IS NULL OR length(trim(p_reason)) = 0 THEN
+    RAISE EXCEPTION 'Please give a reason for the void.';
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found.';
+  END IF;
+
+  IF v_order.status IN ('cancelled', 'refunded') THEN
+    RAISE EXCEPTION 'Order % is already %.', v_order.order_number, v_order.status;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.order_payments WHERE order_id = p_order_id) THEN
+    RAISE EXCEPTION 'Order % has been paid. Refund it instead of voiding it.', v_order.order_number;
+  END IF;
+
+  -- A cashier can void with a manager's PIN when voids need approval, and not at all otherwise
+  v_approved_by := public.get_approver(public.approval_required('void'), p_approver_id, p_approver_pin);
+
+  IF v_approved_by IS NULL AND NOT public.has_role(ARRAY['owner', 'admin', 'manager']) THEN
+    RAISE EXCEPTION 'Only managers can void orders.';
+  END IF;
+
+  UPDATE public.orders SET status = 'cancelled' WHERE id = p_order_id;
+
+  INSERT INTO public.order_actions (order_id, action_type, action_by, approved_by, amount, reason, before_values, after_values)
+  VALUES (
+    p_order_id, 'void', auth.uid(), v_approved_by, v_order.total_amount, trim(p_reason),
+    jsonb_build_object('status', v_order.status, 'total_amount', v_order.total_amount),
+    jsonb_build_object('status', 'cancelled')
+  );
+
+  PERFORM public.log_activity(
+    'order_action',
+    'Voided order ' || v_order.order_number,
+    jsonb_build_object('order_id', p_order_id, 'action', 'void', 'reason', trim(p_reason), 'approved_by', v_approved_by)
+  );
+
+  RETURN jsonb_build_object('status', 'cancelled');
+END;
+$$;
+
+-- The line stays on the order, marked void, and stops counting towards the totals
+CREATE OR REPLACE FUNCTION public.void_order_item(
+  p_order_item_id UUID,
+  p_reason TEXT,
+  p_approver_id UUID DEFAULT NULL,
+  p_approver_pin TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_item public.order_items%ROWTYPE;
+  v_order public.orders%ROWTYPE;
+  v_name TEXT;
+  v_before JSONB;
+  v_approved_by UUID;
+BEGIN
+  IF p_reason IS NULL OR length(trim(p_reason)) = 0 THEN
+    RAISE EXCEPTION 'Please give a reason for the void.';
+  END IF;
+
+  SELECT * INTO v_item FROM public.order_items WHERE id = p_order_item_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order line not found.';
+  END IF;
+
+  v_order := public.lock_editable_order(v_item.order_id);
+
+  SELECT * INTO v_item FROM public.order_items WHERE id = p_order_item_id;
+
+  IF v_item.voided_at IS NOT NULL THEN
+    RAISE EXCEPTION 'That line has already been voided.';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.order_items
+    WHERE order_id = v_item.order_id AND id <> p_order_item_id AND voided_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'This is the last item on the order. Void the whole order instead.';
+  END IF;
+
+  v_approved_by := public.get_approver(public.approval_required('void'), p_approver_id, p_approver_pin);
+
+  SELECT name INTO v_name FROM public.menu_items WHERE id = v_item.menu_item_id;
+  v_before := public.get_order_totals_snapshot(v_item.order_id)
+    || jsonb_build_object('quantity', v_item.quantity, 'total_price', v_item.total_price);
+
+  UPDATE public.order_items
+  SET voided_at = now(),
+      voided_by = auth.uid(),
+      void_reason = trim(p_reason),
+      vat_amount = 0
+  WHERE id = p_order_item_id;
+
+  PERFORM public.recalculate_order_totals(v_item.order_id);
+
+  INSERT INTO public.order_actions (order_id, order_item_id, action_type, action_by, approved_by, amount, reason, before_values, after_values)
+  VALUES (
+    v_item.order_id, p_order_item_id, 'void_item', auth.uid(), v_approved_by, v_item.total_price, trim(p_reason),
+    v_before,
+    public.get_order_totals_snapshot(v_item.order_id) || jsonb_build_object('voided', true)
+  );
+
+  PERFORM public.log_activity(
+    'order_edit',
+    'Voided ' || COALESCE(v_name, 'item') || ' on order ' || v_order.order_number,
+    jsonb_build_object('order_id', v_item.order_id, 'order_item_id', p_order_item_id, 'action', 'void_item', 'reason', trim(p_reason), 'approved_by', v_approved_by)
+  );
+
+  RETURN public.get_order_totals_snapshot(v_item.order_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_discount(
+  p_order_id UUID,
+  p_discount_type_id UUID DEFAULT NULL,
+  p_promo_code TEXT DEFAULT NULL,
+  p_order_item_id UUID DEFAULT NULL,
+  p_id_number TEXT DEFAULT NULL,
+  p_id_holder_name TEXT DEFAULT NULL,
+  p_approver_id UUID DEFAULT NULL,
+  p_approver_pin TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_type public.discount_types%ROWTYPE;
+  v_discount_id UUID;
+  v_amount NUMERIC(10,2);
+  v_base NUMERIC(10,2);
+  v_approved_by UUID;
+BEGIN
+  IF NOT public.has_role(ARRAY['owner', 'admin', 'manager', 'cashier']) THEN
+    RAISE EXCEPTION 'Only cashiers can apply discounts.';
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found.';
+  END IF;
+
+  IF v_order.status NOT IN ('pending', 'preparing', 'ready') THEN
+    RAISE EXCEPTION 'Order % is %.', v_order.order_number, v_order.status;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.order_payments WHERE order_id = p_order_id) THEN
+    RAISE EXCEPTION 'Apply discounts before taking payment.';
+  END IF;
+
+  IF p_discount_type_id IS NOT NULL THEN
+    SELECT * INTO v_type FROM public.discount_types WHERE id = p_discount_type_id AND is_active;
+  ELSE
+    SELECT * INTO v_type FROM public.discount_types WHERE upper(code) = upper(trim(p_promo_code)) AND is_active;
+  END IF;
+
+  IF v_type.id IS NULL THEN
+    RAISE EXCEPTION 'Discount not found or no longer active.';
+  END IF;
+
+  IF v_type.code IS NOT NULL AND upper(v_type.code) IS DISTINCT FROM upper(trim(p_promo_code)) THEN
+    RAISE EXCEPTION 'Enter the promo code to apply %.', v_type.name;
+  END IF;
+
+  IF v_type.scope = 'item' AND p_order_item_id IS NULL THEN
+    RAISE EXCEPTION 'Pick the item to apply % to.', v_type.name;
+  END IF;
+
+  IF v_type.scope = 'order' AND p_order_item_id IS NOT NULL THEN
+    RAISE EXCEPTION '% applies to the whole order.', v_type.name;
+  END IF;
+
+  IF p_order_item_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.order_items WHERE id = p_order_item_id AND order_id = p_order_id
+  ) THEN
+    RAISE EXCEPTION 'Item is not on order %.', v_order.order_number;
+  END IF;
+
+  IF v_type.requires_id AND (NULLIF(trim(p_id_number), '') IS NULL OR NULLIF(trim(p_id_holder_name), '') IS NULL) THEN
+    RAISE EXCEPTION 'Enter the ID number and name for the % discount.', v_type.name;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.order_discounts
+    WHERE order_id = p_order_id AND discount_type_id = v_type.id
+      AND order_item_id IS NOT DISTINCT FROM p_order_item_id
+  ) THEN
+    RAISE EXCEPTION '% has already been applied.', v_type.name;
+  END IF;
+
+  -- The same type can go on several lines (one senior per item), but a
+  -- non-stackable discount cannot share the order with any other discount
+  IF EXISTS (
+    SELECT 1
+    FROM public.order_discounts d
+    LEFT JOIN public.discount_types t ON t.id = d.discount_type_id
+    WHERE d.order_id = p_order_id
+      AND d.discount_type_id IS DISTINCT FROM v_type.id
+      AND (NOT v_type.stackable OR NOT COALESCE(t.stackable, false))
+  ) THEN
+    RAISE EXCEPTION '% cannot be combined with the other discounts on this order.', v_type.name;
+  END IF;
+
+  INSERT INTO public.order_discounts (
+    order_id, discount_type_id, discount_type, discount_value, order_item_id,
+    id_number, id_holder_name, applied_by
+  )
+  VALUES (
+    p_order_id, v_type.id, v_type.name, v_type.value, p_order_item_id,
+    NULLIF(trim(p_id_number), ''), NULLIF(trim(p_id_holder_name), ''), auth.uid()
+  )
+  RETURNING id INTO v_discount_id;
+
+  PERFORM public.recalculate_order_totals(p_order_id);
+
+  SELECT discount_amount INTO v_amount FROM public.order_discounts WHERE id = v_discount_id;
+
+  -- Big discounts are judged by the share they take off the line or order, so fixed
+  -- amounts and percentages are held to the same limit
+  SELECT COALESCE(SUM(total_price), 0) INTO v_base
+  FROM public.order_items
+  WHERE order_id = p_order_id AND voided_at IS NULL AND (p_order_item_id IS NULL OR id = p_order_item_id);
+
+  v_approved_by := public.get_approver(
+    v_type.requires_approval
+      OR public.approval_required('discount', CASE WHEN v_base > 0 THEN v_amount * 100 / v_base ELSE 0 END),
+    p_approver_id,
+    p_approver_pin
+  );
+
+  UPDATE public.order_discounts SET approved_by = v_approved_by WHERE id = v_discount_id;
+
+  INSERT INTO public.order_actions (order_id, action_type, action_by, approved_by, amount, reason)
+  VALUES (p_order_id, 'discount', auth.uid(), v_approved_by, v_amount, v_type.name);
+
+  RETURN (
+    SELECT jsonb_build_object(
+      'total_amount', total_amount,
+      'tax_amount', tax_amount,
+      'discount_amount', discount_amount,
+      'vat_exempt_amount', vat_exempt_amount
+    )
+    FROM public.orders WHERE id = p_order_id
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.remove_discount(
+  p_discount_id UUID,
+  p_approver_id UUID DEFAULT NULL,
+  p_approver_pin TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_discount public.order_discounts%ROWTYPE;
+  v_order public.orders%ROWTYPE;
+  v_approved_by UUID;
+BEGIN
+  IF NOT public.has_role(ARRAY['owner', 'admin', 'manager', 'cashier']) THEN
+    RAISE EXCEPTION 'Only cashiers can remove discounts.';
+  END IF;
+
+  SELECT * INTO v_discount FROM public.order_discounts WHERE id = p_discount_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Discount not found.';
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = v_discount.order_id FOR UPDATE;
+
+  IF v_order.status NOT IN ('pending', 'preparing', 'ready') THEN
+    RAISE EXCEPTION 'Order % is %.', v_order.order_number, v_order.status;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.order_payments WHERE order_id = v_order.id) THEN
+    RAISE EXCEPTION 'Order % has already been paid.', v_order.order_number;
+  END IF;
+
+  -- A discount a manager signed off on takes a manager to take off again
+  v_approved_by := public.get_approver(v_discount.approved_by IS NOT NULL, p_approver_id, p_approver_pin);
+
+  DELETE FROM public.order_discounts WHERE id = p_discount_id;
+
+  PERFORM public.recalculate_order_totals(v_order.id);
+
+  INSERT INTO public.order_actions (order_id, action_type, action_by, approved_by, amount, reason)
+  VALUES (v_order.id, 'discount_removed', auth.uid(), v_approved_by, v_discount.discount_amount, v_discount.discount_type);
+
+  RETURN (
+    SELECT jsonb_build_object(
+      'total_amount', total_amount,
+      'tax_amount', tax_amount,
+      'discount_amount', discount_amount,
+      'vat_exempt_amount', vat_exempt_amount
+    )
+    FROM public.orders WHERE id = v_order.id
+  );
+END;
+$$;
+
+-- Changes what one line is charged, e.g. to match a price the customer was quoted
+CREATE OR REPLACE FUNCTION public.override_order_item_price(
+  p_order_item_id UUID,
+  p_unit_price NUMERIC,
+  p_reason TEXT,
+  p_approver_id UUID DEFAULT NULL,
+  p_approver_pin TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_item public.order_items%ROWTYPE;
+  v_order public.orders%ROWTYPE;
+  v_name TEXT;
+  v_before JSONB;
+  v_approved_by UUID;
+BEGIN
+  IF p_unit_price IS NULL OR p_unit_price < 0 THEN
+    RAISE EXCEPTION 'Enter a price of zero or more.';
+  END IF;
+
+  IF p_reason IS NULL OR length(trim(p_reason)) = 0 THEN
+    RAISE EXCEPTION 'Please give a reason for the price change.';
+  END IF;
+
+  SELECT * INTO v_item FROM public.order_items WHERE id = p_order_item_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order line not found.';
+  END IF;
+
+  v_order := public.lock_editable_order(v_item.order_id);
+
+  SELECT * INTO v_item FROM public.order_items WHERE id = p_order_item_id;
+
+  IF v_item.voided_at IS NOT NULL THEN
+    RAISE EXCEPTION 'That line has already been voided.';
+  END IF;
+
+  IF round(p_unit_price, 2) = v_item.unit_price THEN
+    RETURN public.get_order_totals_snapshot(v_item.order_id);
+  END IF;
+
+  v_approved_by := public.get_approver(public.approval_required('price_override'), p_approver_id, p_approver_pin);
+
+  SELECT name INTO v_name FROM public.menu_items WHERE id = v_item.menu_item_id;
+  v_before := public.get_order_totals_snapshot(v_item.order_id)
+    || jsonb_build_object('unit_price', v_item.unit_price, 'total_price', v_item.total_price);
+
+  UPDATE public.order_items
+  SET unit_price = round(p_unit_price, 2),
+      total_price = round(p_unit_price, 2) * quantity
+  WHERE id = p_order_item_id;
+
+  PERFORM public.recalculate_order_totals(v_item.order_id);
+
+  INSERT INTO public.order_actions (order_id, order_item_id, action_type, action_by, approved_by, amount, reason, before_values, after_values)
+  VALUES (
+    v_item.order_id, p_order_item_id, 'price_override', auth.uid(), v_approved_by,
+    (round(p_unit_price, 2) - v_item.unit_price) * v_item.quantity, trim(p_reason),
+    v_before,
+    public.get_order_totals_snapshot(v_item.order_id)
+      || jsonb_build_object('unit_price', round(p_unit_price, 2), 'total_price', round(p_unit_price, 2) * v_item.quantity)
+  );
+
+  PERFORM public.log_activity(
+    'order_edit',
+    'Changed the price of ' || COALESCE(v_name, 'item') || ' from ' || v_item.unit_price || ' to ' || round(p_unit_price, 2) || ' on order ' || v_order.order_number,
+    jsonb_build_object('order_id', v_item.order_id, 'order_item_id', p_order_item_id, 'action', 'price_override', 'approved_by', v_approved_by)
+  );
+
+  RETURN public.get_order_totals_snapshot(v_item.order_id);
+END;
+$$;
+
+-- Opening the drawer without a sale. The till kicks the drawer open once this returns.
+CREATE OR REPLACE FUNCTION public.open_cash_drawer(
+  p_reason TEXT,
+  p_approver_id UUID DEFAULT NULL,
+  p_approver_pin TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_shift_id UUID;
+  v_approved_by UUID;
+BEGIN
+  IF NOT public.has_role(ARRAY['owner', 'admin', 'manager', 'cashier']) THEN
+    RAISE EXCEPTION 'Only cashiers can open the cash drawer.';
+  END IF;
+
+  IF p_reason IS NULL OR length(trim(p_reason)) = 0 THEN
+    RAISE EXCEPTION 'Please give a reason for opening the drawer.';
+  END IF;
+
+  SELECT id INTO v_shift_id FROM public.cash_shifts WHERE cashier_id = auth.uid() AND closed_at IS NULL;
+
+  IF v_shift_id IS NULL THEN
+    RAISE EXCEPTION 'Open a shift before opening the drawer.';
+  END IF;
+
+  v_approved_by := public.get_approver(public.approval_required('drawer_open'), p_approver_id, p_approver_pin);
+
+  PERFORM public.log_activity(
+    'drawer_open',
+    'Opened the cash drawer: ' || trim(p_reason),
+    jsonb_build_object('shift_id', v_shift_id, 'action', 'open_drawer', 'reason', trim(p_reason), 'approved_by', v_approved_by)
+  );
+
+  RETURN jsonb_build_object('shift_id', v_shift_id, 'approved_by', v_approved_by);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.apply_order_action(UUID, TEXT, TEXT, TEXT, NUMERIC, TEXT, TEXT, UUID, UUID, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.apply_order_action(UUID, TEXT, TEXT, TEXT, NUMERIC, TEXT, TEXT, UUID, UUID, TEXT) TO authenticated;
+REVOKE ALL ON FUNCTION public.void_order(UUID, TEXT, UUID, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.void_order(UUID, TEXT, UUID, TEXT) TO authenticated;
+REVOKE ALL ON FUNCTION public.void_order_item(UUID, TEXT, UUID, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.void_order_item(UUID, TEXT, UUID, TEXT) TO authenticated;
+REVOKE ALL ON FUNCTION public.apply_discount(UUID, UUID, TEXT, UUID, TEXT, TEXT, UUID, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.apply_discount(UUID, UUID, TEXT, UUID, TEXT, TEXT, UUID, TEXT) TO authenticated;
+REVOKE ALL ON FUNCTION public.remove_discount(UUID, UUID, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.remove_discount(UUID, UUID, TEXT) TO authenticated;
+REVOKE ALL ON FUNCTION public.override_order_item_price(UUID, NUMERIC, TEXT, UUID, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.override_order_item_price(UUID, NUMERIC, TEXT, UUID, TEXT) TO authenticated;
+REVOKE ALL ON FUNCTION public.open_cash_drawer(TEXT, UUID, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.open_cash_drawer(TEXT, UUID, TEXT) TO authenticated;
+
+-- Refunds over the store's limit need a manager's PIN when a cashier gives them
+CREATE OR REPLACE FUNCTION public.refund_order(
+  p_order_id UUID,
+  p_items JSONB,
+  p_method TEXT,
+  p_reason TEXT,
+  p_notes TEXT DEFAULT NULL,
+  p_restock BOOLEAN DEFAULT false,
+  p_approver_id UUID DEFAULT NULL,
+  p_approver_pin TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_item public.order_items%ROWTYPE;
+  v_line JSONB;
+  v_quantity INTEGER;
+  v_remaining INTEGER;
+  v_subtotal NUMERIC(10,2);
+  v_refunded NUMERIC(10,2);
+  v_line_amount NUMERIC(10,2);
+  v_amount NUMERIC(10,2) := 0;
+  v_approved_by UUID;
+  v_shift_id UUID;
+  v_refund_id UUID;
+  v_is_full BOOLEAN;
+  v_is_deducted BOOLEAN;
+  v_new_status TEXT;
+BEGIN
+  IF NOT public.has_role(ARRAY['owner', 'admin', 'manager', 'cashier']) THEN
+    RAISE EXCEPTION 'Only cashiers can refund orders.';
+  END IF;
+
+  IF NULLIF(trim(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'Enter a reason for the refund.';
+  END IF;
+
+  IF p_method IS NULL OR p_method NOT IN ('cash', 'gcash', 'maya', 'card') THEN
+    RAISE EXCEPTION 'Invalid refund method: %', p_method;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Pick the items to refund.';
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found.';
+  END IF;
+
+  IF v_order.status NOT IN ('ready', 'completed') THEN
+    RAISE EXCEPTION 'Order % is % and cannot be refunded.', v_order.order_number, v_order.status;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.order_payments WHERE order_id = p_order_id) THEN
+    RAISE EXCEPTION 'Order % has not been paid.', v_order.order_number;
+  END IF;
+
+  -- Cash goes back out of the drawer of the cashier's open shift
+  SELECT id INTO v_shift_id FROM public.cash_shifts WHERE cashier_id = auth.uid() AND closed_at IS NULL;
+
+  IF p_method = 'cash' AND v_shift_id IS NULL THEN
+    RAISE EXCEPTION 'Open a shift before giving a cash refund.';
+  END IF;
+
+  SELECT COALESCE(SUM(total_price), 0) INTO v_subtotal
+  FROM public.order_items WHERE order_id = p_order_id AND voided_at IS NULL;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_refunded FROM public.order_refunds WHERE order_id = p_order_id;
+
+  INSERT INTO public.order_refunds (order_id, shift_id, method, reason, notes, restock, refunded_by)
+  VALUES (
+    p_order_id, v_shift_id, p_method, trim(p_reason), NULLIF(trim(p_notes), ''),
+    COALESCE(p_restock, false), auth.uid()
+  )
+  RETURNING id INTO v_refund_id;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+    v_quantity := (v_line->>'quantity')::INTEGER;
+
+    SELECT * INTO v_item FROM public.order_items
+    WHERE id = (v_line->>'order_item_id')::UUID AND order_id = p_order_id AND voided_at IS NULL;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item is not on order %.', v_order.order_number;
+    END IF;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Refund quantities must be at least 1.';
+    END IF;
+
+    -- Counts earlier refunds and any earlier entry for the same line in this one
+    SELECT v_item.quantity - COALESCE(SUM(quantity), 0) INTO v_remaining
+    FROM public.order_refund_items WHERE order_item_id = v_item.id;
+
+    IF v_quantity > v_remaining THEN
+      RAISE EXCEPTION 'Only % of % can still be refunded.',
+        v_remaining, (SELECT name FROM public.menu_items WHERE id = v_item.menu_item_id);
+    END IF;
+
+    v_line_amount := CASE WHEN v_subtotal = 0 THEN 0
+      ELSE round(v_item.total_price * v_quantity / v_item.quantity * v_order.total_amount / v_subtotal, 2) END;
+
+    INSERT INTO public.order_refund_items (refund_id, order_item_id, quantity, amount)
+    VALUES (v_refund_id, v_item.id, v_quantity, v_line_amount);
+
+    v_amount := v_amount + v_line_amount;
+  END LOOP;
+
+  v_is_full := NOT EXISTS (
+    SELECT 1 FROM public.order_items oi
+    WHERE oi.order_id = p_order_id AND oi.voided_at IS NULL
+      AND oi.quantity > (SELECT COALESCE(SUM(ri.quantity), 0) FROM public.order_refund_items ri WHERE ri.order_item_id = oi.id)
+  );
+
+  -- The refund that finishes the order takes whatever is left, so rounding never strands a few centavos
+  IF v_is_full OR v_amount > v_order.total_amount - v_refunded THEN
+    v_amount := v_order.total_amount - v_refunded;
+  END IF;
+
+  -- Whether it needs a manager depends on how much it comes to
+  v_approved_by := public.get_approver(public.approval_required('refund', v_amount), p_approver_id, p_approver_pin);
+
+  UPDATE public.order_refunds
+  SET amount = v_amount,
+      approved_by = v_approved_by,
+      tax_amount = CASE WHEN v_order.total_amount > 0 THEN round(v_order.tax_amount * v_amount / v_order.total_amount, 2) ELSE 0 END
+  WHERE id = v_refund_id;
+
+  -- Stock only leaves inventory when an order is completed, so before that there is nothing to put back
+  IF p_restock THEN
+    SELECT EXISTS (
+      SELECT 1 FROM public.inventory_movements
+      WHERE order_id = p_order_id
+      GROUP BY inventory_id
+      HAVING SUM(quantity_change) <> 0
+    ) INTO v_is_deducted;
+
+    IF v_is_deducted THEN
+      INSERT INTO public.inventory_movements (inventory_id, order_id, quantity_change, reason, created_by)
+      SELECT r.inventory_id, p_order_id, SUM(r.quantity * ri.quantity), 'order_refunded', auth.uid()
+      FROM public.order_refund_items ri
+      JOIN public.order_items oi ON oi.id = ri.order_item_id
+      JOIN public.menu_item_ingredients r ON r.menu_item_id = oi.menu_item_id
+      WHERE ri.refund_id = v_refund_id
+      GROUP BY r.inventory_id;
+    END IF;
+  END IF;
+
+  v_new_status := CASE WHEN v_is_full THEN 'refunded' ELSE v_order.status END;
+
+  IF v_is_full THEN
+    UPDATE public.orders SET status = 'refunded' WHERE id = p_order_id;
+  END IF;
+
+  INSERT INTO public.order_actions (order_id, action_type, action_by, approved_by, amount, reason, notes, before_values, after_values)
+  VALUES (
+    p_order_id, 'refund', auth.uid(), v_approved_by, v_amount, trim(p_reason), NULLIF(trim(p_notes), ''),
+    jsonb_build_object('status', v_order.status, 'refunded_amount', v_refunded),
+    jsonb_build_object(
+      'status', v_new_status,
+      'refunded_amount', v_refunded + v_amount,
+      'refund_id', v_refund_id,
+      'method', p_method,
+      'restock', COALESCE(p_restock, false)
+    )
+  );
+
+  PERFORM public.log_activity(
+    'order_action',
+    'Refunded ' || v_amount || ' on order ' || v_order.order_number,
+    jsonb_build_object('order_id', p_order_id, 'refund_id', v_refund_id, 'action', 'refund', 'approved_by', v_approved_by)
+  );
+
+  RETURN jsonb_build_object(
+    'refund_id', v_refund_id,
+    'amount', v_amount,
+    'refunded_amount', v_refunded + v_amount,
+    'status', v_new_status
+  );
+END;
+$$;
+
+-- Approvals show next to the action they were given for
+CREATE OR REPLACE FUNCTION public.get_order_timeline(p_order_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NOT public.has_role(ARRAY['owner', 'admin', 'manager']) THEN
+    RAISE EXCEPTION 'Only managers can view the order history.';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.orders WHERE id = p_order_id) THEN
+    RAISE EXCEPTION 'Order not found.';
+  END IF;
+
+  RETURN COALESCE((
+    SELECT jsonb_agg(jsonb_build_object(
+      'at', e.at,
+      'source', e.source,
+      'type', e.type,
+      'actor_id', e.actor_id,
+      'actor_name', p.full_name,
+      'approver_id', e.approver_id,
+      'approver_name', ap.full_name,
+      'item', e.item,
+      'amount', e.amount,
+      'reason', e.reason,
+      'notes', e.notes,
+      'description', e.description,
+      'before_values', e.before_values,
+      'after_values', e.after_values
+    ) ORDER BY e.at, e.source_order)
+    FROM (
+      -- Orders come in from the menu, so there is nobody to name
+      SELECT o.created_at AS at, 0 AS source_order, 'order' AS source, 'created' AS type, NULL::UUID AS actor_id,
+        NULL::UUID AS approver_id, NULL::TEXT AS item, o.total_amount AS amount, NULL::TEXT AS reason, o.customer_notes AS notes,
+        NULL::TEXT AS description, NULL::JSONB AS before_values,
+        jsonb_build_object('customer_name', o.customer_name, 'order_type', o.order_type) AS after_values
+      FROM public.orders o
+      WHERE o.id = p_order_id
+
+      UNION ALL
+
+      SELECT a.created_at, 1, 'action', a.action_type, a.action_by,
+        a.approved_by, m.name, a.amount, a.reason, a.notes,
+        NULL, a.before_values, a.after_values
+      FROM public.order_actions a
+      LEFT JOIN public.order_items i ON i.id = a.order_item_id
+      LEFT JOIN public.menu_items m ON m.id = i.menu_item_id
+      WHERE a.order_id = p_order_id
+
+      UNION ALL
+
+      SELECT pay.created_at, 3, 'payment', 'payment', pay.received_by,
+        NULL, NULL, pay.amount, NULL, pay.reference_number,
+        NULL, NULL,
+        jsonb_build_object('method', pay.method, 'amount_tendered', pay.amount_tendered, 'change_given', pay.change_given)
+      FROM public.order_payments pay
+      WHERE pay.order_id = p_order_id
+
+      UNION ALL
+
+      -- These repeat what order_actions already has; the status ones come from the log_order_activity trigger
+      SELECT l.created_at, 4, 'activity', l.action, l.user_id,
+        NULL, NULL, NULL, NULL, NULL,
+        l.description, NULL, l.metadata
+      FROM public.activity_logs l
+      WHERE l.metadata->>'order_id' = p_order_id::TEXT
+        AND l.action NOT IN ('order_action', 'order_edit', 'order_created', 'order_status_changed')
+
+      UNION ALL
+
+      SELECT s.created_at, 5, 'sales_log', s.action, s.user_id,
+        NULL, NULL, s.amount, NULL, NULL,
+        s.description, NULL, s.metadata
+      FROM public.sales_logs s
+      WHERE s.order_id = p_order_id
+    ) e
+    LEFT JOIN public.profiles p ON p.user_id = e.actor_id
+    LEFT JOIN public.profiles ap ON ap.user_id = e.approver_id
+  ), '[]'::JSONB);
+END;
+$$;
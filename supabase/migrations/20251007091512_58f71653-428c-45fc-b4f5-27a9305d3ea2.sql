@@ -0,0 +1,10 @@
+-- Orders, their lines and modifiers only change through the order RPCs, which check
+-- transitions, manager approval and recalculate totals. Writing the tables directly
+-- skipped all of that, so staff keep read access only.
+DROP POLICY IF EXISTS "Staff can update orders" ON public.orders;
+DROP POLICY IF EXISTS "Cashiers can manage order items" ON public.order_items;
+DROP POLICY IF EXISTS "Cashiers can manage order item modifiers" ON public.order_item_modifiers;
+
+-- The kitchen was the last client writing order_actions itself; the RPCs record them
+-- now, so a row can't be made up with someone else's approval on it
+DROP POLICY IF EXISTS "Staff can record order actions" ON public.order_actions;
@@ -0,0 +1,82 @@
+-- A paid order could be cancelled, which took the sale out of the reports while the
+-- money stayed in the drawer. Paid orders go through refund_order instead.
+CREATE OR REPLACE FUNCTION public.apply_order_action(
+  p_order_id UUID,
+  p_action_type TEXT,
+  p_new_status TEXT,
+  p_expected_status TEXT DEFAULT NULL,
+  p_amount NUMERIC DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_client_request_id UUID DEFAULT NULL,
+  p_approval_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_approved_by UUID;
+BEGIN
+  IF NOT public.has_role(ARRAY['owner', 'admin', 'manager', 'cashier', 'staff']) THEN
+    RAISE EXCEPTION 'You do not have permission to update orders.';
+  END IF;
+
+  IF p_action_type = 'refund' OR p_new_status = 'refunded' THEN
+    RAISE EXCEPTION 'Refunds are made with refund_order.';
+  END IF;
+
+  IF p_client_request_id IS NOT NULL
+     AND EXISTS (SELECT 1 FROM public.order_actions WHERE client_request_id = p_client_request_id) THEN
+    RETURN jsonb_build_object('applied', true, 'duplicate', true);
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found.';
+  END IF;
+
+  IF p_expected_status IS NOT NULL AND v_order.status IS DISTINCT FROM p_expected_status THEN
+    -- Another device already made the same change
+    IF v_order.status = p_new_status THEN
+      RETURN jsonb_build_object('applied', true, 'duplicate', true);
+    END IF;
+
+    RETURN jsonb_build_object(
+      'applied', false,
+      'conflict', true,
+      'order_number', v_order.order_number,
+      'current_status', v_order.status
+    );
+  END IF;
+
+  -- Cancelling is voiding an order that hasn't been paid; once it has, it's a refund
+  IF p_new_status = 'cancelled' THEN
+    IF EXISTS (SELECT 1 FROM public.order_payments WHERE order_id = p_order_id) THEN
+      RAISE EXCEPTION 'Order % has been paid. Refund it instead of cancelling it.', v_order.order_number;
+    END IF;
+
+    v_approved_by := public.get_approver('void', public.approval_required('void'), p_approval_id);
+  END IF;
+
+  UPDATE public.orders SET status = p_new_status WHERE id = p_order_id;
+
+  INSERT INTO public.order_actions (order_id, action_type, action_by, approved_by, amount, reason, notes, client_request_id, before_values, after_values)
+  VALUES (
+    p_order_id, p_action_type, auth.uid(), v_approved_by, p_amount, p_reason, p_notes, p_client_request_id,
+    jsonb_build_object('status', v_order.status),
+    jsonb_build_object('status', p_new_status)
+  );
+
+  PERFORM public.log_activity(
+    'order_action',
+    'Order ' || v_order.order_number || ' ' || p_action_type,
+    jsonb_build_object('order_id', p_order_id, 'action', p_action_type, 'new_status', p_new_status)
+  );
+
+  RETURN jsonb_build_object('applied', true, 'status', p_new_status);
+END;
+$$;